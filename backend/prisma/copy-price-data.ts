@@ -0,0 +1,48 @@
+import { PrismaClient } from "@prisma/client";
+import { INTERVAL_MS } from "../src/modules/market-data/market-data.types";
+
+const prisma = new PrismaClient();
+
+/**
+ * One-off copy of the legacy price_data history into candles, which is
+ * where CandleRepository reads and writes live data now. Safe to re-run:
+ * candles that already exist are left untouched. Binance-only fields
+ * (quote volume, trades, taker volumes) were never stored and are zeroed.
+ */
+async function main() {
+  console.log("📦 Copying price_data into candles...");
+
+  let total = 0;
+  for (const [interval, step] of Object.entries(INTERVAL_MS)) {
+    const copied = await prisma.$executeRaw`
+      INSERT INTO candles (
+        id, symbol, "interval", open_time, open, high, low, close, volume,
+        close_time, quote_volume, trades, taker_buy_base, taker_buy_quote,
+        created_at
+      )
+      SELECT
+        gen_random_uuid()::text, c.binance_symbol, p.timeframe, p."timestamp",
+        p.open, p.high, p.low, p.close, p.volume,
+        p."timestamp" + make_interval(secs => ${(step - 1) / 1000}::float8),
+        0, 0, 0, 0, now()
+      FROM price_data p
+      JOIN cryptocurrencies c ON c.id = p.crypto_id
+      WHERE p.timeframe = ${interval}
+      ON CONFLICT (symbol, "interval", open_time) DO NOTHING
+    `;
+
+    if (copied > 0) console.log(`  ✅ ${interval}: ${copied} candles`);
+    total += copied;
+  }
+
+  console.log(`\n✅ Copied ${total} candles`);
+}
+
+main()
+  .catch((e) => {
+    console.error("❌ Error copying price data:", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -46,8 +46,6 @@ async function seedStrategies() {
           rsiOverbought: 70,
           rsiOversold: 30,
           volumeMultiplier: 1.5,
-          useEmaFilter: true,
-          emaPeriod: 20,
         },
         timeframes: ["5m", "15m", "1h", "4h"],
       },
@@ -56,12 +54,12 @@ async function seedStrategies() {
         description: "EMA Ribbon Strategy - Win Rate: 65-70%",
         type: "EMA_RIBBON" as const,
         config: {
-          shortEma: 9,
-          mediumEma: 21,
-          longEma: 55,
-          ema100: 100,
-          ema200: 200,
-          useTrendFilter: true,
+          fastPeriod: 5,
+          shortPeriod: 10,
+          midPeriod: 20,
+          slowPeriod: 50,
+          trendPeriod: 200,
+          riskReward: 3,
         },
         timeframes: ["15m", "1h", "4h", "1d"],
       },
@@ -74,9 +72,6 @@ async function seedStrategies() {
           macdSlow: 26,
           macdSignal: 9,
           rsiPeriod: 14,
-          rsiOverbought: 70,
-          rsiOversold: 30,
-          requireConfluence: true,
         },
         timeframes: ["1h", "4h", "1d"],
       },
@@ -1,11 +1,11 @@
 import { Module } from "@nestjs/common";
 import { ConfigModule } from "@nestjs/config";
 import { ScheduleModule } from "@nestjs/schedule";
-import { BullModule } from "@nestjs/bull";
 import { ThrottlerModule } from "@nestjs/throttler";
 
 // Common modules
 import { PrismaModule } from "./prisma/prisma.module";
+import { QueueModule } from "./common/queue/queue.module";
 
 // Feature modules
 import { AuthModule } from "./modules/auth/auth.module";
@@ -24,7 +24,7 @@ import { NotificationModule } from "./modules/notifications/notification.module"
 // Sprint 5-6: Trading modules
 import { PaperTradingModule } from "./modules/paper-trading/paper-trading.module";
 import { DCABotModule } from "./modules/dca-bot/dca-bot.module";
-// import { GridBotModule } from "./modules/grid-bot/grid-bot.module";
+import { GridBotModule } from "./modules/grid-bot/grid-bot.module";
 
 // Sprint 7: Telegram Bot (temporalmente deshabilitado)
 // import { TelegramModule } from "./modules/telegram/telegram.module";
@@ -51,16 +51,10 @@ import { RiskManagementModule } from "./modules/risk-management/risk-management.
       },
     ]),
 
-    // Bull Queue - Comentado temporalmente (requiere Redis/Docker)
-    // BullModule.forRoot({
-    //   redis: {
-    //     host: process.env.BULL_REDIS_HOST || "localhost",
-    //     port: parseInt(process.env.BULL_REDIS_PORT || "6379"),
-    //   },
-    // }),
-
     // Common modules
     PrismaModule,
+    // Job queues: Bull (QUEUE_BACKEND=bull, needs Redis) or in-process
+    QueueModule,
 
     // Feature modules
     AuthModule,
@@ -79,7 +73,7 @@ import { RiskManagementModule } from "./modules/risk-management/risk-management.
     // Sprint 5-6: Trading bots
     PaperTradingModule,
     DCABotModule,
-    // GridBotModule,
+    GridBotModule,
 
     // Sprint 7: Telegram (temporalmente deshabilitado)
     // TelegramModule,
@@ -0,0 +1,98 @@
+import * as Bull from "bull";
+import {
+  JobHandler,
+  JobOptions,
+  JobQueue,
+  JobStatus,
+  QueueJob,
+  QueueStats,
+} from "./queue.types";
+
+/**
+ * BullQueue - JobQueue on Redis through Bull
+ */
+export class BullQueue<T = any> implements JobQueue<T> {
+  readonly backend = "bull" as const;
+  private readonly queue: Bull.Queue<T>;
+
+  constructor(
+    readonly name: string,
+    redis: { host: string; port: number },
+  ) {
+    this.queue = new Bull<T>(name, { redis });
+  }
+
+  async add(
+    jobName: string,
+    data: T,
+    options: JobOptions = {},
+  ): Promise<QueueJob<T>> {
+    const job = await this.queue.add(jobName, data, options);
+    return this.toQueueJob(job);
+  }
+
+  process(jobName: string, handler: JobHandler<T>, concurrency = 1): void {
+    void this.queue.process(jobName, concurrency, async (job) =>
+      handler(await this.toQueueJob(job)),
+    );
+  }
+
+  async getJob(id: string): Promise<QueueJob<T> | null> {
+    const job = await this.queue.getJob(id);
+    return job ? this.toQueueJob(job) : null;
+  }
+
+  async removeJob(id: string): Promise<boolean> {
+    const job = await this.queue.getJob(id);
+    if (!job || !((await job.isWaiting()) || (await job.isDelayed()))) {
+      return false;
+    }
+
+    await job.remove();
+    return true;
+  }
+
+  async getStats(): Promise<QueueStats> {
+    const counts = await this.queue.getJobCounts();
+    return {
+      backend: this.backend,
+      waiting: counts.waiting,
+      active: counts.active,
+      delayed: counts.delayed,
+      completed: counts.completed,
+      failed: counts.failed,
+      total:
+        counts.waiting +
+        counts.active +
+        counts.delayed +
+        counts.completed +
+        counts.failed,
+    };
+  }
+
+  async clean(
+    graceMs: number,
+    status: "completed" | "failed",
+  ): Promise<number> {
+    return (await this.queue.clean(graceMs, status)).length;
+  }
+
+  async close(): Promise<void> {
+    await this.queue.close();
+  }
+
+  private async toQueueJob(job: Bull.Job<T>): Promise<QueueJob<T>> {
+    const state = await job.getState();
+    return {
+      id: String(job.id),
+      name: job.name,
+      data: job.data,
+      status: (state === "paused" || state === "stuck"
+        ? "waiting"
+        : state) as JobStatus,
+      attemptsMade: job.attemptsMade,
+      failedReason: job.failedReason,
+      createdAt: new Date(job.timestamp),
+    };
+  }
+}
@@ -0,0 +1,338 @@
+import { Logger } from "@nestjs/common";
+import { randomUUID } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  JobHandler,
+  JobOptions,
+  JobQueue,
+  JobStatus,
+  QueueJob,
+  QueueStats,
+} from "./queue.types";
+
+const SAVE_DEBOUNCE_MS = 200;
+const MAX_FINISHED_JOBS = 1000; // Completed/failed history kept per queue
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+interface StoredJob<T> {
+  id: string;
+  name: string;
+  data: T;
+  status: JobStatus;
+  attemptsMade: number;
+  failedReason?: string;
+  options: JobOptions;
+  createdAt: number;
+  runAt: number;
+  finishedAt?: number;
+}
+
+interface Worker<T> {
+  handler: JobHandler<T>;
+  concurrency: number;
+  active: number;
+}
+
+/**
+ * InProcessQueue - JobQueue without Redis
+ *
+ * Jobs run in this process with the same retry, backoff, delay and
+ * concurrency semantics as the Bull backend. When a file path is given the
+ * queue is saved there as JSON after every change (atomically, via a
+ * temporary file) and reloaded on start; jobs that were active when the
+ * process stopped are run again.
+ */
+export class InProcessQueue<T = any> implements JobQueue<T> {
+  readonly backend = "memory" as const;
+  private readonly logger: Logger;
+  private readonly jobs = new Map<string, StoredJob<T>>();
+  private readonly workers = new Map<string, Worker<T>>();
+  private timer: NodeJS.Timeout | null = null;
+  private saveTimer: NodeJS.Timeout | null = null;
+  private closed = false;
+
+  constructor(
+    readonly name: string,
+    private readonly filePath?: string,
+  ) {
+    this.logger = new Logger(`InProcessQueue:${name}`);
+    if (filePath) this.load(filePath);
+  }
+
+  async add(
+    jobName: string,
+    data: T,
+    options: JobOptions = {},
+  ): Promise<QueueJob<T>> {
+    const existing = options.jobId ? this.jobs.get(options.jobId) : undefined;
+    if (existing) return this.toQueueJob(existing);
+
+    const now = Date.now();
+    const job: StoredJob<T> = {
+      id: options.jobId ?? randomUUID(),
+      name: jobName,
+      data,
+      status: options.delay ? "delayed" : "waiting",
+      attemptsMade: 0,
+      options,
+      createdAt: now,
+      runAt: now + (options.delay ?? 0),
+    };
+    this.jobs.set(job.id, job);
+
+    this.persist();
+    this.schedule();
+    return this.toQueueJob(job);
+  }
+
+  process(jobName: string, handler: JobHandler<T>, concurrency = 1): void {
+    this.workers.set(jobName, {
+      handler,
+      concurrency: Math.max(1, concurrency),
+      active: 0,
+    });
+    this.schedule();
+  }
+
+  async getJob(id: string): Promise<QueueJob<T> | null> {
+    const job = this.jobs.get(id);
+    return job ? this.toQueueJob(job) : null;
+  }
+
+  async removeJob(id: string): Promise<boolean> {
+    const job = this.jobs.get(id);
+    if (!job || (job.status !== "waiting" && job.status !== "delayed")) {
+      return false;
+    }
+
+    this.jobs.delete(id);
+    this.persist();
+    return true;
+  }
+
+  async getStats(): Promise<QueueStats> {
+    const stats: QueueStats = {
+      backend: this.backend,
+      waiting: 0,
+      active: 0,
+      delayed: 0,
+      completed: 0,
+      failed: 0,
+      total: 0,
+    };
+    for (const job of this.jobs.values()) {
+      stats[job.status]++;
+      stats.total++;
+    }
+    return stats;
+  }
+
+  async clean(
+    graceMs: number,
+    status: "completed" | "failed",
+  ): Promise<number> {
+    const cutoff = Date.now() - graceMs;
+    let removed = 0;
+
+    for (const [id, job] of this.jobs) {
+      if (job.status === status && (job.finishedAt ?? 0) < cutoff) {
+        this.jobs.delete(id);
+        removed++;
+      }
+    }
+
+    if (removed > 0) this.persist();
+    return removed;
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.timer) clearTimeout(this.timer);
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.timer = null;
+    this.saveTimer = null;
+
+    // Running jobs are not awaited; they are saved as active and run
+    // again on the next start
+    this.save();
+  }
+
+  /**
+   * Start every due job that has a free worker, then wake up again when
+   * the next delayed job is due
+   */
+  private dispatch() {
+    this.timer = null;
+    if (this.closed) return;
+
+    const now = Date.now();
+    const due = Array.from(this.jobs.values())
+      .filter(
+        (job) =>
+          (job.status === "waiting" || job.status === "delayed") &&
+          job.runAt <= now,
+      )
+      .sort((a, b) => a.runAt - b.runAt);
+
+    for (const job of due) {
+      job.status = "waiting";
+      const worker = this.workers.get(job.name);
+      if (worker && worker.active < worker.concurrency) {
+        void this.run(job, worker);
+      }
+    }
+
+    const next = Array.from(this.jobs.values()).reduce(
+      (min, job) =>
+        job.status === "delayed" && this.workers.has(job.name)
+          ? Math.min(min, job.runAt)
+          : min,
+      Infinity,
+    );
+    if (next !== Infinity) {
+      this.timer = setTimeout(
+        () => this.dispatch(),
+        Math.min(Math.max(next - now, 0), MAX_TIMER_MS),
+      );
+    }
+  }
+
+  private async run(job: StoredJob<T>, worker: Worker<T>) {
+    worker.active++;
+    job.status = "active";
+    job.attemptsMade++;
+    this.persist();
+
+    try {
+      await worker.handler(this.toQueueJob(job));
+
+      job.failedReason = undefined;
+      this.finish(job, "completed");
+    } catch (error) {
+      job.failedReason = error instanceof Error ? error.message : String(error);
+      const attempts = job.options.attempts ?? 1;
+
+      if (job.attemptsMade < attempts) {
+        job.status = "delayed";
+        job.runAt = Date.now() + this.backoffDelay(job);
+        this.logger.warn(
+          `Job ${job.id} (${job.name}) failed, retry ${job.attemptsMade}/${attempts - 1}: ${job.failedReason}`,
+        );
+      } else {
+        this.finish(job, "failed");
+        this.logger.error(
+          `Job ${job.id} (${job.name}) failed after ${job.attemptsMade} attempts: ${job.failedReason}`,
+        );
+      }
+    } finally {
+      worker.active--;
+      this.persist();
+      this.schedule();
+    }
+  }
+
+  private finish(job: StoredJob<T>, status: "completed" | "failed") {
+    const remove =
+      status === "completed"
+        ? job.options.removeOnComplete
+        : job.options.removeOnFail;
+    if (remove) {
+      this.jobs.delete(job.id);
+      return;
+    }
+
+    job.status = status;
+    job.finishedAt = Date.now();
+    this.trimFinished();
+  }
+
+  private backoffDelay(job: StoredJob<T>): number {
+    const backoff = job.options.backoff;
+    if (!backoff) return 0;
+    return backoff.type === "exponential"
+      ? backoff.delay * 2 ** (job.attemptsMade - 1)
+      : backoff.delay;
+  }
+
+  private trimFinished() {
+    const finished = Array.from(this.jobs.values())
+      .filter((job) => job.finishedAt !== undefined)
+      .sort((a, b) => a.finishedAt! - b.finishedAt!);
+
+    for (const job of finished.slice(
+      0,
+      Math.max(finished.length - MAX_FINISHED_JOBS, 0),
+    )) {
+      this.jobs.delete(job.id);
+    }
+  }
+
+  private schedule() {
+    if (this.closed) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.dispatch(), 0);
+  }
+
+  private toQueueJob(job: StoredJob<T>): QueueJob<T> {
+    return {
+      id: job.id,
+      name: job.name,
+      data: job.data,
+      status: job.status,
+      attemptsMade: job.attemptsMade,
+      failedReason: job.failedReason,
+      createdAt: new Date(job.createdAt),
+    };
+  }
+
+  private load(filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    if (!fs.existsSync(filePath)) return;
+
+    try {
+      const stored: StoredJob<T>[] = JSON.parse(
+        fs.readFileSync(filePath, "utf8"),
+      );
+      let resumed = 0;
+
+      for (const job of stored) {
+        if (job.status === "active") {
+          // Interrupted by a restart: run again without using up an attempt
+          job.status = "waiting";
+          job.attemptsMade = Math.max(job.attemptsMade - 1, 0);
+          resumed++;
+        }
+        this.jobs.set(job.id, job);
+      }
+
+      this.logger.log(
+        `Loaded ${stored.length} jobs from ${filePath} (${resumed} resumed)`,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Ignoring unreadable queue file ${filePath}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
+  private persist() {
+    if (!this.filePath || this.saveTimer || this.closed) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, SAVE_DEBOUNCE_MS);
+  }
+
+  private save() {
+    if (!this.filePath) return;
+
+    try {
+      const tmp = `${this.filePath}.tmp`;
+      fs.writeFileSync(tmp, JSON.stringify(Array.from(this.jobs.values())));
+      fs.renameSync(tmp, this.filePath);
+    } catch (error) {
+      this.logger.error(`Failed to save queue to ${this.filePath}`, error);
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import { Global, Module } from "@nestjs/common";
+import { QueueService } from "./queue.service";
+
+/**
+ * Global Queue Module
+ * Makes QueueService available throughout the application
+ */
+@Global()
+@Module({
+  providers: [QueueService],
+  exports: [QueueService],
+})
+export class QueueModule {}
@@ -0,0 +1,61 @@
+import { Injectable, Logger, OnModuleDestroy } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import * as path from "path";
+import { BullQueue } from "./bull.queue";
+import { InProcessQueue } from "./in-process.queue";
+import { JobQueue, QueueBackend } from "./queue.types";
+
+/**
+ * QueueService - Named job queues on the configured backend
+ *
+ * QUEUE_BACKEND=bull runs them on Redis (BULL_REDIS_HOST/PORT). The
+ * default, "memory", runs them in this process and saves them under
+ * QUEUE_DATA_DIR, so the desktop build needs no Redis.
+ */
+@Injectable()
+export class QueueService implements OnModuleDestroy {
+  private readonly logger = new Logger(QueueService.name);
+  private readonly queues = new Map<string, JobQueue>();
+  private readonly backend: QueueBackend;
+
+  constructor(private readonly configService: ConfigService) {
+    this.backend =
+      configService.get<string>("QUEUE_BACKEND") === "bull" ? "bull" : "memory";
+    this.logger.log(`Job queues use the ${this.backend} backend`);
+  }
+
+  getQueue<T = any>(name: string): JobQueue<T> {
+    let queue = this.queues.get(name);
+    if (!queue) {
+      queue =
+        this.backend === "bull"
+          ? new BullQueue<T>(name, {
+              host: this.configService.get<string>(
+                "BULL_REDIS_HOST",
+                "localhost",
+              ),
+              port: parseInt(
+                this.configService.get<string>("BULL_REDIS_PORT", "6379"),
+              ),
+            })
+          : new InProcessQueue<T>(
+              name,
+              path.join(
+                this.configService.get<string>(
+                  "QUEUE_DATA_DIR",
+                  path.join(process.cwd(), "data", "queues"),
+                ),
+                `${name}.json`,
+              ),
+            );
+      this.queues.set(name, queue);
+    }
+    return queue;
+  }
+
+  async onModuleDestroy() {
+    await Promise.all(
+      Array.from(this.queues.values()).map((queue) => queue.close()),
+    );
+  }
+}
@@ -0,0 +1,73 @@
+// Job Queue Types
+
+export type QueueBackend = "bull" | "memory";
+
+export type JobStatus =
+  | "waiting"
+  | "delayed"
+  | "active"
+  | "completed"
+  | "failed";
+
+export interface JobOptions {
+  jobId?: string; // Adding an existing id is a no-op
+  attempts?: number; // Total tries, default 1
+  backoff?: { type: "fixed" | "exponential"; delay: number };
+  delay?: number; // ms before the first try
+  removeOnComplete?: boolean;
+  removeOnFail?: boolean;
+}
+
+export interface QueueJob<T = any> {
+  id: string;
+  name: string;
+  data: T;
+  status: JobStatus;
+  attemptsMade: number;
+  failedReason?: string;
+  createdAt: Date;
+}
+
+export type JobHandler<T = any> = (job: QueueJob<T>) => Promise<unknown>;
+
+export interface QueueStats {
+  backend: QueueBackend;
+  waiting: number;
+  active: number;
+  delayed: number;
+  completed: number;
+  failed: number;
+  total: number;
+}
+
+/**
+ * Backend-independent job queue (see QueueService)
+ */
+export interface JobQueue<T = any> {
+  readonly name: string;
+  readonly backend: QueueBackend;
+
+  add(jobName: string, data: T, options?: JobOptions): Promise<QueueJob<T>>;
+
+  /**
+   * Register the handler of a job name. Up to `concurrency` jobs of that
+   * name run at once; a rejected handler counts as a failed attempt.
+   */
+  process(jobName: string, handler: JobHandler<T>, concurrency?: number): void;
+
+  getJob(id: string): Promise<QueueJob<T> | null>;
+
+  /**
+   * Remove a waiting or delayed job. Active jobs are left running.
+   */
+  removeJob(id: string): Promise<boolean>;
+
+  getStats(): Promise<QueueStats>;
+
+  /**
+   * Drop finished jobs older than graceMs
+   */
+  clean(graceMs: number, status: "completed" | "failed"): Promise<number>;
+
+  close(): Promise<void>;
+}
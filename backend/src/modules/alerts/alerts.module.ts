@@ -1,8 +1,10 @@
 import { Module } from "@nestjs/common";
 import { AlertsService } from "./alerts.service";
 import { AlertsController } from "./alerts.controller";
+import { MarketDataModule } from "../market-data/market-data.module";
 
 @Module({
+  imports: [MarketDataModule],
   controllers: [AlertsController],
   providers: [AlertsService],
   exports: [AlertsService],
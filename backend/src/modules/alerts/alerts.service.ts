@@ -3,12 +3,16 @@ import { PrismaService } from "@/common/prisma/prisma.service";
 import { Cron, CronExpression } from "@nestjs/schedule";
 import { CreateAlertDto, UpdateAlertDto } from "./dto/alert.dto";
 import { Alert, AlertStatus } from "@prisma/client";
+import { CandleRepository } from "../market-data/candle.repository";
 
 @Injectable()
 export class AlertsService {
   private readonly logger = new Logger(AlertsService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly candleRepository: CandleRepository,
+  ) {}
 
   /**
    * Create a new alert
@@ -147,14 +151,9 @@ export class AlertsService {
       return;
     }
 
-    const latestPrice = await this.prisma.priceData.findFirst({
-      where: {
-        cryptoId: alert.cryptoId,
-      },
-      orderBy: {
-        timestamp: "desc",
-      },
-    });
+    const latestPrice = await this.candleRepository.getLatest(
+      alert.crypto.binanceSymbol,
+    );
 
     if (!latestPrice) {
       return;
@@ -0,0 +1,849 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { IndicatorsService } from "../indicators/indicators.service";
+import {
+  IndicatorSeriesOptions,
+  SeriesCandle,
+} from "../indicators/indicators.types";
+import { MarketCandle } from "../market-data/market-data.types";
+import {
+  RiskManagementService,
+  TrailingStopConfig,
+} from "../risk-management/risk-management.service";
+import {
+  BacktestConfig,
+  BacktestContext,
+  BacktestExitRules,
+  BacktestProgress,
+  BacktestRun,
+  BacktestSignal,
+  BacktestStrategy,
+  BacktestTrade,
+  BarView,
+  DrawdownPoint,
+  EquityPoint,
+  PositionSide,
+  PortfolioLeg,
+  PositionSizingConfig,
+  PriceLevelRule,
+  TimeframeSeries,
+  TradeType,
+} from "./backtesting.types";
+
+interface OpenPosition {
+  side: PositionSide;
+  amount: number;
+  entryPrice: number;
+  leverage: number;
+  cost: number; // Quote committed at entry (margin), fees included
+  collateral: number; // Margin left after entry fees
+  funding: number; // Accrued funding, positive = paid
+  stopLoss?: number;
+  takeProfit?: number;
+  liquidationPrice: number;
+  trailingActive?: boolean;
+  highestPrice: number;
+  lowestPrice: number;
+}
+
+interface LegState {
+  symbol: string;
+  series: TimeframeSeries;
+  end: number;
+  cursor: number; // Next candle to replay
+  higher: { series: TimeframeSeries; pointer: number }[];
+  position: OpenPosition | null;
+  lastPrice: number; // Latest close, to mark the open position
+}
+
+const FUNDING_INTERVAL_MS = 8 * 60 * 60 * 1000;
+
+/**
+ * BacktestEngineService - Event-driven backtest simulation
+ *
+ * Indicators are computed once per timeframe as vectors, then the strategy is
+ * fed one closed candle at a time. Higher timeframes are aligned by close
+ * time so a strategy only ever sees bars that had closed at that moment.
+ *
+ * Stops, targets and liquidation are checked against each candle's high/low
+ * before the strategy sees its close; sizing follows
+ * `BacktestConfig.positionSizing`. With `tradeDirection` BOTH an opposite
+ * signal reverses the position; leveraged positions accrue funding.
+ * Portfolio runs replay several symbols against one shared balance.
+ */
+@Injectable()
+export class BacktestEngineService {
+  private readonly logger = new Logger(BacktestEngineService.name);
+
+  constructor(
+    private readonly indicatorsService: IndicatorsService,
+    private readonly riskManagementService: RiskManagementService,
+  ) {}
+
+  /**
+   * Pre-compute the indicator vectors for one timeframe
+   */
+  buildSeries(
+    timeframe: string,
+    candles: MarketCandle[],
+    options?: IndicatorSeriesOptions,
+  ): TimeframeSeries {
+    const seriesCandles = candles.map((c) => ({
+      timestamp: c.openTime,
+      open: c.open,
+      high: c.high,
+      low: c.low,
+      close: c.close,
+      volume: c.volume,
+    }));
+
+    return {
+      timeframe,
+      candles: seriesCandles,
+      closeTimes: candles.map((c) => c.closeTime),
+      indicators: this.indicatorsService.calculateSeries(
+        seriesCandles,
+        options,
+      ),
+    };
+  }
+
+  /**
+   * Replay the series through the strategy over [startIndex, endIndex)
+   * (earlier candles only warm up the indicators)
+   */
+  run(params: {
+    backtestId: string;
+    config: BacktestConfig;
+    strategy: BacktestStrategy;
+    series: TimeframeSeries;
+    startIndex: number;
+    endIndex?: number;
+    higherSeries?: TimeframeSeries[];
+    onProgress?: (progress: BacktestProgress) => void;
+  }): BacktestRun {
+    const { series, startIndex, endIndex, higherSeries, ...rest } = params;
+
+    return this.runPortfolio({
+      ...rest,
+      legs: [
+        {
+          symbol: params.config.cryptoSymbol,
+          series,
+          startIndex,
+          endIndex,
+          higherSeries,
+        },
+      ],
+    });
+  }
+
+  /**
+   * Replay several symbols on one shared balance
+   */
+  runPortfolio(params: {
+    backtestId: string;
+    config: BacktestConfig;
+    strategy: BacktestStrategy;
+    legs: PortfolioLeg[];
+    onProgress?: (progress: BacktestProgress) => void;
+  }): BacktestRun {
+    const replay = this.replay(params);
+
+    let step = replay.next();
+    while (!step.done) {
+      params.onProgress?.(step.value);
+      step = replay.next();
+    }
+    return step.value;
+  }
+
+  /**
+   * Like runPortfolio, but yields to the event loop at every progress step
+   * so long runs don't block the server and can be cancelled. Resolves to
+   * null when `isCancelled` reports true.
+   */
+  async runPortfolioAsync(params: {
+    backtestId: string;
+    config: BacktestConfig;
+    strategy: BacktestStrategy;
+    legs: PortfolioLeg[];
+    onProgress?: (progress: BacktestProgress) => void;
+    isCancelled?: () => Promise<boolean>;
+  }): Promise<BacktestRun | null> {
+    const replay = this.replay(params);
+
+    let step = replay.next();
+    while (!step.done) {
+      params.onProgress?.(step.value);
+      await new Promise((resolve) => setImmediate(resolve));
+      if (params.isCancelled && (await params.isCancelled())) {
+        return null;
+      }
+      step = replay.next();
+    }
+    return step.value;
+  }
+
+  /**
+   * The legs' candles are merged into a single timeline; at each timestamp
+   * the protective exits of every leg run before any strategy signal, so
+   * capital freed by a stop can fund an entry on another symbol in the same
+   * step. Yields progress about every 5% of the timeline.
+   */
+  private *replay(params: {
+    backtestId: string;
+    config: BacktestConfig;
+    strategy: BacktestStrategy;
+    legs: PortfolioLeg[];
+  }): Generator<BacktestProgress, BacktestRun> {
+    const { backtestId, config, strategy } = params;
+
+    const exitRules: BacktestExitRules = {
+      stopLoss: { type: "SIGNAL" },
+      takeProfit: { type: "SIGNAL" },
+      exitOnSignal: true,
+      ...config.exitRules,
+    };
+    const sizing: PositionSizingConfig = config.positionSizing || {
+      mode: "FIXED_FRACTION",
+      fraction: 0.95,
+    };
+    const direction = config.tradeDirection || "LONG_ONLY";
+    const leverage = Math.max(config.leverage || 1, 1);
+    const fundingRate =
+      config.fundingRate ??
+      (direction === "LONG_ONLY" && leverage === 1 ? 0 : 0.01);
+    const maintenanceMargin = (config.maintenanceMargin ?? 0.5) / 100;
+
+    // Portfolio limits; a single symbol may use the whole equity
+    const portfolio = config.portfolio;
+    const maxPositions = Math.max(
+      portfolio?.maxConcurrentPositions ?? params.legs.length,
+      1,
+    );
+    const getAllocationCap = (symbol: string) =>
+      (portfolio?.assets.find((a) => a.symbol === symbol)
+        ?.maxAllocationPercent ??
+        portfolio?.maxAllocationPercent ??
+        100 / maxPositions) / 100;
+
+    const legs: LegState[] = params.legs.map((leg) => {
+      const start = Math.max(leg.startIndex, strategy.warmup);
+      return {
+        symbol: leg.symbol,
+        series: leg.series,
+        end: Math.min(
+          leg.endIndex ?? leg.series.candles.length,
+          leg.series.candles.length,
+        ),
+        cursor: start,
+        higher: (leg.higherSeries || []).map((s) => ({
+          series: s,
+          pointer: -1,
+        })),
+        position: null,
+        lastPrice: 0,
+      };
+    });
+
+    const timeline = [
+      ...new Set(
+        legs.flatMap((leg) =>
+          leg.series.candles
+            .slice(leg.cursor, leg.end)
+            .map((c) => c.timestamp.getTime()),
+        ),
+      ),
+    ].sort((a, b) => a - b);
+
+    // Trading state
+    let balance = config.initialCapital;
+    const trades: BacktestTrade[] = [];
+    const closedReturns: number[] = [];
+    const equityCurve: EquityPoint[] = [];
+    const drawdownCurve: DrawdownPoint[] = [];
+    let peak = config.initialCapital;
+
+    const getPositionValue = (position: OpenPosition, price: number) =>
+      Math.max(
+        position.collateral +
+          this.getUnrealizedPnl(position, price) -
+          position.funding,
+        0,
+      );
+    const getEquity = () =>
+      legs.reduce(
+        (equity, leg) =>
+          leg.position
+            ? equity + getPositionValue(leg.position, leg.lastPrice)
+            : equity,
+        balance,
+      );
+
+    const openPosition = (
+      leg: LegState,
+      side: PositionSide,
+      bar: BarView,
+      signal: BacktestSignal,
+    ) => {
+      const price = bar.candle.close;
+      // Stops sit below a long's entry and above a short's; targets opposite
+      const sign = side === "LONG" ? 1 : -1;
+      const stopLoss = this.resolveLevel(
+        exitRules.stopLoss,
+        signal.stopLoss,
+        price,
+        bar.value("atr"),
+        -sign as 1 | -1,
+      );
+      const takeProfit = this.resolveLevel(
+        exitRules.takeProfit,
+        signal.takeProfit,
+        price,
+        bar.value("atr"),
+        sign as 1 | -1,
+      );
+
+      // Size on total equity, capped by the symbol's share and free cash
+      const equity = getEquity();
+      const margin = Math.min(
+        this.calculateMargin(
+          sizing,
+          equity,
+          price,
+          stopLoss,
+          leverage,
+          closedReturns,
+        ),
+        equity * getAllocationCap(leg.symbol),
+        balance,
+      );
+      if (margin <= 0) return;
+
+      const exposure = margin * leverage;
+      const tradeFee = (exposure * config.tradingFee) / 100;
+      const slippageAmount = (exposure * config.slippage) / 100;
+      const amount = (exposure - tradeFee - slippageAmount) / price;
+
+      const position: OpenPosition = {
+        side,
+        amount,
+        entryPrice: price,
+        leverage,
+        cost: margin,
+        collateral: margin - tradeFee - slippageAmount,
+        funding: 0,
+        stopLoss,
+        takeProfit,
+        liquidationPrice: 0,
+        highestPrice: price,
+        lowestPrice: price,
+      };
+      position.liquidationPrice = this.getLiquidationPrice(
+        position,
+        maintenanceMargin,
+      );
+
+      leg.position = position;
+      balance -= margin;
+
+      trades.push({
+        id: `${backtestId}-${trades.length}`,
+        timestamp: bar.candle.timestamp,
+        symbol: leg.symbol,
+        type: side === "LONG" ? TradeType.BUY : TradeType.SELL,
+        price,
+        amount,
+        fee: tradeFee,
+        total: exposure - tradeFee - slippageAmount,
+        balance,
+        reason: signal.reason,
+        side,
+        action: "OPEN",
+        leverage,
+        stopLoss,
+        takeProfit,
+        liquidationPrice: position.liquidationPrice,
+      });
+    };
+
+    const closePosition = (
+      leg: LegState,
+      price: number,
+      timestamp: Date,
+      reason: string,
+      slippage = config.slippage,
+      liquidated = false,
+    ) => {
+      const position = leg.position;
+      if (!position) return;
+
+      const total = position.amount * price;
+      const tradeFee = liquidated ? 0 : (total * config.tradingFee) / 100;
+      const slippageAmount = liquidated ? 0 : (total * slippage) / 100;
+      // A liquidation wipes out the margin, the rest goes to the exchange
+      const netProceeds = liquidated
+        ? 0
+        : Math.max(
+            position.collateral +
+              this.getUnrealizedPnl(position, price) -
+              position.funding -
+              tradeFee -
+              slippageAmount,
+            0,
+          );
+      const pnl = netProceeds - position.cost;
+
+      balance += netProceeds;
+      closedReturns.push(pnl / position.cost);
+
+      trades.push({
+        id: `${backtestId}-${trades.length}`,
+        timestamp,
+        symbol: leg.symbol,
+        type: position.side === "LONG" ? TradeType.SELL : TradeType.BUY,
+        price,
+        amount: position.amount,
+        fee: tradeFee,
+        total: netProceeds,
+        balance,
+        reason,
+        side: position.side,
+        action: "CLOSE",
+        leverage: position.leverage,
+        pnl,
+        pnlPercent: (pnl / position.cost) * 100,
+        funding: position.funding,
+        liquidated,
+      });
+
+      leg.position = null;
+    };
+
+    const totalSteps = Math.max(timeline.length, 1);
+    const progressStep = Math.max(Math.floor(totalSteps / 20), 1);
+
+    for (let step = 0; step < timeline.length; step++) {
+      const time = timeline[step];
+      const timestamp = new Date(time);
+
+      // Legs with a candle at this timestamp (symbols may have gaps)
+      const due = legs.filter((leg) => {
+        const candles = leg.series.candles;
+        while (
+          leg.cursor < leg.end &&
+          candles[leg.cursor].timestamp.getTime() < time
+        ) {
+          leg.cursor++;
+        }
+        return (
+          leg.cursor < leg.end &&
+          candles[leg.cursor].timestamp.getTime() === time
+        );
+      });
+
+      for (const leg of due) {
+        const currentCandle = leg.series.candles[leg.cursor];
+        const currentCloseTime = leg.series.closeTimes[leg.cursor];
+        leg.lastPrice = currentCandle.close;
+
+        for (const h of leg.higher) {
+          while (
+            h.pointer + 1 < h.series.candles.length &&
+            h.series.closeTimes[h.pointer + 1] <= currentCloseTime
+          ) {
+            h.pointer++;
+          }
+        }
+
+        // Protective exits first: they can trigger anywhere inside the candle
+        if (leg.position) {
+          const exit = this.findIntraCandleExit(leg.position, currentCandle);
+          if (exit) {
+            closePosition(
+              leg,
+              exit.price,
+              currentCandle.timestamp,
+              exit.reason,
+              config.slippage,
+              exit.liquidated,
+            );
+          } else {
+            this.updateTrailingStop(
+              leg.position,
+              currentCandle,
+              exitRules.trailingStop,
+            );
+          }
+        }
+
+        // Funding accrues on the position value for the time the candle spans
+        const held = leg.position as OpenPosition | null;
+        if (held && fundingRate !== 0) {
+          const candleMs =
+            currentCloseTime.getTime() - currentCandle.timestamp.getTime() + 1;
+          const payment =
+            held.amount *
+            currentCandle.close *
+            (fundingRate / 100) *
+            (candleMs / FUNDING_INTERVAL_MS);
+          held.funding += held.side === "LONG" ? payment : -payment;
+          held.liquidationPrice = this.getLiquidationPrice(
+            held,
+            maintenanceMargin,
+          );
+        }
+      }
+
+      for (const leg of due) {
+        const i = leg.cursor;
+        const held = leg.position as OpenPosition | null;
+        const bar = this.createBarView(leg.series, i);
+        const context: BacktestContext = {
+          bar,
+          timeframe: leg.series.timeframe,
+          higher: (timeframe) => {
+            const h = leg.higher.find((x) => x.series.timeframe === timeframe);
+            return h && h.pointer >= 0
+              ? this.createBarView(h.series, h.pointer)
+              : null;
+          },
+          inPosition: held !== null,
+          positionSide: held ? held.side : null,
+        };
+
+        const signal = strategy.onCandle(context);
+        const currentCandle = leg.series.candles[i];
+
+        if (signal.type === "EXIT") {
+          if (held && exitRules.exitOnSignal !== false) {
+            closePosition(
+              leg,
+              currentCandle.close,
+              currentCandle.timestamp,
+              signal.reason,
+            );
+          }
+        } else if (signal.type !== "HOLD") {
+          const entrySide: PositionSide =
+            signal.type === "BUY" ? "LONG" : "SHORT";
+
+          // An opposite signal closes the open position...
+          if (
+            held &&
+            held.side !== entrySide &&
+            exitRules.exitOnSignal !== false
+          ) {
+            closePosition(
+              leg,
+              currentCandle.close,
+              currentCandle.timestamp,
+              signal.reason,
+            );
+          }
+
+          // ...and opens the new side if the direction mode allows it
+          const allowed =
+            direction === "BOTH" ||
+            (direction === "LONG_ONLY" && entrySide === "LONG") ||
+            (direction === "SHORT_ONLY" && entrySide === "SHORT");
+          const openPositions = legs.filter((l) => l.position).length;
+
+          if (
+            !leg.position &&
+            allowed &&
+            balance > 0 &&
+            openPositions < maxPositions
+          ) {
+            openPosition(leg, entrySide, bar, signal);
+          }
+        }
+
+        leg.cursor++;
+      }
+
+      // Combined equity, open positions marked at their latest close
+      const equity = getEquity();
+
+      equityCurve.push({
+        timestamp,
+        equity,
+        totalReturn: equity - config.initialCapital,
+        totalReturnPercent:
+          ((equity - config.initialCapital) / config.initialCapital) * 100,
+      });
+
+      if (equity > peak) {
+        peak = equity;
+      }
+      const drawdown = peak - equity;
+
+      drawdownCurve.push({
+        timestamp,
+        drawdown,
+        drawdownPercent: (drawdown / peak) * 100,
+        peak,
+      });
+
+      if (step % progressStep === 0) {
+        yield {
+          backtestId,
+          progress: Math.round(((step + 1) / totalSteps) * 100),
+          currentDate: timestamp,
+          tradesExecuted: trades.length,
+          message: `Processed ${step + 1}/${totalSteps} candles`,
+        };
+      }
+    }
+
+    // Close any open position at the end
+    for (const leg of legs) {
+      if (leg.position && leg.end > 0) {
+        const lastCandle = leg.series.candles[leg.end - 1];
+        closePosition(
+          leg,
+          lastCandle.close,
+          lastCandle.timestamp,
+          "End of backtest period",
+          0,
+        );
+      }
+    }
+
+    this.logger.debug(
+      `Backtest ${backtestId}: ${timeline.length} steps over ${legs.length} symbol(s) replayed with ${strategy.name}`,
+    );
+
+    return { trades, equityCurve, drawdownCurve };
+  }
+
+  /**
+   * Check liquidation, stop and target against the candle range. For a long
+   * the higher of liquidation/stop is reached first on the way down (and
+   * vice versa for a short). When a stop and a target both lie inside the
+   * same candle, the candle direction decides the path: a bullish candle is
+   * assumed to trade open → low → high → close, a bearish one
+   * open → high → low → close. Gaps through a level fill at the open.
+   */
+  private findIntraCandleExit(
+    position: OpenPosition,
+    candle: SeriesCandle,
+  ): { price: number; reason: string; liquidated?: boolean } | null {
+    const isLong = position.side === "LONG";
+    const { takeProfit, liquidationPrice } = position;
+    const stopReason = position.trailingActive
+      ? "Trailing stop hit"
+      : "Stop loss hit";
+
+    // The adverse level hit first: stop, unless liquidation comes before it
+    const liquidationFirst =
+      position.stopLoss === undefined ||
+      (isLong
+        ? liquidationPrice >= position.stopLoss
+        : liquidationPrice <= position.stopLoss);
+    const adverse = liquidationFirst
+      ? {
+          level: liquidationPrice,
+          reason: "Liquidated",
+          liquidated: true,
+        }
+      : { level: position.stopLoss!, reason: stopReason, liquidated: false };
+
+    // Beyond-level tests in the position's adverse/favourable direction
+    const reachedAdverse = (price: number) =>
+      isLong ? price <= adverse.level : price >= adverse.level;
+    const reachedTarget = (price: number) =>
+      takeProfit !== undefined &&
+      (isLong ? price >= takeProfit : price <= takeProfit);
+
+    if (adverse.level > 0 && reachedAdverse(candle.open)) {
+      return {
+        price: candle.open,
+        reason: `${adverse.reason} (gap)`,
+        liquidated: adverse.liquidated,
+      };
+    }
+    if (reachedTarget(candle.open)) {
+      return { price: candle.open, reason: "Take profit hit (gap)" };
+    }
+
+    const adverseHit =
+      adverse.level > 0 && reachedAdverse(isLong ? candle.low : candle.high);
+    const targetHit = reachedTarget(isLong ? candle.high : candle.low);
+
+    const adverseExit = {
+      price: adverse.level,
+      reason: adverse.reason,
+      liquidated: adverse.liquidated,
+    };
+    const targetExit = { price: takeProfit!, reason: "Take profit hit" };
+
+    if (adverseHit && targetHit) {
+      // Bullish candle visits the low first, bearish the high first
+      const lowFirst = candle.close >= candle.open;
+      return lowFirst === isLong ? adverseExit : targetExit;
+    }
+    if (adverseHit) return adverseExit;
+    if (targetHit) return targetExit;
+
+    return null;
+  }
+
+  private getUnrealizedPnl(position: OpenPosition, price: number): number {
+    return position.side === "LONG"
+      ? (price - position.entryPrice) * position.amount
+      : (position.entryPrice - price) * position.amount;
+  }
+
+  /**
+   * Price at which the remaining margin falls to the maintenance margin
+   */
+  private getLiquidationPrice(
+    position: OpenPosition,
+    maintenanceMargin: number,
+  ): number {
+    const { amount, entryPrice, collateral, funding } = position;
+
+    return position.side === "LONG"
+      ? Math.max(
+          (entryPrice * amount - collateral + funding) /
+            (amount * (1 - maintenanceMargin)),
+          0,
+        )
+      : (collateral + entryPrice * amount - funding) /
+          (amount * (1 + maintenanceMargin));
+  }
+
+  /**
+   * Ratchet the stop after a candle closes; it applies from the next candle
+   */
+  private updateTrailingStop(
+    position: OpenPosition,
+    candle: SeriesCandle,
+    config?: TrailingStopConfig,
+  ) {
+    position.highestPrice = Math.max(position.highestPrice, candle.high);
+    position.lowestPrice = Math.min(position.lowestPrice, candle.low);
+
+    if (!config) return;
+
+    const { shouldUpdate, newStopLoss } =
+      this.riskManagementService.calculateTrailingStop(
+        {
+          symbol: "",
+          side: position.side,
+          entryPrice: position.entryPrice,
+          currentPrice: candle.close,
+          size: position.amount,
+          stopLoss: position.stopLoss,
+          takeProfit: position.takeProfit,
+          pnl: 0,
+          pnlPercent: 0,
+        },
+        config,
+        position.highestPrice,
+        position.lowestPrice,
+      );
+
+    if (shouldUpdate) {
+      position.stopLoss = newStopLoss;
+      position.trailingActive = true;
+    }
+  }
+
+  /**
+   * Place a stop-loss (direction -1) or take-profit (direction 1) level
+   */
+  private resolveLevel(
+    rule: PriceLevelRule | undefined,
+    signalLevel: number | undefined,
+    entryPrice: number,
+    atr: number,
+    direction: 1 | -1,
+  ): number | undefined {
+    if (!rule) return undefined;
+
+    switch (rule.type) {
+      case "SIGNAL":
+        return signalLevel;
+      case "FIXED_PERCENT":
+        return rule.percent
+          ? entryPrice * (1 + (direction * rule.percent) / 100)
+          : undefined;
+      case "ATR":
+        return rule.atrMultiplier && !isNaN(atr)
+          ? entryPrice + direction * atr * rule.atrMultiplier
+          : undefined;
+    }
+  }
+
+  /**
+   * Margin to commit to a new position (exposure = margin × leverage)
+   */
+  private calculateMargin(
+    sizing: PositionSizingConfig,
+    balance: number,
+    entryPrice: number,
+    stopLoss: number | undefined,
+    leverage: number,
+    closedReturns: number[],
+  ): number {
+    const fraction = sizing.fraction ?? 0.95;
+
+    switch (sizing.mode) {
+      case "RISK_PER_TRADE": {
+        // Without a stop there is no defined risk, fall back to the fraction
+        if (stopLoss === undefined || stopLoss === entryPrice) {
+          return balance * fraction;
+        }
+        const { positionValue } =
+          this.riskManagementService.calculatePositionSize({
+            accountBalance: balance,
+            riskPercentage: sizing.riskPercent ?? 1,
+            entryPrice,
+            stopLossPrice: stopLoss,
+          });
+        return Math.min(positionValue / leverage, balance);
+      }
+
+      case "KELLY": {
+        if (closedReturns.length < (sizing.kellyMinTrades ?? 10)) {
+          return balance * fraction;
+        }
+        const wins = closedReturns.filter((r) => r > 0);
+        const losses = closedReturns.filter((r) => r < 0);
+        if (wins.length === 0) return 0;
+        if (losses.length === 0) return balance * fraction;
+
+        const avgWin = wins.reduce((sum, r) => sum + r, 0) / wins.length;
+        const avgLoss = Math.abs(
+          losses.reduce((sum, r) => sum + r, 0) / losses.length,
+        );
+        return (
+          balance *
+          this.riskManagementService.calculateKellySize(
+            wins.length / closedReturns.length,
+            avgWin,
+            avgLoss,
+          )
+        );
+      }
+
+      default:
+        return balance * fraction;
+    }
+  }
+
+  private createBarView(series: TimeframeSeries, index: number): BarView {
+    return {
+      index,
+      candle: series.candles[index],
+      value: (indicator, offset = 0) => {
+        const i = index - offset;
+        return i >= 0 ? series.indicators[indicator][i] : NaN;
+      },
+      history: (count) =>
+        series.candles.slice(Math.max(index + 1 - count, 0), index + 1),
+    };
+  }
+}
@@ -0,0 +1,918 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from "@nestjs/common";
+import { BacktestOptimization } from "@prisma/client";
+import { PrismaService } from "@/common/prisma/prisma.service";
+import { QueueService } from "@/common/queue/queue.service";
+import { JobQueue } from "@/common/queue/queue.types";
+import { WebsocketGateway } from "../websocket/websocket.gateway";
+import {
+  OptimizationProgressPayload,
+  WebSocketEvent,
+} from "../websocket/websocket.types";
+import { BacktestingService } from "./backtesting.service";
+import { BacktestEngineService } from "./backtest-engine.service";
+import { createBacktestStrategy } from "./backtest-strategies";
+import { StrategiesService } from "../strategies/strategies.service";
+import { OptimizeBacktestDto } from "./dto/optimize-backtest.dto";
+import { normalizeSymbol } from "../market-data/market-data.types";
+import {
+  BacktestMetrics,
+  BacktestStatus,
+  OptimizationConfig,
+  OptimizationJob,
+  OptimizationRecord,
+  OptimizationResult,
+  OptimizationRow,
+  ParameterRange,
+  TimeframeSeries,
+  WalkForwardSummary,
+  WalkForwardWindow,
+} from "./backtesting.types";
+
+interface Evaluation {
+  parameters: Record<string, number>;
+  score: number;
+  metrics: BacktestMetrics;
+}
+
+type Evaluator = (parameters: Record<string, number>) => Promise<Evaluation>;
+
+// A parameter's candidate values, read by index so large ranges are never
+// materialized
+interface ParameterAxis {
+  name: string;
+  size: number;
+  valueAt: (index: number) => number;
+}
+
+// Candles loaded before the start date so every parameter set is warmed up
+const OPTIMIZATION_WARMUP = 300;
+const RANKING_SIZE = 20;
+const GENETIC_POPULATION = 20;
+const MUTATION_RATE = 0.2;
+const MAX_RANGE_VALUES = 1_000_000; // Candidate values per parameter
+const CANCEL_CHECK_MS = 1000; // Status reads while a run is replaying
+
+/**
+ * BacktestOptimizerService - Parameter search and walk-forward analysis
+ *
+ * Candidate parameter sets are merged over the stored `Strategy.config` and
+ * replayed through the backtest engine. Indicator series are cached per set
+ * of indicator periods, so sets that only change thresholds share one
+ * pre-computed series. Searches run on the "optimization" queue like
+ * backtests: progress goes out over websocket and results are stored.
+ */
+@Injectable()
+export class BacktestOptimizerService implements OnModuleInit {
+  private readonly logger = new Logger(BacktestOptimizerService.name);
+  private readonly optimizationQueue: JobQueue<OptimizationJob>;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly backtestingService: BacktestingService,
+    private readonly backtestEngine: BacktestEngineService,
+    private readonly strategiesService: StrategiesService,
+    private readonly websocketGateway: WebsocketGateway,
+    queueService: QueueService,
+  ) {
+    this.optimizationQueue = queueService.getQueue("optimization");
+  }
+
+  async onModuleInit() {
+    // Must finish before the queue starts handing out resumed jobs
+    await this.releaseInterruptedOptimizations();
+
+    // Each search replays many backtests: one at a time
+    this.optimizationQueue.process("run-optimization", (job) =>
+      this.executeOptimization(job.data),
+    );
+  }
+
+  /**
+   * Optimizations left RUNNING by a restart whose job is waiting again go
+   * back to PENDING, so the resumed job can claim them
+   */
+  private async releaseInterruptedOptimizations(): Promise<void> {
+    const running = await this.prisma.backtestOptimization.findMany({
+      where: { status: BacktestStatus.RUNNING },
+      select: { id: true },
+    });
+
+    for (const { id } of running) {
+      const job = await this.optimizationQueue.getJob(id);
+      if (job?.status !== "waiting" && job?.status !== "delayed") continue;
+
+      const { count } = await this.prisma.backtestOptimization.updateMany({
+        where: { id, status: BacktestStatus.RUNNING },
+        data: { status: BacktestStatus.PENDING },
+      });
+      if (count > 0) {
+        this.logger.log(`Optimization ${id} was interrupted, queued to resume`);
+      }
+    }
+  }
+
+  /**
+   * Validate the search and queue it; poll getOptimization for the result
+   */
+  async optimize(
+    userId: string,
+    dto: OptimizeBacktestDto,
+  ): Promise<OptimizationRecord> {
+    const config: OptimizationConfig = {
+      strategyId: dto.strategyId,
+      cryptoSymbol: dto.cryptoSymbol,
+      startDate: new Date(dto.startDate),
+      endDate: new Date(dto.endDate),
+      initialCapital: dto.initialCapital,
+      timeframe: dto.timeframe || "1h",
+      tradingFee: dto.tradingFee || 0.1,
+      slippage: dto.slippage || 0.05,
+      higherTimeframe: dto.higherTimeframe,
+      exitRules: dto.exitRules,
+      positionSizing: dto.positionSizing,
+      tradeDirection: dto.tradeDirection,
+      leverage: dto.leverage,
+      fundingRate: dto.fundingRate,
+      maintenanceMargin: dto.maintenanceMargin,
+      parameters: dto.parameters,
+      method: dto.method || "GRID",
+      objective: dto.objective || "SHARPE",
+      maxIterations: dto.maxIterations || 100,
+      minTrades: dto.minTrades ?? 1,
+      walkForward: dto.walkForward,
+    };
+
+    const strategyRecord = await this.prisma.strategy.findUnique({
+      where: { id: config.strategyId },
+    });
+
+    if (!strategyRecord) {
+      throw new NotFoundException(`Strategy ${config.strategyId} not found`);
+    }
+
+    // Reject oversized searches now rather than from the queue
+    const space = config.parameters.map((range) => this.toAxis(range));
+    const combinations = this.countCombinations(space);
+    if (config.method === "GRID" && combinations > config.maxIterations) {
+      throw new BadRequestException(
+        `Parameter grid has ${combinations} combinations, more than maxIterations (${config.maxIterations}). Narrow the ranges or use RANDOM/GENETIC search`,
+      );
+    }
+
+    const optimization = await this.prisma.backtestOptimization.create({
+      data: {
+        userId,
+        config: config as any,
+        status: BacktestStatus.PENDING,
+      },
+    });
+
+    const job: OptimizationJob = { optimizationId: optimization.id, userId };
+    await this.optimizationQueue.add("run-optimization", job, {
+      jobId: optimization.id,
+      removeOnComplete: true,
+      removeOnFail: false,
+    });
+
+    this.logger.log(
+      `Queued optimization ${optimization.id} of strategy ${config.strategyId} for user ${userId} (${config.method}, ${config.objective})`,
+    );
+
+    return this.toRecord(optimization);
+  }
+
+  async getOptimization(
+    optimizationId: string,
+    userId: string,
+  ): Promise<OptimizationRecord> {
+    const optimization = await this.prisma.backtestOptimization.findFirst({
+      where: { id: optimizationId, userId },
+    });
+
+    if (!optimization) {
+      throw new NotFoundException(`Optimization ${optimizationId} not found`);
+    }
+
+    return this.toRecord(optimization);
+  }
+
+  /**
+   * Cancel a pending or running optimization
+   */
+  async cancelOptimization(
+    optimizationId: string,
+    userId: string,
+  ): Promise<OptimizationRecord> {
+    const optimization = await this.getOptimization(optimizationId, userId);
+
+    if (
+      optimization.status !== BacktestStatus.PENDING &&
+      optimization.status !== BacktestStatus.RUNNING
+    ) {
+      throw new BadRequestException(
+        `Optimization ${optimizationId} is already ${optimization.status.toLowerCase()}`,
+      );
+    }
+
+    // A running search notices the status within CANCEL_CHECK_MS
+    const cancelled = await this.prisma.backtestOptimization.update({
+      where: { id: optimizationId },
+      data: {
+        status: BacktestStatus.CANCELLED,
+        completedAt: new Date(),
+      },
+    });
+
+    await this.optimizationQueue.removeJob(optimizationId);
+
+    this.notify(userId, WebSocketEvent.OPTIMIZATION_STATUS, {
+      optimizationId,
+      status: BacktestStatus.CANCELLED,
+      progress: 0,
+    });
+
+    this.logger.log(`Optimization ${optimizationId} cancelled`);
+
+    return this.toRecord(cancelled);
+  }
+
+  /**
+   * Run a queued optimization (queue handler)
+   */
+  async executeOptimization({
+    optimizationId,
+    userId,
+  }: OptimizationJob): Promise<void> {
+    try {
+      // Update status to RUNNING, unless it was cancelled while queued
+      const { count } = await this.prisma.backtestOptimization.updateMany({
+        where: { id: optimizationId, status: BacktestStatus.PENDING },
+        data: { status: BacktestStatus.RUNNING },
+      });
+
+      if (count === 0) {
+        this.logger.log(
+          `Optimization ${optimizationId} is no longer pending, skipping`,
+        );
+        return;
+      }
+
+      const optimization =
+        await this.prisma.backtestOptimization.findUniqueOrThrow({
+          where: { id: optimizationId },
+        });
+      // Dates come back as strings from the JSON column
+      const stored = optimization.config as any;
+      const config: OptimizationConfig = {
+        ...stored,
+        startDate: new Date(stored.startDate),
+        endDate: new Date(stored.endDate),
+      };
+
+      this.notify(userId, WebSocketEvent.OPTIMIZATION_STATUS, {
+        optimizationId,
+        status: BacktestStatus.RUNNING,
+        progress: 0,
+      });
+
+      const result = await this.runOptimization(optimizationId, config, {
+        onEvaluated: (evaluated, planned) =>
+          this.notify(userId, WebSocketEvent.OPTIMIZATION_PROGRESS, {
+            optimizationId,
+            status: BacktestStatus.RUNNING,
+            progress: Math.min(Math.round((evaluated / planned) * 100), 99),
+            evaluated,
+          }),
+        isCancelled: () => this.isCancelled(optimizationId),
+      });
+
+      if (!result) {
+        this.logger.log(`Optimization ${optimizationId} cancelled`);
+        return;
+      }
+
+      // A cancel that raced the last evaluation wins
+      await this.prisma.backtestOptimization.updateMany({
+        where: { id: optimizationId, status: BacktestStatus.RUNNING },
+        data: {
+          status: BacktestStatus.COMPLETED,
+          completedAt: new Date(),
+          result: result as any,
+        },
+      });
+
+      this.notify(userId, WebSocketEvent.OPTIMIZATION_STATUS, {
+        optimizationId,
+        status: BacktestStatus.COMPLETED,
+        progress: 100,
+        evaluated: result.combinationsTested,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Optimization ${optimizationId} failed: ${error.message}`,
+      );
+
+      await this.prisma.backtestOptimization.updateMany({
+        where: {
+          id: optimizationId,
+          status: { not: BacktestStatus.CANCELLED },
+        },
+        data: {
+          status: BacktestStatus.FAILED,
+          error: error.message,
+        },
+      });
+
+      this.notify(userId, WebSocketEvent.OPTIMIZATION_STATUS, {
+        optimizationId,
+        status: BacktestStatus.FAILED,
+        progress: 0,
+        error: error.message,
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Search the parameter space, rank the results and run walk-forward.
+   * Resolves to null when the optimization is cancelled.
+   */
+  private async runOptimization(
+    optimizationId: string,
+    config: OptimizationConfig,
+    hooks: {
+      onEvaluated: (evaluated: number, planned: number) => void;
+      isCancelled: () => Promise<boolean>;
+    },
+  ): Promise<OptimizationResult | null> {
+    const strategyRecord = await this.prisma.strategy.findUnique({
+      where: { id: config.strategyId },
+    });
+
+    if (!strategyRecord) {
+      throw new NotFoundException(`Strategy ${config.strategyId} not found`);
+    }
+
+    const baseConfig = (strategyRecord.config as Record<string, any>) || {};
+    const space = config.parameters.map((range) => this.toAxis(range));
+
+    // Load the data once; every run works on index ranges of the same series
+    const symbol = normalizeSymbol(config.cryptoSymbol);
+    const { warmupCandles, candles } =
+      await this.backtestingService.loadCandles(
+        symbol,
+        config.timeframe,
+        config.startDate,
+        config.endDate,
+        OPTIMIZATION_WARMUP,
+      );
+
+    if (candles.length === 0) {
+      throw new NotFoundException(
+        "No historical data available for the selected period",
+      );
+    }
+
+    const allCandles = [...warmupCandles, ...candles];
+    const firstIndex = warmupCandles.length;
+
+    const higherCandles = config.higherTimeframe
+      ? await this.backtestingService.loadCandles(
+          symbol,
+          config.higherTimeframe,
+          config.startDate,
+          config.endDate,
+          OPTIMIZATION_WARMUP,
+        )
+      : null;
+
+    const seriesCache = new Map<string, TimeframeSeries[]>();
+
+    // Every search, plus one out-of-sample run per walk-forward window
+    const searchSize =
+      config.method === "GRID"
+        ? this.countCombinations(space)
+        : Math.min(this.countCombinations(space), config.maxIterations);
+    const windows = config.walkForward?.windows ?? 0;
+    const planned = searchSize * (1 + windows) + windows;
+    let evaluated = 0;
+
+    // The replay asks at every progress step; the database is read at most
+    // once per CANCEL_CHECK_MS
+    let cancelled = false;
+    let checkedAt = 0;
+    const isCancelled = async () => {
+      if (!cancelled && Date.now() - checkedAt >= CANCEL_CHECK_MS) {
+        checkedAt = Date.now();
+        cancelled = await hooks.isCancelled();
+      }
+      return cancelled;
+    };
+
+    const evaluateRange =
+      (startIndex: number, endIndex: number): Evaluator =>
+      async (parameters) => {
+        const strategy = createBacktestStrategy(
+          strategyRecord.type,
+          { ...baseConfig, ...parameters },
+          config.higherTimeframe,
+          this.strategiesService.getStrategy(strategyRecord.type),
+        );
+
+        const cacheKey = JSON.stringify(strategy.indicatorOptions || {});
+        if (!seriesCache.has(cacheKey)) {
+          seriesCache.set(cacheKey, [
+            this.backtestEngine.buildSeries(
+              config.timeframe,
+              allCandles,
+              strategy.indicatorOptions,
+            ),
+            ...(higherCandles && config.higherTimeframe
+              ? [
+                  this.backtestEngine.buildSeries(
+                    config.higherTimeframe,
+                    [...higherCandles.warmupCandles, ...higherCandles.candles],
+                    strategy.indicatorOptions,
+                  ),
+                ]
+              : []),
+          ]);
+        }
+        const [series, ...higherSeries] = seriesCache.get(cacheKey)!;
+        await strategy.prepare?.(series, startIndex, endIndex);
+
+        const run = await this.backtestEngine.runPortfolioAsync({
+          backtestId: optimizationId,
+          config,
+          strategy,
+          legs: [
+            {
+              symbol: config.cryptoSymbol,
+              series,
+              startIndex,
+              endIndex,
+              higherSeries,
+            },
+          ],
+          isCancelled,
+        });
+
+        // Unwinds the search; executeOptimization sees the cancelled row
+        if (!run) throw new Error("Optimization cancelled");
+
+        const metrics = this.backtestingService.calculateMetrics(
+          run.trades,
+          run.equityCurve,
+          run.drawdownCurve,
+          config,
+          series.candles.slice(startIndex, endIndex),
+        );
+
+        hooks.onEvaluated(++evaluated, planned);
+
+        return {
+          parameters,
+          score:
+            metrics.totalTrades >= config.minTrades
+              ? this.getScore(metrics, config.objective)
+              : -Infinity,
+          metrics,
+        };
+      };
+
+    try {
+      const evaluations = await this.search(
+        space,
+        config,
+        evaluateRange(firstIndex, allCandles.length),
+      );
+
+      const ranked = evaluations
+        .filter((e) => e.score !== -Infinity)
+        .sort((a, b) => b.score - a.score);
+      const ranking = ranked
+        .slice(0, RANKING_SIZE)
+        .map((evaluation, index) => this.toRow(evaluation, index + 1));
+
+      const walkForward = config.walkForward
+        ? await this.runWalkForward(
+            space,
+            config,
+            allCandles.map((c) => c.openTime),
+            firstIndex,
+            evaluateRange,
+          )
+        : undefined;
+
+      const result: OptimizationResult = {
+        strategyId: config.strategyId,
+        strategyType: strategyRecord.type,
+        method: config.method,
+        objective: config.objective,
+        combinationsTested: evaluations.length,
+        best: ranking[0] || null,
+        ranking,
+        walkForward,
+        warnings: this.getOverfittingWarnings(
+          ranked,
+          evaluations.length,
+          config,
+          walkForward,
+        ),
+      };
+
+      this.logger.log(
+        `Optimization ${optimizationId} finished: ${evaluations.length} parameter sets, best score ${result.best?.score.toFixed(3) ?? "n/a"}`,
+      );
+
+      return result;
+    } catch (error) {
+      if (cancelled) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Evaluate parameter sets according to the configured search method
+   */
+  private async search(
+    space: ParameterAxis[],
+    config: OptimizationConfig,
+    evaluate: Evaluator,
+  ): Promise<Evaluation[]> {
+    const combinations = this.countCombinations(space);
+    const evaluated = new Map<string, Evaluation>();
+
+    const toParameters = (genes: number[]) =>
+      Object.fromEntries(space.map((p, i) => [p.name, p.valueAt(genes[i])]));
+    const evaluateGenes = async (genes: number[]) => {
+      const key = genes.join(",");
+      if (!evaluated.has(key)) {
+        evaluated.set(key, await evaluate(toParameters(genes)));
+      }
+      return evaluated.get(key)!;
+    };
+    const randomGenes = () =>
+      space.map((p) => Math.floor(Math.random() * p.size));
+
+    switch (config.method) {
+      case "GRID": {
+        for (let n = 0; n < combinations; n++) {
+          // Decode n as a mixed-radix number, one digit per parameter
+          let rest = n;
+          const genes = space.map((p) => {
+            const gene = rest % p.size;
+            rest = Math.floor(rest / p.size);
+            return gene;
+          });
+          await evaluateGenes(genes);
+        }
+        break;
+      }
+
+      case "RANDOM": {
+        const target = Math.min(combinations, config.maxIterations);
+        while (evaluated.size < target) {
+          await evaluateGenes(randomGenes());
+        }
+        break;
+      }
+
+      case "GENETIC": {
+        const target = Math.min(combinations, config.maxIterations);
+        let population = Array.from(
+          { length: Math.min(GENETIC_POPULATION, target) },
+          randomGenes,
+        );
+        for (const genes of population) {
+          await evaluateGenes(genes);
+        }
+
+        let stalled = 0;
+        while (evaluated.size < target && stalled < target * 10) {
+          const scored: { genes: number[]; score: number }[] = [];
+          for (const genes of population) {
+            scored.push({ genes, score: (await evaluateGenes(genes)).score });
+          }
+          const tournament = () => {
+            const picks = Array.from(
+              { length: 3 },
+              () => scored[Math.floor(Math.random() * scored.length)],
+            );
+            return picks.reduce((best, p) => (p.score > best.score ? p : best))
+              .genes;
+          };
+
+          const next: number[][] = [];
+          while (next.length < population.length) {
+            const mother = tournament();
+            const father = tournament();
+            const child = space.map((p, i) =>
+              Math.random() < MUTATION_RATE
+                ? Math.floor(Math.random() * p.size)
+                : Math.random() < 0.5
+                  ? mother[i]
+                  : father[i],
+            );
+            const before = evaluated.size;
+            await evaluateGenes(child);
+            stalled = evaluated.size === before ? stalled + 1 : 0;
+            next.push(child);
+            if (evaluated.size >= target) break;
+          }
+          population = next;
+        }
+        break;
+      }
+    }
+
+    return [...evaluated.values()];
+  }
+
+  /**
+   * Rolling walk-forward: optimize on each in-sample window, then replay the
+   * winning parameters on the out-of-sample window that follows it
+   */
+  private async runWalkForward(
+    space: ParameterAxis[],
+    config: OptimizationConfig,
+    openTimes: Date[],
+    firstIndex: number,
+    evaluateRange: (startIndex: number, endIndex: number) => Evaluator,
+  ): Promise<WalkForwardSummary> {
+    const { windows, inSampleRatio } = config.walkForward!;
+    const length = openTimes.length - firstIndex;
+
+    // a + windows * b = length, with a / (a + b) = inSampleRatio
+    const outOfSampleBars = Math.floor(
+      length / (windows + inSampleRatio / (1 - inSampleRatio)),
+    );
+    const inSampleBars = Math.floor(
+      (outOfSampleBars * inSampleRatio) / (1 - inSampleRatio),
+    );
+
+    if (outOfSampleBars < 20 || inSampleBars < 50) {
+      throw new BadRequestException(
+        `Not enough candles (${length}) for ${windows} walk-forward windows`,
+      );
+    }
+
+    const results: WalkForwardWindow[] = [];
+
+    for (let w = 0; w < windows; w++) {
+      const inSampleStart = firstIndex + w * outOfSampleBars;
+      const inSampleEnd = inSampleStart + inSampleBars;
+      const outOfSampleEnd =
+        w === windows - 1 ? openTimes.length : inSampleEnd + outOfSampleBars;
+
+      const candidates = await this.search(
+        space,
+        config,
+        evaluateRange(inSampleStart, inSampleEnd),
+      );
+      const best = candidates.reduce((a, b) => (b.score > a.score ? b : a));
+      const outOfSample = await evaluateRange(
+        inSampleEnd,
+        outOfSampleEnd,
+      )(best.parameters);
+
+      results.push({
+        window: w + 1,
+        inSampleStart: openTimes[inSampleStart],
+        inSampleEnd: openTimes[inSampleEnd - 1],
+        outOfSampleStart: openTimes[inSampleEnd],
+        outOfSampleEnd: openTimes[outOfSampleEnd - 1],
+        parameters: best.parameters,
+        inSampleScore: this.finiteOrZero(best.score),
+        outOfSampleScore: this.finiteOrZero(outOfSample.score),
+        inSampleReturnPercent: best.metrics.totalReturnPercent,
+        outOfSampleReturnPercent: outOfSample.metrics.totalReturnPercent,
+      });
+    }
+
+    // Compare per-bar returns, since in-sample windows are longer
+    const mean = (values: number[]) =>
+      values.reduce((sum, v) => sum + v, 0) / values.length;
+    const inSampleRate = mean(
+      results.map((r) => r.inSampleReturnPercent / inSampleBars),
+    );
+    const outOfSampleRate = mean(
+      results.map((r) => r.outOfSampleReturnPercent / outOfSampleBars),
+    );
+
+    const compounded = results.reduce(
+      (equity, r) => equity * (1 + r.outOfSampleReturnPercent / 100),
+      1,
+    );
+
+    return {
+      windows: results,
+      efficiency: inSampleRate > 0 ? outOfSampleRate / inSampleRate : 0,
+      outOfSampleReturnPercent: (compounded - 1) * 100,
+      profitableWindows: results.filter((r) => r.outOfSampleReturnPercent > 0)
+        .length,
+    };
+  }
+
+  private getOverfittingWarnings(
+    ranked: Evaluation[],
+    combinationsTested: number,
+    config: OptimizationConfig,
+    walkForward?: WalkForwardSummary,
+  ): string[] {
+    const warnings: string[] = [];
+    const best = ranked[0];
+
+    const unranked = combinationsTested - ranked.length;
+    if (unranked > 0) {
+      warnings.push(
+        `${unranked} parameter sets produced fewer than ${config.minTrades} trades and were not ranked`,
+      );
+    }
+
+    if (!best) {
+      warnings.push("No parameter set produced enough trades to rank");
+      return warnings;
+    }
+
+    const bestTrades = best.metrics.totalTrades;
+    if (bestTrades < 30) {
+      warnings.push(
+        `Best parameter set made only ${bestTrades} trades; results are not statistically reliable`,
+      );
+    }
+    if (combinationsTested > bestTrades) {
+      warnings.push(
+        `${combinationsTested} parameter sets were tested for ${bestTrades} trades in the best run: high risk of curve fitting`,
+      );
+    }
+
+    // A lone peak in the score landscape rarely survives live trading
+    const top = ranked.slice(0, 10).map((e) => e.score);
+    if (top.length >= 5 && best.score > 0) {
+      const median = [...top].sort((a, b) => a - b)[Math.floor(top.length / 2)];
+      if (median < best.score * 0.5) {
+        warnings.push(
+          `Best score ${best.score.toFixed(3)} is an outlier against a top-10 median of ${median.toFixed(3)}: performance is sensitive to exact parameter values`,
+        );
+      }
+    }
+
+    if (walkForward) {
+      const { windows, efficiency, profitableWindows } = walkForward;
+
+      if (efficiency < 0.5) {
+        warnings.push(
+          `Walk-forward efficiency is ${(efficiency * 100).toFixed(0)}%: out-of-sample results fall well short of in-sample`,
+        );
+      }
+      if (profitableWindows < windows.length / 2) {
+        warnings.push(
+          `Only ${profitableWindows} of ${windows.length} out-of-sample windows were profitable`,
+        );
+      }
+
+      if (windows.length >= 3) {
+        for (const { name } of config.parameters) {
+          const values = windows.map((w) => w.parameters[name]);
+          const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+          const deviation = Math.sqrt(
+            values.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) /
+              values.length,
+          );
+          if (mean !== 0 && deviation / Math.abs(mean) > 0.25) {
+            warnings.push(
+              `Optimal ${name} is unstable across windows (${values.join(", ")})`,
+            );
+          }
+        }
+      }
+    }
+
+    return warnings;
+  }
+
+  /**
+   * Candidate values of a range: its explicit values, or min to max by step.
+   * The count is checked before anything is generated.
+   */
+  private toAxis(range: ParameterRange): ParameterAxis {
+    if (range.values && range.values.length > 0) {
+      const values = [...new Set(range.values)];
+      return {
+        name: range.name,
+        size: values.length,
+        valueAt: (index) => values[index],
+      };
+    }
+
+    if (range.min === undefined || range.max === undefined) {
+      throw new BadRequestException(
+        `Parameter ${range.name} needs either values or min/max`,
+      );
+    }
+    if (range.max < range.min) {
+      throw new BadRequestException(
+        `Parameter ${range.name}: max must be greater than min`,
+      );
+    }
+
+    // Without a step, try five evenly spaced values
+    const min = range.min;
+    const step = range.step || (range.max - min) / 4 || 1;
+    const size = Math.floor((range.max - min) / step + 1e-6) + 1;
+    if (!Number.isFinite(size) || size > MAX_RANGE_VALUES) {
+      throw new BadRequestException(
+        `Parameter ${range.name} spans ${size} values, more than ${MAX_RANGE_VALUES}. Use a larger step or a narrower range`,
+      );
+    }
+
+    return {
+      name: range.name,
+      size,
+      valueAt: (index) => Number((min + index * step).toFixed(8)),
+    };
+  }
+
+  private countCombinations(space: ParameterAxis[]): number {
+    return space.reduce((total, p) => total * p.size, 1);
+  }
+
+  private getScore(
+    metrics: BacktestMetrics,
+    objective: OptimizationConfig["objective"],
+  ): number {
+    switch (objective) {
+      case "TOTAL_RETURN":
+        return metrics.totalReturnPercent;
+      case "PROFIT_FACTOR":
+        return Math.min(metrics.profitFactor, 100);
+      case "CALMAR":
+        return metrics.maxDrawdownPercent > 0
+          ? metrics.totalReturnPercent / metrics.maxDrawdownPercent
+          : metrics.totalReturnPercent;
+      default:
+        return metrics.sharpeRatio;
+    }
+  }
+
+  private toRow(evaluation: Evaluation, rank: number): OptimizationRow {
+    const { metrics } = evaluation;
+
+    return {
+      rank,
+      parameters: evaluation.parameters,
+      score: evaluation.score,
+      totalReturnPercent: metrics.totalReturnPercent,
+      sharpeRatio: metrics.sharpeRatio,
+      maxDrawdownPercent: metrics.maxDrawdownPercent,
+      profitFactor: metrics.profitFactor,
+      winRate: metrics.winRate,
+      totalTrades: metrics.totalTrades,
+    };
+  }
+
+  private async isCancelled(optimizationId: string): Promise<boolean> {
+    const optimization = await this.prisma.backtestOptimization.findUnique({
+      where: { id: optimizationId },
+      select: { status: true },
+    });
+    return !optimization || optimization.status === BacktestStatus.CANCELLED;
+  }
+
+  private notify(
+    userId: string,
+    event:
+      | WebSocketEvent.OPTIMIZATION_PROGRESS
+      | WebSocketEvent.OPTIMIZATION_STATUS,
+    payload: Omit<OptimizationProgressPayload, "timestamp">,
+  ) {
+    this.websocketGateway.sendOptimizationUpdate(userId, event, {
+      ...payload,
+      timestamp: Date.now(),
+    });
+  }
+
+  private toRecord(optimization: BacktestOptimization): OptimizationRecord {
+    return {
+      id: optimization.id,
+      config: optimization.config as any,
+      status: optimization.status as BacktestStatus,
+      result: (optimization.result as any) || undefined,
+      startedAt: optimization.createdAt,
+      completedAt: optimization.completedAt || undefined,
+      error: optimization.error || undefined,
+    };
+  }
+
+  private finiteOrZero(value: number): number {
+    return Number.isFinite(value) ? value : 0;
+  }
+}
@@ -0,0 +1,262 @@
+import {
+  BacktestContext,
+  BacktestSignal,
+  BacktestStrategy,
+  BarView,
+} from "./backtesting.types";
+import { IStrategy, StrategyEvaluation } from "../strategies/strategies.types";
+import { SeriesCandle } from "../indicators/indicators.types";
+
+/**
+ * Feed-based strategy rules for the backtesting engine.
+ *
+ * Strategy types with a live implementation are replayed through its pure
+ * evaluate(); the remaining rules read from pre-computed indicator vectors.
+ * Either way a full backtest needs no database access.
+ */
+
+const HOLD: BacktestSignal = {
+  type: "HOLD",
+  reason: "No clear signal",
+  confidence: 0,
+};
+
+const EMA_RIBBON_KEYS = ["ema5", "ema10", "ema20", "ema50", "ema200"] as const;
+
+function getAlignment(bar: BarView): "BULLISH" | "BEARISH" | "MIXED" {
+  const emas = EMA_RIBBON_KEYS.map((key) => bar.value(key));
+  if (emas.some((value) => isNaN(value))) return "MIXED";
+
+  const bullish = emas.every((value, i) => i === 0 || emas[i - 1] > value);
+  const bearish = emas.every((value, i) => i === 0 || emas[i - 1] < value);
+  return bullish ? "BULLISH" : bearish ? "BEARISH" : "MIXED";
+}
+
+/**
+ * Higher-timeframe trend filter: new entries must agree with the higher
+ * timeframe (close above its EMA 50 for longs, below for shorts). Signals
+ * that close the open position are never filtered.
+ */
+function applyTrendFilter(
+  signal: BacktestSignal,
+  context: BacktestContext,
+  higherTimeframe?: string,
+): BacktestSignal {
+  if (!higherTimeframe || signal.type === "HOLD" || signal.type === "EXIT") {
+    return signal;
+  }
+
+  const entrySide = signal.type === "BUY" ? "LONG" : "SHORT";
+  if (context.inPosition && context.positionSide !== entrySide) {
+    return signal;
+  }
+
+  const higher = context.higher(higherTimeframe);
+  const ema50 = higher?.value("ema50");
+  if (!higher || ema50 === undefined || isNaN(ema50)) {
+    return { ...HOLD, reason: `No ${higherTimeframe} trend data yet` };
+  }
+
+  const agrees =
+    entrySide === "LONG"
+      ? higher.candle.close > ema50
+      : higher.candle.close < ema50;
+  if (!agrees) {
+    return {
+      ...HOLD,
+      reason: `${higherTimeframe} trend disagrees, ${signal.type} filtered out`,
+    };
+  }
+
+  return {
+    ...signal,
+    reason: `${signal.reason}. ${higherTimeframe} trend confirms`,
+  };
+}
+
+/**
+ * Same scoring as IndicatorsService.getComprehensiveAnalysis
+ */
+function createComprehensiveStrategy(): BacktestStrategy {
+  return {
+    name: "Comprehensive Analysis",
+    warmup: 200,
+    onCandle({ bar }) {
+      const close = bar.candle.close;
+      const rsi = bar.value("rsi");
+      const histogram = bar.value("macdHistogram");
+      const macd = bar.value("macd");
+      const macdSignal = bar.value("macdSignal");
+      const alignment = getAlignment(bar);
+
+      let bullishScore = 0;
+      let bearishScore = 0;
+
+      if (rsi < 30) bullishScore += 2;
+      if (rsi > 70) bearishScore += 2;
+
+      if (histogram > 0 && macd > macdSignal) bullishScore += 2;
+      if (histogram < 0 && macd < macdSignal) bearishScore += 2;
+
+      if (alignment === "BULLISH") bullishScore += 2;
+      if (alignment === "BEARISH") bearishScore += 2;
+
+      if (close < bar.value("bbLower")) bullishScore += 1;
+      if (close > bar.value("bbUpper")) bearishScore += 1;
+
+      if (bar.value("volumeRatio") > 1.5) {
+        if (bullishScore > bearishScore) bullishScore += 1;
+        if (bearishScore > bullishScore) bearishScore += 1;
+      }
+
+      if (bullishScore >= 4 && bullishScore > bearishScore) {
+        return {
+          type: "BUY",
+          reason: `Bullish score ${bullishScore}/10`,
+          confidence: bullishScore * 10,
+        };
+      }
+      if (bearishScore >= 4 && bearishScore > bullishScore) {
+        return {
+          type: "SELL",
+          reason: `Bearish score ${bearishScore}/10`,
+          confidence: bearishScore * 10,
+        };
+      }
+
+      return HOLD;
+    },
+  };
+}
+
+/**
+ * Run a live strategy's evaluate() on the closed candles of each bar, so
+ * the backtest trades exactly what the live signal would have said.
+ * Strategies with evaluateSeries are evaluated once per series in prepare().
+ */
+function fromLiveStrategy(
+  live: IStrategy,
+  config: Record<string, any>,
+): BacktestStrategy {
+  const prepared = new Map<SeriesCandle, StrategyEvaluation>();
+
+  return {
+    name: live.name,
+    warmup: live.lookback,
+    prepare: live.evaluateSeries
+      ? async (series, startIndex, endIndex) => {
+          const from = Math.max(startIndex, live.lookback);
+          const evaluations = await live.evaluateSeries!(
+            series.candles.slice(0, endIndex),
+            config,
+            from,
+          );
+          evaluations.forEach((evaluation, i) =>
+            prepared.set(series.candles[from + i], evaluation),
+          );
+        }
+      : undefined,
+    onCandle({ bar }) {
+      const evaluation =
+        prepared.get(bar.candle) ??
+        live.evaluate(bar.history(live.lookback), config);
+
+      if (evaluation.shouldEnter && evaluation.type) {
+        return {
+          type: evaluation.type,
+          reason: evaluation.analysis,
+          confidence: evaluation.confidence,
+          stopLoss: evaluation.stopLoss,
+          takeProfit: evaluation.takeProfit,
+        };
+      }
+      if (evaluation.shouldExit) {
+        return { type: "EXIT", reason: evaluation.analysis, confidence: 0 };
+      }
+
+      return { ...HOLD, reason: evaluation.analysis };
+    },
+  };
+}
+
+function createBollingerSqueezeStrategy(
+  config: Record<string, any>,
+): BacktestStrategy {
+  const lookback = config.squeezeLookback ?? 20;
+
+  const bandwidth = (bar: BarView, offset: number) =>
+    (bar.value("bbUpper", offset) - bar.value("bbLower", offset)) /
+    bar.value("bbMiddle", offset);
+
+  return {
+    name: "Bollinger Squeeze",
+    warmup: (config.bbPeriod ?? 20) + lookback,
+    indicatorOptions: {
+      bbPeriod: config.bbPeriod,
+      bbStdDev: config.bbStdDev,
+    },
+    onCandle({ bar }) {
+      const close = bar.candle.close;
+
+      // Squeeze: previous bar had the narrowest bands of the lookback window
+      const previous = bandwidth(bar, 1);
+      let narrowest = Infinity;
+      for (let offset = 1; offset <= lookback; offset++) {
+        narrowest = Math.min(narrowest, bandwidth(bar, offset));
+      }
+      const squeezed = previous <= narrowest * 1.05;
+
+      if (!squeezed) return HOLD;
+
+      if (close > bar.value("bbUpper")) {
+        return {
+          type: "BUY",
+          reason: "Breakout above upper band after squeeze",
+          confidence: 70,
+          stopLoss: bar.value("bbMiddle"),
+        };
+      }
+      if (close < bar.value("bbLower")) {
+        return {
+          type: "SELL",
+          reason: "Breakdown below lower band after squeeze",
+          confidence: 70,
+          stopLoss: bar.value("bbMiddle"),
+        };
+      }
+
+      return HOLD;
+    },
+  };
+}
+
+/**
+ * Build the feed strategy for a stored Strategy record. Types with a live
+ * implementation (`live`) run its evaluate(); the rest use feed rules.
+ */
+export function createBacktestStrategy(
+  type: string,
+  config: Record<string, any> = {},
+  higherTimeframe?: string,
+  live?: IStrategy | null,
+): BacktestStrategy {
+  let strategy: BacktestStrategy;
+
+  if (live) {
+    strategy = fromLiveStrategy(live, config);
+  } else if (type === "BOLLINGER_SQUEEZE") {
+    strategy = createBollingerSqueezeStrategy(config);
+  } else {
+    strategy = createComprehensiveStrategy();
+  }
+
+  if (!higherTimeframe) {
+    return strategy;
+  }
+
+  return {
+    ...strategy,
+    onCandle: (context) =>
+      applyTrendFilter(strategy.onCandle(context), context, higherTimeframe),
+  };
+}
@@ -69,6 +69,41 @@ export interface WalkForwardResult {
   efficiency: number; // outSample return / inSample return
 }
 
+export interface PercentileSummary {
+  p5: number;
+  p25: number;
+  median: number;
+  p75: number;
+  p95: number;
+  mean: number;
+}
+
+export interface EquityBandPoint {
+  timestamp: Date;
+  p5: number;
+  p25: number;
+  median: number;
+  p75: number;
+  p95: number;
+}
+
+export interface SimulationDistribution {
+  finalCapital: PercentileSummary;
+  maxDrawdownPercent: PercentileSummary;
+  riskOfRuin: number; // % of paths that fell to the ruin threshold
+  bands: EquityBandPoint[]; // Equity percentiles after each trade
+}
+
+export interface RobustnessResult {
+  simulations: number;
+  trades: number;
+  ruinLossPercent: number;
+  reshuffle: SimulationDistribution; // Same trades, random order
+  bootstrap: SimulationDistribution; // Trades drawn with replacement
+}
+
+const MAX_BAND_POINTS = 100;
+
 @Injectable()
 export class BacktestingMetricsService {
   private readonly logger = new Logger(BacktestingMetricsService.name);
@@ -368,6 +403,118 @@ export class BacktestingMetricsService {
     };
   }
 
+  /**
+   * Monte Carlo reshuffling and bootstrap resampling of a trade sequence.
+   * `returns` are per-trade fractions of equity, in execution order, and
+   * `timestamps` the matching close times used to place the bands.
+   * Reshuffling keeps the final capital but moves the drawdowns around;
+   * bootstrapping also varies the final capital.
+   */
+  runRobustnessAnalysis(
+    returns: number[],
+    timestamps: Date[],
+    startDate: Date,
+    initialCapital: number,
+    simulations = 1000,
+    ruinLossPercent = 80,
+  ): RobustnessResult {
+    const ruinEquity = initialCapital * (1 - ruinLossPercent / 100);
+
+    // Trade indices at which the bands are sampled (0 = before any trade)
+    const step = Math.max(Math.ceil(returns.length / MAX_BAND_POINTS), 1);
+    const bandIndices: number[] = [];
+    for (let k = 0; k < returns.length; k += step) bandIndices.push(k);
+    bandIndices.push(returns.length);
+
+    const simulate = (createPath: () => number[]): SimulationDistribution => {
+      const finalCapital: number[] = [];
+      const maxDrawdowns: number[] = [];
+      const bandValues = bandIndices.map(() => new Float64Array(simulations));
+      let ruined = 0;
+
+      for (let s = 0; s < simulations; s++) {
+        const path = createPath();
+        let equity = initialCapital;
+        let peak = initialCapital;
+        let maxDrawdown = 0;
+        let hitRuin = false;
+        let band = 0;
+
+        for (let k = 0; k <= returns.length; k++) {
+          if (k > 0) {
+            equity *= 1 + Math.max(path[k - 1], -1);
+            peak = Math.max(peak, equity);
+            maxDrawdown = Math.max(maxDrawdown, ((peak - equity) / peak) * 100);
+            if (equity <= ruinEquity) hitRuin = true;
+          }
+          if (bandIndices[band] === k) {
+            bandValues[band][s] = equity;
+            band++;
+          }
+        }
+
+        finalCapital.push(equity);
+        maxDrawdowns.push(maxDrawdown);
+        if (hitRuin) ruined++;
+      }
+
+      return {
+        finalCapital: this.summarize(finalCapital),
+        maxDrawdownPercent: this.summarize(maxDrawdowns),
+        riskOfRuin: (ruined / simulations) * 100,
+        bands: bandIndices.map((k, b) => {
+          const { p5, p25, median, p75, p95 } = this.summarize(
+            Array.from(bandValues[b]),
+          );
+          return {
+            timestamp: k === 0 ? startDate : timestamps[k - 1],
+            p5,
+            p25,
+            median,
+            p75,
+            p95,
+          };
+        }),
+      };
+    };
+
+    return {
+      simulations,
+      trades: returns.length,
+      ruinLossPercent,
+      reshuffle: simulate(() => this.shuffle(returns)),
+      bootstrap: simulate(() =>
+        returns.map(() => returns[Math.floor(Math.random() * returns.length)]),
+      ),
+    };
+  }
+
+  /**
+   * Fisher-Yates shuffle of the trade returns
+   */
+  private shuffle(returns: number[]): number[] {
+    const path = [...returns];
+    for (let i = path.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [path[i], path[j]] = [path[j], path[i]];
+    }
+    return path;
+  }
+
+  private summarize(values: number[]): PercentileSummary {
+    const sorted = [...values].sort((a, b) => a - b);
+    const at = (p: number) => sorted[Math.floor((sorted.length - 1) * p)];
+
+    return {
+      p5: at(0.05),
+      p25: at(0.25),
+      median: at(0.5),
+      p75: at(0.75),
+      p95: at(0.95),
+      mean: sorted.reduce((sum, v) => sum + v, 0) / sorted.length,
+    };
+  }
+
   /**
    * Walk-forward analysis to test strategy robustness
    * Splits data into in-sample (optimization) and out-sample (validation)
@@ -5,6 +5,7 @@ import {
   Delete,
   Body,
   Param,
+  Query,
   UseGuards,
   HttpCode,
   HttpStatus,
@@ -17,7 +18,10 @@ import {
   ApiParam,
 } from "@nestjs/swagger";
 import { BacktestingService } from "./backtesting.service";
+import { BacktestOptimizerService } from "./backtest-optimizer.service";
 import { CreateBacktestDto } from "./dto/create-backtest.dto";
+import { OptimizeBacktestDto } from "./dto/optimize-backtest.dto";
+import { RobustnessQueryDto } from "./dto/robustness-query.dto";
 import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
 import { CurrentUser } from "../auth/decorators/current-user.decorator";
 
@@ -26,7 +30,10 @@ import { CurrentUser } from "../auth/decorators/current-user.decorator";
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth()
 export class BacktestingController {
-  constructor(private readonly backtestingService: BacktestingService) {}
+  constructor(
+    private readonly backtestingService: BacktestingService,
+    private readonly backtestOptimizerService: BacktestOptimizerService
+  ) {}
 
   @Post()
   @HttpCode(HttpStatus.CREATED)
@@ -65,6 +72,117 @@ export class BacktestingController {
     return this.backtestingService.createBacktest(userId, createBacktestDto);
   }
 
+  @Post("optimize")
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: "Optimize strategy parameters",
+    description:
+      "Queues a parameter grid (or random/genetic search) over the strategy, optionally validated with walk-forward windows. Progress is sent over websocket; fetch the ranked table with overfitting warnings from GET /backtesting/optimize/:id",
+  })
+  @ApiResponse({
+    status: 202,
+    description: "Optimization queued",
+    schema: {
+      example: {
+        id: "7c9e6679-7425-40de-944b-e07fc1f90ae7",
+        status: "PENDING",
+        config: {
+          /* ... */
+        },
+        startedAt: "2024-01-14T10:00:00Z",
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: "Invalid input data" })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 404, description: "Strategy not found" })
+  async optimize(
+    @CurrentUser("id") userId: string,
+    @Body() optimizeBacktestDto: OptimizeBacktestDto
+  ) {
+    return this.backtestOptimizerService.optimize(userId, optimizeBacktestDto);
+  }
+
+  @Get("optimize/:id")
+  @ApiParam({ name: "id", description: "Optimization ID" })
+  @ApiOperation({
+    summary: "Get optimization by ID",
+    description:
+      "Returns the status of an optimization and, once completed, its ranked table, walk-forward summary and overfitting warnings",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Optimization retrieved successfully",
+    schema: {
+      example: {
+        id: "7c9e6679-7425-40de-944b-e07fc1f90ae7",
+        status: "COMPLETED",
+        config: {
+          /* ... */
+        },
+        result: {
+          strategyId: "123",
+          strategyType: "RSI_VOLUME",
+          method: "GRID",
+          objective: "SHARPE",
+          combinationsTested: 25,
+          best: {
+            rank: 1,
+            parameters: { rsiOversold: 30, rsiOverbought: 70 },
+            score: 1.42,
+            totalReturnPercent: 18.5,
+            sharpeRatio: 1.42,
+            maxDrawdownPercent: 7.9,
+            profitFactor: 1.8,
+            winRate: 56,
+            totalTrades: 41,
+          },
+          walkForward: {
+            efficiency: 0.62,
+            outOfSampleReturnPercent: 6.1,
+            profitableWindows: 3,
+          },
+          warnings: [],
+        },
+        startedAt: "2024-01-14T10:00:00Z",
+        completedAt: "2024-01-14T10:02:11Z",
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: "Optimization not found" })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  async getOptimization(
+    @Param("id") optimizationId: string,
+    @CurrentUser("id") userId: string
+  ) {
+    return this.backtestOptimizerService.getOptimization(
+      optimizationId,
+      userId
+    );
+  }
+
+  @Post("optimize/:id/cancel")
+  @HttpCode(HttpStatus.OK)
+  @ApiParam({ name: "id", description: "Optimization ID" })
+  @ApiOperation({
+    summary: "Cancel an optimization",
+    description:
+      "Stops a pending or running optimization; a running one stops within a second",
+  })
+  @ApiResponse({ status: 200, description: "Optimization cancelled" })
+  @ApiResponse({ status: 400, description: "Optimization already finished" })
+  @ApiResponse({ status: 404, description: "Optimization not found" })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  async cancelOptimization(
+    @Param("id") optimizationId: string,
+    @CurrentUser("id") userId: string
+  ) {
+    return this.backtestOptimizerService.cancelOptimization(
+      optimizationId,
+      userId
+    );
+  }
+
   @Get()
   @ApiOperation({
     summary: "List user backtests",
@@ -137,6 +255,84 @@ export class BacktestingController {
     return this.backtestingService.getBacktestById(backtestId, userId);
   }
 
+  @Get(":id/robustness")
+  @ApiParam({ name: "id", description: "Backtest ID" })
+  @ApiOperation({
+    summary: "Monte Carlo robustness analysis",
+    description:
+      "Reshuffles and bootstrap-resamples the trades of a completed backtest to estimate the distribution of final capital, max drawdown and risk of ruin, with equity percentile bands",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Robustness analysis completed",
+    schema: {
+      example: {
+        backtestId: "550e8400-e29b-41d4-a716-446655440000",
+        simulations: 1000,
+        trades: 45,
+        ruinLossPercent: 80,
+        bootstrap: {
+          finalCapital: {
+            p5: 9120.4,
+            p25: 11050.2,
+            median: 12310.9,
+            p75: 13620.5,
+            p95: 15890.1,
+            mean: 12402.3,
+          },
+          maxDrawdownPercent: {
+            p5: 4.1,
+            p25: 6.8,
+            median: 9.2,
+            p75: 12.5,
+            p95: 18.9,
+            mean: 10.1,
+          },
+          riskOfRuin: 0.3,
+          bands: [
+            /* ... */
+          ],
+        },
+        reshuffle: {
+          /* ... */
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: "Backtest not completed" })
+  @ApiResponse({ status: 404, description: "Backtest not found" })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  async getRobustness(
+    @Param("id") backtestId: string,
+    @CurrentUser("id") userId: string,
+    @Query() query: RobustnessQueryDto
+  ) {
+    return this.backtestingService.getRobustnessAnalysis(
+      backtestId,
+      userId,
+      query
+    );
+  }
+
+  @Post(":id/cancel")
+  @HttpCode(HttpStatus.OK)
+  @ApiParam({ name: "id", description: "Backtest ID" })
+  @ApiOperation({
+    summary: "Cancel a backtest",
+    description:
+      "Stops a pending or running backtest; a running one stops at its next progress step",
+  })
+  @ApiResponse({ status: 200, description: "Backtest cancelled" })
+  @ApiResponse({ status: 400, description: "Backtest already finished" })
+  @ApiResponse({ status: 404, description: "Backtest not found" })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  async cancelBacktest(
+    @Param("id") backtestId: string,
+    @CurrentUser("id") userId: string
+  ) {
+    return this.backtestingService.cancelBacktest(backtestId, userId);
+  }
+
   @Delete(":id")
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiParam({ name: "id", description: "Backtest ID" })
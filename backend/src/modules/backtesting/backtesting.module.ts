@@ -1,14 +1,32 @@
 import { Module } from "@nestjs/common";
 import { BacktestingController } from "./backtesting.controller";
 import { BacktestingService } from "./backtesting.service";
+import { BacktestEngineService } from "./backtest-engine.service";
+import { BacktestOptimizerService } from "./backtest-optimizer.service";
+import { BacktestingMetricsService } from "./backtesting-metrics.service";
 import { AuthModule } from "../auth/auth.module";
 import { StrategiesModule } from "../strategies/strategies.module";
 import { IndicatorsModule } from "../indicators/indicators.module";
+import { RiskManagementModule } from "../risk-management/risk-management.module";
+import { WebsocketModule } from "../websocket/websocket.module";
+import { MarketDataModule } from "../market-data/market-data.module";
 
 @Module({
-  imports: [AuthModule, StrategiesModule, IndicatorsModule],
+  imports: [
+    AuthModule,
+    StrategiesModule,
+    IndicatorsModule,
+    RiskManagementModule,
+    WebsocketModule,
+    MarketDataModule,
+  ],
   controllers: [BacktestingController],
-  providers: [BacktestingService],
+  providers: [
+    BacktestingService,
+    BacktestEngineService,
+    BacktestOptimizerService,
+    BacktestingMetricsService,
+  ],
   exports: [BacktestingService],
 })
 export class BacktestingModule {}
@@ -1,8 +1,33 @@
-import { Injectable, Logger, NotFoundException } from "@nestjs/common";
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from "@nestjs/common";
+import { Backtest } from "@prisma/client";
 import { PrismaService } from "@/common/prisma/prisma.service";
+import { QueueService } from "@/common/queue/queue.service";
+import { JobQueue } from "@/common/queue/queue.types";
 import { StrategiesService } from "../strategies/strategies.service";
-import { IndicatorsService } from "../indicators/indicators.service";
+import { WebsocketGateway } from "../websocket/websocket.gateway";
+import { CandleRepository } from "../market-data/candle.repository";
+import {
+  MarketCandle,
+  normalizeSymbol,
+} from "../market-data/market-data.types";
+import {
+  BacktestProgressPayload,
+  WebSocketEvent,
+} from "../websocket/websocket.types";
+import { BacktestEngineService } from "./backtest-engine.service";
+import {
+  BacktestingMetricsService,
+  RobustnessResult,
+} from "./backtesting-metrics.service";
+import { createBacktestStrategy } from "./backtest-strategies";
 import { CreateBacktestDto } from "./dto/create-backtest.dto";
+import { RobustnessQueryDto } from "./dto/robustness-query.dto";
 import {
   BacktestResult,
   BacktestStatus,
@@ -12,28 +37,79 @@ import {
   EquityPoint,
   DrawdownPoint,
   BacktestConfig,
+  BacktestJob,
+  TimeframeSeries,
+  SideMetrics,
+  PortfolioLeg,
+  SymbolContribution,
 } from "./backtesting.types";
 
 /**
  * BacktestingService - Simulates trading strategies on historical data
  *
  * Features:
- * - Historical data replay
+ * - Historical data replay (event-driven, see BacktestEngineService)
  * - Strategy execution simulation
  * - Performance metrics calculation
  * - Equity curve generation
  * - Risk metrics (Sharpe ratio, max drawdown)
  * - Comparison with buy-and-hold
+ * - Multi-symbol portfolios on a shared balance
+ * - Runs on the "backtesting" queue (Bull, or in-process without Redis),
+ *   with progress over websocket and cancellation
  */
 @Injectable()
-export class BacktestingService {
+export class BacktestingService implements OnModuleInit {
   private readonly logger = new Logger(BacktestingService.name);
+  private readonly backtestQueue: JobQueue<BacktestJob>;
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly strategiesService: StrategiesService,
-    private readonly indicatorsService: IndicatorsService,
-  ) {}
+    private readonly backtestEngine: BacktestEngineService,
+    private readonly metricsService: BacktestingMetricsService,
+    private readonly websocketGateway: WebsocketGateway,
+    private readonly candleRepository: CandleRepository,
+    queueService: QueueService,
+  ) {
+    this.backtestQueue = queueService.getQueue("backtesting");
+  }
+
+  async onModuleInit() {
+    // Must finish before the queue starts handing out resumed jobs
+    await this.releaseInterruptedBacktests();
+
+    // Backtests are CPU-bound: one at a time
+    this.backtestQueue.process("run-backtest", (job) =>
+      this.executeBacktest(job.data),
+    );
+  }
+
+  /**
+   * Backtests left RUNNING by a restart whose job is waiting again (the
+   * queue resumes interrupted jobs from the start) go back to PENDING, so
+   * the resumed job can claim them. Jobs still active elsewhere are left
+   * alone.
+   */
+  private async releaseInterruptedBacktests(): Promise<void> {
+    const running = await this.prisma.backtest.findMany({
+      where: { status: BacktestStatus.RUNNING },
+      select: { id: true },
+    });
+
+    for (const { id } of running) {
+      const job = await this.backtestQueue.getJob(id);
+      if (job?.status !== "waiting" && job?.status !== "delayed") continue;
+
+      const { count } = await this.prisma.backtest.updateMany({
+        where: { id, status: BacktestStatus.RUNNING },
+        data: { status: BacktestStatus.PENDING },
+      });
+      if (count > 0) {
+        this.logger.log(`Backtest ${id} was interrupted, queued to resume`);
+      }
+    }
+  }
 
   /**
    * Create and start a new backtest
@@ -53,6 +129,14 @@ export class BacktestingService {
       timeframe: dto.timeframe || "1h",
       tradingFee: dto.tradingFee || 0.1,
       slippage: dto.slippage || 0.05,
+      higherTimeframe: dto.higherTimeframe,
+      exitRules: dto.exitRules,
+      positionSizing: dto.positionSizing,
+      tradeDirection: dto.tradeDirection,
+      leverage: dto.leverage,
+      fundingRate: dto.fundingRate,
+      maintenanceMargin: dto.maintenanceMargin,
+      portfolio: dto.portfolio,
     };
 
     // Find cryptocurrency by symbol
@@ -76,7 +160,9 @@ export class BacktestingService {
       data: {
         userId,
         cryptoId: crypto.id,
-        name: `Backtest ${config.cryptoSymbol} ${config.timeframe}`,
+        name: config.portfolio
+          ? `Portfolio ${this.getSymbols(config).join(", ")} ${config.timeframe}`
+          : `Backtest ${config.cryptoSymbol} ${config.timeframe}`,
         startDate: config.startDate,
         endDate: config.endDate,
         initialCapital: config.initialCapital,
@@ -87,8 +173,11 @@ export class BacktestingService {
     });
 
     // Start backtest execution (async)
-    this.executeBacktest(backtest.id, config).catch((error) => {
-      this.logger.error(`Backtest ${backtest.id} failed: ${error.message}`);
+    const job: BacktestJob = { backtestId: backtest.id, userId };
+    await this.backtestQueue.add("run-backtest", job, {
+      jobId: backtest.id,
+      removeOnComplete: true,
+      removeOnFail: false,
     });
 
     return {
@@ -104,176 +193,162 @@ export class BacktestingService {
   }
 
   /**
-   * Execute backtest simulation
+   * Execute backtest simulation (queue handler)
    */
-  private async executeBacktest(
-    backtestId: string,
-    config: BacktestConfig,
-  ): Promise<void> {
+  async executeBacktest({ backtestId, userId }: BacktestJob): Promise<void> {
     try {
       this.logger.log(`Starting backtest execution: ${backtestId}`);
 
-      // Update status to RUNNING
-      await this.prisma.backtest.update({
-        where: { id: backtestId },
+      // Update status to RUNNING, unless it was cancelled while queued
+      const { count } = await this.prisma.backtest.updateMany({
+        where: { id: backtestId, status: BacktestStatus.PENDING },
         data: { status: BacktestStatus.RUNNING },
       });
 
-      // Fetch historical candles
-      const candles = await this.prisma.candle.findMany({
-        where: {
-          symbol: `${config.cryptoSymbol}USDT`,
-          interval: config.timeframe,
-          openTime: {
-            gte: config.startDate,
-            lte: config.endDate,
-          },
-        },
-        orderBy: { openTime: "asc" },
+      if (count === 0) {
+        this.logger.log(
+          `Backtest ${backtestId} is no longer pending, skipping`,
+        );
+        return;
+      }
+
+      const backtest = await this.prisma.backtest.findUniqueOrThrow({
+        where: { id: backtestId },
+      });
+      // Dates come back as strings from the JSON column
+      const stored = backtest.strategyConfig as any;
+      const config: BacktestConfig = {
+        ...stored,
+        startDate: new Date(stored.startDate),
+        endDate: new Date(stored.endDate),
+      };
+
+      this.notify(userId, WebSocketEvent.BACKTEST_STATUS, {
+        backtestId,
+        status: BacktestStatus.RUNNING,
+        progress: 0,
+      });
+
+      // Resolve the strategy once for the whole run
+      const strategyRecord = await this.prisma.strategy.findUnique({
+        where: { id: config.strategyId },
       });
 
-      if (candles.length === 0) {
-        throw new Error("No historical data available for the selected period");
+      if (!strategyRecord) {
+        throw new NotFoundException(`Strategy ${config.strategyId} not found`);
       }
 
-      this.logger.log(
-        `Loaded ${candles.length} candles for backtest ${backtestId}`,
+      const strategy = createBacktestStrategy(
+        strategyRecord.type,
+        (strategyRecord.config as Record<string, any>) || {},
+        config.higherTimeframe,
+        this.strategiesService.getStrategy(strategyRecord.type),
       );
 
-      // Initialize trading state
-      let balance = config.initialCapital;
-      let position: { amount: number; entryPrice: number } | null = null;
-      const trades: BacktestTrade[] = [];
-      const equityCurve: EquityPoint[] = [];
-      let peak = config.initialCapital;
-      const drawdownCurve: DrawdownPoint[] = [];
-
-      // Simulate trading for each candle
-      for (let i = 50; i < candles.length; i++) {
-        const currentCandle = candles[i];
-        const historicalCandles = candles.slice(0, i + 1);
-
-        // Get strategy signal
-        const signal = await this.getStrategySignal(
-          config.strategyId,
-          config.cryptoSymbol,
-          historicalCandles,
+      // Fetch historical candles per symbol, plus enough earlier ones to warm up indicators
+      const legs: PortfolioLeg[] = [];
+      const candleSets: MarketCandle[][] = [];
+
+      for (const cryptoSymbol of this.getSymbols(config)) {
+        const symbol = normalizeSymbol(cryptoSymbol);
+        const { warmupCandles, candles } = await this.loadCandles(
+          symbol,
+          config.timeframe,
+          config.startDate,
+          config.endDate,
+          strategy.warmup,
         );
 
-        const currentPrice = parseFloat(currentCandle.close.toString());
-
-        // Execute trades based on signal
-        if (signal.type === "BUY" && !position && balance > 0) {
-          // Calculate position size (use 95% of balance to leave room for fees)
-          const tradeFee = (balance * 0.95 * config.tradingFee) / 100;
-          const slippageAmount = (balance * 0.95 * config.slippage) / 100;
-          const effectiveCapital = balance * 0.95 - tradeFee - slippageAmount;
-          const amount = effectiveCapital / currentPrice;
-
-          position = {
-            amount,
-            entryPrice: currentPrice,
-          };
-
-          balance -= effectiveCapital + tradeFee + slippageAmount;
-
-          trades.push({
-            id: `${backtestId}-${trades.length}`,
-            timestamp: currentCandle.openTime,
-            type: TradeType.BUY,
-            price: currentPrice,
-            amount,
-            fee: tradeFee,
-            total: effectiveCapital,
-            balance,
-            reason: signal.reason,
-          });
-        } else if (signal.type === "SELL" && position) {
-          // Sell position
-          const total = position.amount * currentPrice;
-          const tradeFee = (total * config.tradingFee) / 100;
-          const slippageAmount = (total * config.slippage) / 100;
-          const netProceeds = total - tradeFee - slippageAmount;
-
-          balance += netProceeds;
-
-          trades.push({
-            id: `${backtestId}-${trades.length}`,
-            timestamp: currentCandle.openTime,
-            type: TradeType.SELL,
-            price: currentPrice,
-            amount: position.amount,
-            fee: tradeFee,
-            total: netProceeds,
-            balance,
-            reason: signal.reason,
-          });
-
-          position = null;
+        if (candles.length === 0) {
+          if (cryptoSymbol === config.cryptoSymbol) {
+            throw new Error(
+              "No historical data available for the selected period",
+            );
+          }
+          this.logger.warn(
+            `No ${config.timeframe} candles for ${symbol}, leaving it out of backtest ${backtestId}`,
+          );
+          continue;
         }
 
-        // Calculate current equity
-        const positionValue = position ? position.amount * currentPrice : 0;
-        const equity = balance + positionValue;
-
-        // Track equity curve
-        equityCurve.push({
-          timestamp: currentCandle.openTime,
-          equity,
-          totalReturn: equity - config.initialCapital,
-          totalReturnPercent:
-            ((equity - config.initialCapital) / config.initialCapital) * 100,
-        });
+        this.logger.log(
+          `Loaded ${candles.length} ${symbol} candles for backtest ${backtestId}`,
+        );
 
-        // Track drawdown
-        if (equity > peak) {
-          peak = equity;
+        const higherSeries: TimeframeSeries[] = [];
+        if (config.higherTimeframe) {
+          const higher = await this.loadCandles(
+            symbol,
+            config.higherTimeframe,
+            config.startDate,
+            config.endDate,
+            strategy.warmup,
+          );
+          higherSeries.push(
+            this.backtestEngine.buildSeries(
+              config.higherTimeframe,
+              [...higher.warmupCandles, ...higher.candles],
+              strategy.indicatorOptions,
+            ),
+          );
         }
-        const drawdown = peak - equity;
-        const drawdownPercent = (drawdown / peak) * 100;
-
-        drawdownCurve.push({
-          timestamp: currentCandle.openTime,
-          drawdown,
-          drawdownPercent,
-          peak,
+
+        legs.push({
+          symbol: cryptoSymbol,
+          series: this.backtestEngine.buildSeries(
+            config.timeframe,
+            [...warmupCandles, ...candles],
+            strategy.indicatorOptions,
+          ),
+          startIndex: warmupCandles.length,
+          higherSeries,
         });
+        candleSets.push(candles);
       }
 
-      // Close any open position at the end
-      if (position) {
-        const finalPrice = parseFloat(
-          candles[candles.length - 1].close.toString(),
-        );
-        const total = position.amount * finalPrice;
-        const tradeFee = (total * config.tradingFee) / 100;
-        balance += total - tradeFee;
-
-        trades.push({
-          id: `${backtestId}-${trades.length}`,
-          timestamp: candles[candles.length - 1].openTime,
-          type: TradeType.SELL,
-          price: finalPrice,
-          amount: position.amount,
-          fee: tradeFee,
-          total: total - tradeFee,
-          balance,
-          reason: "End of backtest period",
-        });
+      for (const leg of legs) {
+        await strategy.prepare?.(leg.series, leg.startIndex);
       }
 
-      // Calculate metrics
-      const metrics = this.calculateMetrics(
-        trades,
-        equityCurve,
-        drawdownCurve,
+      const run = await this.backtestEngine.runPortfolioAsync({
+        backtestId,
         config,
-        candles,
-      );
+        strategy,
+        legs,
+        onProgress: (progress) =>
+          this.notify(userId, WebSocketEvent.BACKTEST_PROGRESS, {
+            backtestId,
+            status: BacktestStatus.RUNNING,
+            progress: progress.progress,
+            currentDate: progress.currentDate.getTime(),
+            tradesExecuted: progress.tradesExecuted,
+            message: progress.message,
+          }),
+        isCancelled: () => this.isCancelled(backtestId),
+      });
 
-      // Save results to database
-      await this.prisma.backtest.update({
-        where: { id: backtestId },
+      if (!run) {
+        this.logger.log(`Backtest ${backtestId} cancelled`);
+        return;
+      }
+
+      const { trades, equityCurve, drawdownCurve } = run;
+
+      // Calculate metrics; a portfolio is compared to an equal-weight hold
+      const metrics = {
+        ...this.calculateMetrics(
+          trades,
+          equityCurve,
+          drawdownCurve,
+          config,
+          candleSets[0],
+        ),
+        ...this.calculateBuyAndHold(candleSets, config.initialCapital),
+      };
+
+      // Save results to database (a cancel that raced the last step wins)
+      await this.prisma.backtest.updateMany({
+        where: { id: backtestId, status: BacktestStatus.RUNNING },
         data: {
           status: BacktestStatus.COMPLETED,
           completedAt: new Date(),
@@ -291,6 +366,13 @@ export class BacktestingService {
         },
       });
 
+      this.notify(userId, WebSocketEvent.BACKTEST_STATUS, {
+        backtestId,
+        status: BacktestStatus.COMPLETED,
+        progress: 100,
+        tradesExecuted: trades.length,
+      });
+
       this.logger.log(`Backtest ${backtestId} completed successfully`);
       this.logger.log(
         `Total trades: ${trades.length}, Win rate: ${metrics.winRate.toFixed(2)}%, Net profit: $${metrics.netProfit.toFixed(2)}`,
@@ -298,105 +380,148 @@ export class BacktestingService {
     } catch (error) {
       this.logger.error(`Backtest ${backtestId} failed: ${error.message}`);
 
-      // For now, just mark as failed - no error field in schema
-      await this.prisma.backtest.update({
-        where: { id: backtestId },
+      await this.prisma.backtest.updateMany({
+        where: { id: backtestId, status: { not: BacktestStatus.CANCELLED } },
         data: {
           status: BacktestStatus.FAILED,
+          error: error.message,
         },
       });
 
+      this.notify(userId, WebSocketEvent.BACKTEST_STATUS, {
+        backtestId,
+        status: BacktestStatus.FAILED,
+        progress: 0,
+        error: error.message,
+      });
+
       throw error;
     }
   }
 
   /**
-   * Get strategy signal for historical data
+   * Cancel a pending or running backtest
    */
-  private async getStrategySignal(
-    strategyId: string,
-    cryptoSymbol: string,
-    historicalCandles: any[],
-  ): Promise<{
-    type: "BUY" | "SELL" | "HOLD";
-    reason: string;
-    confidence: number;
-  }> {
-    // Use the last 200 candles for indicator calculation
-    const recentCandles = historicalCandles.slice(-200);
-
-    // Get strategy by ID
-    const strategy = await this.prisma.strategy.findUnique({
-      where: { id: strategyId },
+  async cancelBacktest(
+    backtestId: string,
+    userId: string,
+  ): Promise<BacktestResult> {
+    const backtest = await this.prisma.backtest.findFirst({
+      where: {
+        id: backtestId,
+        userId,
+      },
     });
 
-    if (!strategy) {
-      throw new NotFoundException(`Strategy ${strategyId} not found`);
+    if (!backtest) {
+      throw new NotFoundException(`Backtest ${backtestId} not found`);
     }
 
-    // Get comprehensive analysis
-    const analysis = await this.indicatorsService.getComprehensiveAnalysis(
-      cryptoSymbol,
-      "1h",
-    );
-
-    if (!analysis) {
-      return {
-        type: "HOLD",
-        reason: "No analysis available",
-        confidence: 0,
-      };
+    if (
+      backtest.status !== BacktestStatus.PENDING &&
+      backtest.status !== BacktestStatus.RUNNING
+    ) {
+      throw new BadRequestException(
+        `Backtest ${backtestId} is already ${backtest.status.toLowerCase()}`,
+      );
     }
 
-    // Determine signal based on strategy type
-    // For now, we use a simple consensus approach
-    if (analysis.overallSignal === "BUY" && analysis.confidence > 0.6) {
-      return {
-        type: "BUY",
-        reason: `Strong buy signal (${analysis.overallSignal})`,
-        confidence: analysis.confidence,
-      };
-    } else if (analysis.overallSignal === "SELL" && analysis.confidence > 0.6) {
-      return {
-        type: "SELL",
-        reason: `Strong sell signal (${analysis.overallSignal})`,
-        confidence: analysis.confidence,
-      };
-    }
+    // A running job notices the status on its next progress step
+    const cancelled = await this.prisma.backtest.update({
+      where: { id: backtestId },
+      data: {
+        status: BacktestStatus.CANCELLED,
+        completedAt: new Date(),
+      },
+    });
 
-    return {
-      type: "HOLD",
-      reason: "No clear signal",
-      confidence: analysis.confidence,
-    };
+    await this.backtestQueue.removeJob(backtestId);
+
+    this.notify(userId, WebSocketEvent.BACKTEST_STATUS, {
+      backtestId,
+      status: BacktestStatus.CANCELLED,
+      progress: 0,
+    });
+
+    this.logger.log(`Backtest ${backtestId} cancelled`);
+
+    return this.toBacktestResult(cancelled);
+  }
+
+  private async isCancelled(backtestId: string): Promise<boolean> {
+    const backtest = await this.prisma.backtest.findUnique({
+      where: { id: backtestId },
+      select: { status: true },
+    });
+    return !backtest || backtest.status === BacktestStatus.CANCELLED;
+  }
+
+  private notify(
+    userId: string,
+    event: WebSocketEvent.BACKTEST_PROGRESS | WebSocketEvent.BACKTEST_STATUS,
+    payload: Omit<BacktestProgressPayload, "timestamp">,
+  ) {
+    this.websocketGateway.sendBacktestUpdate(userId, event, {
+      ...payload,
+      timestamp: Date.now(),
+    });
   }
 
   /**
-   * Calculate backtest metrics
+   * Symbols a backtest trades: cryptoSymbol first, then the portfolio assets
    */
-  private calculateMetrics(
+  private getSymbols(config: BacktestConfig): string[] {
+    return [
+      ...new Set([
+        config.cryptoSymbol,
+        ...(config.portfolio?.assets.map((a) => a.symbol) || []),
+      ]),
+    ];
+  }
+
+  /**
+   * Load candles in [startDate, endDate] plus up to `warmup` candles before it.
+   * Timeframes that are not stored are resampled from lower ones.
+   */
+  async loadCandles(
+    symbol: string,
+    interval: string,
+    startDate: Date,
+    endDate: Date,
+    warmup: number,
+  ) {
+    const [warmupCandles, candles] = await Promise.all([
+      warmup > 0
+        ? this.candleRepository.getCandles(symbol, interval, {
+            endTime: new Date(startDate.getTime() - 1),
+            limit: warmup,
+          })
+        : [],
+      this.candleRepository.getCandles(symbol, interval, {
+        startTime: startDate,
+        endTime: endDate,
+      }),
+    ]);
+
+    return { warmupCandles, candles };
+  }
+
+  /**
+   * Calculate backtest metrics (also used to score optimization runs)
+   */
+  calculateMetrics(
     trades: BacktestTrade[],
     equityCurve: EquityPoint[],
     drawdownCurve: DrawdownPoint[],
     config: BacktestConfig,
     candles: any[],
   ): BacktestMetrics {
-    // Separate buy and sell trades
-    const sellTrades = trades.filter((t) => t.type === TradeType.SELL);
-
-    // Calculate profits/losses for each trade pair
-    const tradePairs: { profit: number; return: number }[] = [];
-    for (let i = 1; i < sellTrades.length; i++) {
-      const buyTrade = trades.find(
-        (t) =>
-          t.type === TradeType.BUY && t.timestamp < sellTrades[i].timestamp,
-      );
-      if (buyTrade) {
-        const profit = sellTrades[i].total - buyTrade.total;
-        const returnPct = (profit / buyTrade.total) * 100;
-        tradePairs.push({ profit, return: returnPct });
-      }
-    }
+    // Each closed position carries its realized P&L (fees and funding included)
+    const closedTrades = trades.filter((t) => t.action === "CLOSE");
+    const tradePairs = closedTrades.map((t) => ({
+      profit: t.pnl ?? 0,
+      return: t.pnlPercent ?? 0,
+    }));
 
     const winningTrades = tradePairs.filter((t) => t.profit > 0);
     const losingTrades = tradePairs.filter((t) => t.profit < 0);
@@ -412,14 +537,6 @@ export class BacktestingService {
     const totalReturn = finalEquity - config.initialCapital;
     const totalReturnPercent = (totalReturn / config.initialCapital) * 100;
 
-    // Buy and hold calculation
-    const firstPrice = parseFloat(candles[0].close.toString());
-    const lastPrice = parseFloat(candles[candles.length - 1].close.toString());
-    const buyAndHoldReturn =
-      ((lastPrice - firstPrice) / firstPrice) * config.initialCapital;
-    const buyAndHoldReturnPercent =
-      ((lastPrice - firstPrice) / firstPrice) * 100;
-
     // Max drawdown
     const maxDrawdown = Math.max(...drawdownCurve.map((d) => d.drawdown), 0);
     const maxDrawdownPercent = Math.max(
@@ -483,11 +600,127 @@ export class BacktestingService {
       totalReturn,
       totalReturnPercent,
 
-      buyAndHoldReturn,
-      buyAndHoldReturnPercent,
+      ...this.calculateBuyAndHold([candles], config.initialCapital),
 
       totalFees,
       finalCapital: finalEquity,
+
+      ...this.calculatePositionBreakdown(trades),
+      contributions: this.calculateContributions(trades, config),
+    };
+  }
+
+  /**
+   * Return of splitting the capital equally across the symbols and holding
+   */
+  private calculateBuyAndHold(
+    candleSets: any[][],
+    initialCapital: number,
+  ): Pick<BacktestMetrics, "buyAndHoldReturn" | "buyAndHoldReturnPercent"> {
+    const returns = candleSets.map((candles) => {
+      const firstPrice = parseFloat(candles[0].close.toString());
+      const lastPrice = parseFloat(
+        candles[candles.length - 1].close.toString(),
+      );
+      return (lastPrice - firstPrice) / firstPrice;
+    });
+    const averageReturn =
+      returns.reduce((sum, r) => sum + r, 0) / returns.length;
+
+    return {
+      buyAndHoldReturn: averageReturn * initialCapital,
+      buyAndHoldReturnPercent: averageReturn * 100,
+    };
+  }
+
+  /**
+   * Per-symbol share of the result; trades stored before portfolio support
+   * carry no symbol and belong to `cryptoSymbol`
+   */
+  private calculateContributions(
+    trades: BacktestTrade[],
+    config: BacktestConfig,
+  ): SymbolContribution[] {
+    const bySymbol = new Map<string, BacktestTrade[]>();
+    for (const trade of trades) {
+      const symbol = trade.symbol || config.cryptoSymbol;
+      bySymbol.set(symbol, [...(bySymbol.get(symbol) || []), trade]);
+    }
+
+    return [...bySymbol.entries()]
+      .map(([symbol, symbolTrades]) => {
+        const closedTrades = symbolTrades.filter((t) => t.action === "CLOSE");
+        const netProfit = closedTrades.reduce(
+          (sum, t) => sum + (t.pnl ?? 0),
+          0,
+        );
+
+        return {
+          symbol,
+          totalTrades: closedTrades.length,
+          winRate:
+            closedTrades.length > 0
+              ? (closedTrades.filter((t) => (t.pnl ?? 0) > 0).length /
+                  closedTrades.length) *
+                100
+              : 0,
+          netProfit,
+          totalFees: symbolTrades.reduce((sum, t) => sum + t.fee, 0),
+          totalFunding: closedTrades.reduce(
+            (sum, t) => sum + (t.funding || 0),
+            0,
+          ),
+          contributionPercent: (netProfit / config.initialCapital) * 100,
+        };
+      })
+      .sort((a, b) => b.netProfit - a.netProfit);
+  }
+
+  /**
+   * Long/short split plus funding and liquidation totals, from closed trades
+   */
+  private calculatePositionBreakdown(
+    trades: BacktestTrade[],
+  ): Pick<BacktestMetrics, "long" | "short" | "totalFunding" | "liquidations"> {
+    const closedTrades = trades.filter((t) => t.action === "CLOSE");
+
+    return {
+      long: this.calculateSideMetrics(
+        closedTrades.filter((t) => t.side === "LONG"),
+      ),
+      short: this.calculateSideMetrics(
+        closedTrades.filter((t) => t.side === "SHORT"),
+      ),
+      totalFunding: closedTrades.reduce((sum, t) => sum + (t.funding || 0), 0),
+      liquidations: closedTrades.filter((t) => t.liquidated).length,
+    };
+  }
+
+  private calculateSideMetrics(closedTrades: BacktestTrade[]): SideMetrics {
+    const profits = closedTrades.map((t) => t.pnl ?? 0);
+    const wins = profits.filter((p) => p > 0);
+    const losses = profits.filter((p) => p < 0);
+    const grossProfit = wins.reduce((sum, p) => sum + p, 0);
+    const grossLoss = Math.abs(losses.reduce((sum, p) => sum + p, 0));
+
+    return {
+      totalTrades: closedTrades.length,
+      winningTrades: wins.length,
+      losingTrades: losses.length,
+      winRate:
+        closedTrades.length > 0 ? (wins.length / closedTrades.length) * 100 : 0,
+      netProfit: grossProfit - grossLoss,
+      profitFactor:
+        grossLoss > 0
+          ? grossProfit / grossLoss
+          : grossProfit > 0
+            ? Infinity
+            : 0,
+      averageTradeReturn:
+        closedTrades.length > 0
+          ? closedTrades.reduce((sum, t) => sum + (t.pnlPercent ?? 0), 0) /
+            closedTrades.length
+          : 0,
     };
   }
 
@@ -509,42 +742,7 @@ export class BacktestingService {
       throw new NotFoundException(`Backtest ${backtestId} not found`);
     }
 
-    return {
-      id: backtest.id,
-      config: backtest.strategyConfig as any,
-      status: backtest.status as BacktestStatus,
-      trades: (backtest.trades as any) || [],
-      metrics: {
-        totalTrades: backtest.totalTrades || 0,
-        winningTrades: backtest.winningTrades || 0,
-        losingTrades: backtest.losingTrades || 0,
-        winRate: backtest.winRate || 0,
-        profitFactor: backtest.profitFactor || 0,
-        sharpeRatio: backtest.sharpeRatio || 0,
-        maxDrawdown: backtest.maxDrawdown || 0,
-        totalReturn: backtest.totalReturn || 0,
-        finalCapital: backtest.finalCapital || backtest.initialCapital,
-        totalProfit: 0,
-        totalLoss: 0,
-        netProfit: 0,
-        averageWin: 0,
-        averageLoss: 0,
-        largestWin: 0,
-        largestLoss: 0,
-        maxDrawdownPercent: 0,
-        sortinoRatio: 0,
-        averageTradeReturn: 0,
-        totalReturnPercent: 0,
-        buyAndHoldReturn: 0,
-        buyAndHoldReturnPercent: 0,
-        totalFees: 0,
-      },
-      equityCurve: (backtest.equityCurve as any) || [],
-      drawdownCurve: [],
-      startedAt: backtest.createdAt,
-      completedAt: backtest.completedAt || undefined,
-      error: undefined,
-    };
+    return this.toBacktestResult(backtest);
   }
 
   /**
@@ -560,12 +758,79 @@ export class BacktestingService {
       take: limit,
     });
 
-    return backtests.map((backtest) => ({
+    return backtests.map((backtest) => this.toBacktestResult(backtest));
+  }
+
+  /**
+   * Monte Carlo and bootstrap distributions for a completed backtest
+   */
+  async getRobustnessAnalysis(
+    backtestId: string,
+    userId: string,
+    query: RobustnessQueryDto,
+  ): Promise<RobustnessResult & { backtestId: string }> {
+    const backtest = await this.prisma.backtest.findFirst({
+      where: {
+        id: backtestId,
+        userId,
+      },
+    });
+
+    if (!backtest) {
+      throw new NotFoundException(`Backtest ${backtestId} not found`);
+    }
+
+    if (backtest.status !== BacktestStatus.COMPLETED) {
+      throw new BadRequestException(
+        `Backtest ${backtestId} is ${backtest.status.toLowerCase()}, only completed backtests can be analyzed`,
+      );
+    }
+
+    const closedTrades = (
+      ((backtest.trades as any) || []) as BacktestTrade[]
+    ).filter((t) => t.action === "CLOSE");
+
+    if (closedTrades.length < 2) {
+      throw new BadRequestException(
+        "At least 2 closed trades are needed for a robustness analysis",
+      );
+    }
+
+    // Each trade as a fraction of the realized equity before it closed
+    let realizedEquity = backtest.initialCapital;
+    const returns = closedTrades.map((t) => {
+      const pnl = t.pnl ?? 0;
+      const tradeReturn = realizedEquity > 0 ? pnl / realizedEquity : 0;
+      realizedEquity += pnl;
+      return tradeReturn;
+    });
+
+    return {
+      backtestId,
+      ...this.metricsService.runRobustnessAnalysis(
+        returns,
+        closedTrades.map((t) => new Date(t.timestamp)),
+        backtest.startDate,
+        backtest.initialCapital,
+        query.simulations,
+        query.ruinLossPercent,
+      ),
+    };
+  }
+
+  /**
+   * Map a stored backtest to its API shape
+   */
+  private toBacktestResult(backtest: Backtest): BacktestResult {
+    const trades: BacktestTrade[] = (backtest.trades as any) || [];
+
+    return {
       id: backtest.id,
       config: backtest.strategyConfig as any,
       status: backtest.status as BacktestStatus,
-      trades: (backtest.trades as any) || [],
+      trades,
       metrics: {
+        ...this.createEmptyMetrics(backtest.initialCapital),
         totalTrades: backtest.totalTrades || 0,
         winningTrades: backtest.winningTrades || 0,
         losingTrades: backtest.losingTrades || 0,
@@ -575,27 +840,18 @@ export class BacktestingService {
         maxDrawdown: backtest.maxDrawdown || 0,
         totalReturn: backtest.totalReturn || 0,
         finalCapital: backtest.finalCapital || backtest.initialCapital,
-        totalProfit: 0,
-        totalLoss: 0,
-        netProfit: 0,
-        averageWin: 0,
-        averageLoss: 0,
-        largestWin: 0,
-        largestLoss: 0,
-        maxDrawdownPercent: 0,
-        sortinoRatio: 0,
-        averageTradeReturn: 0,
-        totalReturnPercent: 0,
-        buyAndHoldReturn: 0,
-        buyAndHoldReturnPercent: 0,
-        totalFees: 0,
+        ...this.calculatePositionBreakdown(trades),
+        contributions: this.calculateContributions(
+          trades,
+          backtest.strategyConfig as any,
+        ),
       },
       equityCurve: (backtest.equityCurve as any) || [],
       drawdownCurve: [],
       startedAt: backtest.createdAt,
       completedAt: backtest.completedAt || undefined,
-      error: undefined,
-    }));
+      error: backtest.error || undefined,
+    };
   }
 
   /**
@@ -648,6 +904,11 @@ export class BacktestingService {
       buyAndHoldReturnPercent: 0,
       totalFees: 0,
       finalCapital: initialCapital,
+      long: this.calculateSideMetrics([]),
+      short: this.calculateSideMetrics([]),
+      totalFunding: 0,
+      liquidations: 0,
+      contributions: [],
     };
   }
 }
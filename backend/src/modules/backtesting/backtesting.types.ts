@@ -3,6 +3,13 @@
  * Defines all backtesting-related types for the system
  */
 
+import { TrailingStopConfig } from "../risk-management/risk-management.service";
+import {
+  IndicatorSeries,
+  IndicatorSeriesOptions,
+  SeriesCandle,
+} from "../indicators/indicators.types";
+
 export enum BacktestStatus {
   PENDING = "PENDING",
   RUNNING = "RUNNING",
@@ -16,6 +23,10 @@ export enum TradeType {
   SELL = "SELL",
 }
 
+export type PositionSide = "LONG" | "SHORT";
+
+export type TradeDirection = "LONG_ONLY" | "SHORT_ONLY" | "BOTH";
+
 export interface BacktestConfig {
   strategyId: string;
   cryptoSymbol: string;
@@ -25,11 +36,79 @@ export interface BacktestConfig {
   timeframe: string; // '1h', '4h', '1d'
   tradingFee: number; // Percentage (e.g., 0.1 for 0.1%)
   slippage: number; // Percentage
+  higherTimeframe?: string; // Optional trend-filter timeframe, e.g. '4h'
+  exitRules?: BacktestExitRules;
+  positionSizing?: PositionSizingConfig;
+  tradeDirection?: TradeDirection; // Default LONG_ONLY
+  leverage?: number; // Default 1 (no leverage)
+  fundingRate?: number; // % per 8h paid by longs to shorts (perpetuals)
+  maintenanceMargin?: number; // % of position value, default 0.5
+  portfolio?: PortfolioConfig; // Trade more symbols on the same balance
+}
+
+// ============================================
+// PORTFOLIO
+// ============================================
+
+export interface PortfolioAsset {
+  symbol: string;
+  maxAllocationPercent?: number; // Overrides the portfolio-wide cap
+}
+
+/**
+ * Symbols traded alongside `cryptoSymbol`, sharing one balance
+ */
+export interface PortfolioConfig {
+  assets: PortfolioAsset[];
+  maxConcurrentPositions?: number; // Default: one per symbol
+  maxAllocationPercent?: number; // % of equity per symbol, default 100 / maxConcurrentPositions
+}
+
+export interface SymbolContribution {
+  symbol: string;
+  totalTrades: number;
+  winRate: number;
+  netProfit: number;
+  totalFees: number;
+  totalFunding: number;
+  contributionPercent: number; // Net profit as % of initial capital
+}
+
+// ============================================
+// EXIT RULES & POSITION SIZING
+// ============================================
+
+export type PriceLevelRuleType = "SIGNAL" | "FIXED_PERCENT" | "ATR";
+
+/**
+ * How a stop-loss or take-profit level is placed at entry
+ */
+export interface PriceLevelRule {
+  type: PriceLevelRuleType;
+  percent?: number; // FIXED_PERCENT: distance from entry in %
+  atrMultiplier?: number; // ATR: distance from entry in ATRs
+}
+
+export interface BacktestExitRules {
+  stopLoss?: PriceLevelRule;
+  takeProfit?: PriceLevelRule;
+  trailingStop?: TrailingStopConfig;
+  exitOnSignal?: boolean; // Close on an opposite signal (default true)
+}
+
+export type PositionSizingMode = "FIXED_FRACTION" | "RISK_PER_TRADE" | "KELLY";
+
+export interface PositionSizingConfig {
+  mode: PositionSizingMode;
+  fraction?: number; // FIXED_FRACTION (and fallback): share of balance, 0-1
+  riskPercent?: number; // RISK_PER_TRADE: % of balance lost at the stop
+  kellyMinTrades?: number; // KELLY: closed trades needed before Kelly applies
 }
 
 export interface BacktestTrade {
   id: string;
   timestamp: Date;
+  symbol?: string;
   type: TradeType;
   price: number;
   amount: number;
@@ -37,6 +116,26 @@ export interface BacktestTrade {
   total: number;
   balance: number;
   reason: string;
+  side?: PositionSide; // Position the order opened or closed
+  action?: "OPEN" | "CLOSE";
+  leverage?: number;
+  stopLoss?: number; // Levels set at entry (OPEN trades only)
+  takeProfit?: number;
+  liquidationPrice?: number;
+  pnl?: number; // Realized P&L incl. fees and funding (CLOSE trades only)
+  pnlPercent?: number; // Return on the margin committed
+  funding?: number; // Funding paid (+) or received (-) while open
+  liquidated?: boolean;
+}
+
+export interface SideMetrics {
+  totalTrades: number;
+  winningTrades: number;
+  losingTrades: number;
+  winRate: number;
+  netProfit: number;
+  profitFactor: number;
+  averageTradeReturn: number;
 }
 
 export interface BacktestMetrics {
@@ -70,6 +169,13 @@ export interface BacktestMetrics {
 
   totalFees: number;
   finalCapital: number;
+
+  long: SideMetrics;
+  short: SideMetrics;
+  totalFunding: number;
+  liquidations: number;
+
+  contributions: SymbolContribution[];
 }
 
 export interface BacktestResult {
@@ -99,6 +205,14 @@ export interface DrawdownPoint {
   peak: number;
 }
 
+/**
+ * Payload of a job on the backtesting queue
+ */
+export interface BacktestJob {
+  backtestId: string;
+  userId: string;
+}
+
 export interface BacktestProgress {
   backtestId: string;
   progress: number; // 0-100
@@ -106,3 +220,186 @@ export interface BacktestProgress {
   tradesExecuted: number;
   message: string;
 }
+
+// ============================================
+// EVENT-DRIVEN ENGINE
+// ============================================
+
+export interface BacktestSignal {
+  /** EXIT closes the open position without opening the other side */
+  type: "BUY" | "SELL" | "EXIT" | "HOLD";
+  reason: string;
+  confidence: number; // 0-100
+  stopLoss?: number;
+  takeProfit?: number;
+}
+
+/**
+ * Candles of one timeframe plus their pre-computed indicator vectors
+ */
+export interface TimeframeSeries {
+  timeframe: string;
+  candles: SeriesCandle[];
+  closeTimes: Date[];
+  indicators: IndicatorSeries;
+}
+
+/**
+ * View of a timeframe at the current step of the feed
+ */
+export interface BarView {
+  index: number;
+  candle: SeriesCandle;
+  /** Indicator value `offset` bars back (0 = current bar) */
+  value(indicator: keyof IndicatorSeries, offset?: number): number;
+  /** Up to the last `count` closed candles, ending with the current bar */
+  history(count: number): SeriesCandle[];
+}
+
+/**
+ * What a strategy sees on each candle of the feed. Only closed bars are
+ * exposed, so strategies cannot look ahead.
+ */
+export interface BacktestContext {
+  bar: BarView;
+  timeframe: string;
+  /** Latest closed bar of a higher timeframe, if it was loaded */
+  higher(timeframe: string): BarView | null;
+  inPosition: boolean;
+  positionSide: PositionSide | null;
+}
+
+export interface BacktestStrategy {
+  name: string;
+  /** Bars needed before the strategy can produce meaningful signals */
+  warmup: number;
+  /** Indicator periods to pre-compute the series with */
+  indicatorOptions?: IndicatorSeriesOptions;
+  /**
+   * Compute the signals of a series ahead of the run, for strategies that
+   * cannot answer onCandle synchronously (scripts)
+   */
+  prepare?(
+    series: TimeframeSeries,
+    startIndex: number,
+    endIndex?: number,
+  ): Promise<void>;
+  onCandle(context: BacktestContext): BacktestSignal;
+}
+
+/**
+ * One symbol of a (portfolio) run
+ */
+export interface PortfolioLeg {
+  symbol: string;
+  series: TimeframeSeries;
+  startIndex: number;
+  endIndex?: number;
+  higherSeries?: TimeframeSeries[];
+}
+
+export interface BacktestRun {
+  trades: BacktestTrade[];
+  equityCurve: EquityPoint[];
+  drawdownCurve: DrawdownPoint[];
+}
+
+// ============================================
+// PARAMETER OPTIMIZATION
+// ============================================
+
+export type OptimizationMethod = "GRID" | "RANDOM" | "GENETIC";
+
+export type OptimizationObjective =
+  | "SHARPE"
+  | "TOTAL_RETURN"
+  | "PROFIT_FACTOR"
+  | "CALMAR";
+
+/**
+ * Values to try for one key of `Strategy.config`
+ */
+export interface ParameterRange {
+  name: string;
+  values?: number[];
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+export interface WalkForwardConfig {
+  windows: number; // Number of out-of-sample windows
+  inSampleRatio: number; // Share of each window used for optimization, 0-1
+}
+
+export interface OptimizationConfig extends BacktestConfig {
+  parameters: ParameterRange[];
+  method: OptimizationMethod;
+  objective: OptimizationObjective;
+  maxIterations: number; // Max parameter sets evaluated per search
+  minTrades: number; // Runs with fewer closed trades are not ranked
+  walkForward?: WalkForwardConfig;
+}
+
+export interface OptimizationRow {
+  rank: number;
+  parameters: Record<string, number>;
+  score: number;
+  totalReturnPercent: number;
+  sharpeRatio: number;
+  maxDrawdownPercent: number;
+  profitFactor: number;
+  winRate: number;
+  totalTrades: number;
+}
+
+export interface WalkForwardWindow {
+  window: number;
+  inSampleStart: Date;
+  inSampleEnd: Date;
+  outOfSampleStart: Date;
+  outOfSampleEnd: Date;
+  parameters: Record<string, number>;
+  inSampleScore: number;
+  outOfSampleScore: number;
+  inSampleReturnPercent: number;
+  outOfSampleReturnPercent: number;
+}
+
+export interface WalkForwardSummary {
+  windows: WalkForwardWindow[];
+  /** Mean out-of-sample / mean in-sample return, per bar */
+  efficiency: number;
+  outOfSampleReturnPercent: number; // Compounded over all OOS windows
+  profitableWindows: number;
+}
+
+export interface OptimizationResult {
+  strategyId: string;
+  strategyType: string;
+  method: OptimizationMethod;
+  objective: OptimizationObjective;
+  combinationsTested: number;
+  best: OptimizationRow | null;
+  ranking: OptimizationRow[];
+  walkForward?: WalkForwardSummary;
+  warnings: string[];
+}
+
+export interface OptimizationJob {
+  optimizationId: string;
+  userId: string;
+}
+
+/**
+ * A queued optimization; `result` is set once it completes
+ */
+export interface OptimizationRecord {
+  id: string;
+  config: OptimizationConfig;
+  status: BacktestStatus;
+  result?: OptimizationResult;
+  startedAt: Date;
+  completedAt?: Date;
+  error?: string;
+}
@@ -7,7 +7,179 @@ import {
   Min,
   Max,
   IsEnum,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
 } from "class-validator";
+import { Type } from "class-transformer";
+
+export class PriceLevelRuleDto {
+  @ApiProperty({
+    description:
+      "SIGNAL uses the strategy's level, FIXED_PERCENT a % from entry, ATR a multiple of ATR",
+    enum: ["SIGNAL", "FIXED_PERCENT", "ATR"],
+    example: "ATR",
+  })
+  @IsIn(["SIGNAL", "FIXED_PERCENT", "ATR"])
+  type: "SIGNAL" | "FIXED_PERCENT" | "ATR";
+
+  @ApiPropertyOptional({ description: "Distance from entry in %", example: 2 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.01)
+  @Max(100)
+  percent?: number;
+
+  @ApiPropertyOptional({
+    description: "Distance from entry in ATRs",
+    example: 2,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.1)
+  @Max(20)
+  atrMultiplier?: number;
+}
+
+export class TrailingStopDto {
+  @ApiProperty({ description: "Activate after X% profit", example: 1 })
+  @IsNumber()
+  @Min(0)
+  activationPercent: number;
+
+  @ApiProperty({ description: "Trail the highest price by X%", example: 1.5 })
+  @IsNumber()
+  @Min(0.01)
+  @Max(50)
+  trailingPercent: number;
+
+  @ApiPropertyOptional({ description: "Move in steps of X%", example: 0.5 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  stepPercent?: number;
+}
+
+export class ExitRulesDto {
+  @ApiPropertyOptional({ type: PriceLevelRuleDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PriceLevelRuleDto)
+  stopLoss?: PriceLevelRuleDto;
+
+  @ApiPropertyOptional({ type: PriceLevelRuleDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PriceLevelRuleDto)
+  takeProfit?: PriceLevelRuleDto;
+
+  @ApiPropertyOptional({ type: TrailingStopDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TrailingStopDto)
+  trailingStop?: TrailingStopDto;
+
+  @ApiPropertyOptional({
+    description: "Close positions on an opposite strategy signal",
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  exitOnSignal?: boolean;
+}
+
+export class PositionSizingDto {
+  @ApiProperty({
+    enum: ["FIXED_FRACTION", "RISK_PER_TRADE", "KELLY"],
+    example: "RISK_PER_TRADE",
+  })
+  @IsIn(["FIXED_FRACTION", "RISK_PER_TRADE", "KELLY"])
+  mode: "FIXED_FRACTION" | "RISK_PER_TRADE" | "KELLY";
+
+  @ApiPropertyOptional({
+    description: "Share of equity per trade (0-1), also the fallback size",
+    example: 0.5,
+    default: 0.95,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.01)
+  @Max(1)
+  fraction?: number;
+
+  @ApiPropertyOptional({
+    description: "Percentage of balance risked between entry and stop",
+    example: 1,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.1)
+  @Max(20)
+  riskPercent?: number;
+
+  @ApiPropertyOptional({
+    description: "Closed trades required before Kelly sizing kicks in",
+    example: 10,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(2)
+  kellyMinTrades?: number;
+}
+
+export class PortfolioAssetDto {
+  @ApiProperty({ description: "Cryptocurrency symbol", example: "ETH" })
+  @IsString()
+  symbol: string;
+
+  @ApiPropertyOptional({
+    description: "Max % of equity allocated to this symbol",
+    example: 30,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  maxAllocationPercent?: number;
+}
+
+export class PortfolioDto {
+  @ApiProperty({
+    description: "Symbols traded alongside cryptoSymbol with shared capital",
+    type: [PortfolioAssetDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => PortfolioAssetDto)
+  assets: PortfolioAssetDto[];
+
+  @ApiPropertyOptional({
+    description:
+      "Max positions open at the same time (default: one per symbol)",
+    example: 3,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxConcurrentPositions?: number;
+
+  @ApiPropertyOptional({
+    description:
+      "Max % of equity per symbol (default: 100 / maxConcurrentPositions)",
+    example: 25,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  maxAllocationPercent?: number;
+}
 
 export class CreateBacktestDto {
   @ApiProperty({
@@ -56,6 +228,15 @@ export class CreateBacktestDto {
   @IsString()
   timeframe?: string = "1h";
 
+  @ApiPropertyOptional({
+    description:
+      "Higher timeframe used as a trend filter for entries (e.g., 4h, 1d)",
+    example: "4h",
+  })
+  @IsOptional()
+  @IsString()
+  higherTimeframe?: string;
+
   @ApiPropertyOptional({
     description: "Trading fee percentage",
     example: 0.1,
@@ -81,4 +262,76 @@ export class CreateBacktestDto {
   @Min(0)
   @Max(2)
   slippage?: number = 0.05;
+
+  @ApiPropertyOptional({
+    description: "Stop-loss, take-profit and trailing stop rules",
+    type: ExitRulesDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ExitRulesDto)
+  exitRules?: ExitRulesDto;
+
+  @ApiPropertyOptional({
+    description: "Position sizing mode (default: 95% of balance)",
+    type: PositionSizingDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PositionSizingDto)
+  positionSizing?: PositionSizingDto;
+
+  @ApiPropertyOptional({
+    description: "Which sides may be opened; SELL signals open shorts",
+    enum: ["LONG_ONLY", "SHORT_ONLY", "BOTH"],
+    default: "LONG_ONLY",
+  })
+  @IsOptional()
+  @IsIn(["LONG_ONLY", "SHORT_ONLY", "BOTH"])
+  tradeDirection?: "LONG_ONLY" | "SHORT_ONLY" | "BOTH";
+
+  @ApiPropertyOptional({
+    description: "Position leverage",
+    example: 3,
+    default: 1,
+    minimum: 1,
+    maximum: 125,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(125)
+  leverage?: number;
+
+  @ApiPropertyOptional({
+    description:
+      "Funding rate % per 8h paid by longs to shorts (default 0.01 for shorts/leverage, 0 for spot)",
+    example: 0.01,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(-1)
+  @Max(1)
+  fundingRate?: number;
+
+  @ApiPropertyOptional({
+    description: "Maintenance margin % of position value",
+    example: 0.5,
+    default: 0.5,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(50)
+  maintenanceMargin?: number;
+
+  @ApiPropertyOptional({
+    description:
+      "Run the strategy on several symbols at once with a shared balance",
+    type: PortfolioDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PortfolioDto)
+  portfolio?: PortfolioDto;
 }
@@ -0,0 +1,139 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsIn,
+  IsInt,
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
+  Min,
+  Max,
+  ValidateNested,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { CreateBacktestDto } from "./create-backtest.dto";
+
+export class ParameterRangeDto {
+  @ApiProperty({
+    description: "Strategy config key to optimize",
+    example: "rsiOversold",
+  })
+  @IsString()
+  name: string;
+
+  @ApiPropertyOptional({
+    description: "Explicit values to try (takes precedence over min/max)",
+    example: [25, 30, 35],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(1000)
+  @IsNumber({}, { each: true })
+  values?: number[];
+
+  @ApiPropertyOptional({ description: "Lowest value", example: 20 })
+  @IsOptional()
+  @IsNumber({ allowNaN: false, allowInfinity: false })
+  min?: number;
+
+  @ApiPropertyOptional({ description: "Highest value", example: 40 })
+  @IsOptional()
+  @IsNumber({ allowNaN: false, allowInfinity: false })
+  max?: number;
+
+  @ApiPropertyOptional({
+    description: "Step between min and max (default: 5 evenly spaced values)",
+    example: 5,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.0001)
+  step?: number;
+}
+
+export class WalkForwardDto {
+  @ApiProperty({
+    description: "Number of out-of-sample windows",
+    example: 4,
+    minimum: 2,
+    maximum: 12,
+  })
+  @IsInt()
+  @Min(2)
+  @Max(12)
+  windows: number;
+
+  @ApiProperty({
+    description: "Share of each window used for optimization",
+    example: 0.75,
+  })
+  @IsNumber()
+  @Min(0.5)
+  @Max(0.9)
+  inSampleRatio: number;
+}
+
+export class OptimizeBacktestDto extends CreateBacktestDto {
+  @ApiProperty({
+    description: "Parameters to sweep",
+    type: [ParameterRangeDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(6)
+  @ValidateNested({ each: true })
+  @Type(() => ParameterRangeDto)
+  parameters: ParameterRangeDto[];
+
+  @ApiPropertyOptional({
+    description: "Search method",
+    enum: ["GRID", "RANDOM", "GENETIC"],
+    default: "GRID",
+  })
+  @IsOptional()
+  @IsIn(["GRID", "RANDOM", "GENETIC"])
+  method?: "GRID" | "RANDOM" | "GENETIC";
+
+  @ApiPropertyOptional({
+    description: "Metric used to rank parameter sets",
+    enum: ["SHARPE", "TOTAL_RETURN", "PROFIT_FACTOR", "CALMAR"],
+    default: "SHARPE",
+  })
+  @IsOptional()
+  @IsIn(["SHARPE", "TOTAL_RETURN", "PROFIT_FACTOR", "CALMAR"])
+  objective?: "SHARPE" | "TOTAL_RETURN" | "PROFIT_FACTOR" | "CALMAR";
+
+  @ApiPropertyOptional({
+    description: "Max parameter sets evaluated per search",
+    example: 100,
+    default: 100,
+    maximum: 500,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  maxIterations?: number;
+
+  @ApiPropertyOptional({
+    description: "Runs with fewer closed trades are not ranked",
+    example: 5,
+    default: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  minTrades?: number;
+
+  @ApiPropertyOptional({
+    description: "Rolling in-sample/out-of-sample validation",
+    type: WalkForwardDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => WalkForwardDto)
+  walkForward?: WalkForwardDto;
+}
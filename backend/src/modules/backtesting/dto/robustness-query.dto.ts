@@ -0,0 +1,28 @@
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { IsInt, IsNumber, IsOptional, Min, Max } from "class-validator";
+
+export class RobustnessQueryDto {
+  @ApiPropertyOptional({
+    description: "Number of simulated paths per method",
+    example: 1000,
+    default: 1000,
+    minimum: 100,
+    maximum: 10000,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(100)
+  @Max(10000)
+  simulations?: number = 1000;
+
+  @ApiPropertyOptional({
+    description: "Loss from initial capital (%) that counts as ruin",
+    example: 50,
+    default: 80,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  ruinLossPercent?: number = 80;
+}
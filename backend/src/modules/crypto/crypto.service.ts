@@ -44,13 +44,16 @@ export class CryptoService {
   /**
    * Get a single cryptocurrency by ID
    */
-  async findOne(id: string): Promise<Cryptocurrency> {
+  async findOne(id: string): Promise<
+    Cryptocurrency & {
+      _count: { priceData: number; signals: number; alerts: number };
+    }
+  > {
     const crypto = await this.prisma.cryptocurrency.findUnique({
       where: { id },
       include: {
         _count: {
           select: {
-            priceData: true,
             signals: true,
             alerts: true,
           },
@@ -62,7 +65,13 @@ export class CryptoService {
       throw new NotFoundException(`Cryptocurrency with ID ${id} not found`);
     }
 
-    return crypto;
+    // Candles are stored in the Candle table by pair; the priceData key is
+    // kept for API clients
+    const candles = await this.prisma.candle.count({
+      where: { symbol: crypto.binanceSymbol },
+    });
+
+    return { ...crypto, _count: { ...crypto._count, priceData: candles } };
   }
 
   /**
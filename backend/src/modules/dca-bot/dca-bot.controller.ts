@@ -44,6 +44,12 @@ export class DCABotController {
     return this.dcaBotService.getBotStatus(req.user.userId, id);
   }
 
+  @Get(":id/orders")
+  @ApiOperation({ summary: "Get bot order history" })
+  async getOrders(@Request() req: any, @Param("id") id: string) {
+    return this.dcaBotService.getOrders(req.user.userId, id);
+  }
+
   @Post(":id/start")
   @ApiOperation({ summary: "Start bot" })
   async startBot(@Request() req: any, @Param("id") id: string) {
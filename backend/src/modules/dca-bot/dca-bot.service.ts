@@ -1,4 +1,6 @@
 import { Injectable, Logger, NotFoundException } from "@nestjs/common";
+import { Cron, CronExpression } from "@nestjs/schedule";
+import { DCABot, Prisma } from "@prisma/client";
 import { PrismaService } from "@/common/prisma/prisma.service";
 import { CreateDCABotDto, PreviewDCABotDto } from "./dto";
 import { MarketDataService } from "../market-data/market-data.service";
@@ -6,6 +8,7 @@ import { MarketDataService } from "../market-data/market-data.service";
 @Injectable()
 export class DCABotService {
   private readonly logger = new Logger(DCABotService.name);
+  private isProcessing = false;
 
   constructor(
     private readonly prisma: PrismaService,
@@ -72,13 +75,10 @@ export class DCABotService {
       : 0;
 
     // Calculate next safety order price
+    const basePrice = await this.getCycleBasePrice(bot.id);
     const nextSafetyOrderPrice =
-      bot.averagePrice && bot.filledSafetyOrders < bot.maxSafetyOrders
-        ? bot.averagePrice *
-          (1 -
-            (bot.priceDeviation *
-              Math.pow(bot.safetyOrderStep, bot.filledSafetyOrders)) /
-              100)
+      basePrice && bot.filledSafetyOrders < bot.maxSafetyOrders
+        ? this.getSafetyOrderPrice(bot, basePrice, bot.filledSafetyOrders + 1)
         : null;
 
     // Calculate unrealized P&L
@@ -108,23 +108,22 @@ export class DCABotService {
       throw new Error("Bot is already active");
     }
 
+    // Resume a paused cycle without touching the open position
+    if (bot.currentQuantity > 0) {
+      return this.prisma.dCABot.update({
+        where: { id: botId },
+        data: { isActive: true },
+      });
+    }
+
     // Get current price and place base order
     const ticker = await this.marketDataService.getTicker(bot.symbol);
-    const currentPrice = ticker.price;
 
-    const quantity = bot.baseOrderSize / currentPrice;
-
-    // Update bot
-    return this.prisma.dCABot.update({
-      where: { id: botId },
-      data: {
-        isActive: true,
-        totalInvested: bot.baseOrderSize,
-        averagePrice: currentPrice,
-        currentQuantity: quantity,
-        filledSafetyOrders: 0,
-      },
-    });
+    const started = await this.placeBaseOrder(bot, ticker.price, true);
+    if (!started) {
+      throw new Error("Bot is already active");
+    }
+    return started;
   }
 
   async stopBot(userId: string, botId: string, sellPosition: boolean) {
@@ -133,28 +132,14 @@ export class DCABotService {
     const bot = await this.getBot(userId, botId);
 
     if (sellPosition && bot.currentQuantity > 0) {
-      // Get current price and calculate P&L
+      // Sell the position at the current price and close the cycle
       const ticker = await this.marketDataService.getTicker(bot.symbol);
-      const currentPrice = ticker.price;
-
-      const profit =
-        (currentPrice - bot.averagePrice!) * bot.currentQuantity -
-        bot.totalInvested;
 
-      // Update bot with profit and reset position
-      return this.prisma.dCABot.update({
-        where: { id: botId },
-        data: {
-          isActive: false,
-          totalProfit: bot.totalProfit + profit,
-          totalCycles: bot.totalCycles + 1,
-          currentCycle: bot.currentCycle + 1,
-          totalInvested: 0,
-          averagePrice: null,
-          currentQuantity: 0,
-          filledSafetyOrders: 0,
-        },
-      });
+      const closed = await this.closeCycle(bot, ticker.price, "MANUAL_SELL");
+      if (!closed) {
+        throw new Error("Bot position changed while stopping, try again");
+      }
+      return closed;
     } else {
       // Just pause the bot
       return this.prisma.dCABot.update({
@@ -164,6 +149,15 @@ export class DCABotService {
     }
   }
 
+  async getOrders(userId: string, botId: string) {
+    await this.getBot(userId, botId);
+
+    return this.prisma.dCAOrder.findMany({
+      where: { botId },
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
   async deleteBot(userId: string, botId: string) {
     const bot = await this.getBot(userId, botId);
 
@@ -199,8 +193,7 @@ export class DCABotService {
 
     // Safety orders
     for (let i = 1; i <= dto.maxSafetyOrders; i++) {
-      const deviation =
-        dto.priceDeviation * Math.pow(dto.safetyOrderStep, i - 1);
+      const deviation = this.getSafetyOrderDeviation(dto, i);
       const price = 100 * (1 - deviation / 100);
       totalInvestment += dto.safetyOrderSize;
 
@@ -220,4 +213,277 @@ export class DCABotService {
       takeProfitPercent: dto.takeProfitPercent,
     };
   }
+
+  /**
+   * Fill base, safety and take-profit orders for active bots (scheduled task)
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async processActiveBots(): Promise<void> {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      const bots = await this.prisma.dCABot.findMany({
+        where: { isActive: true },
+      });
+
+      if (bots.length === 0) {
+        return;
+      }
+
+      this.logger.debug(`Processing ${bots.length} active DCA bots...`);
+
+      const prices = new Map<string, number>();
+
+      for (const bot of bots) {
+        try {
+          if (!prices.has(bot.symbol)) {
+            prices.set(
+              bot.symbol,
+              await this.marketDataService.getCurrentPrice(bot.symbol),
+            );
+          }
+          await this.processBot(bot, prices.get(bot.symbol)!);
+        } catch (error) {
+          this.logger.error(`Error processing DCA bot ${bot.id}`, error);
+        }
+      }
+    } catch (error) {
+      this.logger.error("Error in processActiveBots cron job", error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async processBot(bot: DCABot, currentPrice: number) {
+    // No open position (e.g. the base order failed earlier): open a cycle
+    if (bot.currentQuantity <= 0 || !bot.averagePrice) {
+      await this.placeBaseOrder(bot, currentPrice);
+      return;
+    }
+
+    const takeProfitPrice =
+      bot.averagePrice * (1 + bot.takeProfitPercent / 100);
+
+    if (currentPrice >= takeProfitPrice) {
+      const closed = await this.closeCycle(bot, currentPrice);
+      // Start the next cycle right away so the bot keeps running unattended
+      if (closed) await this.placeBaseOrder(closed, currentPrice);
+      return;
+    }
+
+    const basePrice = await this.getCycleBasePrice(bot.id);
+    if (!basePrice) {
+      return;
+    }
+
+    // Fill every safety order whose trigger has been reached
+    let current: DCABot | null = bot;
+    while (
+      current &&
+      current.filledSafetyOrders < current.maxSafetyOrders &&
+      currentPrice <=
+        this.getSafetyOrderPrice(
+          current,
+          basePrice,
+          current.filledSafetyOrders + 1,
+        )
+    ) {
+      current = await this.placeSafetyOrder(current, currentPrice);
+    }
+  }
+
+  /**
+   * Open a cycle. Returns null if the bot changed since it was read
+   * (stopped, started or already holding a position).
+   */
+  private async placeBaseOrder(
+    bot: DCABot,
+    price: number,
+    activate = false,
+  ): Promise<DCABot | null> {
+    const quantity = bot.baseOrderSize / price;
+
+    this.logger.log(
+      `Bot ${bot.id}: base order ${quantity} ${bot.symbol} @ ${price}`,
+    );
+
+    return this.applyOrder(
+      bot,
+      { isActive: !activate, currentQuantity: bot.currentQuantity },
+      {
+        ...(activate && { isActive: true }),
+        totalInvested: bot.baseOrderSize,
+        averagePrice: price,
+        currentQuantity: quantity,
+        filledSafetyOrders: 0,
+      },
+      {
+        orderNumber: 0,
+        type: "BASE",
+        side: "BUY",
+        price,
+        quantity,
+        value: bot.baseOrderSize,
+      },
+    );
+  }
+
+  private async placeSafetyOrder(
+    bot: DCABot,
+    price: number,
+  ): Promise<DCABot | null> {
+    const orderNumber = bot.filledSafetyOrders + 1;
+    const quantity = bot.safetyOrderSize / price;
+    const totalInvested = bot.totalInvested + bot.safetyOrderSize;
+    const currentQuantity = bot.currentQuantity + quantity;
+
+    this.logger.log(
+      `Bot ${bot.id}: safety order #${orderNumber} ${quantity} ${bot.symbol} @ ${price}`,
+    );
+
+    return this.applyOrder(
+      bot,
+      { isActive: true },
+      {
+        totalInvested: { increment: bot.safetyOrderSize },
+        currentQuantity: { increment: quantity },
+        averagePrice: totalInvested / currentQuantity,
+        filledSafetyOrders: orderNumber,
+      },
+      {
+        orderNumber,
+        type: "SAFETY",
+        side: "BUY",
+        price,
+        quantity,
+        value: bot.safetyOrderSize,
+      },
+    );
+  }
+
+  /**
+   * Sell the whole position and close the cycle. A manual sell also stops
+   * the bot. Returns null if the position changed since the bot was read.
+   */
+  private async closeCycle(
+    bot: DCABot,
+    price: number,
+    type: "TAKE_PROFIT" | "MANUAL_SELL" = "TAKE_PROFIT",
+  ): Promise<DCABot | null> {
+    const value = bot.currentQuantity * price;
+    const profit = value - bot.totalInvested;
+    const isManual = type === "MANUAL_SELL";
+
+    this.logger.log(
+      `Bot ${bot.id}: ${isManual ? "manual sell" : "take profit"} @ ${price}, cycle profit ${profit.toFixed(2)}`,
+    );
+
+    return this.applyOrder(
+      bot,
+      {
+        currentQuantity: bot.currentQuantity,
+        ...(!isManual && { isActive: true }),
+      },
+      {
+        ...(isManual && { isActive: false }),
+        totalProfit: { increment: profit },
+        totalCycles: { increment: 1 },
+        currentCycle: { increment: 1 },
+        totalInvested: 0,
+        averagePrice: null,
+        currentQuantity: 0,
+        filledSafetyOrders: 0,
+      },
+      {
+        orderNumber: bot.filledSafetyOrders + 1,
+        type,
+        side: "SELL",
+        price,
+        quantity: bot.currentQuantity,
+        value,
+      },
+    );
+  }
+
+  /**
+   * Record a filled order and update the bot, but only while the bot is
+   * still in the cycle and step it was read in (plus `expected`). The cron
+   * and user actions (stop with sell, start) act on snapshots taken before
+   * awaiting a price, so a stale one must not sell or buy twice.
+   */
+  private async applyOrder(
+    bot: DCABot,
+    expected: Prisma.DCABotWhereInput,
+    data: Prisma.DCABotUpdateManyMutationInput,
+    order: Omit<
+      Prisma.DCAOrderUncheckedCreateInput,
+      "botId" | "status" | "filledAt"
+    >,
+  ): Promise<DCABot | null> {
+    return this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.dCABot.updateMany({
+        where: {
+          id: bot.id,
+          currentCycle: bot.currentCycle,
+          filledSafetyOrders: bot.filledSafetyOrders,
+          ...expected,
+        },
+        data,
+      });
+
+      if (count === 0) {
+        this.logger.warn(`Bot ${bot.id} changed meanwhile, order skipped`);
+        return null;
+      }
+
+      await tx.dCAOrder.create({
+        data: {
+          ...order,
+          botId: bot.id,
+          status: "FILLED",
+          filledAt: new Date(),
+        },
+      });
+
+      return tx.dCABot.findUniqueOrThrow({ where: { id: bot.id } });
+    });
+  }
+
+  /**
+   * Price of the latest base order, which anchors the current cycle
+   */
+  private async getCycleBasePrice(botId: string): Promise<number | null> {
+    const baseOrder = await this.prisma.dCAOrder.findFirst({
+      where: { botId, type: "BASE", status: "FILLED" },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return baseOrder?.price ?? null;
+  }
+
+  /**
+   * Cumulative % drop from the base price that triggers a safety order.
+   * Each step is `safetyOrderStep` times wider than the previous one.
+   */
+  private getSafetyOrderDeviation(
+    config: { priceDeviation: number; safetyOrderStep: number },
+    orderNumber: number,
+  ): number {
+    let deviation = 0;
+    for (let i = 0; i < orderNumber; i++) {
+      deviation += config.priceDeviation * Math.pow(config.safetyOrderStep, i);
+    }
+    return deviation;
+  }
+
+  private getSafetyOrderPrice(
+    bot: DCABot,
+    basePrice: number,
+    orderNumber: number,
+  ): number {
+    return (
+      basePrice * (1 - this.getSafetyOrderDeviation(bot, orderNumber) / 100)
+    );
+  }
 }
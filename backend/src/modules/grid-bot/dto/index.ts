@@ -0,0 +1,48 @@
+import {
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  Max,
+} from "class-validator";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+
+export class CreateGridBotDto {
+  @ApiPropertyOptional({ example: "BTC Range Grid" })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiProperty({ example: "BTCUSDT" })
+  @IsString()
+  symbol: string;
+
+  @ApiProperty({ example: "ARITHMETIC", enum: ["ARITHMETIC", "GEOMETRIC"] })
+  @IsOptional()
+  @IsIn(["ARITHMETIC", "GEOMETRIC"])
+  gridMode: "ARITHMETIC" | "GEOMETRIC" = "ARITHMETIC";
+
+  @ApiProperty({ example: 60000 })
+  @IsNumber()
+  @Min(0)
+  lowerPrice: number;
+
+  @ApiProperty({ example: 70000 })
+  @IsNumber()
+  @Min(0)
+  upperPrice: number;
+
+  @ApiProperty({ example: 10 })
+  @IsNumber()
+  @Min(3)
+  @Max(100)
+  gridCount: number;
+
+  @ApiProperty({ example: 1000 })
+  @IsNumber()
+  @Min(10)
+  totalInvestment: number;
+}
+
+export class PreviewGridBotDto extends CreateGridBotDto {}
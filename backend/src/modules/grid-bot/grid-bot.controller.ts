@@ -0,0 +1,64 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  UseGuards,
+  Request,
+} from "@nestjs/common";
+import { ApiTags, ApiOperation, ApiBearerAuth } from "@nestjs/swagger";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { GridBotService } from "./grid-bot.service";
+import { CreateGridBotDto, PreviewGridBotDto } from "./dto";
+
+@ApiTags("grid-bot")
+@Controller("grid-bot")
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class GridBotController {
+  constructor(private readonly gridBotService: GridBotService) {}
+
+  @Post()
+  @ApiOperation({ summary: "Create grid bot" })
+  async createBot(@Request() req: any, @Body() dto: CreateGridBotDto) {
+    return this.gridBotService.createBot(req.user.userId, dto);
+  }
+
+  @Post("preview")
+  @ApiOperation({ summary: "Preview grid levels and profit per grid" })
+  async previewSetup(@Body() dto: PreviewGridBotDto) {
+    return this.gridBotService.previewSetup(dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: "Get user's grid bots" })
+  async getBots(@Request() req: any) {
+    return this.gridBotService.getBots(req.user.userId);
+  }
+
+  @Get(":id")
+  @ApiOperation({ summary: "Get bot by ID" })
+  async getBot(@Request() req: any, @Param("id") id: string) {
+    return this.gridBotService.getBot(req.user.userId, id);
+  }
+
+  @Post(":id/start")
+  @ApiOperation({ summary: "Start bot" })
+  async startBot(@Request() req: any, @Param("id") id: string) {
+    return this.gridBotService.startBot(req.user.userId, id);
+  }
+
+  @Post(":id/stop")
+  @ApiOperation({ summary: "Stop bot" })
+  async stopBot(@Request() req: any, @Param("id") id: string) {
+    return this.gridBotService.stopBot(req.user.userId, id);
+  }
+
+  @Delete(":id")
+  @ApiOperation({ summary: "Delete bot" })
+  async deleteBot(@Request() req: any, @Param("id") id: string) {
+    return this.gridBotService.deleteBot(req.user.userId, id);
+  }
+}
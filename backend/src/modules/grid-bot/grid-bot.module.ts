@@ -0,0 +1,13 @@
+import { Module } from "@nestjs/common";
+import { GridBotController } from "./grid-bot.controller";
+import { GridBotService } from "./grid-bot.service";
+import { AuthModule } from "../auth/auth.module";
+import { MarketDataModule } from "../market-data/market-data.module";
+
+@Module({
+  imports: [AuthModule, MarketDataModule],
+  controllers: [GridBotController],
+  providers: [GridBotService],
+  exports: [GridBotService],
+})
+export class GridBotModule {}
@@ -0,0 +1,396 @@
+import { Injectable, Logger, NotFoundException } from "@nestjs/common";
+import { Cron, CronExpression } from "@nestjs/schedule";
+import { GridBot, GridLevel } from "@prisma/client";
+import { PrismaService } from "@/common/prisma/prisma.service";
+import { CreateGridBotDto, PreviewGridBotDto } from "./dto";
+import { MarketDataService } from "../market-data/market-data.service";
+
+type GridBotWithLevels = GridBot & { levels: GridLevel[] };
+
+// Simulated exchange fee applied to every grid fill (0.1%)
+const GRID_FEE = 0.001;
+
+@Injectable()
+export class GridBotService {
+  private readonly logger = new Logger(GridBotService.name);
+
+  // Last price seen per active bot, used to detect level crossings
+  private readonly lastPrices = new Map<string, number>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly marketDataService: MarketDataService,
+  ) {}
+
+  async createBot(userId: string, dto: CreateGridBotDto) {
+    this.logger.log(`Creating grid bot for user ${userId}`);
+
+    this.validateRange(dto);
+
+    const prices = this.calculateGridPrices(
+      dto.gridMode,
+      dto.lowerPrice,
+      dto.upperPrice,
+      dto.gridCount,
+    );
+
+    const bot = await this.prisma.gridBot.create({
+      data: {
+        userId,
+        name: dto.name || `${dto.symbol} Grid`,
+        symbol: dto.symbol,
+        upperPrice: dto.upperPrice,
+        lowerPrice: dto.lowerPrice,
+        gridLevels: dto.gridCount,
+        gridMode: dto.gridMode,
+        totalInvestment: dto.totalInvestment,
+        // Each grid (space between two levels) gets the same quote amount
+        orderSize: dto.totalInvestment / (dto.gridCount - 1),
+        isActive: false,
+        levels: {
+          create: prices.map((price, index) => ({
+            levelNumber: index,
+            price,
+          })),
+        },
+      },
+      include: { levels: { orderBy: { levelNumber: "asc" } } },
+    });
+
+    return this.formatBot(bot, await this.getPriceSafe(bot.symbol));
+  }
+
+  async getBots(userId: string) {
+    const bots = await this.prisma.gridBot.findMany({
+      where: { userId },
+      include: { levels: { orderBy: { levelNumber: "asc" } } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    const symbols = [...new Set(bots.map((bot) => bot.symbol))];
+    const prices = new Map<string, number>();
+    for (const symbol of symbols) {
+      prices.set(symbol, await this.getPriceSafe(symbol));
+    }
+
+    return bots.map((bot) => this.formatBot(bot, prices.get(bot.symbol) || 0));
+  }
+
+  async getBot(userId: string, botId: string) {
+    const bot = await this.findBot(userId, botId);
+    return this.formatBot(bot, await this.getPriceSafe(bot.symbol));
+  }
+
+  async startBot(userId: string, botId: string) {
+    this.logger.log(`Starting grid bot ${botId}`);
+
+    const bot = await this.findBot(userId, botId);
+
+    if (bot.isActive) {
+      throw new Error("Bot is already active");
+    }
+
+    const currentPrice = await this.marketDataService.getCurrentPrice(
+      bot.symbol,
+    );
+    this.lastPrices.set(bot.id, currentPrice);
+
+    const updated = await this.prisma.gridBot.update({
+      where: { id: botId },
+      data: { isActive: true },
+      include: { levels: { orderBy: { levelNumber: "asc" } } },
+    });
+
+    return this.formatBot(updated, currentPrice);
+  }
+
+  async stopBot(userId: string, botId: string) {
+    this.logger.log(`Stopping grid bot ${botId}`);
+
+    await this.findBot(userId, botId);
+    this.lastPrices.delete(botId);
+
+    const updated = await this.prisma.gridBot.update({
+      where: { id: botId },
+      data: { isActive: false },
+      include: { levels: { orderBy: { levelNumber: "asc" } } },
+    });
+
+    return this.formatBot(updated, await this.getPriceSafe(updated.symbol));
+  }
+
+  async deleteBot(userId: string, botId: string) {
+    const bot = await this.findBot(userId, botId);
+
+    if (bot.isActive) {
+      throw new Error("Cannot delete active bot. Stop it first.");
+    }
+
+    await this.prisma.gridBot.delete({
+      where: { id: botId },
+    });
+
+    return { message: "Bot deleted successfully" };
+  }
+
+  previewSetup(dto: PreviewGridBotDto) {
+    this.validateRange(dto);
+
+    const prices = this.calculateGridPrices(
+      dto.gridMode,
+      dto.lowerPrice,
+      dto.upperPrice,
+      dto.gridCount,
+    );
+    const orderSize = dto.totalInvestment / (dto.gridCount - 1);
+
+    // Net profit of one full buy→sell round trip on each grid
+    const gridProfits = prices.slice(0, -1).map((buyPrice, index) => {
+      const sellPrice = prices[index + 1];
+      const profit = this.calculateRoundTripProfit(
+        orderSize,
+        buyPrice,
+        sellPrice,
+      );
+      return {
+        buyPrice,
+        sellPrice,
+        profit,
+        profitPercent: (profit / orderSize) * 100,
+      };
+    });
+
+    const profitPercents = gridProfits.map((grid) => grid.profitPercent);
+
+    return {
+      levels: prices.map((price, index) => ({ levelNumber: index, price })),
+      grids: gridProfits,
+      orderSize,
+      minProfitPercent: Math.min(...profitPercents),
+      maxProfitPercent: Math.max(...profitPercents),
+    };
+  }
+
+  /**
+   * Simulate grid fills for all active bots against live prices (scheduled task)
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async processActiveBots(): Promise<void> {
+    try {
+      const bots = await this.prisma.gridBot.findMany({
+        where: { isActive: true },
+        include: { levels: { orderBy: { levelNumber: "asc" } } },
+      });
+
+      if (bots.length === 0) {
+        return;
+      }
+
+      this.logger.debug(`Processing ${bots.length} active grid bots...`);
+
+      const prices = new Map<string, number>();
+
+      for (const bot of bots) {
+        try {
+          if (!prices.has(bot.symbol)) {
+            prices.set(
+              bot.symbol,
+              await this.marketDataService.getCurrentPrice(bot.symbol),
+            );
+          }
+          await this.processBot(bot, prices.get(bot.symbol)!);
+        } catch (error) {
+          this.logger.error(`Error processing grid bot ${bot.id}`, error);
+        }
+      }
+    } catch (error) {
+      this.logger.error("Error in processActiveBots cron job", error);
+    }
+  }
+
+  /**
+   * Fill the levels crossed since the previous tick and refresh bot stats.
+   * Level N holds a buy order at its own price and, once bought, a sell order
+   * at level N+1, so every completed round trip earns exactly one grid.
+   */
+  private async processBot(bot: GridBotWithLevels, currentPrice: number) {
+    const previousPrice = this.lastPrices.get(bot.id);
+    this.lastPrices.set(bot.id, currentPrice);
+
+    const levels = bot.levels.map((level) => ({ ...level }));
+    const changed = new Set<string>();
+    let gridProfit = bot.gridProfit;
+    let totalTrades = bot.totalTrades;
+
+    if (previousPrice !== undefined && previousPrice !== currentPrice) {
+      const priceFell = currentPrice < previousPrice;
+
+      for (let i = 0; i < levels.length - 1; i++) {
+        const level = levels[i];
+        const sellPrice = levels[i + 1].price;
+
+        if (
+          priceFell &&
+          level.buyOrderStatus !== "FILLED" &&
+          level.price < previousPrice &&
+          level.price >= currentPrice
+        ) {
+          level.buyOrderStatus = "FILLED";
+          level.sellOrderStatus = "PENDING";
+          level.buyFills += 1;
+          totalTrades += 1;
+          changed.add(level.id);
+        } else if (
+          !priceFell &&
+          level.buyOrderStatus === "FILLED" &&
+          sellPrice > previousPrice &&
+          sellPrice <= currentPrice
+        ) {
+          const profit = this.calculateRoundTripProfit(
+            bot.orderSize,
+            level.price,
+            sellPrice,
+          );
+          level.buyOrderStatus = "PENDING";
+          level.sellOrderStatus = "FILLED";
+          level.sellFills += 1;
+          level.levelProfit += profit;
+          gridProfit += profit;
+          totalTrades += 1;
+          changed.add(level.id);
+        }
+      }
+    }
+
+    // Unrealized P&L of every grid currently holding inventory
+    const floatingPnl = levels
+      .filter((level) => level.buyOrderStatus === "FILLED")
+      .reduce(
+        (sum, level) =>
+          sum + (bot.orderSize / level.price) * currentPrice - bot.orderSize,
+        0,
+      );
+
+    if (changed.size > 0) {
+      this.logger.log(
+        `Grid bot ${bot.id}: ${changed.size} fills at ${currentPrice}`,
+      );
+    }
+
+    await this.prisma.$transaction([
+      ...levels
+        .filter((level) => changed.has(level.id))
+        .map((level) =>
+          this.prisma.gridLevel.update({
+            where: { id: level.id },
+            data: {
+              buyOrderStatus: level.buyOrderStatus,
+              sellOrderStatus: level.sellOrderStatus,
+              buyFills: level.buyFills,
+              sellFills: level.sellFills,
+              levelProfit: level.levelProfit,
+            },
+          }),
+        ),
+      this.prisma.gridBot.update({
+        where: { id: bot.id },
+        data: {
+          gridProfit,
+          floatingPnl,
+          totalProfit: gridProfit + floatingPnl,
+          totalTrades,
+        },
+      }),
+    ]);
+  }
+
+  private async findBot(
+    userId: string,
+    botId: string,
+  ): Promise<GridBotWithLevels> {
+    const bot = await this.prisma.gridBot.findFirst({
+      where: { id: botId, userId },
+      include: { levels: { orderBy: { levelNumber: "asc" } } },
+    });
+
+    if (!bot) {
+      throw new NotFoundException("Bot not found");
+    }
+
+    return bot;
+  }
+
+  private calculateGridPrices(
+    mode: string,
+    lowerPrice: number,
+    upperPrice: number,
+    gridCount: number,
+  ): number[] {
+    const prices: number[] = [];
+
+    if (mode === "GEOMETRIC") {
+      const ratio = Math.pow(upperPrice / lowerPrice, 1 / (gridCount - 1));
+      for (let i = 0; i < gridCount; i++) {
+        prices.push(lowerPrice * Math.pow(ratio, i));
+      }
+    } else {
+      const step = (upperPrice - lowerPrice) / (gridCount - 1);
+      for (let i = 0; i < gridCount; i++) {
+        prices.push(lowerPrice + step * i);
+      }
+    }
+
+    return prices;
+  }
+
+  private calculateRoundTripProfit(
+    orderSize: number,
+    buyPrice: number,
+    sellPrice: number,
+  ): number {
+    const quantity = orderSize / buyPrice;
+    return quantity * sellPrice * (1 - GRID_FEE) - orderSize * (1 + GRID_FEE);
+  }
+
+  private validateRange(dto: CreateGridBotDto) {
+    if (dto.lowerPrice <= 0 || dto.upperPrice <= dto.lowerPrice) {
+      throw new Error("Upper price must be greater than lower price");
+    }
+  }
+
+  private async getPriceSafe(symbol: string): Promise<number> {
+    try {
+      return await this.marketDataService.getCurrentPrice(symbol);
+    } catch (error) {
+      this.logger.warn(`Could not fetch price for ${symbol}`);
+      return 0;
+    }
+  }
+
+  /**
+   * Shape a bot the way the desktop grid-bot page consumes it
+   */
+  private formatBot(bot: GridBotWithLevels, currentPrice: number) {
+    return {
+      ...bot,
+      status: bot.isActive ? "ACTIVE" : "STOPPED",
+      gridCount: bot.gridLevels,
+      currentPrice,
+      profitPercent: bot.totalInvestment
+        ? (bot.totalProfit / bot.totalInvestment) * 100
+        : 0,
+      filledGrids: bot.levels.filter((l) => l.buyOrderStatus === "FILLED")
+        .length,
+      levels: bot.levels.map((level) => ({
+        ...level,
+        status:
+          level.buyOrderStatus === "FILLED"
+            ? "BUY_FILLED"
+            : level.sellFills > 0
+              ? "SELL_FILLED"
+              : "PENDING",
+        profit: level.levelProfit,
+      })),
+    };
+  }
+}
@@ -0,0 +1,406 @@
+import * as TI from "technicalindicators";
+import {
+  IndicatorDefinition,
+  IndicatorParamDefinition,
+  SeriesCandle,
+} from "./indicators.types";
+
+type IndicatorOutputs = Record<string, number[]>;
+
+interface CatalogEntry extends IndicatorDefinition {
+  calculate(
+    candles: SeriesCandle[],
+    params: Record<string, number>,
+  ): IndicatorOutputs;
+}
+
+const period = (
+  value: number,
+  min = 1,
+  max = 250,
+): IndicatorParamDefinition => ({
+  name: "period",
+  default: value,
+  min,
+  max,
+  integer: true,
+});
+
+/**
+ * Right-align an indicator output with its candles; missing values are NaN
+ */
+function align<T>(
+  values: T[],
+  length: number,
+  pick: (value: T) => number | undefined,
+): number[] {
+  const result = new Array<number>(length).fill(NaN);
+  const offset = length - values.length;
+
+  values.forEach((value, i) => {
+    if (offset + i < 0) return;
+    const picked = pick(value);
+    result[offset + i] = picked === undefined ? NaN : picked;
+  });
+
+  return result;
+}
+
+const closes = (candles: SeriesCandle[]) => candles.map((c) => c.close);
+const hlc = (candles: SeriesCandle[]) => ({
+  high: candles.map((c) => c.high),
+  low: candles.map((c) => c.low),
+  close: closes(candles),
+});
+
+/**
+ * Supertrend line and direction (1 = up, -1 = down) per candle
+ */
+export function supertrendSeries(
+  candles: SeriesCandle[],
+  atrPeriod: number,
+  multiplier: number,
+): { value: number[]; direction: number[] } {
+  const { high, low, close } = hlc(candles);
+  const value = new Array<number>(candles.length).fill(NaN);
+  const direction = new Array<number>(candles.length).fill(NaN);
+
+  const atrValues = TI.ATR.calculate({ high, low, close, period: atrPeriod });
+
+  for (let i = atrPeriod; i < candles.length; i++) {
+    const atr = atrValues[i - atrPeriod];
+    const hl2 = (high[i] + low[i]) / 2;
+    const upperBand = hl2 + multiplier * atr;
+    const lowerBand = hl2 - multiplier * atr;
+
+    if (i === atrPeriod) {
+      direction[i] = close[i] > upperBand ? 1 : -1;
+      value[i] = direction[i] === 1 ? lowerBand : upperBand;
+    } else if (direction[i - 1] === 1) {
+      direction[i] = close[i] < value[i - 1] ? -1 : 1;
+      value[i] =
+        direction[i] === 1 ? Math.max(lowerBand, value[i - 1]) : upperBand;
+    } else {
+      direction[i] = close[i] > value[i - 1] ? 1 : -1;
+      value[i] =
+        direction[i] === -1 ? Math.min(upperBand, value[i - 1]) : lowerBand;
+    }
+  }
+
+  return { value, direction };
+}
+
+const CATALOG: CatalogEntry[] = [
+  ...(["open", "high", "low", "close", "volume"] as const).map(
+    (field): CatalogEntry => ({
+      name: field,
+      description: `Candle ${field}`,
+      outputs: ["value"],
+      params: [],
+      calculate: (candles) => ({ value: candles.map((c) => c[field]) }),
+    }),
+  ),
+  {
+    name: "sma",
+    description: "Simple moving average of the close",
+    outputs: ["value"],
+    params: [period(20)],
+    calculate: (candles, p) => ({
+      value: align(
+        TI.SMA.calculate({ values: closes(candles), period: p.period }),
+        candles.length,
+        (v) => v,
+      ),
+    }),
+  },
+  {
+    name: "ema",
+    description: "Exponential moving average of the close",
+    outputs: ["value"],
+    params: [period(20)],
+    calculate: (candles, p) => ({
+      value: align(
+        TI.EMA.calculate({ values: closes(candles), period: p.period }),
+        candles.length,
+        (v) => v,
+      ),
+    }),
+  },
+  {
+    name: "rsi",
+    description: "Relative Strength Index (0-100)",
+    outputs: ["value"],
+    params: [period(14, 2)],
+    calculate: (candles, p) => ({
+      value: align(
+        TI.RSI.calculate({ values: closes(candles), period: p.period }),
+        candles.length,
+        (v) => v,
+      ),
+    }),
+  },
+  {
+    name: "macd",
+    description: "MACD line, signal line and histogram",
+    outputs: ["macd", "signal", "histogram"],
+    params: [
+      { name: "fast", default: 12, min: 2, max: 100, integer: true },
+      { name: "slow", default: 26, min: 3, max: 200, integer: true },
+      { name: "signal", default: 9, min: 2, max: 50, integer: true },
+    ],
+    calculate: (candles, p) => {
+      const values = TI.MACD.calculate({
+        values: closes(candles),
+        fastPeriod: p.fast,
+        slowPeriod: p.slow,
+        signalPeriod: p.signal,
+        SimpleMAOscillator: false,
+        SimpleMASignal: false,
+      });
+      return {
+        macd: align(values, candles.length, (v) => v.MACD),
+        signal: align(values, candles.length, (v) => v.signal),
+        histogram: align(values, candles.length, (v) => v.histogram),
+      };
+    },
+  },
+  {
+    name: "bollinger",
+    description: "Bollinger Bands",
+    outputs: ["upper", "middle", "lower"],
+    params: [
+      period(20, 2),
+      { name: "stdDev", default: 2, min: 0.5, max: 5, integer: false },
+    ],
+    calculate: (candles, p) => {
+      const values = TI.BollingerBands.calculate({
+        values: closes(candles),
+        period: p.period,
+        stdDev: p.stdDev,
+      });
+      return {
+        upper: align(values, candles.length, (v) => v.upper),
+        middle: align(values, candles.length, (v) => v.middle),
+        lower: align(values, candles.length, (v) => v.lower),
+      };
+    },
+  },
+  {
+    name: "atr",
+    description: "Average True Range",
+    outputs: ["value"],
+    params: [period(14)],
+    calculate: (candles, p) => ({
+      value: align(
+        TI.ATR.calculate({ ...hlc(candles), period: p.period }),
+        candles.length,
+        (v) => v,
+      ),
+    }),
+  },
+  {
+    name: "stochRsi",
+    description: "Stochastic RSI (%K and %D, 0-100)",
+    outputs: ["k", "d"],
+    params: [
+      { name: "rsiPeriod", default: 14, min: 2, max: 100, integer: true },
+      { name: "stochPeriod", default: 14, min: 2, max: 100, integer: true },
+      { name: "kPeriod", default: 3, min: 1, max: 20, integer: true },
+      { name: "dPeriod", default: 3, min: 1, max: 20, integer: true },
+    ],
+    calculate: (candles, p) => {
+      const values = TI.StochasticRSI.calculate({
+        values: closes(candles),
+        rsiPeriod: p.rsiPeriod,
+        stochasticPeriod: p.stochPeriod,
+        kPeriod: p.kPeriod,
+        dPeriod: p.dPeriod,
+      });
+      return {
+        k: align(values, candles.length, (v) => v.k),
+        d: align(values, candles.length, (v) => v.d),
+      };
+    },
+  },
+  {
+    name: "supertrend",
+    description: "Supertrend line and direction (1 = up, -1 = down)",
+    outputs: ["value", "direction"],
+    params: [
+      period(10),
+      { name: "multiplier", default: 3, min: 0.5, max: 10, integer: false },
+    ],
+    calculate: (candles, p) =>
+      supertrendSeries(candles, p.period, p.multiplier),
+  },
+  {
+    name: "ichimoku",
+    description: "Ichimoku Cloud lines",
+    outputs: ["tenkan", "kijun", "spanA", "spanB"],
+    params: [
+      { name: "tenkan", default: 9, min: 2, max: 100, integer: true },
+      { name: "kijun", default: 26, min: 2, max: 150, integer: true },
+      { name: "senkouB", default: 52, min: 2, max: 250, integer: true },
+    ],
+    calculate: (candles, p) => {
+      const values = TI.IchimokuCloud.calculate({
+        high: candles.map((c) => c.high),
+        low: candles.map((c) => c.low),
+        conversionPeriod: p.tenkan,
+        basePeriod: p.kijun,
+        spanPeriod: p.senkouB,
+        displacement: p.kijun,
+      });
+      return {
+        tenkan: align(values, candles.length, (v) => v.conversion),
+        kijun: align(values, candles.length, (v) => v.base),
+        spanA: align(values, candles.length, (v) => v.spanA),
+        spanB: align(values, candles.length, (v) => v.spanB),
+      };
+    },
+  },
+  {
+    name: "adx",
+    description: "Average Directional Index with +DI and -DI",
+    outputs: ["adx", "plusDI", "minusDI"],
+    params: [period(14, 2)],
+    calculate: (candles, p) => {
+      const values = TI.ADX.calculate({ ...hlc(candles), period: p.period });
+      return {
+        adx: align(values, candles.length, (v) => v.adx),
+        plusDI: align(values, candles.length, (v) => v.pdi),
+        minusDI: align(values, candles.length, (v) => v.mdi),
+      };
+    },
+  },
+  {
+    name: "mfi",
+    description: "Money Flow Index (0-100)",
+    outputs: ["value"],
+    params: [period(14, 2)],
+    calculate: (candles, p) => ({
+      value: align(
+        TI.MFI.calculate({
+          ...hlc(candles),
+          volume: candles.map((c) => c.volume),
+          period: p.period,
+        }),
+        candles.length,
+        (v) => v,
+      ),
+    }),
+  },
+  {
+    name: "cci",
+    description: "Commodity Channel Index",
+    outputs: ["value"],
+    params: [period(20, 2)],
+    calculate: (candles, p) => ({
+      value: align(
+        TI.CCI.calculate({ ...hlc(candles), period: p.period }),
+        candles.length,
+        (v) => v,
+      ),
+    }),
+  },
+  {
+    name: "williamsR",
+    description: "Williams %R (-100 to 0)",
+    outputs: ["value"],
+    params: [period(14, 2)],
+    calculate: (candles, p) => ({
+      value: align(
+        TI.WilliamsR.calculate({ ...hlc(candles), period: p.period }),
+        candles.length,
+        (v) => v,
+      ),
+    }),
+  },
+  {
+    name: "obv",
+    description: "On-Balance Volume",
+    outputs: ["value"],
+    params: [],
+    calculate: (candles) => ({
+      value: align(
+        TI.OBV.calculate({
+          close: closes(candles),
+          volume: candles.map((c) => c.volume),
+        }),
+        candles.length,
+        (v) => v,
+      ),
+    }),
+  },
+  {
+    name: "vwap",
+    description: "Volume Weighted Average Price over the candles given",
+    outputs: ["value"],
+    params: [],
+    calculate: (candles) => ({
+      value: align(
+        TI.VWAP.calculate({
+          ...hlc(candles),
+          volume: candles.map((c) => c.volume),
+        }),
+        candles.length,
+        (v) => v,
+      ),
+    }),
+  },
+  {
+    name: "volumeRatio",
+    description: "Volume relative to the average of the previous N candles",
+    outputs: ["value"],
+    params: [period(20, 2)],
+    calculate: (candles, p) => ({
+      value: candles.map((candle, i) => {
+        if (i < p.period) return NaN;
+        let sum = 0;
+        for (let j = i - p.period; j < i; j++) sum += candles[j].volume;
+        return sum > 0 ? candle.volume / (sum / p.period) : NaN;
+      }),
+    }),
+  },
+];
+
+const BY_NAME = new Map(CATALOG.map((entry) => [entry.name, entry]));
+
+/**
+ * Public description of every indicator (no calculate function)
+ */
+export function listIndicators(): IndicatorDefinition[] {
+  return CATALOG.map(({ name, description, outputs, params }) => ({
+    name,
+    description,
+    outputs,
+    params,
+  }));
+}
+
+export function getIndicatorDefinition(
+  name: string,
+): IndicatorDefinition | undefined {
+  return BY_NAME.get(name);
+}
+
+/**
+ * All outputs of a catalogue indicator; missing params use their default
+ */
+export function calculateIndicator(
+  candles: SeriesCandle[],
+  name: string,
+  params: Record<string, number> = {},
+): IndicatorOutputs {
+  const entry = BY_NAME.get(name);
+  if (!entry) {
+    throw new Error(`Unknown indicator: ${name}`);
+  }
+
+  const resolved: Record<string, number> = {};
+  for (const param of entry.params) {
+    resolved[param.name] = params[param.name] ?? param.default;
+  }
+
+  return entry.calculate(candles, resolved);
+}
@@ -7,6 +7,14 @@ import { IndicatorsService } from "./indicators.service";
 export class IndicatorsController {
   constructor(private readonly indicatorsService: IndicatorsService) {}
 
+  @Get("catalog")
+  @ApiOperation({
+    summary: "List indicators usable in custom strategy rules",
+  })
+  getCatalog() {
+    return this.indicatorsService.getIndicatorCatalog();
+  }
+
   @Get("rsi/:symbol")
   @ApiOperation({ summary: "Calculate RSI for a symbol" })
   @ApiParam({ name: "symbol", example: "BTCUSDT" })
@@ -1,8 +1,10 @@
 import { Module } from "@nestjs/common";
 import { IndicatorsService } from "./indicators.service";
 import { IndicatorsController } from "./indicators.controller";
+import { MarketDataModule } from "../market-data/market-data.module";
 
 @Module({
+  imports: [MarketDataModule],
   controllers: [IndicatorsController],
   providers: [IndicatorsService],
   exports: [IndicatorsService],
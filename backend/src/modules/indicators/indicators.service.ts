@@ -1,6 +1,12 @@
 import { Injectable, Logger } from "@nestjs/common";
-import { PrismaService } from "@/common/prisma/prisma.service";
+import { CandleRepository } from "../market-data/candle.repository";
+import { MarketCandle } from "../market-data/market-data.types";
 import * as TI from "technicalindicators";
+import {
+  calculateIndicator,
+  listIndicators,
+  supertrendSeries,
+} from "./indicator-catalog";
 import {
   RSIResult,
   MACDResult,
@@ -22,13 +28,18 @@ import {
   WilliamsRResult,
   MFIResult,
   ExtendedAnalysis,
+  SeriesCandle,
+  IndicatorSeries,
+  IndicatorSeriesOptions,
+  CandleReading,
+  IndicatorDefinition,
 } from "./indicators.types";
 
 @Injectable()
 export class IndicatorsService {
   private readonly logger = new Logger(IndicatorsService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(private readonly candleRepository: CandleRepository) {}
 
   /**
    * Calculate RSI (Relative Strength Index)
@@ -40,43 +51,60 @@ export class IndicatorsService {
   ): Promise<RSIResult | null> {
     try {
       const candles = await this.getCandles(symbol, timeframe, period + 10);
+      const result = this.calculateRSIFromCandles(candles, period);
 
-      if (candles.length < period) {
+      if (!result) {
         this.logger.warn(`Not enough data to calculate RSI for ${symbol}`);
         return null;
       }
 
-      const closePrices = candles.map((c) => c.close);
+      return { symbol, timeframe, ...result };
+    } catch (error) {
+      this.logger.error(`Error calculating RSI for ${symbol}`, error);
+      return null;
+    }
+  }
 
-      const rsiValues = TI.RSI.calculate({
-        values: closePrices,
-        period,
-      });
+  /**
+   * RSI of the last candle (no database access)
+   */
+  calculateRSIFromCandles(
+    candles: SeriesCandle[],
+    period: number = 14,
+  ): CandleReading<RSIResult> | null {
+    if (candles.length < period) {
+      return null;
+    }
 
-      const latestRSI = rsiValues[rsiValues.length - 1];
-      const latestCandle = candles[candles.length - 1];
+    const closePrices = candles.map((c) => c.close);
 
-      let signal: "OVERSOLD" | "OVERBOUGHT" | "NEUTRAL";
-      if (latestRSI < 30) {
-        signal = "OVERSOLD";
-      } else if (latestRSI > 70) {
-        signal = "OVERBOUGHT";
-      } else {
-        signal = "NEUTRAL";
-      }
+    const rsiValues = TI.RSI.calculate({
+      values: closePrices,
+      period,
+    });
 
-      return {
-        symbol,
-        timeframe,
-        timestamp: latestCandle.timestamp,
-        value: latestRSI,
-        period,
-        signal,
-      };
-    } catch (error) {
-      this.logger.error(`Error calculating RSI for ${symbol}`, error);
+    const latestRSI = rsiValues[rsiValues.length - 1];
+    const latestCandle = candles[candles.length - 1];
+
+    if (latestRSI === undefined) {
       return null;
     }
+
+    let signal: "OVERSOLD" | "OVERBOUGHT" | "NEUTRAL";
+    if (latestRSI < 30) {
+      signal = "OVERSOLD";
+    } else if (latestRSI > 70) {
+      signal = "OVERBOUGHT";
+    } else {
+      signal = "NEUTRAL";
+    }
+
+    return {
+      timestamp: latestCandle.timestamp,
+      value: latestRSI,
+      period,
+      signal,
+    };
   }
 
   /**
@@ -101,54 +129,74 @@ export class IndicatorsService {
         return null;
       }
 
-      const closePrices = candles.map((c) => c.close);
-
-      const macdValues = TI.MACD.calculate({
-        values: closePrices,
+      const result = this.calculateMACDFromCandles(
+        candles,
         fastPeriod,
         slowPeriod,
         signalPeriod,
-        SimpleMAOscillator: false,
-        SimpleMASignal: false,
-      });
+      );
+      return result && { symbol, timeframe, ...result };
+    } catch (error) {
+      this.logger.error(`Error calculating MACD for ${symbol}`, error);
+      return null;
+    }
+  }
 
-      const latestMACD = macdValues[macdValues.length - 1];
-      const latestCandle = candles[candles.length - 1];
+  /**
+   * MACD of the last candle (no database access)
+   */
+  calculateMACDFromCandles(
+    candles: SeriesCandle[],
+    fastPeriod: number = 12,
+    slowPeriod: number = 26,
+    signalPeriod: number = 9,
+  ): CandleReading<MACDResult> | null {
+    if (candles.length < slowPeriod + signalPeriod) {
+      return null;
+    }
 
-      if (
-        !latestMACD ||
-        latestMACD.histogram === undefined ||
-        latestMACD.MACD === undefined ||
-        latestMACD.signal === undefined
-      ) {
-        return null;
-      }
+    const closePrices = candles.map((c) => c.close);
 
-      let trend: "BULLISH" | "BEARISH" | "NEUTRAL";
-      if (latestMACD.histogram > 0 && latestMACD.MACD > latestMACD.signal) {
-        trend = "BULLISH";
-      } else if (
-        latestMACD.histogram < 0 &&
-        latestMACD.MACD < latestMACD.signal
-      ) {
-        trend = "BEARISH";
-      } else {
-        trend = "NEUTRAL";
-      }
+    const macdValues = TI.MACD.calculate({
+      values: closePrices,
+      fastPeriod,
+      slowPeriod,
+      signalPeriod,
+      SimpleMAOscillator: false,
+      SimpleMASignal: false,
+    });
 
-      return {
-        symbol,
-        timeframe,
-        timestamp: latestCandle.timestamp,
-        macd: latestMACD.MACD,
-        signal: latestMACD.signal,
-        histogram: latestMACD.histogram,
-        trend,
-      };
-    } catch (error) {
-      this.logger.error(`Error calculating MACD for ${symbol}`, error);
+    const latestMACD = macdValues[macdValues.length - 1];
+    const latestCandle = candles[candles.length - 1];
+
+    if (
+      !latestMACD ||
+      latestMACD.histogram === undefined ||
+      latestMACD.MACD === undefined ||
+      latestMACD.signal === undefined
+    ) {
       return null;
     }
+
+    let trend: "BULLISH" | "BEARISH" | "NEUTRAL";
+    if (latestMACD.histogram > 0 && latestMACD.MACD > latestMACD.signal) {
+      trend = "BULLISH";
+    } else if (
+      latestMACD.histogram < 0 &&
+      latestMACD.MACD < latestMACD.signal
+    ) {
+      trend = "BEARISH";
+    } else {
+      trend = "NEUTRAL";
+    }
+
+    return {
+      timestamp: latestCandle.timestamp,
+      macd: latestMACD.MACD,
+      signal: latestMACD.signal,
+      histogram: latestMACD.histogram,
+      trend,
+    };
   }
 
   /**
@@ -161,35 +209,41 @@ export class IndicatorsService {
   ): Promise<EMAResult | null> {
     try {
       const candles = await this.getCandles(symbol, timeframe, period + 10);
+      const result = this.calculateEMAFromCandles(candles, period);
 
-      if (candles.length < period) {
+      if (!result) {
         this.logger.warn(`Not enough data to calculate EMA for ${symbol}`);
         return null;
       }
 
-      const closePrices = candles.map((c) => c.close);
-
-      const emaValues = TI.EMA.calculate({
-        values: closePrices,
-        period,
-      });
-
-      const latestEMA = emaValues[emaValues.length - 1];
-      const latestCandle = candles[candles.length - 1];
-
-      return {
-        symbol,
-        timeframe,
-        timestamp: latestCandle.timestamp,
-        value: latestEMA,
-        period,
-      };
+      return { symbol, timeframe, ...result };
     } catch (error) {
       this.logger.error(`Error calculating EMA for ${symbol}`, error);
       return null;
     }
   }
 
+  /**
+   * EMA of the last candle (no database access)
+   */
+  calculateEMAFromCandles(
+    candles: SeriesCandle[],
+    period: number,
+  ): CandleReading<EMAResult> | null {
+    if (candles.length < period) {
+      return null;
+    }
+
+    const closePrices = candles.map((c) => c.close);
+    const latestCandle = candles[candles.length - 1];
+
+    return {
+      timestamp: latestCandle.timestamp,
+      value: this.getLatestEMA(closePrices, period),
+      period,
+    };
+  }
+
   /**
    * Calculate EMA Ribbon (5 EMAs: 5, 10, 20, 50, 200)
    */
@@ -199,55 +253,67 @@ export class IndicatorsService {
   ): Promise<EMARibbonResult | null> {
     try {
       const candles = await this.getCandles(symbol, timeframe, 210);
+      const result = this.calculateEMARibbonFromCandles(candles);
 
-      if (candles.length < 200) {
+      if (!result) {
         this.logger.warn(
           `Not enough data to calculate EMA Ribbon for ${symbol}`,
         );
         return null;
       }
 
-      const closePrices = candles.map((c) => c.close);
-      const latestCandle = candles[candles.length - 1];
-
-      const ema5 = this.getLatestEMA(closePrices, 5);
-      const ema10 = this.getLatestEMA(closePrices, 10);
-      const ema20 = this.getLatestEMA(closePrices, 20);
-      const ema50 = this.getLatestEMA(closePrices, 50);
-      const ema200 = this.getLatestEMA(closePrices, 200);
-
-      // Check alignment: bullish if shorter EMAs are above longer EMAs
-      let alignment: "BULLISH" | "BEARISH" | "MIXED";
-      const bullishAlignment =
-        ema5 > ema10 && ema10 > ema20 && ema20 > ema50 && ema50 > ema200;
-      const bearishAlignment =
-        ema5 < ema10 && ema10 < ema20 && ema20 < ema50 && ema50 < ema200;
-
-      if (bullishAlignment) {
-        alignment = "BULLISH";
-      } else if (bearishAlignment) {
-        alignment = "BEARISH";
-      } else {
-        alignment = "MIXED";
-      }
-
-      return {
-        symbol,
-        timeframe,
-        timestamp: latestCandle.timestamp,
-        ema5,
-        ema10,
-        ema20,
-        ema50,
-        ema200,
-        alignment,
-      };
+      return { symbol, timeframe, ...result };
     } catch (error) {
       this.logger.error(`Error calculating EMA Ribbon for ${symbol}`, error);
       return null;
     }
   }
 
+  /**
+   * EMA Ribbon of the last candle (no database access)
+   */
+  calculateEMARibbonFromCandles(
+    candles: SeriesCandle[],
+  ): CandleReading<EMARibbonResult> | null {
+    if (candles.length < 200) {
+      return null;
+    }
+
+    const closePrices = candles.map((c) => c.close);
+    const latestCandle = candles[candles.length - 1];
+
+    const ema5 = this.getLatestEMA(closePrices, 5);
+    const ema10 = this.getLatestEMA(closePrices, 10);
+    const ema20 = this.getLatestEMA(closePrices, 20);
+    const ema50 = this.getLatestEMA(closePrices, 50);
+    const ema200 = this.getLatestEMA(closePrices, 200);
+
+    // Check alignment: bullish if shorter EMAs are above longer EMAs
+    let alignment: "BULLISH" | "BEARISH" | "MIXED";
+    const bullishAlignment =
+      ema5 > ema10 && ema10 > ema20 && ema20 > ema50 && ema50 > ema200;
+    const bearishAlignment =
+      ema5 < ema10 && ema10 < ema20 && ema20 < ema50 && ema50 < ema200;
+
+    if (bullishAlignment) {
+      alignment = "BULLISH";
+    } else if (bearishAlignment) {
+      alignment = "BEARISH";
+    } else {
+      alignment = "MIXED";
+    }
+
+    return {
+      timestamp: latestCandle.timestamp,
+      ema5,
+      ema10,
+      ema20,
+      ema50,
+      ema200,
+      alignment,
+    };
+  }
+
   /**
    * Calculate Bollinger Bands
    */
@@ -259,45 +325,20 @@ export class IndicatorsService {
   ): Promise<BollingerBandsResult | null> {
     try {
       const candles = await this.getCandles(symbol, timeframe, period + 10);
+      const result = this.calculateBollingerBandsFromCandles(
+        candles,
+        period,
+        stdDev,
+      );
 
-      if (candles.length < period) {
+      if (!result) {
         this.logger.warn(
           `Not enough data to calculate Bollinger Bands for ${symbol}`,
         );
         return null;
       }
 
-      const closePrices = candles.map((c) => c.close);
-
-      const bbValues = TI.BollingerBands.calculate({
-        values: closePrices,
-        period,
-        stdDev,
-      });
-
-      const latestBB = bbValues[bbValues.length - 1];
-      const latestCandle = candles[candles.length - 1];
-      const currentPrice = latestCandle.close;
-
-      let position: "ABOVE_UPPER" | "BETWEEN" | "BELOW_LOWER";
-      if (currentPrice > latestBB.upper) {
-        position = "ABOVE_UPPER";
-      } else if (currentPrice < latestBB.lower) {
-        position = "BELOW_LOWER";
-      } else {
-        position = "BETWEEN";
-      }
-
-      return {
-        symbol,
-        timeframe,
-        timestamp: latestCandle.timestamp,
-        upper: latestBB.upper,
-        middle: latestBB.middle,
-        lower: latestBB.lower,
-        currentPrice,
-        position,
-      };
+      return { symbol, timeframe, ...result };
     } catch (error) {
       this.logger.error(
         `Error calculating Bollinger Bands for ${symbol}`,
@@ -307,6 +348,49 @@ export class IndicatorsService {
     }
   }
 
+  /**
+   * Bollinger Bands of the last candle (no database access)
+   */
+  calculateBollingerBandsFromCandles(
+    candles: SeriesCandle[],
+    period: number = 20,
+    stdDev: number = 2,
+  ): CandleReading<BollingerBandsResult> | null {
+    if (candles.length < period) {
+      return null;
+    }
+
+    const closePrices = candles.map((c) => c.close);
+
+    const bbValues = TI.BollingerBands.calculate({
+      values: closePrices,
+      period,
+      stdDev,
+    });
+
+    const latestBB = bbValues[bbValues.length - 1];
+    const latestCandle = candles[candles.length - 1];
+    const currentPrice = latestCandle.close;
+
+    let position: "ABOVE_UPPER" | "BETWEEN" | "BELOW_LOWER";
+    if (currentPrice > latestBB.upper) {
+      position = "ABOVE_UPPER";
+    } else if (currentPrice < latestBB.lower) {
+      position = "BELOW_LOWER";
+    } else {
+      position = "BETWEEN";
+    }
+
+    return {
+      timestamp: latestCandle.timestamp,
+      upper: latestBB.upper,
+      middle: latestBB.middle,
+      lower: latestBB.lower,
+      currentPrice,
+      position,
+    };
+  }
+
   /**
    * Analyze volume
    */
@@ -321,38 +405,53 @@ export class IndicatorsService {
         timeframe,
         lookbackPeriod + 1,
       );
+      const result = this.analyzeVolumeFromCandles(candles, lookbackPeriod);
 
-      if (candles.length < lookbackPeriod) {
+      if (!result) {
         this.logger.warn(`Not enough data to analyze volume for ${symbol}`);
         return null;
       }
 
-      const latestCandle = candles[candles.length - 1];
-      const currentVolume = latestCandle.volume;
-
-      // Calculate average volume excluding current candle
-      const volumes = candles.slice(0, -1).map((c) => c.volume);
-      const avgVolume =
-        volumes.reduce((sum, vol) => sum + vol, 0) / volumes.length;
-
-      const volumeRatio = currentVolume / avgVolume;
-      const isSignificant = volumeRatio > 1.5; // 50% above average
-
-      return {
-        symbol,
-        timeframe,
-        timestamp: latestCandle.timestamp,
-        currentVolume,
-        avgVolume,
-        volumeRatio,
-        isSignificant,
-      };
+      return { symbol, timeframe, ...result };
     } catch (error) {
       this.logger.error(`Error analyzing volume for ${symbol}`, error);
       return null;
     }
   }
 
+  /**
+   * Last candle's volume against the previous `lookbackPeriod` candles
+   * (no database access)
+   */
+  analyzeVolumeFromCandles(
+    candles: SeriesCandle[],
+    lookbackPeriod: number = 20,
+  ): CandleReading<VolumeAnalysis> | null {
+    if (candles.length < lookbackPeriod) {
+      return null;
+    }
+
+    const window = candles.slice(-(lookbackPeriod + 1));
+    const latestCandle = window[window.length - 1];
+    const currentVolume = latestCandle.volume;
+
+    // Calculate average volume excluding current candle
+    const volumes = window.slice(0, -1).map((c) => c.volume);
+    const avgVolume =
+      volumes.reduce((sum, vol) => sum + vol, 0) / volumes.length;
+
+    const volumeRatio = currentVolume / avgVolume;
+    const isSignificant = volumeRatio > 1.5; // 50% above average
+
+    return {
+      timestamp: latestCandle.timestamp,
+      currentVolume,
+      avgVolume,
+      volumeRatio,
+      isSignificant,
+    };
+  }
+
   /**
    * Comprehensive analysis combining all indicators
    */
@@ -448,50 +547,39 @@ export class IndicatorsService {
   }
 
   /**
-   * Get candles from database (public for strategies)
+   * Get the latest candles, oldest first (public for strategies)
    */
-  async getCandles(symbol: string, timeframe: string, limit: number) {
-    const crypto = await this.prisma.cryptocurrency.findUnique({
-      where: { binanceSymbol: symbol },
-    });
-
-    if (!crypto) {
-      throw new Error(`Cryptocurrency ${symbol} not found`);
-    }
-
-    return this.prisma.priceData.findMany({
-      where: {
-        cryptoId: crypto.id,
-        timeframe,
-      },
-      orderBy: {
-        timestamp: "asc",
-      },
-      take: limit,
+  async getCandles(
+    symbol: string,
+    timeframe: string,
+    limit: number,
+  ): Promise<SeriesCandle[]> {
+    const candles = await this.candleRepository.getCandles(symbol, timeframe, {
+      limit,
     });
+    return candles.map((c) => this.toSeriesCandle(c));
   }
 
   /**
    * Get latest candle
    */
-  private async getLatestCandle(symbol: string, timeframe: string) {
-    const crypto = await this.prisma.cryptocurrency.findUnique({
-      where: { binanceSymbol: symbol },
-    });
-
-    if (!crypto) {
-      throw new Error(`Cryptocurrency ${symbol} not found`);
-    }
+  private async getLatestCandle(
+    symbol: string,
+    timeframe: string,
+  ): Promise<SeriesCandle | null> {
+    const candle = await this.candleRepository.getLatest(symbol, timeframe);
+    return candle ? this.toSeriesCandle(candle) : null;
+  }
 
-    return this.prisma.priceData.findFirst({
-      where: {
-        cryptoId: crypto.id,
-        timeframe,
-      },
-      orderBy: {
-        timestamp: "desc",
-      },
-    });
+  private toSeriesCandle(candle: MarketCandle): SeriesCandle {
+    return {
+      timestamp: candle.openTime,
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume,
+    };
   }
 
   /**
@@ -505,6 +593,128 @@ export class IndicatorsService {
     return emaValues[emaValues.length - 1];
   }
 
+  /**
+   * Calculate full indicator series over a candle array in one pass.
+   * Unlike the per-symbol methods this does no database access, so callers
+   * (e.g. the backtesting engine) can compute everything once up front.
+   */
+  calculateSeries(
+    candles: SeriesCandle[],
+    options: IndicatorSeriesOptions = {},
+  ): IndicatorSeries {
+    const {
+      rsiPeriod = 14,
+      macdFast = 12,
+      macdSlow = 26,
+      macdSignal = 9,
+      bbPeriod = 20,
+      bbStdDev = 2,
+      atrPeriod = 14,
+      volumePeriod = 20,
+    } = options;
+
+    const length = candles.length;
+    const closes = candles.map((c) => c.close);
+    const highs = candles.map((c) => c.high);
+    const lows = candles.map((c) => c.low);
+    const volumes = candles.map((c) => c.volume);
+
+    const macdValues = this.alignSeries(
+      TI.MACD.calculate({
+        values: closes,
+        fastPeriod: macdFast,
+        slowPeriod: macdSlow,
+        signalPeriod: macdSignal,
+        SimpleMAOscillator: false,
+        SimpleMASignal: false,
+      }),
+      length,
+    );
+    const bbValues = this.alignSeries(
+      TI.BollingerBands.calculate({
+        values: closes,
+        period: bbPeriod,
+        stdDev: bbStdDev,
+      }),
+      length,
+    );
+
+    // Average volume of the previous N candles (current candle excluded)
+    const volumeAvg: number[] = new Array(length).fill(NaN);
+    let volumeSum = 0;
+    for (let i = 0; i < length; i++) {
+      if (i >= volumePeriod) {
+        volumeAvg[i] = volumeSum / volumePeriod;
+        volumeSum -= volumes[i - volumePeriod];
+      }
+      volumeSum += volumes[i];
+    }
+
+    const emaSeries = (period: number) =>
+      this.alignSeries(TI.EMA.calculate({ values: closes, period }), length);
+    const toNumber = (value: number | undefined) =>
+      value === undefined ? NaN : value;
+
+    return {
+      rsi: this.alignSeries(
+        TI.RSI.calculate({ values: closes, period: rsiPeriod }),
+        length,
+      ).map(toNumber),
+      macd: macdValues.map((v) => toNumber(v?.MACD)),
+      macdSignal: macdValues.map((v) => toNumber(v?.signal)),
+      macdHistogram: macdValues.map((v) => toNumber(v?.histogram)),
+      ema5: emaSeries(5).map(toNumber),
+      ema10: emaSeries(10).map(toNumber),
+      ema20: emaSeries(20).map(toNumber),
+      ema50: emaSeries(50).map(toNumber),
+      ema200: emaSeries(200).map(toNumber),
+      bbUpper: bbValues.map((v) => toNumber(v?.upper)),
+      bbMiddle: bbValues.map((v) => toNumber(v?.middle)),
+      bbLower: bbValues.map((v) => toNumber(v?.lower)),
+      atr: this.alignSeries(
+        TI.ATR.calculate({
+          high: highs,
+          low: lows,
+          close: closes,
+          period: atrPeriod,
+        }),
+        length,
+      ).map(toNumber),
+      volumeAvg,
+      volumeRatio: volumeAvg.map((avg, i) =>
+        avg > 0 ? volumes[i] / avg : NaN,
+      ),
+    };
+  }
+
+  /**
+   * Indicators available to rule-based strategies, with outputs and params
+   */
+  getIndicatorCatalog(): IndicatorDefinition[] {
+    return listIndicators();
+  }
+
+  /**
+   * Every output series of a catalogue indicator (no database access)
+   */
+  calculateIndicatorFromCandles(
+    candles: SeriesCandle[],
+    name: string,
+    params: Record<string, number> = {},
+  ): Record<string, number[]> {
+    return calculateIndicator(candles, name, params);
+  }
+
+  /**
+   * Helper to right-align a TI output with its input (pads the warm-up)
+   */
+  private alignSeries<T>(values: T[], length: number): (T | undefined)[] {
+    const padding = new Array<T | undefined>(
+      Math.max(length - values.length, 0),
+    ).fill(undefined);
+    return [...padding, ...values.slice(-length)];
+  }
+
   // ============================================
   // NUEVOS INDICADORES - Sprint 6
   // ============================================
@@ -762,68 +972,20 @@ export class IndicatorsService {
         return null;
       }
 
-      const highs = candles.map((c) => c.high);
-      const lows = candles.map((c) => c.low);
-      const closes = candles.map((c) => c.close);
-
-      // Calculate ATR first
-      const atrValues = TI.ATR.calculate({
-        high: highs,
-        low: lows,
-        close: closes,
+      const { value, direction } = supertrendSeries(
+        candles,
         period,
-      });
-
-      // Calculate Supertrend manually
-      const supertrendValues: { value: number; direction: "UP" | "DOWN" }[] =
-        [];
-
-      for (let i = period; i < candles.length; i++) {
-        const atr = atrValues[i - period];
-        const hl2 = (highs[i] + lows[i]) / 2;
-
-        const upperBand = hl2 + multiplier * atr;
-        const lowerBand = hl2 - multiplier * atr;
-
-        let direction: "UP" | "DOWN";
-        let supertrend: number;
-
-        if (i === period) {
-          direction = closes[i] > upperBand ? "UP" : "DOWN";
-          supertrend = direction === "UP" ? lowerBand : upperBand;
-        } else {
-          const prevSupertrend = supertrendValues[supertrendValues.length - 1];
-
-          if (prevSupertrend.direction === "UP") {
-            if (closes[i] < prevSupertrend.value) {
-              direction = "DOWN";
-              supertrend = upperBand;
-            } else {
-              direction = "UP";
-              supertrend = Math.max(lowerBand, prevSupertrend.value);
-            }
-          } else {
-            if (closes[i] > prevSupertrend.value) {
-              direction = "UP";
-              supertrend = lowerBand;
-            } else {
-              direction = "DOWN";
-              supertrend = Math.min(upperBand, prevSupertrend.value);
-            }
-          }
-        }
-
-        supertrendValues.push({ value: supertrend, direction });
-      }
-
-      const latest = supertrendValues[supertrendValues.length - 1];
-      const latestCandle = candles[candles.length - 1];
-      const prev = supertrendValues[supertrendValues.length - 2];
+        multiplier,
+      );
+      const last = candles.length - 1;
+      const latestCandle = candles[last];
+      const isUp = direction[last] === 1;
+      const wasUp = direction[last - 1] === 1;
 
       let signal: "BUY" | "SELL" | "HOLD";
-      if (latest.direction === "UP" && prev.direction === "DOWN") {
+      if (isUp && !wasUp) {
         signal = "BUY";
-      } else if (latest.direction === "DOWN" && prev.direction === "UP") {
+      } else if (!isUp && wasUp) {
         signal = "SELL";
       } else {
         signal = "HOLD";
@@ -833,8 +995,8 @@ export class IndicatorsService {
         symbol,
         timeframe,
         timestamp: latestCandle.timestamp,
-        supertrend: latest.value,
-        direction: latest.direction,
+        supertrend: value[last],
+        direction: isUp ? "UP" : "DOWN",
         currentPrice: latestCandle.close,
         signal,
       };
@@ -231,3 +231,74 @@ export interface ExtendedAnalysis extends ComprehensiveAnalysis {
   ichimoku?: IchimokuResult;
   adx?: ADXResult;
 }
+
+// ============================================
+// SERIES (VECTOR) CALCULATIONS - Backtesting
+// ============================================
+
+/**
+ * Indicator result computed from a candle array, before it is tied to a
+ * symbol and timeframe
+ */
+export type CandleReading<T> = Omit<T, "symbol" | "timeframe">;
+
+export interface SeriesCandle {
+  timestamp: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface IndicatorSeriesOptions {
+  rsiPeriod?: number;
+  macdFast?: number;
+  macdSlow?: number;
+  macdSignal?: number;
+  bbPeriod?: number;
+  bbStdDev?: number;
+  atrPeriod?: number;
+  volumePeriod?: number;
+}
+
+/**
+ * Indicator values aligned index-by-index with the input candles.
+ * Entries inside an indicator's warm-up window are NaN.
+ */
+export interface IndicatorSeries {
+  rsi: number[];
+  macd: number[];
+  macdSignal: number[];
+  macdHistogram: number[];
+  ema5: number[];
+  ema10: number[];
+  ema20: number[];
+  ema50: number[];
+  ema200: number[];
+  bbUpper: number[];
+  bbMiddle: number[];
+  bbLower: number[];
+  atr: number[];
+  volumeAvg: number[];
+  volumeRatio: number[];
+}
+
+export interface IndicatorParamDefinition {
+  name: string;
+  default: number;
+  min: number;
+  max: number;
+  integer: boolean;
+}
+
+/**
+ * Entry of the indicator catalogue used by rule-based strategies.
+ * Every output is a series aligned with the candles (NaN during warm-up).
+ */
+export interface IndicatorDefinition {
+  name: string;
+  description: string;
+  outputs: string[];
+  params: IndicatorParamDefinition[];
+}
@@ -103,13 +103,13 @@ export class BinanceService {
       if (startTime) params.startTime = startTime;
       if (endTime) params.endTime = endTime;
 
-      const response = await this.httpClient.get<BinanceCandle[]>(
-        "/api/v3/klines",
-        { params },
-      );
+      // Klines come back as positional arrays
+      const response = await this.httpClient.get<any[][]>("/api/v3/klines", {
+        params,
+      });
 
-      return response.data.map((candle) =>
-        this.parseCandle(candle, symbol, interval),
+      return response.data.map((kline) =>
+        this.parseCandle(this.toBinanceCandle(kline), symbol, interval),
       );
     } catch (error) {
       this.logger.error(`Error getting klines for ${symbol}`, error);
@@ -191,6 +191,27 @@ export class BinanceService {
       volume: parseFloat(candle.volume),
       timeframe,
       isClosed: true, // Historical candles are always closed
+      closeTime: new Date(candle.closeTime),
+      quoteVolume: parseFloat(candle.quoteAssetVolume),
+      trades: candle.numberOfTrades,
+      takerBuyBase: parseFloat(candle.takerBuyBaseAssetVolume),
+      takerBuyQuote: parseFloat(candle.takerBuyQuoteAssetVolume),
+    };
+  }
+
+  private toBinanceCandle(kline: any[]): BinanceCandle {
+    return {
+      openTime: kline[0],
+      open: kline[1],
+      high: kline[2],
+      low: kline[3],
+      close: kline[4],
+      volume: kline[5],
+      closeTime: kline[6],
+      quoteAssetVolume: kline[7],
+      numberOfTrades: kline[8],
+      takerBuyBaseAssetVolume: kline[9],
+      takerBuyQuoteAssetVolume: kline[10],
     };
   }
 
@@ -118,4 +118,9 @@ export interface ParsedCandle {
   volume: number;
   timeframe: string;
   isClosed: boolean;
+  closeTime: Date;
+  quoteVolume: number;
+  trades: number;
+  takerBuyBase: number;
+  takerBuyQuote: number;
 }
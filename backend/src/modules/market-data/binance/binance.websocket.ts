@@ -248,6 +248,11 @@ export class BinanceWebsocketService implements OnModuleInit, OnModuleDestroy {
       volume: parseFloat(k.v),
       timeframe: k.i,
       isClosed: k.x,
+      closeTime: new Date(k.T),
+      quoteVolume: parseFloat(k.q),
+      trades: k.n,
+      takerBuyBase: parseFloat(k.V),
+      takerBuyQuote: parseFloat(k.Q),
     };
 
     // Call the callback with the parsed candle
@@ -0,0 +1,332 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import { randomUUID } from "crypto";
+import { PrismaService } from "@/common/prisma/prisma.service";
+import { BinanceService } from "./binance/binance.service";
+import { CandleRepository } from "./candle.repository";
+import { BinanceTimeframe, ParsedCandle } from "./binance/binance.types";
+import {
+  BackfillJob,
+  CandleCoverage,
+  CandleGap,
+  INTERVAL_MS,
+  IntervalCoverage,
+  alignOpenTime,
+  normalizeSymbol,
+} from "./market-data.types";
+
+const PAGE_LIMIT = 1000; // Binance max klines per request
+const MIN_REQUEST_INTERVAL_MS = 250; // Well below the 6000 weight/min limit
+const MAX_ATTEMPTS = 5;
+const MAX_REPORTED_GAPS = 50;
+
+/**
+ * CandleBackfillService - Bulk-populates the Candle table from Binance
+ *
+ * A backfill only requests the ranges missing for a symbol/interval, so it
+ * doubles as gap repair. Rows are deduped on (symbol, interval, openTime).
+ * Jobs run in-process and are tracked in memory.
+ */
+@Injectable()
+export class CandleBackfillService {
+  private readonly logger = new Logger(CandleBackfillService.name);
+  private readonly jobs = new Map<string, BackfillJob>();
+  private lastRequestAt = 0;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly binanceService: BinanceService,
+    private readonly candleRepository: CandleRepository,
+  ) {}
+
+  /**
+   * Start a backfill job; returns the running job if one already covers
+   * the same symbol and interval
+   */
+  startBackfill(
+    symbol: string,
+    interval: string,
+    startDate: Date,
+    endDate: Date = new Date(),
+  ): BackfillJob {
+    if (!INTERVAL_MS[interval]) {
+      throw new BadRequestException(
+        `Unsupported interval ${interval}. Use one of: ${Object.keys(INTERVAL_MS).join(", ")}`,
+      );
+    }
+    if (endDate <= startDate) {
+      throw new BadRequestException("endDate must be after startDate");
+    }
+
+    const normalized = normalizeSymbol(symbol);
+    const active = Array.from(this.jobs.values()).find(
+      (job) =>
+        job.symbol === normalized &&
+        job.interval === interval &&
+        (job.status === "PENDING" || job.status === "RUNNING"),
+    );
+    if (active) {
+      return active;
+    }
+
+    const job: BackfillJob = {
+      id: randomUUID(),
+      symbol: normalized,
+      interval,
+      startDate,
+      endDate,
+      status: "PENDING",
+      progress: 0,
+      gapsFound: 0,
+      requests: 0,
+      inserted: 0,
+      unavailable: 0,
+      startedAt: new Date(),
+    };
+    this.jobs.set(job.id, job);
+
+    this.runBackfill(job).catch((error) => {
+      job.status = "FAILED";
+      job.error = error.message;
+      job.completedAt = new Date();
+      this.logger.error(
+        `Backfill ${job.symbol} ${job.interval} failed: ${error.message}`,
+      );
+    });
+
+    return job;
+  }
+
+  getJob(jobId: string): BackfillJob {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new NotFoundException(`Backfill job ${jobId} not found`);
+    }
+    return job;
+  }
+
+  getJobs(): BackfillJob[] {
+    return Array.from(this.jobs.values()).sort(
+      (a, b) => b.startedAt.getTime() - a.startedAt.getTime(),
+    );
+  }
+
+  /**
+   * Stored range, completeness and largest gaps per interval of a symbol
+   */
+  async getCoverage(symbol: string): Promise<CandleCoverage> {
+    const normalized = normalizeSymbol(symbol);
+
+    const groups = await this.prisma.candle.groupBy({
+      by: ["interval"],
+      where: { symbol: normalized },
+      _min: { openTime: true },
+      _max: { openTime: true },
+      _count: { _all: true },
+    });
+
+    const intervals: IntervalCoverage[] = [];
+    for (const group of groups) {
+      const step = INTERVAL_MS[group.interval];
+      if (!step || !group._min.openTime || !group._max.openTime) continue;
+
+      const first = group._min.openTime.getTime();
+      const last = group._max.openTime.getTime();
+      const gaps = await this.findGaps(normalized, group.interval, first, last);
+      const expected = Math.round((last - first) / step) + 1;
+
+      intervals.push({
+        interval: group.interval,
+        firstOpenTime: group._min.openTime,
+        lastOpenTime: group._max.openTime,
+        candles: group._count._all,
+        expected,
+        coveragePercent: Math.min((group._count._all / expected) * 100, 100),
+        gaps: gaps
+          .sort((a, b) => b.missing - a.missing)
+          .slice(0, MAX_REPORTED_GAPS),
+      });
+    }
+
+    return {
+      symbol: normalized,
+      intervals: intervals.sort(
+        (a, b) => INTERVAL_MS[a.interval] - INTERVAL_MS[b.interval],
+      ),
+    };
+  }
+
+  private async runBackfill(job: BackfillJob): Promise<void> {
+    job.status = "RUNNING";
+    const step = INTERVAL_MS[job.interval];
+
+    // Only closed candles are stored
+    const from = alignOpenTime(job.startDate.getTime(), job.interval, true);
+    const to = Math.min(
+      alignOpenTime(job.endDate.getTime(), job.interval),
+      alignOpenTime(Date.now(), job.interval) - step,
+    );
+
+    const gaps =
+      from <= to ? await this.findGaps(job.symbol, job.interval, from, to) : [];
+    const totalMissing = gaps.reduce((sum, g) => sum + g.missing, 0);
+    job.gapsFound = gaps.length;
+
+    this.logger.log(
+      `📥 Backfilling ${job.symbol} ${job.interval}: ${gaps.length} gaps, ${totalMissing} candles missing`,
+    );
+
+    let processed = 0;
+
+    for (const gap of gaps) {
+      const gapEnd = gap.to.getTime();
+      let cursor = gap.from.getTime();
+
+      while (cursor <= gapEnd) {
+        const candles = await this.fetchPage(job, cursor, gapEnd);
+
+        // Nothing left in this range (e.g. before the pair was listed)
+        if (candles.length === 0) {
+          const remaining = Math.round((gapEnd - cursor) / step) + 1;
+          job.unavailable += remaining;
+          processed += remaining;
+          break;
+        }
+
+        job.inserted += await this.candleRepository.insertMany(
+          candles.map((candle) => this.candleRepository.toMarketCandle(candle)),
+        );
+
+        // Slots the exchange skipped inside the page (maintenance windows)
+        const next = candles[candles.length - 1].timestamp.getTime() + step;
+        const slots = Math.round((next - cursor) / step);
+        job.unavailable += Math.max(slots - candles.length, 0);
+        processed += slots;
+        job.progress = Math.min(
+          Math.round((processed / totalMissing) * 100),
+          99,
+        );
+
+        cursor = next;
+      }
+    }
+
+    job.status = "COMPLETED";
+    job.progress = 100;
+    job.completedAt = new Date();
+
+    this.logger.log(
+      `✅ Backfill ${job.symbol} ${job.interval} done: ${job.inserted} candles in ${job.requests} requests`,
+    );
+  }
+
+  /**
+   * One klines page, spaced out and retried on rate limits and server errors
+   */
+  private async fetchPage(
+    job: BackfillJob,
+    startTime: number,
+    endTime: number,
+  ): Promise<ParsedCandle[]> {
+    for (let attempt = 1; ; attempt++) {
+      const wait = this.lastRequestAt + MIN_REQUEST_INTERVAL_MS - Date.now();
+      if (wait > 0) await this.sleep(wait);
+      this.lastRequestAt = Date.now();
+      job.requests++;
+
+      try {
+        return await this.binanceService.getKlines(
+          job.symbol,
+          job.interval as BinanceTimeframe,
+          PAGE_LIMIT,
+          startTime,
+          endTime,
+        );
+      } catch (error) {
+        const status: number | undefined = error.response?.status;
+        // 429 = over the limit, 418 = banned for ignoring 429s
+        const retryable =
+          status === undefined ||
+          status === 429 ||
+          status === 418 ||
+          status >= 500;
+        if (!retryable || attempt >= MAX_ATTEMPTS) {
+          throw error;
+        }
+
+        const retryAfter = Number(error.response?.headers?.["retry-after"]);
+        const delay =
+          retryAfter > 0 ? retryAfter * 1000 : 1000 * Math.pow(2, attempt);
+        this.logger.warn(
+          `Klines request for ${job.symbol} ${job.interval} failed (${status ?? error.code}), retrying in ${delay}ms`,
+        );
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Missing openTimes between `from` and `to` (both inclusive). The scan
+   * runs in the database: only the first and last stored candles and the
+   * ones that follow a hole come back, however long the range is.
+   */
+  private async findGaps(
+    symbol: string,
+    interval: string,
+    from: number,
+    to: number,
+  ): Promise<CandleGap[]> {
+    const step = INTERVAL_MS[interval];
+    // Epoch milliseconds on both sides, so no session time zone applies
+    const edges = await this.prisma.$queryRaw<
+      { time: number; prev: number | null; next: number | null }[]
+    >`
+      SELECT time, prev, next FROM (
+        SELECT
+          (extract(epoch FROM open_time) * 1000)::float8 AS time,
+          (extract(epoch FROM lag(open_time) OVER w) * 1000)::float8 AS prev,
+          (extract(epoch FROM lead(open_time) OVER w) * 1000)::float8 AS next
+        FROM candles
+        WHERE symbol = ${symbol}
+          AND "interval" = ${interval}
+          AND open_time BETWEEN to_timestamp(${from / 1000}::float8) AT TIME ZONE 'UTC'
+                            AND to_timestamp(${to / 1000}::float8) AT TIME ZONE 'UTC'
+        WINDOW w AS (ORDER BY open_time)
+      ) edges
+      WHERE prev IS NULL OR next IS NULL OR time - prev > ${step}::float8
+      ORDER BY time
+    `;
+
+    const gaps: CandleGap[] = [];
+    const addGap = (start: number, end: number) =>
+      gaps.push({
+        from: new Date(start),
+        to: new Date(end),
+        missing: Math.round((end - start) / step) + 1,
+      });
+
+    if (edges.length === 0) {
+      addGap(from, to);
+      return gaps;
+    }
+
+    for (const { time, prev, next } of edges) {
+      if (prev === null) {
+        if (time > from) addGap(from, time - step);
+      } else if (time - prev > step) {
+        addGap(prev + step, time - step);
+      }
+      if (next === null && time + step <= to) addGap(time + step, to);
+    }
+
+    return gaps;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,499 @@
+import { BadRequestException, Injectable, Logger } from "@nestjs/common";
+import { PrismaService } from "@/common/prisma/prisma.service";
+import { CandleRepository } from "./candle.repository";
+import {
+  CandleFileFormat,
+  CandleImportResult,
+  CandleRowError,
+  INTERVAL_MS,
+  alignOpenTime,
+  normalizeSymbol,
+} from "./market-data.types";
+
+/**
+ * Columnar layout (little-endian):
+ *   "CCOL" | u8 version | u8 len + symbol | u8 len + interval | u32 rows
+ *   then one column per field: openTime (ms), open, high, low, close,
+ *   volume, quoteVolume, takerBuyBase, takerBuyQuote as f64, trades as u32
+ */
+const COLUMNAR_MAGIC = "CCOL";
+const COLUMNAR_VERSION = 1;
+const FLOAT_COLUMNS = [
+  "openTime",
+  "open",
+  "high",
+  "low",
+  "close",
+  "volume",
+  "quoteVolume",
+  "takerBuyBase",
+  "takerBuyQuote",
+] as const;
+
+const CSV_COLUMNS = [
+  "openTime",
+  "open",
+  "high",
+  "low",
+  "close",
+  "volume",
+  "quoteVolume",
+  "trades",
+  "takerBuyBase",
+  "takerBuyQuote",
+];
+const CSV_ALIASES: Record<string, string> = {
+  open_time: "openTime",
+  timestamp: "openTime",
+  time: "openTime",
+  date: "openTime",
+  quote_volume: "quoteVolume",
+  taker_buy_base: "takerBuyBase",
+  taker_buy_quote: "takerBuyQuote",
+};
+
+const MAX_ROWS = 500_000;
+const INSERT_BATCH = 5000;
+const MAX_REPORTED_ERRORS = 50;
+
+/**
+ * A candle as read from a file, before validation
+ */
+interface CandleRecord {
+  openTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  quoteVolume: number;
+  trades: number;
+  takerBuyBase: number;
+  takerBuyQuote: number;
+}
+
+interface DecodedRow {
+  row: number; // 1-based, as reported back to the user
+  record: CandleRecord;
+}
+
+interface DecodedFile {
+  symbol?: string;
+  interval?: string;
+  rows: DecodedRow[];
+  errors: CandleRowError[];
+}
+
+/**
+ * CandleTransferService - Offline import/export of the Candle table
+ *
+ * Files are validated (OHLC consistency, interval alignment, duplicates)
+ * before anything is written, so imported datasets are backtestable as-is.
+ */
+@Injectable()
+export class CandleTransferService {
+  private readonly logger = new Logger(CandleTransferService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly candleRepository: CandleRepository,
+  ) {}
+
+  /**
+   * Import candles from a CSV or columnar file. Rows already stored are
+   * kept; invalid rows abort the import unless `skipInvalid` is set.
+   */
+  async importCandles(
+    file: Buffer,
+    options: {
+      symbol?: string;
+      interval?: string;
+      format?: CandleFileFormat;
+      skipInvalid?: boolean;
+    },
+  ): Promise<CandleImportResult> {
+    if (!file || file.length === 0) {
+      throw new BadRequestException("File is empty");
+    }
+
+    const format = options.format || this.detectFormat(file);
+    const decoded =
+      format === "columnar" ? this.decodeColumnar(file) : this.decodeCsv(file);
+
+    const rawSymbol = options.symbol || decoded.symbol;
+    const interval = options.interval || decoded.interval;
+    if (!rawSymbol || !interval) {
+      throw new BadRequestException("symbol and interval are required");
+    }
+    if (!INTERVAL_MS[interval]) {
+      throw new BadRequestException(
+        `Unsupported interval ${interval}. Use one of: ${Object.keys(INTERVAL_MS).join(", ")}`,
+      );
+    }
+    const symbol = normalizeSymbol(rawSymbol);
+
+    const total = decoded.rows.length + decoded.errors.length;
+    if (total > MAX_ROWS) {
+      throw new BadRequestException(
+        `File has ${total} rows, the limit is ${MAX_ROWS}`,
+      );
+    }
+
+    const { valid, errors } = this.validate(
+      decoded.rows,
+      decoded.errors,
+      interval,
+    );
+
+    if (errors.length > 0 && !options.skipInvalid) {
+      throw new BadRequestException({
+        message: `${errors.length} invalid rows, nothing was imported`,
+        errors: errors.slice(0, MAX_REPORTED_ERRORS),
+      });
+    }
+
+    const step = INTERVAL_MS[interval];
+    let inserted = 0;
+    for (let i = 0; i < valid.length; i += INSERT_BATCH) {
+      inserted += await this.candleRepository.insertMany(
+        valid.slice(i, i + INSERT_BATCH).map((record) => ({
+          symbol,
+          interval,
+          openTime: new Date(record.openTime),
+          open: record.open,
+          high: record.high,
+          low: record.low,
+          close: record.close,
+          volume: record.volume,
+          closeTime: new Date(record.openTime + step - 1),
+          quoteVolume: record.quoteVolume,
+          trades: record.trades,
+          takerBuyBase: record.takerBuyBase,
+          takerBuyQuote: record.takerBuyQuote,
+        })),
+      );
+    }
+
+    this.logger.log(
+      `📥 Imported ${inserted}/${valid.length} ${symbol} ${interval} candles (${errors.length} rejected)`,
+    );
+
+    return {
+      symbol,
+      interval,
+      format,
+      rows: total,
+      valid: valid.length,
+      inserted,
+      duplicates: valid.length - inserted,
+      rejected: errors.length,
+      firstOpenTime: valid.length ? new Date(valid[0].openTime) : null,
+      lastOpenTime: valid.length
+        ? new Date(valid[valid.length - 1].openTime)
+        : null,
+      errors: errors.slice(0, MAX_REPORTED_ERRORS),
+    };
+  }
+
+  /**
+   * Stored candles of a symbol/interval as a CSV or columnar file
+   */
+  async exportCandles(
+    symbol: string,
+    interval: string,
+    format: CandleFileFormat = "csv",
+    startDate?: Date,
+    endDate?: Date,
+  ): Promise<Buffer> {
+    const normalized = normalizeSymbol(symbol);
+
+    const where = {
+      symbol: normalized,
+      interval,
+      openTime: { gte: startDate, lte: endDate },
+    };
+    const count = await this.prisma.candle.count({ where });
+    if (count > MAX_ROWS) {
+      throw new BadRequestException(
+        `Range has ${count} candles, the limit is ${MAX_ROWS}. Narrow startDate/endDate`,
+      );
+    }
+
+    const candles = await this.prisma.candle.findMany({
+      where,
+      orderBy: { openTime: "asc" },
+    });
+    const records: CandleRecord[] = candles.map((candle) => ({
+      openTime: candle.openTime.getTime(),
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume,
+      quoteVolume: candle.quoteVolume,
+      trades: candle.trades,
+      takerBuyBase: candle.takerBuyBase,
+      takerBuyQuote: candle.takerBuyQuote,
+    }));
+
+    this.logger.log(
+      `📤 Exporting ${records.length} ${normalized} ${interval} candles as ${format}`,
+    );
+
+    return format === "columnar"
+      ? this.encodeColumnar(normalized, interval, records)
+      : this.encodeCsv(records);
+  }
+
+  private detectFormat(file: Buffer): CandleFileFormat {
+    return file.subarray(0, 4).toString("latin1") === COLUMNAR_MAGIC
+      ? "columnar"
+      : "csv";
+  }
+
+  /**
+   * Sort by openTime and reject rows that would corrupt a backtest
+   */
+  private validate(
+    rows: DecodedRow[],
+    parseErrors: CandleRowError[],
+    interval: string,
+  ): { valid: CandleRecord[]; errors: CandleRowError[] } {
+    const errors = [...parseErrors];
+    const seen = new Set<number>();
+    const valid: CandleRecord[] = [];
+
+    for (const { row, record } of rows) {
+      const message = this.checkRecord(record, interval, seen);
+      if (message) {
+        errors.push({ row, message });
+      } else {
+        seen.add(record.openTime);
+        valid.push(record);
+      }
+    }
+
+    valid.sort((a, b) => a.openTime - b.openTime);
+    errors.sort((a, b) => a.row - b.row);
+    return { valid, errors };
+  }
+
+  private checkRecord(
+    record: CandleRecord,
+    interval: string,
+    seen: Set<number>,
+  ): string | null {
+    const { openTime, open, high, low, close } = record;
+
+    if (!Number.isFinite(openTime)) return "Invalid openTime";
+    if (alignOpenTime(openTime, interval) !== openTime) {
+      return `openTime ${new Date(openTime).toISOString()} is not aligned to ${interval}`;
+    }
+    if (openTime > Date.now()) return "openTime is in the future";
+    if (seen.has(openTime)) return "Duplicate openTime";
+
+    if (![open, high, low, close].every((p) => Number.isFinite(p) && p > 0)) {
+      return "Prices must be positive numbers";
+    }
+    if (high < Math.max(open, close, low)) {
+      return "high is below open, close or low";
+    }
+    if (low > Math.min(open, close)) return "low is above open or close";
+
+    const amounts = [
+      record.volume,
+      record.quoteVolume,
+      record.trades,
+      record.takerBuyBase,
+      record.takerBuyQuote,
+    ];
+    if (!amounts.every((v) => Number.isFinite(v) && v >= 0)) {
+      return "Volumes and trades must be non-negative numbers";
+    }
+    if (!Number.isInteger(record.trades)) return "trades must be an integer";
+
+    return null;
+  }
+
+  // ============================================
+  // CSV
+  // ============================================
+
+  private decodeCsv(file: Buffer): DecodedFile {
+    const lines = file
+      .toString("utf8")
+      .replace(/^\uFEFF/, "")
+      .split(/\r?\n/)
+      .filter((line) => line.trim() !== "");
+    if (lines.length === 0) {
+      throw new BadRequestException("CSV file is empty");
+    }
+
+    const header = lines[0].split(",").map((name) => {
+      const key = name.trim().replace(/^"|"$/g, "");
+      return CSV_ALIASES[key.toLowerCase()] || key;
+    });
+    const required = ["openTime", "open", "high", "low", "close", "volume"];
+    const missing = required.filter((name) => !header.includes(name));
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `CSV header is missing columns: ${missing.join(", ")}. Expected: ${CSV_COLUMNS.join(",")}`,
+      );
+    }
+
+    const rows: DecodedRow[] = [];
+    const errors: CandleRowError[] = [];
+    const column = (name: string) => header.indexOf(name);
+
+    lines.slice(1).forEach((line, index) => {
+      const cells = line.split(",").map((cell) => cell.trim());
+      if (cells.length !== header.length) {
+        errors.push({
+          row: index + 1,
+          message: `Expected ${header.length} columns, got ${cells.length}`,
+        });
+        return;
+      }
+
+      const number = (name: string) => {
+        const i = column(name);
+        return i === -1 ? 0 : Number(cells[i]);
+      };
+      const record: CandleRecord = {
+        openTime: this.parseTime(cells[column("openTime")]),
+        open: number("open"),
+        high: number("high"),
+        low: number("low"),
+        close: number("close"),
+        volume: number("volume"),
+        quoteVolume: number("quoteVolume"),
+        trades: number("trades"),
+        takerBuyBase: number("takerBuyBase"),
+        takerBuyQuote: number("takerBuyQuote"),
+      };
+      rows.push({ row: index + 1, record });
+    });
+
+    return { rows, errors };
+  }
+
+  private encodeCsv(records: CandleRecord[]): Buffer {
+    const lines = [CSV_COLUMNS.join(",")];
+    for (const record of records) {
+      lines.push(
+        [
+          new Date(record.openTime).toISOString(),
+          record.open,
+          record.high,
+          record.low,
+          record.close,
+          record.volume,
+          record.quoteVolume,
+          record.trades,
+          record.takerBuyBase,
+          record.takerBuyQuote,
+        ].join(","),
+      );
+    }
+    return Buffer.from(lines.join("\n") + "\n", "utf8");
+  }
+
+  /**
+   * Epoch seconds, epoch milliseconds or an ISO 8601 date
+   */
+  private parseTime(value: string): number {
+    if (/^\d+(\.\d+)?$/.test(value)) {
+      const numeric = Number(value);
+      return numeric < 1e11 ? numeric * 1000 : numeric;
+    }
+    return Date.parse(value);
+  }
+
+  // ============================================
+  // COLUMNAR
+  // ============================================
+
+  private decodeColumnar(file: Buffer): DecodedFile {
+    try {
+      if (file.subarray(0, 4).toString("latin1") !== COLUMNAR_MAGIC) {
+        throw new Error("missing CCOL header");
+      }
+      const version = file.readUInt8(4);
+      if (version !== COLUMNAR_VERSION) {
+        throw new Error(`unsupported version ${version}`);
+      }
+
+      let offset = 5;
+      const readString = () => {
+        const length = file.readUInt8(offset);
+        const value = file.toString("utf8", offset + 1, offset + 1 + length);
+        offset += 1 + length;
+        return value;
+      };
+      const symbol = readString();
+      const interval = readString();
+      const rows = file.readUInt32LE(offset);
+      offset += 4;
+
+      const expectedSize = offset + rows * (FLOAT_COLUMNS.length * 8 + 4);
+      if (file.length !== expectedSize) {
+        throw new Error(
+          `expected ${expectedSize} bytes for ${rows} rows, got ${file.length}`,
+        );
+      }
+
+      const records = Array.from({ length: rows }, () => ({}) as CandleRecord);
+      for (const name of FLOAT_COLUMNS) {
+        for (const record of records) {
+          record[name] = file.readDoubleLE(offset);
+          offset += 8;
+        }
+      }
+      for (const record of records) {
+        record.trades = file.readUInt32LE(offset);
+        offset += 4;
+      }
+
+      return {
+        symbol,
+        interval,
+        rows: records.map((record, index) => ({ row: index + 1, record })),
+        errors: [],
+      };
+    } catch (error) {
+      throw new BadRequestException(`Invalid columnar file: ${error.message}`);
+    }
+  }
+
+  private encodeColumnar(
+    symbol: string,
+    interval: string,
+    records: CandleRecord[],
+  ): Buffer {
+    const symbolBytes = Buffer.from(symbol, "utf8");
+    const intervalBytes = Buffer.from(interval, "utf8");
+    const headerSize = 5 + 1 + symbolBytes.length + 1 + intervalBytes.length;
+    const buffer = Buffer.alloc(
+      headerSize + 4 + records.length * (FLOAT_COLUMNS.length * 8 + 4),
+    );
+
+    let offset = buffer.write(COLUMNAR_MAGIC, 0, "latin1");
+    offset = buffer.writeUInt8(COLUMNAR_VERSION, offset);
+    offset = buffer.writeUInt8(symbolBytes.length, offset);
+    offset += symbolBytes.copy(buffer, offset);
+    offset = buffer.writeUInt8(intervalBytes.length, offset);
+    offset += intervalBytes.copy(buffer, offset);
+    offset = buffer.writeUInt32LE(records.length, offset);
+
+    for (const name of FLOAT_COLUMNS) {
+      for (const record of records) {
+        offset = buffer.writeDoubleLE(record[name], offset);
+      }
+    }
+    for (const record of records) {
+      offset = buffer.writeUInt32LE(record.trades, offset);
+    }
+
+    return buffer;
+  }
+}
@@ -0,0 +1,415 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { PrismaService } from "@/common/prisma/prisma.service";
+import { ParsedCandle } from "./binance/binance.types";
+import {
+  CandleQuery,
+  INTERVAL_MS,
+  MarketCandle,
+  alignOpenTime,
+  normalizeSymbol,
+} from "./market-data.types";
+
+const MAX_CACHED_SERIES = 200;
+const MAX_CACHED_CANDLES = 5000; // Larger reads (backtests) are not cached
+
+/**
+ * CandleRepository - Single source of truth for OHLCV data
+ *
+ * Every candle read or write goes through the Candle table via this class,
+ * so live analysis, strategies and backtests see the same data. Symbols are
+ * normalized ("btc", "BTC/USDT" -> "BTCUSDT") and recent series are kept in
+ * an LRU that is invalidated on every write to the symbol.
+ */
+@Injectable()
+export class CandleRepository {
+  private readonly logger = new Logger(CandleRepository.name);
+  // Map keeps insertion order: first key = least recently used
+  private readonly cache = new Map<string, MarketCandle[]>();
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Candles of a symbol/interval, oldest first. Buckets of the range with
+   * no stored row are resampled from a lower stored interval.
+   */
+  async getCandles(
+    symbol: string,
+    interval: string,
+    query: CandleQuery = {},
+  ): Promise<MarketCandle[]> {
+    const normalized = normalizeSymbol(symbol);
+    const key = [
+      normalized,
+      interval,
+      query.startTime?.getTime() ?? "",
+      query.endTime?.getTime() ?? "",
+      query.limit ?? "",
+    ].join("|");
+
+    const cached = this.cache.get(key);
+    if (cached) {
+      this.cache.delete(key);
+      this.cache.set(key, cached);
+      return [...cached];
+    }
+
+    const stored: MarketCandle[] = await this.prisma.candle.findMany({
+      where: {
+        symbol: normalized,
+        interval,
+        openTime: { gte: query.startTime, lte: query.endTime },
+      },
+      orderBy: { openTime: query.limit ? "desc" : "asc" },
+      take: query.limit,
+    });
+    if (query.limit) stored.reverse();
+
+    let candles = stored;
+    const spans = this.missingSpans(stored, interval, query);
+    if (spans.length > 0) {
+      const resampled: MarketCandle[] = [];
+      for (const span of spans) {
+        resampled.push(...(await this.resample(normalized, interval, span)));
+      }
+      candles = this.merge(stored, resampled, query.limit);
+    }
+
+    if (candles.length > 0 && candles.length <= MAX_CACHED_CANDLES) {
+      this.cache.set(key, candles);
+      if (this.cache.size > MAX_CACHED_SERIES) {
+        this.cache.delete(this.cache.keys().next().value);
+      }
+    }
+
+    return [...candles];
+  }
+
+  /**
+   * Most recent stored candle, of one interval or of any
+   */
+  async getLatest(
+    symbol: string,
+    interval?: string,
+  ): Promise<MarketCandle | null> {
+    return this.prisma.candle.findFirst({
+      where: { symbol: normalizeSymbol(symbol), interval },
+      orderBy: { closeTime: "desc" },
+    });
+  }
+
+  /**
+   * Insert or update one closed candle (live feed)
+   */
+  async save(candle: ParsedCandle): Promise<void> {
+    const row = this.toMarketCandle(candle);
+
+    await this.prisma.candle.upsert({
+      where: {
+        symbol_interval_openTime: {
+          symbol: row.symbol,
+          interval: row.interval,
+          openTime: row.openTime,
+        },
+      },
+      create: row,
+      update: row,
+    });
+
+    this.invalidate(row.symbol);
+  }
+
+  /**
+   * Bulk insert; rows whose (symbol, interval, openTime) exists are skipped
+   */
+  async insertMany(candles: MarketCandle[]): Promise<number> {
+    if (candles.length === 0) return 0;
+
+    const rows = candles.map((candle) => ({
+      ...candle,
+      symbol: normalizeSymbol(candle.symbol),
+    }));
+    const { count } = await this.prisma.candle.createMany({
+      data: rows,
+      skipDuplicates: true,
+    });
+
+    for (const symbol of new Set(rows.map((row) => row.symbol))) {
+      this.invalidate(symbol);
+    }
+    return count;
+  }
+
+  /**
+   * Candle table row for a Binance kline
+   */
+  toMarketCandle(candle: ParsedCandle): MarketCandle {
+    return {
+      symbol: normalizeSymbol(candle.symbol),
+      interval: candle.timeframe,
+      openTime: candle.timestamp,
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume,
+      closeTime: candle.closeTime,
+      quoteVolume: candle.quoteVolume,
+      trades: candle.trades,
+      takerBuyBase: candle.takerBuyBase,
+      takerBuyQuote: candle.takerBuyQuote,
+    };
+  }
+
+  /**
+   * Drop the cached series of a symbol; resampled intervals depend on
+   * every stored interval, so all of them go
+   */
+  private invalidate(symbol: string): void {
+    for (const key of this.cache.keys()) {
+      if (key.startsWith(`${symbol}|`)) {
+        this.cache.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Parts of the range the stored rows leave uncovered: all of it when
+   * nothing is stored, holes between rows, the start of the range (or, with
+   * a limit, the candles short of it) and closed buckets after the last row
+   */
+  private missingSpans(
+    stored: MarketCandle[],
+    interval: string,
+    query: CandleQuery,
+  ): CandleQuery[] {
+    const step = INTERVAL_MS[interval];
+    if (!step) return [];
+    if (stored.length === 0) return [query];
+
+    const spans: CandleQuery[] = [];
+    const first = stored[0].openTime.getTime();
+    const start = query.startTime
+      ? alignOpenTime(query.startTime.getTime(), interval, true)
+      : -Infinity;
+    const headMissing = query.limit
+      ? stored.length < query.limit
+      : Boolean(query.startTime);
+    if (headMissing && first > start) {
+      spans.push({
+        startTime: query.startTime,
+        endTime: new Date(first - 1),
+        limit: query.limit && query.limit - stored.length,
+      });
+    }
+
+    for (let i = 1; i < stored.length; i++) {
+      const previous = stored[i - 1].openTime.getTime();
+      const next = stored[i].openTime.getTime();
+      if (next - previous > step) {
+        spans.push({
+          startTime: new Date(previous + step),
+          endTime: new Date(next - 1),
+        });
+      }
+    }
+
+    const last = stored[stored.length - 1].openTime.getTime();
+    const end = Math.min(query.endTime?.getTime() ?? Date.now(), Date.now());
+    if (last + 2 * step - 1 <= end) {
+      spans.push({
+        startTime: new Date(last + step),
+        endTime: query.endTime,
+        limit: query.limit,
+      });
+    }
+
+    return spans;
+  }
+
+  /**
+   * Stored rows plus the resampled buckets they lack, oldest first
+   */
+  private merge(
+    stored: MarketCandle[],
+    resampled: MarketCandle[],
+    limit?: number,
+  ): MarketCandle[] {
+    const byOpenTime = new Map<number, MarketCandle>();
+    for (const candle of resampled) {
+      byOpenTime.set(candle.openTime.getTime(), candle);
+    }
+    for (const candle of stored) {
+      byOpenTime.set(candle.openTime.getTime(), candle);
+    }
+
+    const candles = [...byOpenTime.values()].sort(
+      (a, b) => a.openTime.getTime() - b.openTime.getTime(),
+    );
+    if (limit) candles.splice(0, candles.length - limit);
+    return candles;
+  }
+
+  /**
+   * Build closed `interval` candles from the stored intervals that divide
+   * it, largest first (e.g. 1h from 30m, then 15m...). Smaller intervals
+   * only fill the buckets the larger ones could not build.
+   */
+  private async resample(
+    symbol: string,
+    interval: string,
+    query: CandleQuery,
+  ): Promise<MarketCandle[]> {
+    const step = INTERVAL_MS[interval];
+    if (!step) return [];
+
+    const sources = Object.keys(INTERVAL_MS)
+      .filter((i) => INTERVAL_MS[i] < step && step % INTERVAL_MS[i] === 0)
+      .sort((a, b) => INTERVAL_MS[b] - INTERVAL_MS[a]);
+
+    const buckets = new Map<number, MarketCandle>();
+    for (const source of sources) {
+      const candles = await this.resampleFrom(symbol, interval, source, query);
+      for (const candle of candles) {
+        const openTime = candle.openTime.getTime();
+        if (!buckets.has(openTime)) buckets.set(openTime, candle);
+      }
+      if (this.isCovered(buckets, interval, query)) break;
+    }
+
+    const candles = [...buckets.values()].sort(
+      (a, b) => a.openTime.getTime() - b.openTime.getTime(),
+    );
+    if (query.limit) candles.splice(0, candles.length - query.limit);
+    return candles;
+  }
+
+  private async resampleFrom(
+    symbol: string,
+    interval: string,
+    source: string,
+    query: CandleQuery,
+  ): Promise<MarketCandle[]> {
+    const step = INTERVAL_MS[interval];
+    const latest = await this.prisma.candle.findFirst({
+      where: {
+        symbol,
+        interval: source,
+        openTime: { gte: query.startTime, lte: query.endTime },
+      },
+      orderBy: { openTime: "desc" },
+      select: { openTime: true },
+    });
+    if (!latest) return [];
+
+    const lastBucket = alignOpenTime(latest.openTime.getTime(), interval);
+    let firstBucket = query.startTime
+      ? alignOpenTime(query.startTime.getTime(), interval, true)
+      : -Infinity;
+    if (query.limit) {
+      // One spare bucket in case the last one is still open
+      firstBucket = Math.max(firstBucket, lastBucket - query.limit * step);
+    }
+
+    const base = await this.prisma.candle.findMany({
+      where: {
+        symbol,
+        interval: source,
+        openTime: {
+          gte: Number.isFinite(firstBucket) ? new Date(firstBucket) : undefined,
+          lte: new Date(lastBucket + step - 1),
+        },
+      },
+      orderBy: { openTime: "asc" },
+    });
+
+    const candles = this.aggregate(base, interval, INTERVAL_MS[source]);
+    if (query.limit) candles.splice(0, candles.length - query.limit);
+    this.logger.debug(
+      `Resampled ${base.length} ${symbol} ${source} candles into ${candles.length} ${interval}`,
+    );
+    return candles;
+  }
+
+  /**
+   * Whether `buckets` hold every closed bucket of the span (its last
+   * `limit` ones with a limit). Without a start or a limit, the span starts
+   * at the oldest bucket built so far.
+   */
+  private isCovered(
+    buckets: Map<number, MarketCandle>,
+    interval: string,
+    query: CandleQuery,
+  ): boolean {
+    if (buckets.size === 0) return false;
+
+    const step = INTERVAL_MS[interval];
+    const end = Math.min(query.endTime?.getTime() ?? Date.now(), Date.now());
+    const lastClosed = alignOpenTime(end - step + 1, interval);
+    let first = query.startTime
+      ? alignOpenTime(query.startTime.getTime(), interval, true)
+      : [...buckets.keys()].reduce((a, b) => Math.min(a, b));
+    if (query.limit) {
+      first = Math.max(first, lastClosed - (query.limit - 1) * step);
+    }
+
+    for (let openTime = first; openTime <= lastClosed; openTime += step) {
+      if (!buckets.has(openTime)) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Group ascending base candles into `interval` buckets. Buckets missing
+   * any of their base candles (gaps in the data, or still open) are
+   * dropped rather than returned as partial bars.
+   */
+  private aggregate(
+    base: MarketCandle[],
+    interval: string,
+    baseStep: number,
+  ): MarketCandle[] {
+    if (base.length === 0) return [];
+
+    const step = INTERVAL_MS[interval];
+    const perBucket = step / baseStep;
+    const candles: MarketCandle[] = [];
+    const counts: number[] = [];
+    let current: MarketCandle | null = null;
+
+    for (const candle of base) {
+      const openTime = alignOpenTime(candle.openTime.getTime(), interval);
+
+      if (!current || current.openTime.getTime() !== openTime) {
+        current = {
+          symbol: candle.symbol,
+          interval,
+          openTime: new Date(openTime),
+          closeTime: new Date(openTime + step - 1),
+          open: candle.open,
+          high: candle.high,
+          low: candle.low,
+          close: candle.close,
+          volume: 0,
+          quoteVolume: 0,
+          trades: 0,
+          takerBuyBase: 0,
+          takerBuyQuote: 0,
+        };
+        candles.push(current);
+        counts.push(0);
+      }
+
+      counts[counts.length - 1]++;
+      current.high = Math.max(current.high, candle.high);
+      current.low = Math.min(current.low, candle.low);
+      current.close = candle.close;
+      current.volume += candle.volume;
+      current.quoteVolume += candle.quoteVolume;
+      current.trades += candle.trades;
+      current.takerBuyBase += candle.takerBuyBase;
+      current.takerBuyQuote += candle.takerBuyQuote;
+    }
+
+    return candles.filter((_, i) => counts[i] === perBucket);
+  }
+}
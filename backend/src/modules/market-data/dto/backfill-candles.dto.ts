@@ -0,0 +1,32 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsDateString, IsIn, IsOptional, IsString } from "class-validator";
+import { INTERVAL_MS } from "../market-data.types";
+
+export class BackfillCandlesDto {
+  @ApiProperty({ description: "Binance symbol", example: "BTCUSDT" })
+  @IsString()
+  symbol: string;
+
+  @ApiProperty({
+    description: "Candle interval",
+    enum: Object.keys(INTERVAL_MS),
+    example: "1h",
+  })
+  @IsIn(Object.keys(INTERVAL_MS))
+  interval: string;
+
+  @ApiProperty({
+    description: "Start of the range (ISO 8601)",
+    example: "2023-01-01T00:00:00Z",
+  })
+  @IsDateString()
+  startDate: string;
+
+  @ApiPropertyOptional({
+    description: "End of the range (ISO 8601), defaults to now",
+    example: "2023-12-31T23:59:59Z",
+  })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+}
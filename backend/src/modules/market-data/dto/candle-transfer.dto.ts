@@ -0,0 +1,80 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import {
+  IsBoolean,
+  IsDateString,
+  IsIn,
+  IsOptional,
+  IsString,
+} from "class-validator";
+import { Transform } from "class-transformer";
+import { INTERVAL_MS } from "../market-data.types";
+
+const FORMATS = ["csv", "columnar"];
+
+export class ImportCandlesDto {
+  @ApiPropertyOptional({
+    description: "Symbol to store the candles under (columnar files embed it)",
+    example: "BTCUSDT",
+  })
+  @IsOptional()
+  @IsString()
+  symbol?: string;
+
+  @ApiPropertyOptional({
+    description: "Candle interval (columnar files embed it)",
+    enum: Object.keys(INTERVAL_MS),
+    example: "1h",
+  })
+  @IsOptional()
+  @IsIn(Object.keys(INTERVAL_MS))
+  interval?: string;
+
+  @ApiPropertyOptional({
+    description: "File format, detected from the content if omitted",
+    enum: FORMATS,
+  })
+  @IsOptional()
+  @IsIn(FORMATS)
+  format?: "csv" | "columnar";
+
+  @ApiPropertyOptional({
+    description: "Import the valid rows even if some rows are invalid",
+    default: false,
+  })
+  @IsOptional()
+  // Multipart fields arrive as strings
+  @Transform(
+    ({ obj }) => obj.skipInvalid === true || obj.skipInvalid === "true",
+  )
+  @IsBoolean()
+  skipInvalid?: boolean;
+}
+
+export class ExportCandlesQueryDto {
+  @ApiProperty({ description: "Symbol", example: "BTCUSDT" })
+  @IsString()
+  symbol: string;
+
+  @ApiProperty({
+    description: "Candle interval",
+    enum: Object.keys(INTERVAL_MS),
+    example: "1h",
+  })
+  @IsIn(Object.keys(INTERVAL_MS))
+  interval: string;
+
+  @ApiPropertyOptional({ enum: FORMATS, default: "csv" })
+  @IsOptional()
+  @IsIn(FORMATS)
+  format?: "csv" | "columnar";
+
+  @ApiPropertyOptional({ example: "2023-01-01T00:00:00Z" })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiPropertyOptional({ example: "2023-12-31T23:59:59Z" })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+}
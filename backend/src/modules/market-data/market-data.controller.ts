@@ -1,11 +1,46 @@
-import { Controller, Get, Post, Query, Param } from "@nestjs/common";
-import { ApiTags, ApiOperation, ApiQuery } from "@nestjs/swagger";
+import {
+  Controller,
+  Get,
+  Post,
+  Query,
+  Param,
+  Body,
+  Res,
+  UploadedFile,
+  UseInterceptors,
+  UseGuards,
+  BadRequestException,
+  StreamableFile,
+} from "@nestjs/common";
+import { FileInterceptor } from "@nestjs/platform-express";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiQuery,
+  ApiConsumes,
+  ApiBody,
+  ApiBearerAuth,
+} from "@nestjs/swagger";
+import { Response } from "express";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
 import { MarketDataService } from "./market-data.service";
+import { CandleBackfillService } from "./candle-backfill.service";
+import { CandleTransferService } from "./candle-transfer.service";
+import { BackfillCandlesDto } from "./dto/backfill-candles.dto";
+import { normalizeSymbol } from "./market-data.types";
+import {
+  ExportCandlesQueryDto,
+  ImportCandlesDto,
+} from "./dto/candle-transfer.dto";
 
 @ApiTags("market")
 @Controller("market-data")
 export class MarketDataController {
-  constructor(private readonly marketDataService: MarketDataService) {}
+  constructor(
+    private readonly marketDataService: MarketDataService,
+    private readonly candleBackfillService: CandleBackfillService,
+    private readonly candleTransferService: CandleTransferService
+  ) {}
 
   @Get("test-connection")
   @ApiOperation({ summary: "Test Binance API connection" })
@@ -75,4 +110,104 @@ export class MarketDataController {
       message: `Stopped monitoring ${symbol.toUpperCase()} ${timeframe}`,
     };
   }
+
+  @Post("backfill")
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Backfill historical candles",
+    description:
+      "Fetches the candles missing in a range from Binance (gap repair included)",
+  })
+  async startBackfill(@Body() dto: BackfillCandlesDto) {
+    return this.candleBackfillService.startBackfill(
+      dto.symbol,
+      dto.interval,
+      new Date(dto.startDate),
+      dto.endDate ? new Date(dto.endDate) : undefined
+    );
+  }
+
+  @Get("backfill")
+  @ApiOperation({ summary: "List backfill jobs" })
+  getBackfillJobs() {
+    return this.candleBackfillService.getJobs();
+  }
+
+  @Get("backfill/:jobId")
+  @ApiOperation({ summary: "Get backfill job status" })
+  getBackfillJob(@Param("jobId") jobId: string) {
+    return this.candleBackfillService.getJob(jobId);
+  }
+
+  @Get("coverage/:symbol")
+  @ApiOperation({
+    summary: "Stored candle coverage per interval",
+    description: "Shows which ranges of a symbol are backtestable",
+  })
+  async getCoverage(@Param("symbol") symbol: string) {
+    return this.candleBackfillService.getCoverage(symbol);
+  }
+
+  @Post("import")
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @UseInterceptors(
+    FileInterceptor("file", { limits: { fileSize: 50 * 1024 * 1024 } })
+  )
+  @ApiOperation({
+    summary: "Import candles from a file",
+    description:
+      "CSV (header: openTime,open,high,low,close,volume[,quoteVolume,trades,takerBuyBase,takerBuyQuote]) or columnar binary as produced by /export",
+  })
+  @ApiConsumes("multipart/form-data")
+  @ApiBody({
+    schema: {
+      type: "object",
+      required: ["file"],
+      properties: {
+        file: { type: "string", format: "binary" },
+        symbol: { type: "string", example: "BTCUSDT" },
+        interval: { type: "string", example: "1h" },
+        format: { type: "string", enum: ["csv", "columnar"] },
+        skipInvalid: { type: "boolean" },
+      },
+    },
+  })
+  async importCandles(
+    @UploadedFile() file: { buffer: Buffer } | undefined,
+    @Body() dto: ImportCandlesDto
+  ) {
+    if (!file) {
+      throw new BadRequestException("file is required");
+    }
+    return this.candleTransferService.importCandles(file.buffer, dto);
+  }
+
+  @Get("export")
+  @ApiOperation({
+    summary: "Export stored candles",
+    description: "Downloads candles as CSV or columnar binary",
+  })
+  async exportCandles(
+    @Query() query: ExportCandlesQueryDto,
+    @Res({ passthrough: true }) res: Response
+  ) {
+    const format = query.format || "csv";
+    const file = await this.candleTransferService.exportCandles(
+      query.symbol,
+      query.interval,
+      format,
+      query.startDate ? new Date(query.startDate) : undefined,
+      query.endDate ? new Date(query.endDate) : undefined
+    );
+
+    const extension = format === "csv" ? "csv" : "ccol";
+    res.set({
+      "Content-Type":
+        format === "csv" ? "text/csv" : "application/octet-stream",
+      "Content-Disposition": `attachment; filename="${normalizeSymbol(query.symbol)}-${query.interval}.${extension}"`,
+    });
+    return new StreamableFile(file);
+  }
 }
@@ -1,12 +1,29 @@
 import { Module } from "@nestjs/common";
 import { MarketDataService } from "./market-data.service";
+import { CandleBackfillService } from "./candle-backfill.service";
+import { CandleTransferService } from "./candle-transfer.service";
+import { CandleRepository } from "./candle.repository";
 import { MarketDataController } from "./market-data.controller";
 import { BinanceService } from "./binance/binance.service";
 import { BinanceWebsocketService } from "./binance/binance.websocket";
 
 @Module({
   controllers: [MarketDataController],
-  providers: [MarketDataService, BinanceService, BinanceWebsocketService],
-  exports: [MarketDataService, BinanceService, BinanceWebsocketService],
+  providers: [
+    MarketDataService,
+    CandleRepository,
+    CandleBackfillService,
+    CandleTransferService,
+    BinanceService,
+    BinanceWebsocketService,
+  ],
+  exports: [
+    MarketDataService,
+    CandleRepository,
+    CandleBackfillService,
+    CandleTransferService,
+    BinanceService,
+    BinanceWebsocketService,
+  ],
 })
 export class MarketDataModule {}
@@ -1,17 +1,18 @@
 import { Injectable, Logger } from "@nestjs/common";
-import { PrismaService } from "@/common/prisma/prisma.service";
 import { BinanceService } from "./binance/binance.service";
 import { BinanceWebsocketService } from "./binance/binance.websocket";
 import { ParsedCandle } from "./binance/binance.types";
+import { CandleRepository } from "./candle.repository";
+import { MarketCandle } from "./market-data.types";
 
 @Injectable()
 export class MarketDataService {
   private readonly logger = new Logger(MarketDataService.name);
 
   constructor(
-    private readonly prisma: PrismaService,
     private readonly binanceService: BinanceService,
     private readonly binanceWebsocket: BinanceWebsocketService,
+    private readonly candleRepository: CandleRepository,
   ) {}
 
   /**
@@ -60,24 +61,16 @@ export class MarketDataService {
         limit,
       );
 
-      // Find the cryptocurrency in database
-      const crypto = await this.prisma.cryptocurrency.findUnique({
-        where: { binanceSymbol: symbol },
-      });
-
-      if (!crypto) {
-        this.logger.warn(`Cryptocurrency ${symbol} not found in database`);
-        return;
-      }
-
-      // Save candles to database
-      for (const candle of candles) {
-        await this.saveCandle(crypto.id, candle);
-      }
+      // The last kline is still open until its close time
+      const closed = candles.filter(
+        (candle) => candle.closeTime.getTime() < Date.now(),
+      );
 
-      this.logger.log(
-        `✅ Saved ${candles.length} historical candles for ${symbol}`,
+      const saved = await this.candleRepository.insertMany(
+        closed.map((candle) => this.candleRepository.toMarketCandle(candle)),
       );
+
+      this.logger.log(`✅ Saved ${saved} historical candles for ${symbol}`);
     } catch (error) {
       this.logger.error(`Error fetching historical data for ${symbol}`, error);
     }
@@ -93,19 +86,7 @@ export class MarketDataService {
     }
 
     try {
-      // Find the cryptocurrency in database
-      const crypto = await this.prisma.cryptocurrency.findUnique({
-        where: { binanceSymbol: candle.symbol },
-      });
-
-      if (!crypto) {
-        this.logger.warn(
-          `Cryptocurrency ${candle.symbol} not found in database`,
-        );
-        return;
-      }
-
-      await this.saveCandle(crypto.id, candle);
+      await this.candleRepository.save(candle);
 
       this.logger.log(
         `💾 Saved candle: ${candle.symbol} ${candle.timeframe} @ ${candle.close}`,
@@ -116,66 +97,14 @@ export class MarketDataService {
   }
 
   /**
-   * Save candle to database
-   */
-  private async saveCandle(
-    cryptoId: string,
-    candle: ParsedCandle,
-  ): Promise<void> {
-    await this.prisma.priceData.upsert({
-      where: {
-        cryptoId_timestamp_timeframe: {
-          cryptoId,
-          timestamp: candle.timestamp,
-          timeframe: candle.timeframe,
-        },
-      },
-      create: {
-        cryptoId,
-        timestamp: candle.timestamp,
-        open: candle.open,
-        high: candle.high,
-        low: candle.low,
-        close: candle.close,
-        volume: candle.volume,
-        timeframe: candle.timeframe,
-      },
-      update: {
-        open: candle.open,
-        high: candle.high,
-        low: candle.low,
-        close: candle.close,
-        volume: candle.volume,
-      },
-    });
-  }
-
-  /**
-   * Get recent candles from database
+   * Get recent candles from database, oldest first
    */
   async getRecentCandles(
     symbol: string,
     timeframe: string,
     limit: number = 100,
-  ): Promise<any[]> {
-    const crypto = await this.prisma.cryptocurrency.findUnique({
-      where: { binanceSymbol: symbol },
-    });
-
-    if (!crypto) {
-      throw new Error(`Cryptocurrency ${symbol} not found`);
-    }
-
-    return this.prisma.priceData.findMany({
-      where: {
-        cryptoId: crypto.id,
-        timeframe,
-      },
-      orderBy: {
-        timestamp: "desc",
-      },
-      take: limit,
-    });
+  ): Promise<MarketCandle[]> {
+    return this.candleRepository.getCandles(symbol, timeframe, { limit });
   }
 
   /**
@@ -0,0 +1,139 @@
+// Market Data Types
+
+import { Candle } from "@prisma/client";
+
+/**
+ * Fixed-length candle intervals, in milliseconds ("1M" varies in length)
+ */
+export const INTERVAL_MS: Record<string, number> = {
+  "1m": 60_000,
+  "3m": 3 * 60_000,
+  "5m": 5 * 60_000,
+  "15m": 15 * 60_000,
+  "30m": 30 * 60_000,
+  "1h": 3_600_000,
+  "2h": 2 * 3_600_000,
+  "4h": 4 * 3_600_000,
+  "6h": 6 * 3_600_000,
+  "8h": 8 * 3_600_000,
+  "12h": 12 * 3_600_000,
+  "1d": 86_400_000,
+  "3d": 3 * 86_400_000,
+  "1w": 7 * 86_400_000,
+};
+
+// Weekly candles open on Monday; the Unix epoch was a Thursday
+const WEEK_OFFSET_MS = 4 * 86_400_000;
+
+/**
+ * Open time of the candle containing `time` (or the next one with `ceil`)
+ */
+export function alignOpenTime(
+  time: number,
+  interval: string,
+  ceil = false,
+): number {
+  const step = INTERVAL_MS[interval];
+  const offset = interval === "1w" ? WEEK_OFFSET_MS : 0;
+  const aligned = Math.floor((time - offset) / step) * step + offset;
+  return ceil && aligned < time ? aligned + step : aligned;
+}
+
+const QUOTE_ASSETS = [
+  "USDT",
+  "USDC",
+  "FDUSD",
+  "BUSD",
+  "TUSD",
+  "BTC",
+  "ETH",
+  "BNB",
+];
+
+/**
+ * Binance pair for a symbol: "btc" -> "BTCUSDT", "ETH/BTC" -> "ETHBTC".
+ * A bare base asset is quoted in USDT.
+ */
+export function normalizeSymbol(symbol: string): string {
+  const pair = symbol.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  const quoted = QUOTE_ASSETS.some(
+    (quote) => pair.endsWith(quote) && pair.length - quote.length >= 2,
+  );
+  return quoted ? pair : `${pair}USDT`;
+}
+
+/**
+ * A stored or resampled row of the Candle table
+ */
+export type MarketCandle = Omit<Candle, "id" | "createdAt">;
+
+export interface CandleQuery {
+  startTime?: Date; // openTime >= startTime
+  endTime?: Date; // openTime <= endTime
+  limit?: number; // Latest `limit` candles of the range
+}
+
+export type BackfillStatus = "PENDING" | "RUNNING" | "COMPLETED" | "FAILED";
+
+export interface CandleGap {
+  from: Date; // First missing openTime
+  to: Date; // Last missing openTime
+  missing: number;
+}
+
+export interface BackfillJob {
+  id: string;
+  symbol: string;
+  interval: string;
+  startDate: Date;
+  endDate: Date;
+  status: BackfillStatus;
+  progress: number; // 0-100, by missing candles processed
+  gapsFound: number;
+  requests: number;
+  inserted: number;
+  unavailable: number; // Missing candles the exchange has no data for
+  startedAt: Date;
+  completedAt?: Date;
+  error?: string;
+}
+
+export interface IntervalCoverage {
+  interval: string;
+  firstOpenTime: Date;
+  lastOpenTime: Date;
+  candles: number;
+  expected: number;
+  coveragePercent: number;
+  gaps: CandleGap[]; // Largest gaps first
+}
+
+export interface CandleCoverage {
+  symbol: string;
+  intervals: IntervalCoverage[];
+}
+
+// ============================================
+// IMPORT / EXPORT
+// ============================================
+
+export type CandleFileFormat = "csv" | "columnar";
+
+export interface CandleRowError {
+  row: number; // 1-based data row (CSV header excluded)
+  message: string;
+}
+
+export interface CandleImportResult {
+  symbol: string;
+  interval: string;
+  format: CandleFileFormat;
+  rows: number;
+  valid: number;
+  inserted: number;
+  duplicates: number; // Valid rows already stored
+  rejected: number;
+  firstOpenTime: Date | null;
+  lastOpenTime: Date | null;
+  errors: CandleRowError[]; // First errors only
+}
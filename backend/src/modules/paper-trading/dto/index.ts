@@ -1,4 +1,12 @@
-import { IsNumber, IsString, IsOptional, Min, IsEnum } from "class-validator";
+import {
+  IsNumber,
+  IsString,
+  IsOptional,
+  Min,
+  Max,
+  IsEnum,
+  IsIn,
+} from "class-validator";
 import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
 
 export class CreatePortfolioDto {
@@ -17,8 +25,9 @@ export class OpenTradeDto {
   @IsEnum(["BUY", "SELL"])
   side: "BUY" | "SELL";
 
-  @ApiProperty({ example: "MARKET" })
-  @IsString()
+  // Other order types rest in the order book (see PlaceOrderDto)
+  @ApiProperty({ example: "MARKET", enum: ["MARKET"] })
+  @IsIn(["MARKET"])
   type: string;
 
   @ApiProperty({ example: 0.01 })
@@ -35,4 +44,111 @@ export class OpenTradeDto {
   @IsOptional()
   @IsNumber()
   takeProfit?: number;
+
+  @ApiPropertyOptional({
+    example: 2,
+    description: "Trailing stop distance from the best price, in percent",
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.1)
+  @Max(50)
+  trailingPercent?: number;
+}
+
+export class PlaceOrderDto {
+  @ApiProperty({ example: "BTCUSDT" })
+  @IsString()
+  symbol: string;
+
+  @ApiProperty({ example: "BUY", enum: ["BUY", "SELL"] })
+  @IsEnum(["BUY", "SELL"])
+  side: "BUY" | "SELL";
+
+  @ApiProperty({
+    example: "LIMIT",
+    enum: ["LIMIT", "STOP_MARKET", "STOP_LIMIT", "OCO"],
+  })
+  @IsIn(["LIMIT", "STOP_MARKET", "STOP_LIMIT", "OCO"])
+  type: "LIMIT" | "STOP_MARKET" | "STOP_LIMIT" | "OCO";
+
+  @ApiProperty({ example: 0.01 })
+  @IsNumber()
+  @Min(0.0001)
+  quantity: number;
+
+  @ApiPropertyOptional({
+    example: 42000,
+    description: "LIMIT, STOP_LIMIT and the limit leg of OCO",
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  limitPrice?: number;
+
+  @ApiPropertyOptional({
+    example: 45000,
+    description: "STOP_MARKET, STOP_LIMIT and the stop leg of OCO",
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  stopPrice?: number;
+
+  @ApiPropertyOptional({
+    example: 45100,
+    description: "OCO only: makes the stop leg a stop-limit at this price",
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  stopLimitPrice?: number;
+
+  @ApiPropertyOptional({
+    example: "TRADE_THROUGH",
+    enum: ["TOUCH", "TRADE_THROUGH"],
+  })
+  @IsOptional()
+  @IsIn(["TOUCH", "TRADE_THROUGH"])
+  fillRule?: "TOUCH" | "TRADE_THROUGH";
+
+  @ApiPropertyOptional({ example: 40000 })
+  @IsOptional()
+  @IsNumber()
+  stopLoss?: number;
+
+  @ApiPropertyOptional({ example: 50000 })
+  @IsOptional()
+  @IsNumber()
+  takeProfit?: number;
+
+  @ApiPropertyOptional({
+    example: 2,
+    description: "Trailing stop distance from the best price, in percent",
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.1)
+  @Max(50)
+  trailingPercent?: number;
+}
+
+export class AmendOrderDto {
+  @ApiPropertyOptional({ example: 0.02 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.0001)
+  quantity?: number;
+
+  @ApiPropertyOptional({ example: 41500 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  limitPrice?: number;
+
+  @ApiPropertyOptional({ example: 45500 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  stopPrice?: number;
 }
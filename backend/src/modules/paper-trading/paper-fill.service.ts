@@ -0,0 +1,156 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { MarketDataService } from "../market-data/market-data.service";
+import { Liquidity, PaperFill } from "./paper-trading.types";
+
+const DEFAULTS = {
+  PAPER_MAKER_FEE_RATE: 0.001,
+  PAPER_TAKER_FEE_RATE: 0.001,
+  PAPER_SLIPPAGE_BASE_BPS: 1,
+  PAPER_SLIPPAGE_IMPACT_BPS: 50,
+  PAPER_SLIPPAGE_MAX_BPS: 500,
+  PAPER_SHORT_MARGIN_RATE: 1,
+};
+const VOLUME_CACHE_MS = 5 * 60 * 1000;
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Slippage of a market fill in basis points: a fixed spread cost plus a
+ * square-root market impact that grows with the order's share of one
+ * minute of traded volume. Without volume data only the spread applies.
+ */
+export function estimateSlippageBps(
+  quantity: number,
+  minuteVolume: number | null,
+  model: { baseBps: number; impactBps: number; maxBps: number },
+): number {
+  const impact =
+    minuteVolume && minuteVolume > 0
+      ? model.impactBps * Math.sqrt(quantity / minuteVolume)
+      : 0;
+  return Math.min(model.baseBps + impact, model.maxBps);
+}
+
+/**
+ * PaperFillService - Fill model of paper trading
+ *
+ * Turns a market or limit price into the price a simulated order actually
+ * gets and the fee it pays. Maker fills (resting limits, take profits) get
+ * their own price and the maker fee; taker fills pay the taker fee and
+ * slip against the trader, bounded by the order's limit price if any.
+ * Also sets the collateral of a trade: longs lock their full notional,
+ * shorts PAPER_SHORT_MARGIN_RATE of it.
+ */
+@Injectable()
+export class PaperFillService {
+  private readonly logger = new Logger(PaperFillService.name);
+  private readonly makerFeeRate: number;
+  private readonly takerFeeRate: number;
+  private readonly shortMarginRate: number;
+  private readonly slippage: {
+    baseBps: number;
+    impactBps: number;
+    maxBps: number;
+  };
+
+  // Average base-asset volume per minute over the last 24h
+  private readonly minuteVolumes = new Map<
+    string,
+    { volume: number | null; fetchedAt: number }
+  >();
+
+  constructor(
+    configService: ConfigService,
+    private readonly marketDataService: MarketDataService,
+  ) {
+    const read = (key: keyof typeof DEFAULTS) => {
+      const value = Number(configService.get<string>(key));
+      return Number.isFinite(value) && value >= 0 ? value : DEFAULTS[key];
+    };
+
+    this.makerFeeRate = read("PAPER_MAKER_FEE_RATE");
+    this.takerFeeRate = read("PAPER_TAKER_FEE_RATE");
+    this.shortMarginRate = read("PAPER_SHORT_MARGIN_RATE") || 1;
+    this.slippage = {
+      baseBps: read("PAPER_SLIPPAGE_BASE_BPS"),
+      impactBps: read("PAPER_SLIPPAGE_IMPACT_BPS"),
+      maxBps: read("PAPER_SLIPPAGE_MAX_BPS"),
+    };
+  }
+
+  async fill(params: {
+    symbol: string;
+    side: "BUY" | "SELL";
+    quantity: number;
+    price: number;
+    liquidity: Liquidity;
+    limitPrice?: number | null;
+  }): Promise<PaperFill> {
+    const { symbol, side, quantity, liquidity, limitPrice } = params;
+    let price = params.price;
+    let slippageBps = 0;
+
+    if (liquidity === "TAKER") {
+      slippageBps = estimateSlippageBps(
+        quantity,
+        await this.getMinuteVolume(symbol),
+        this.slippage,
+      );
+      const slip = (price * slippageBps) / 10000;
+      price = side === "BUY" ? price + slip : price - slip;
+
+      if (limitPrice) {
+        price =
+          side === "BUY"
+            ? Math.min(price, limitPrice)
+            : Math.max(price, limitPrice);
+      }
+    }
+
+    const feeRate =
+      liquidity === "MAKER" ? this.makerFeeRate : this.takerFeeRate;
+    const notional = price * quantity;
+
+    return {
+      price,
+      notional,
+      fee: notional * feeRate,
+      feeRate,
+      slippageBps,
+      liquidity,
+    };
+  }
+
+  /**
+   * Balance locked while a trade with this notional is open
+   */
+  marginFor(side: string, notional: number): number {
+    return side === "SELL" ? notional * this.shortMarginRate : notional;
+  }
+
+  /**
+   * Balance to set aside for a working order: its margin plus the taker
+   * fee, the worst case of its fill
+   */
+  reserveFor(side: string, notional: number): number {
+    return this.marginFor(side, notional) + notional * this.takerFeeRate;
+  }
+
+  private async getMinuteVolume(symbol: string): Promise<number | null> {
+    const cached = this.minuteVolumes.get(symbol);
+    if (cached && Date.now() - cached.fetchedAt < VOLUME_CACHE_MS) {
+      return cached.volume;
+    }
+
+    let volume: number | null = null;
+    try {
+      const ticker = await this.marketDataService.getTicker(symbol);
+      volume = ticker.volume24h ? ticker.volume24h / MINUTES_PER_DAY : null;
+    } catch (error) {
+      this.logger.warn(`No volume for ${symbol}, using base slippage only`);
+    }
+
+    this.minuteVolumes.set(symbol, { volume, fetchedAt: Date.now() });
+    return volume;
+  }
+}
@@ -0,0 +1,585 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from "@nestjs/common";
+import { Cron, CronExpression } from "@nestjs/schedule";
+import { PaperOrder } from "@prisma/client";
+import { randomUUID } from "crypto";
+import { PrismaService } from "@/common/prisma/prisma.service";
+import { MarketDataService } from "../market-data/market-data.service";
+import { RealtimePriceService } from "../websocket/realtime-price.service";
+import { PaperTradingService } from "./paper-trading.service";
+import { PaperFillService } from "./paper-fill.service";
+import { AmendOrderDto, PlaceOrderDto } from "./dto";
+import { SymbolTickRunner } from "./symbol-tick-runner";
+import {
+  OrderEvaluation,
+  PaperOrderType,
+  WORKING_ORDER_STATUSES,
+} from "./paper-trading.types";
+
+// Symbols without a stream tick for this long are matched against a polled
+// price instead
+const STALE_TICK_MS = 30 * 1000;
+
+type OrderLeg = Pick<PaperOrder, "limitPrice" | "stopPrice"> & {
+  type: PaperOrderType;
+};
+
+/**
+ * Decide what a working order does at the given price (null: nothing yet)
+ *
+ * - LIMIT, and STOP_LIMIT once triggered, rest at their limit price and
+ *   fill there as maker when the price touches or trades through it,
+ *   depending on the order's fill rule
+ * - STOP_MARKET triggers when the price touches the stop and fills at that
+ *   price as taker, so a gap past the stop costs slippage
+ * - STOP_LIMIT triggers on the stop and fills at once as taker if its limit
+ *   is still marketable; otherwise it starts resting as a limit order
+ */
+export function evaluateOrder(
+  order: Pick<
+    PaperOrder,
+    "side" | "type" | "status" | "limitPrice" | "stopPrice" | "fillRule"
+  >,
+  price: number,
+): OrderEvaluation | null {
+  const isBuy = order.side === "BUY";
+
+  if (isResting(order)) {
+    const limit = order.limitPrice!;
+    const reached =
+      order.fillRule === "TOUCH"
+        ? isMarketable(order.side, limit, price)
+        : isBuy
+          ? price < limit
+          : price > limit;
+    return reached
+      ? { action: "FILL", price: limit, liquidity: "MAKER" }
+      : null;
+  }
+
+  const stopHit = isBuy ? price >= order.stopPrice! : price <= order.stopPrice!;
+  if (!stopHit) return null;
+
+  if (
+    order.type === "STOP_MARKET" ||
+    isMarketable(order.side, order.limitPrice!, price)
+  ) {
+    return { action: "FILL", price, liquidity: "TAKER" };
+  }
+  return { action: "TRIGGER" };
+}
+
+function isResting(order: Pick<PaperOrder, "type" | "status">): boolean {
+  return (
+    order.type === "LIMIT" ||
+    (order.type === "STOP_LIMIT" && order.status === "TRIGGERED")
+  );
+}
+
+// Whether a limit order at this price would trade against the market now
+function isMarketable(side: string, limitPrice: number, price: number) {
+  return side === "BUY" ? price <= limitPrice : price >= limitPrice;
+}
+
+/**
+ * PaperOrderService - Simulated order book for paper trading
+ *
+ * LIMIT, STOP_MARKET, STOP_LIMIT and OCO orders wait here until the live
+ * price stream (RealtimePriceService) reaches them; a fill opens a paper
+ * trade at the fill price. Orders are filled whole, never partially. Funds
+ * for working orders are reserved so they cannot be spent twice.
+ */
+@Injectable()
+export class PaperOrderService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(PaperOrderService.name);
+
+  // Symbols with working orders
+  private readonly watchedSymbols = new Set<string>();
+  private readonly lastTickAt = new Map<string, number>();
+  private readonly ticks = new SymbolTickRunner(
+    (symbol, price) => this.matchSymbol(symbol, price),
+    this.logger,
+  );
+  private stopListening: (() => void) | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly marketDataService: MarketDataService,
+    private readonly realtimePriceService: RealtimePriceService,
+    private readonly paperTradingService: PaperTradingService,
+    private readonly paperFillService: PaperFillService,
+  ) {}
+
+  async onModuleInit() {
+    this.stopListening = this.realtimePriceService.onPrice((symbol, price) => {
+      void this.onPrice(symbol, price);
+    });
+
+    try {
+      await this.refreshWatchedSymbols();
+    } catch (error) {
+      this.logger.error("Failed to load working paper orders", error);
+    }
+  }
+
+  onModuleDestroy() {
+    this.stopListening?.();
+  }
+
+  async placeOrder(userId: string, dto: PlaceOrderDto) {
+    const portfolio = await this.paperTradingService.getPortfolio(userId);
+    const symbol = dto.symbol.toUpperCase();
+    const price = await this.marketDataService.getCurrentPrice(symbol);
+
+    const legs = this.buildLegs(dto, price);
+    await this.assertAffordable(
+      portfolio.id,
+      portfolio.currentBalance,
+      Math.max(...legs.map((leg) => this.legCost(leg, dto.side, dto.quantity))),
+    );
+
+    const ocoGroupId = legs.length > 1 ? randomUUID() : null;
+    const orders = await this.prisma.$transaction(
+      legs.map((leg) =>
+        this.prisma.paperOrder.create({
+          data: {
+            portfolioId: portfolio.id,
+            symbol,
+            side: dto.side,
+            type: leg.type,
+            quantity: dto.quantity,
+            limitPrice: leg.limitPrice,
+            stopPrice: leg.stopPrice,
+            fillRule: dto.fillRule ?? "TRADE_THROUGH",
+            ocoGroupId,
+            stopLoss: dto.stopLoss,
+            takeProfit: dto.takeProfit,
+            trailingPercent: dto.trailingPercent,
+          },
+        }),
+      ),
+    );
+
+    this.logger.log(
+      `Placed ${dto.type} ${dto.side} ${dto.quantity} ${symbol} for user ${userId}`,
+    );
+    this.watch(symbol);
+
+    // A limit order that is marketable on arrival takes liquidity right away
+    for (const order of orders) {
+      if (
+        order.type === "LIMIT" &&
+        isMarketable(order.side, order.limitPrice!, price)
+      ) {
+        await this.execute(order, {
+          action: "FILL",
+          price,
+          liquidity: "TAKER",
+        });
+      }
+    }
+
+    return this.prisma.paperOrder.findMany({
+      where: { id: { in: orders.map((order) => order.id) } },
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  /**
+   * Change the quantity or prices of a working order. A quantity change
+   * applies to every leg of an OCO order; a limit amended into the market
+   * fills at once as taker.
+   */
+  async amendOrder(userId: string, orderId: string, dto: AmendOrderDto) {
+    const { portfolio, order } = await this.findWorkingOrder(userId, orderId);
+
+    if (dto.stopPrice !== undefined && order.type === "LIMIT") {
+      throw new BadRequestException("LIMIT orders have no stop price");
+    }
+    if (dto.stopPrice !== undefined && order.status === "TRIGGERED") {
+      throw new BadRequestException("The stop of this order already triggered");
+    }
+    if (dto.limitPrice !== undefined && order.type === "STOP_MARKET") {
+      throw new BadRequestException("STOP_MARKET orders have no limit price");
+    }
+
+    const amended = {
+      ...order,
+      quantity: dto.quantity ?? order.quantity,
+      limitPrice: dto.limitPrice ?? order.limitPrice,
+      stopPrice: dto.stopPrice ?? order.stopPrice,
+    };
+    const price = await this.marketDataService.getCurrentPrice(order.symbol);
+
+    if (amended.status === "PENDING" && amended.type !== "LIMIT") {
+      this.assertStopAwayFromMarket(amended.side, amended.stopPrice!, price);
+    }
+    if (
+      amended.ocoGroupId &&
+      amended.type === "LIMIT" &&
+      isMarketable(amended.side, amended.limitPrice!, price)
+    ) {
+      throw new BadRequestException(
+        "The limit leg of an OCO order must rest away from the market",
+      );
+    }
+
+    const otherLegs = amended.ocoGroupId
+      ? await this.prisma.paperOrder.findMany({
+          where: {
+            ocoGroupId: amended.ocoGroupId,
+            id: { not: order.id },
+            status: { in: WORKING_ORDER_STATUSES },
+          },
+        })
+      : [];
+    await this.assertAffordable(
+      portfolio.id,
+      portfolio.currentBalance,
+      Math.max(
+        ...[amended, ...otherLegs].map((leg) =>
+          this.legCost(leg, amended.side, amended.quantity),
+        ),
+      ),
+      [order.id, ...otherLegs.map((leg) => leg.id)],
+    );
+
+    const { count } = await this.prisma.paperOrder.updateMany({
+      where: { id: order.id, status: { in: WORKING_ORDER_STATUSES } },
+      data: {
+        quantity: amended.quantity,
+        limitPrice: amended.limitPrice,
+        stopPrice: amended.stopPrice,
+      },
+    });
+    if (count === 0) {
+      throw new BadRequestException("Order is no longer working");
+    }
+    if (dto.quantity !== undefined && otherLegs.length > 0) {
+      await this.prisma.paperOrder.updateMany({
+        where: { id: { in: otherLegs.map((leg) => leg.id) } },
+        data: { quantity: amended.quantity },
+      });
+    }
+
+    this.logger.log(`Amended paper order ${order.id} for user ${userId}`);
+
+    if (
+      isResting(amended) &&
+      isMarketable(amended.side, amended.limitPrice!, price)
+    ) {
+      await this.execute(amended, {
+        action: "FILL",
+        price,
+        liquidity: "TAKER",
+      });
+    }
+
+    return this.prisma.paperOrder.findUnique({ where: { id: order.id } });
+  }
+
+  /**
+   * Cancel a working order, together with the other leg if it is an OCO
+   */
+  async cancelOrder(userId: string, orderId: string) {
+    const { order } = await this.findWorkingOrder(userId, orderId);
+
+    await this.prisma.paperOrder.updateMany({
+      where: {
+        ...(order.ocoGroupId
+          ? { ocoGroupId: order.ocoGroupId }
+          : { id: order.id }),
+        status: { in: WORKING_ORDER_STATUSES },
+      },
+      data: {
+        status: "CANCELLED",
+        statusReason: "MANUAL",
+        cancelledAt: new Date(),
+      },
+    });
+
+    this.logger.log(`Cancelled paper order ${order.id} for user ${userId}`);
+    await this.refreshWatchedSymbols();
+
+    return { message: "Order cancelled successfully" };
+  }
+
+  async getOrders(
+    userId: string,
+    status: "open" | "closed" = "open",
+    limit: number = 50,
+  ) {
+    const portfolio = await this.paperTradingService.getPortfolio(userId);
+
+    return this.prisma.paperOrder.findMany({
+      where: {
+        portfolioId: portfolio.id,
+        status:
+          status === "open"
+            ? { in: WORKING_ORDER_STATUSES }
+            : { notIn: WORKING_ORDER_STATUSES },
+      },
+      orderBy:
+        status === "open" ? { createdAt: "desc" } : { updatedAt: "desc" },
+      take: limit,
+    });
+  }
+
+  /**
+   * Match symbols whose stream went quiet (not monitored by the realtime
+   * feed yet, or disconnected) against a polled price (scheduled task)
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async matchStaleSymbols(): Promise<void> {
+    const now = Date.now();
+
+    for (const symbol of this.watchedSymbols) {
+      if (now - (this.lastTickAt.get(symbol) ?? 0) < STALE_TICK_MS) {
+        continue;
+      }
+
+      try {
+        const price = await this.marketDataService.getCurrentPrice(symbol);
+        await this.onPrice(symbol, price);
+      } catch (error) {
+        this.logger.error(`Error polling price for ${symbol}`, error);
+      }
+    }
+  }
+
+  private async onPrice(symbol: string, price: number): Promise<void> {
+    if (!this.watchedSymbols.has(symbol)) return;
+    this.lastTickAt.set(symbol, Date.now());
+    await this.ticks.push(symbol, price);
+  }
+
+  private async matchSymbol(symbol: string, price: number) {
+    const orders = await this.prisma.paperOrder.findMany({
+      where: { symbol, status: { in: WORKING_ORDER_STATUSES } },
+      orderBy: { createdAt: "asc" },
+    });
+
+    for (const order of orders) {
+      const evaluation = evaluateOrder(order, price);
+      if (evaluation?.action === "TRIGGER") {
+        await this.trigger(order);
+      } else if (evaluation) {
+        await this.execute(order, evaluation);
+      }
+    }
+  }
+
+  /**
+   * Turn a stop-limit order into a resting limit order
+   */
+  private async trigger(order: PaperOrder) {
+    const { count } = await this.prisma.paperOrder.updateMany({
+      where: { id: order.id, status: "PENDING" },
+      data: { status: "TRIGGERED", triggeredAt: new Date() },
+    });
+    if (count === 0) return;
+
+    this.logger.log(
+      `Paper order ${order.id} triggered at stop ${order.stopPrice}, resting at ${order.limitPrice}`,
+    );
+    await this.cancelOtherLegs(order, "OCO: stop leg triggered");
+  }
+
+  /**
+   * Fill an order and open its trade. The order is claimed first so a fill
+   * racing with a cancel, an amend or another tick happens only once; the
+   * order is REJECTED if the balance no longer covers the trade.
+   */
+  private async execute(
+    order: PaperOrder,
+    fill: Extract<OrderEvaluation, { action: "FILL" }>,
+  ) {
+    const { count } = await this.prisma.paperOrder.updateMany({
+      where: { id: order.id, status: { in: WORKING_ORDER_STATUSES } },
+      data: {
+        status: "FILLED",
+        fillPrice: fill.price,
+        liquidity: fill.liquidity,
+        filledAt: new Date(),
+      },
+    });
+    if (count === 0) return;
+
+    await this.cancelOtherLegs(order, `OCO: ${order.type} leg filled`);
+
+    try {
+      const trade = await this.paperTradingService.openPosition(
+        order.portfolioId,
+        {
+          symbol: order.symbol,
+          side: order.side as "BUY" | "SELL",
+          type: order.type,
+          quantity: order.quantity,
+          price: fill.price,
+          liquidity: fill.liquidity,
+          limitPrice: order.limitPrice,
+          stopLoss: order.stopLoss,
+          takeProfit: order.takeProfit,
+          trailingPercent: order.trailingPercent,
+        },
+      );
+      await this.prisma.paperOrder.update({
+        where: { id: order.id },
+        data: { tradeId: trade.id, fillPrice: trade.entryPrice },
+      });
+
+      this.logger.log(
+        `Paper order ${order.id} filled: ${order.side} ${order.quantity} ${order.symbol} @ ${trade.entryPrice} (${fill.liquidity})`,
+      );
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      await this.prisma.paperOrder.update({
+        where: { id: order.id },
+        data: { status: "REJECTED", statusReason: reason },
+      });
+      this.logger.warn(`Paper order ${order.id} rejected: ${reason}`);
+    }
+
+    await this.refreshWatchedSymbols();
+  }
+
+  private async cancelOtherLegs(order: PaperOrder, reason: string) {
+    if (!order.ocoGroupId) return;
+
+    await this.prisma.paperOrder.updateMany({
+      where: {
+        ocoGroupId: order.ocoGroupId,
+        id: { not: order.id },
+        status: { in: WORKING_ORDER_STATUSES },
+      },
+      data: {
+        status: "CANCELLED",
+        statusReason: reason,
+        cancelledAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Validate the prices of a new order against the market and split OCO
+   * orders into their limit and stop legs
+   */
+  private buildLegs(dto: PlaceOrderDto, price: number): OrderLeg[] {
+    const { type, side, limitPrice, stopPrice } = dto;
+
+    if (type !== "STOP_MARKET" && limitPrice === undefined) {
+      throw new BadRequestException(`${type} orders require a limitPrice`);
+    }
+    if (type !== "LIMIT" && stopPrice === undefined) {
+      throw new BadRequestException(`${type} orders require a stopPrice`);
+    }
+    if (type !== "LIMIT") {
+      this.assertStopAwayFromMarket(side, stopPrice!, price);
+    }
+
+    switch (type) {
+      case "LIMIT":
+        return [{ type, limitPrice: limitPrice!, stopPrice: null }];
+      case "STOP_MARKET":
+        return [{ type, limitPrice: null, stopPrice: stopPrice! }];
+      case "STOP_LIMIT":
+        return [{ type, limitPrice: limitPrice!, stopPrice: stopPrice! }];
+      case "OCO":
+        if (isMarketable(side, limitPrice!, price)) {
+          throw new BadRequestException(
+            `The limit price of a ${side} OCO order must be ${side === "BUY" ? "below" : "above"} the current price (${price})`,
+          );
+        }
+        return [
+          { type: "LIMIT", limitPrice: limitPrice!, stopPrice: null },
+          dto.stopLimitPrice !== undefined
+            ? {
+                type: "STOP_LIMIT",
+                limitPrice: dto.stopLimitPrice,
+                stopPrice: stopPrice!,
+              }
+            : { type: "STOP_MARKET", limitPrice: null, stopPrice: stopPrice! },
+        ];
+    }
+  }
+
+  private assertStopAwayFromMarket(
+    side: string,
+    stopPrice: number,
+    price: number,
+  ) {
+    const valid = side === "BUY" ? stopPrice > price : stopPrice < price;
+    if (!valid) {
+      throw new BadRequestException(
+        `The stop price of a ${side} order must be ${side === "BUY" ? "above" : "below"} the current price (${price})`,
+      );
+    }
+  }
+
+  private legCost(
+    leg: Pick<PaperOrder, "limitPrice" | "stopPrice">,
+    side: string,
+    quantity: number,
+  ): number {
+    return this.paperFillService.reserveFor(
+      side,
+      quantity * (leg.limitPrice ?? leg.stopPrice ?? 0),
+    );
+  }
+
+  private async assertAffordable(
+    portfolioId: string,
+    balance: number,
+    cost: number,
+    excludeOrderIds: string[] = [],
+  ) {
+    const reserved = await this.paperTradingService.getReservedBalance(
+      portfolioId,
+      excludeOrderIds,
+    );
+    if (cost > balance - reserved) {
+      throw new BadRequestException("Insufficient balance");
+    }
+  }
+
+  private async findWorkingOrder(userId: string, orderId: string) {
+    const portfolio = await this.paperTradingService.getPortfolio(userId);
+    const order = await this.prisma.paperOrder.findFirst({
+      where: {
+        id: orderId,
+        portfolioId: portfolio.id,
+        status: { in: WORKING_ORDER_STATUSES },
+      },
+    });
+
+    if (!order) {
+      throw new NotFoundException("Order not found");
+    }
+
+    return { portfolio, order };
+  }
+
+  private watch(symbol: string) {
+    this.watchedSymbols.add(symbol);
+    this.realtimePriceService.addSymbol(symbol);
+  }
+
+  private async refreshWatchedSymbols() {
+    const rows = await this.prisma.paperOrder.findMany({
+      where: { status: { in: WORKING_ORDER_STATUSES } },
+      distinct: ["symbol"],
+      select: { symbol: true },
+    });
+
+    this.watchedSymbols.clear();
+    for (const { symbol } of rows) {
+      this.watch(symbol);
+    }
+  }
+}
@@ -0,0 +1,242 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from "@nestjs/common";
+import { Cron, CronExpression } from "@nestjs/schedule";
+import { PaperTrade } from "@prisma/client";
+import { PrismaService } from "@/common/prisma/prisma.service";
+import { MarketDataService } from "../market-data/market-data.service";
+import { RealtimePriceService } from "../websocket/realtime-price.service";
+import { WebsocketGateway } from "../websocket/websocket.gateway";
+import { PaperTradingService } from "./paper-trading.service";
+import { SymbolTickRunner } from "./symbol-tick-runner";
+import { TradeEvaluation } from "./paper-trading.types";
+
+// Open trades are re-read at most this often, so new trades are picked up
+const REFRESH_INTERVAL_MS = 10 * 1000;
+// Symbols without a stream tick for this long are checked against a polled
+// price instead
+const STALE_TICK_MS = 30 * 1000;
+
+/**
+ * Ratchet the trailing stop of an open trade and decide whether the price
+ * closes it. Stops fill at the price that hit them (stop-market, so gaps
+ * cost slippage) and are checked before the take profit, which fills at
+ * its own level (resting limit).
+ */
+export function evaluateTrade(
+  trade: Pick<
+    PaperTrade,
+    "side" | "stopLoss" | "takeProfit" | "trailingStop" | "trailingPercent"
+  >,
+  price: number,
+): TradeEvaluation {
+  const isBuy = trade.side === "BUY";
+  // Price moved against the trade to the level, or beyond it
+  const against = (level: number | null) =>
+    level !== null && (isBuy ? price <= level : price >= level);
+
+  let trailingStop = trade.trailingStop;
+  if (trade.trailingPercent) {
+    const candidate = isBuy
+      ? price * (1 - trade.trailingPercent / 100)
+      : price * (1 + trade.trailingPercent / 100);
+    const improves =
+      trailingStop === null ||
+      (isBuy ? candidate > trailingStop : candidate < trailingStop);
+    if (improves) trailingStop = candidate;
+  }
+
+  if (against(trade.stopLoss)) {
+    return {
+      trailingStop,
+      exit: { reason: "SL", price, liquidity: "TAKER" },
+    };
+  }
+  if (against(trailingStop)) {
+    return {
+      trailingStop,
+      exit: { reason: "TRAILING", price, liquidity: "TAKER" },
+    };
+  }
+  if (
+    trade.takeProfit !== null &&
+    (isBuy ? price >= trade.takeProfit : price <= trade.takeProfit)
+  ) {
+    return {
+      trailingStop,
+      exit: { reason: "TP", price: trade.takeProfit, liquidity: "MAKER" },
+    };
+  }
+
+  return { trailingStop, exit: null };
+}
+
+/**
+ * PaperTradeMonitorService - Automatic exits for paper trades
+ *
+ * Checks open trades with a stop loss, take profit or trailing stop on
+ * every price update of their symbol, moves trailing stops along with the
+ * price, closes trades whose level was hit (closeReason SL, TP or TRAILING)
+ * and notifies the owner with PAPER_TRADE_CLOSED.
+ */
+@Injectable()
+export class PaperTradeMonitorService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(PaperTradeMonitorService.name);
+
+  // Symbols with monitored trades
+  private readonly watchedSymbols = new Set<string>();
+  private readonly lastTickAt = new Map<string, number>();
+  private readonly ticks = new SymbolTickRunner(
+    (symbol, price) => this.checkSymbol(symbol, price),
+    this.logger,
+  );
+  private lastRefreshAt = 0;
+  private stopListening: (() => void) | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly marketDataService: MarketDataService,
+    private readonly realtimePriceService: RealtimePriceService,
+    private readonly websocketGateway: WebsocketGateway,
+    private readonly paperTradingService: PaperTradingService,
+  ) {}
+
+  async onModuleInit() {
+    this.stopListening = this.realtimePriceService.onPrice((symbol, price) => {
+      void this.onPrice(symbol, price);
+    });
+
+    try {
+      await this.refreshWatchedSymbols();
+    } catch (error) {
+      this.logger.error("Failed to load monitored paper trades", error);
+    }
+  }
+
+  onModuleDestroy() {
+    this.stopListening?.();
+  }
+
+  /**
+   * Check symbols whose stream went quiet against a polled price
+   * (scheduled task)
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async checkStaleSymbols(): Promise<void> {
+    try {
+      await this.refreshWatchedSymbols();
+    } catch (error) {
+      this.logger.error("Failed to refresh monitored paper trades", error);
+      return;
+    }
+
+    const now = Date.now();
+    for (const symbol of this.watchedSymbols) {
+      if (now - (this.lastTickAt.get(symbol) ?? 0) < STALE_TICK_MS) {
+        continue;
+      }
+
+      try {
+        const price = await this.marketDataService.getCurrentPrice(symbol);
+        await this.onPrice(symbol, price);
+      } catch (error) {
+        this.logger.error(`Error polling price for ${symbol}`, error);
+      }
+    }
+  }
+
+  private async onPrice(symbol: string, price: number): Promise<void> {
+    if (Date.now() - this.lastRefreshAt > REFRESH_INTERVAL_MS) {
+      try {
+        await this.refreshWatchedSymbols();
+      } catch (error) {
+        this.logger.error("Failed to refresh monitored paper trades", error);
+      }
+    }
+
+    if (!this.watchedSymbols.has(symbol)) return;
+    this.lastTickAt.set(symbol, Date.now());
+    await this.ticks.push(symbol, price);
+  }
+
+  private async checkSymbol(symbol: string, price: number) {
+    const trades = await this.prisma.paperTrade.findMany({
+      where: { symbol, status: "OPEN", ...this.monitoredFilter() },
+      include: { portfolio: { select: { userId: true } } },
+    });
+
+    for (const trade of trades) {
+      const { trailingStop, exit } = evaluateTrade(trade, price);
+
+      if (exit) {
+        await this.closeTrade(trade, trade.portfolio.userId, exit);
+      } else if (trailingStop !== trade.trailingStop) {
+        await this.prisma.paperTrade.updateMany({
+          where: { id: trade.id, status: "OPEN" },
+          data: { trailingStop },
+        });
+      }
+    }
+  }
+
+  private async closeTrade(
+    trade: PaperTrade,
+    userId: string,
+    exit: NonNullable<TradeEvaluation["exit"]>,
+  ) {
+    const closed = await this.paperTradingService.closePosition(
+      trade,
+      exit.price,
+      exit.reason,
+      exit.liquidity,
+    );
+    // Closed manually or by an earlier tick in the meantime
+    if (!closed) return;
+
+    this.logger.log(
+      `Paper trade ${trade.id} closed by ${exit.reason}: ${trade.side} ${trade.quantity} ${trade.symbol} @ ${closed.exitPrice}`,
+    );
+
+    this.websocketGateway.sendPaperTradeClosed(userId, {
+      tradeId: closed.id,
+      symbol: closed.symbol,
+      side: closed.side as "BUY" | "SELL",
+      quantity: closed.quantity,
+      entryPrice: closed.entryPrice,
+      exitPrice: closed.exitPrice ?? exit.price,
+      pnl: closed.pnl ?? 0,
+      pnlPercent: closed.pnlPercent ?? 0,
+      closeReason: exit.reason,
+      timestamp: Date.now(),
+    });
+  }
+
+  private monitoredFilter() {
+    return {
+      OR: [
+        { stopLoss: { not: null } },
+        { takeProfit: { not: null } },
+        { trailingPercent: { not: null } },
+      ],
+    };
+  }
+
+  private async refreshWatchedSymbols() {
+    this.lastRefreshAt = Date.now();
+
+    const rows = await this.prisma.paperTrade.findMany({
+      where: { status: "OPEN", ...this.monitoredFilter() },
+      distinct: ["symbol"],
+      select: { symbol: true },
+    });
+
+    this.watchedSymbols.clear();
+    for (const { symbol } of rows) {
+      this.watchedSymbols.add(symbol);
+      this.realtimePriceService.addSymbol(symbol);
+    }
+  }
+}
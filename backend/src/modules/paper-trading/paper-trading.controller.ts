@@ -2,22 +2,40 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
+  Delete,
   Body,
+  Param,
   UseGuards,
   Request,
   Query,
 } from "@nestjs/common";
-import { ApiTags, ApiOperation, ApiBearerAuth } from "@nestjs/swagger";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiQuery,
+} from "@nestjs/swagger";
 import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
 import { PaperTradingService } from "./paper-trading.service";
-import { CreatePortfolioDto, OpenTradeDto } from "./dto";
+import { PaperOrderService } from "./paper-order.service";
+import { LedgerEntryType } from "./paper-trading.types";
+import {
+  AmendOrderDto,
+  CreatePortfolioDto,
+  OpenTradeDto,
+  PlaceOrderDto,
+} from "./dto";
 
 @ApiTags("paper-trading")
 @Controller("paper-trading")
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth()
 export class PaperTradingController {
-  constructor(private readonly paperTradingService: PaperTradingService) {}
+  constructor(
+    private readonly paperTradingService: PaperTradingService,
+    private readonly paperOrderService: PaperOrderService,
+  ) {}
 
   @Post("portfolio")
   @ApiOperation({ summary: "Create paper trading portfolio" })
@@ -69,4 +87,71 @@ export class PaperTradingController {
       limit ? parseInt(limit.toString()) : 20,
     );
   }
+
+  @Get("ledger")
+  @ApiOperation({ summary: "Get balance movements of the portfolio" })
+  @ApiQuery({ name: "limit", required: false, type: Number })
+  @ApiQuery({
+    name: "type",
+    required: false,
+    enum: [
+      "DEPOSIT",
+      "MARGIN_LOCK",
+      "MARGIN_RELEASE",
+      "REALIZED_PNL",
+      "FEE",
+      "RESET",
+    ],
+  })
+  async getLedger(
+    @Request() req: any,
+    @Query("limit") limit?: number,
+    @Query("type") type?: LedgerEntryType,
+  ) {
+    return this.paperTradingService.getLedger(
+      req.user.userId,
+      limit ? parseInt(limit.toString()) : 100,
+      type,
+    );
+  }
+
+  @Post("orders")
+  @ApiOperation({
+    summary: "Place a LIMIT, STOP_MARKET, STOP_LIMIT or OCO order",
+  })
+  async placeOrder(@Request() req: any, @Body() dto: PlaceOrderDto) {
+    return this.paperOrderService.placeOrder(req.user.userId, dto);
+  }
+
+  @Get("orders")
+  @ApiOperation({ summary: "Get working (open) or finished (closed) orders" })
+  @ApiQuery({ name: "status", required: false, enum: ["open", "closed"] })
+  @ApiQuery({ name: "limit", required: false, type: Number })
+  async getOrders(
+    @Request() req: any,
+    @Query("status") status?: "open" | "closed",
+    @Query("limit") limit?: number,
+  ) {
+    return this.paperOrderService.getOrders(
+      req.user.userId,
+      status === "closed" ? "closed" : "open",
+      limit ? parseInt(limit.toString()) : 50,
+    );
+  }
+
+  @Patch("orders/:id")
+  @ApiOperation({ summary: "Amend a working order" })
+  async amendOrder(
+    @Request() req: any,
+    @Param("id") id: string,
+    @Body() dto: AmendOrderDto,
+  ) {
+    return this.paperOrderService.amendOrder(req.user.userId, id, dto);
+  }
+
+  @Delete("orders/:id")
+  @ApiOperation({ summary: "Cancel a working order (both legs of an OCO)" })
+  async cancelOrder(@Request() req: any, @Param("id") id: string) {
+    return this.paperOrderService.cancelOrder(req.user.userId, id);
+  }
 }
@@ -1,13 +1,22 @@
 import { Module } from "@nestjs/common";
 import { PaperTradingController } from "./paper-trading.controller";
 import { PaperTradingService } from "./paper-trading.service";
+import { PaperOrderService } from "./paper-order.service";
+import { PaperFillService } from "./paper-fill.service";
+import { PaperTradeMonitorService } from "./paper-trade-monitor.service";
 import { AuthModule } from "../auth/auth.module";
 import { MarketDataModule } from "../market-data/market-data.module";
+import { WebsocketModule } from "../websocket/websocket.module";
 
 @Module({
-  imports: [AuthModule, MarketDataModule],
+  imports: [AuthModule, MarketDataModule, WebsocketModule],
   controllers: [PaperTradingController],
-  providers: [PaperTradingService],
-  exports: [PaperTradingService],
+  providers: [
+    PaperTradingService,
+    PaperFillService,
+    PaperOrderService,
+    PaperTradeMonitorService,
+  ],
+  exports: [PaperTradingService, PaperOrderService],
 })
 export class PaperTradingModule {}
@@ -1,7 +1,21 @@
-import { Injectable, Logger, NotFoundException } from "@nestjs/common";
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
 import { PrismaService } from "@/common/prisma/prisma.service";
+import { PaperPortfolio, PaperTrade, Prisma } from "@prisma/client";
 import { CreatePortfolioDto, OpenTradeDto } from "./dto";
 import { MarketDataService } from "../market-data/market-data.service";
+import { PaperFillService } from "./paper-fill.service";
+import {
+  LedgerEntryType,
+  LedgerPosting,
+  Liquidity,
+  OpenPositionParams,
+  WORKING_ORDER_STATUSES,
+} from "./paper-trading.types";
 
 @Injectable()
 export class PaperTradingService {
@@ -10,6 +24,7 @@ export class PaperTradingService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly marketDataService: MarketDataService,
+    private readonly paperFillService: PaperFillService,
   ) {}
 
   async createPortfolio(userId: string, dto: CreatePortfolioDto) {
@@ -29,6 +44,7 @@ export class PaperTradingService {
         userId,
         initialBalance: dto.initialBalance,
         currentBalance: dto.initialBalance,
+        peakBalance: dto.initialBalance,
         totalPnl: 0,
         totalPnlPercent: 0,
         totalTrades: 0,
@@ -36,6 +52,14 @@ export class PaperTradingService {
         losingTrades: 0,
         winRate: 0,
         maxDrawdown: 0,
+        ledgerEntries: {
+          create: {
+            type: "DEPOSIT",
+            amount: dto.initialBalance,
+            balanceAfter: dto.initialBalance,
+            description: "Initial balance",
+          },
+        },
       },
     });
   }
@@ -56,19 +80,16 @@ export class PaperTradingService {
     const portfolio = await this.getPortfolio(userId);
     const openTrades = await this.getOpenTrades(userId);
 
-    // Calculate unrealized P&L
+    // Open trades are worth their locked margin plus their unrealized P&L
     let unrealizedPnl = 0;
+    let lockedMargin = 0;
     for (const trade of openTrades) {
-      const ticker = await this.marketDataService.getTicker(trade.symbol);
-      const currentPrice = ticker.price;
-      const pnl =
-        trade.side === "BUY"
-          ? (currentPrice - trade.entryPrice) * trade.quantity
-          : (trade.entryPrice - currentPrice) * trade.quantity;
-      unrealizedPnl += pnl;
+      unrealizedPnl += "unrealizedPnl" in trade ? trade.unrealizedPnl : 0;
+      lockedMargin += this.lockedMargin(trade);
     }
 
-    const totalEquity = portfolio.currentBalance + unrealizedPnl;
+    const totalEquity = portfolio.currentBalance + lockedMargin + unrealizedPnl;
+    const reservedBalance = await this.getReservedBalance(portfolio.id);
 
     // Calculate P&L for different time periods
     const now = new Date();
@@ -120,6 +141,9 @@ export class PaperTradingService {
       totalEquity,
       openPositions: openTrades.length,
       unrealizedPnl,
+      lockedMargin,
+      reservedBalance,
+      availableBalance: portfolio.currentBalance - reservedBalance,
       dailyPnl: parseFloat(dailyPnl.toFixed(2)),
       weeklyPnl: parseFloat(weeklyPnl.toFixed(2)),
       monthlyPnl: parseFloat(monthlyPnl.toFixed(2)),
@@ -131,32 +155,55 @@ export class PaperTradingService {
 
     const portfolio = await this.getPortfolio(userId);
 
-    // Close all open trades
-    await this.prisma.paperTrade.updateMany({
-      where: {
-        portfolioId: portfolio.id,
-        status: "OPEN",
-      },
-      data: {
-        status: "CLOSED",
-        closeReason: "RESET",
-        closedAt: new Date(),
-      },
-    });
-
-    // Reset portfolio
-    return this.prisma.paperPortfolio.update({
-      where: { id: portfolio.id },
-      data: {
-        currentBalance: portfolio.initialBalance,
-        totalPnl: 0,
-        totalPnlPercent: 0,
-        totalTrades: 0,
-        winningTrades: 0,
-        losingTrades: 0,
-        winRate: 0,
-        maxDrawdown: 0,
-      },
+    const now = new Date();
+    return this.withLockedPortfolio(portfolio.id, async (tx, locked) => {
+      // Close all open trades
+      await tx.paperTrade.updateMany({
+        where: {
+          portfolioId: locked.id,
+          status: "OPEN",
+        },
+        data: {
+          status: "CLOSED",
+          closeReason: "RESET",
+          closedAt: now,
+        },
+      });
+      // Cancel working orders
+      await tx.paperOrder.updateMany({
+        where: {
+          portfolioId: locked.id,
+          status: { in: WORKING_ORDER_STATUSES },
+        },
+        data: {
+          status: "CANCELLED",
+          statusReason: "RESET",
+          cancelledAt: now,
+        },
+      });
+      await this.postLedger(tx, locked.id, locked.currentBalance, [
+        {
+          type: "RESET",
+          amount: locked.initialBalance - locked.currentBalance,
+          description: "Portfolio reset",
+        },
+      ]);
+
+      // Reset portfolio
+      return tx.paperPortfolio.update({
+        where: { id: locked.id },
+        data: {
+          currentBalance: locked.initialBalance,
+          peakBalance: locked.initialBalance,
+          totalPnl: 0,
+          totalPnlPercent: 0,
+          totalTrades: 0,
+          winningTrades: 0,
+          losingTrades: 0,
+          winRate: 0,
+          maxDrawdown: 0,
+        },
+      });
     });
   }
 
@@ -167,40 +214,130 @@ export class PaperTradingService {
 
     // Get current price
     const ticker = await this.marketDataService.getTicker(dto.symbol);
-    const currentPrice = ticker.price;
 
-    // Calculate cost
-    const cost = currentPrice * dto.quantity;
+    return this.openPosition(portfolio.id, {
+      symbol: dto.symbol,
+      side: dto.side,
+      type: dto.type,
+      quantity: dto.quantity,
+      price: ticker.price,
+      liquidity: "TAKER",
+      stopLoss: dto.stopLoss,
+      takeProfit: dto.takeProfit,
+      trailingPercent: dto.trailingPercent,
+    });
+  }
 
-    if (cost > portfolio.currentBalance) {
-      throw new Error("Insufficient balance");
-    }
+  /**
+   * Open a trade through the fill model (slippage and fee) and lock its
+   * margin. Funds reserved by working orders are not available.
+   */
+  async openPosition(portfolioId: string, params: OpenPositionParams) {
+    const fill = await this.paperFillService.fill(params);
+    const margin = this.paperFillService.marginFor(params.side, fill.notional);
+    const label = `${params.side} ${params.quantity} ${params.symbol} @ ${fill.price}`;
+
+    const trade = await this.withLockedPortfolio(
+      portfolioId,
+      async (tx, portfolio) => {
+        const available =
+          portfolio.currentBalance -
+          (await this.getReservedBalance(portfolioId, [], tx));
+
+        if (margin + fill.fee > available) {
+          throw new BadRequestException("Insufficient balance");
+        }
 
-    // Create trade
-    const trade = await this.prisma.paperTrade.create({
-      data: {
-        portfolioId: portfolio.id,
-        symbol: dto.symbol,
-        side: dto.side,
-        type: dto.type,
-        quantity: dto.quantity,
-        entryPrice: currentPrice,
-        entryValue: cost,
-        stopLoss: dto.stopLoss,
-        takeProfit: dto.takeProfit,
-        status: "OPEN",
+        const created = await tx.paperTrade.create({
+          data: {
+            portfolioId,
+            symbol: params.symbol,
+            side: params.side,
+            type: params.type,
+            quantity: params.quantity,
+            entryPrice: fill.price,
+            entryValue: fill.notional,
+            fee: fill.feeRate,
+            entryFee: fill.fee,
+            margin,
+            stopLoss: params.stopLoss,
+            takeProfit: params.takeProfit,
+            trailingPercent: params.trailingPercent,
+            trailingStop: params.trailingPercent
+              ? params.side === "BUY"
+                ? fill.price * (1 - params.trailingPercent / 100)
+                : fill.price * (1 + params.trailingPercent / 100)
+              : null,
+            status: "OPEN",
+          },
+        });
+
+        const balance = await this.postLedger(
+          tx,
+          portfolioId,
+          portfolio.currentBalance,
+          [
+            {
+              type: "MARGIN_LOCK",
+              amount: -margin,
+              tradeId: created.id,
+              description: label,
+            },
+            {
+              type: "FEE",
+              amount: -fill.fee,
+              tradeId: created.id,
+              description: `Entry fee (${fill.liquidity})`,
+            },
+          ],
+        );
+        await tx.paperPortfolio.update({
+          where: { id: portfolioId },
+          data: { currentBalance: balance },
+        });
+
+        return created;
       },
-    });
+    );
 
-    // Update portfolio balance
-    await this.prisma.paperPortfolio.update({
-      where: { id: portfolio.id },
-      data: {
-        currentBalance: portfolio.currentBalance - cost,
+    if (fill.slippageBps > 0) {
+      this.logger.debug(
+        `${label}: ${fill.slippageBps.toFixed(1)} bps slippage from ${params.price}`,
+      );
+    }
+
+    return trade;
+  }
+
+  /**
+   * Balance set aside for working orders: the margin and taker fee of each
+   * order at its limit (or stop) price, counting only the larger leg of an
+   * OCO
+   */
+  async getReservedBalance(
+    portfolioId: string,
+    excludeOrderIds: string[] = [],
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<number> {
+    const orders = await client.paperOrder.findMany({
+      where: {
+        portfolioId,
+        status: { in: WORKING_ORDER_STATUSES },
+        id: { notIn: excludeOrderIds },
       },
     });
 
-    return trade;
+    const reserved = new Map<string, number>();
+    for (const order of orders) {
+      const key = order.ocoGroupId ?? order.id;
+      const cost = this.paperFillService.reserveFor(
+        order.side,
+        order.quantity * (order.limitPrice ?? order.stopPrice ?? 0),
+      );
+      reserved.set(key, Math.max(reserved.get(key) ?? 0, cost));
+    }
+
+    return Array.from(reserved.values()).reduce((sum, cost) => sum + cost, 0);
   }
 
   async closeTrade(userId: string, tradeId: string) {
@@ -222,71 +359,127 @@ export class PaperTradingService {
 
     // Get current price
     const ticker = await this.marketDataService.getTicker(trade.symbol);
-    const exitPrice = ticker.price;
+
+    if (!(await this.closePosition(trade, ticker.price, "MANUAL", "TAKER"))) {
+      throw new NotFoundException("Trade not found");
+    }
+
+    return { message: "Trade closed successfully" };
+  }
+
+  /**
+   * Close an open trade through the fill model, release its margin and book
+   * its P&L and exit fee. The trade's pnl is net of both fees. Returns null
+   * if the trade was closed meanwhile.
+   */
+  async closePosition(
+    trade: PaperTrade,
+    price: number,
+    closeReason: string,
+    liquidity: Liquidity,
+  ) {
+    const fill = await this.paperFillService.fill({
+      symbol: trade.symbol,
+      side: trade.side === "BUY" ? "SELL" : "BUY",
+      quantity: trade.quantity,
+      price,
+      liquidity,
+    });
+    const exitPrice = fill.price;
 
     // Calculate P&L
-    const pnl =
+    const grossPnl =
       trade.side === "BUY"
         ? (exitPrice - trade.entryPrice) * trade.quantity
         : (trade.entryPrice - exitPrice) * trade.quantity;
+    const pnl = grossPnl - trade.entryFee - fill.fee;
 
     const pnlPercent = (pnl / (trade.entryPrice * trade.quantity)) * 100;
 
-    // Update trade
-    await this.prisma.paperTrade.update({
-      where: { id: trade.id },
-      data: {
-        exitPrice,
-        pnl,
-        pnlPercent,
-        status: "CLOSED",
-        closeReason: "MANUAL",
-        closedAt: new Date(),
-      },
-    });
+    const closed = await this.withLockedPortfolio(
+      trade.portfolioId,
+      async (tx, portfolio) => {
+        // Update trade, unless it was closed meanwhile
+        const { count } = await tx.paperTrade.updateMany({
+          where: { id: trade.id, status: "OPEN" },
+          data: {
+            exitPrice,
+            exitValue: fill.notional,
+            exitFee: fill.fee,
+            pnl,
+            pnlPercent,
+            status: "CLOSED",
+            closeReason,
+            closedAt: new Date(),
+          },
+        });
+
+        if (count === 0) {
+          return false;
+        }
 
-    // Return capital and P&L to portfolio
-    const newBalance =
-      portfolio.currentBalance + trade.entryPrice * trade.quantity + pnl;
-
-    // Calculate peak balance and drawdown
-    const newPeakBalance = Math.max(portfolio.peakBalance, newBalance);
-    const drawdown =
-      newPeakBalance > 0
-        ? ((newPeakBalance - newBalance) / newPeakBalance) * 100
-        : 0;
-
-    // Update portfolio stats
-    const isWinning = pnl > 0;
-    await this.prisma.paperPortfolio.update({
-      where: { id: portfolio.id },
-      data: {
-        currentBalance: newBalance,
-        peakBalance: newPeakBalance,
-        maxDrawdown: Math.max(portfolio.maxDrawdown, drawdown),
-        totalPnl: portfolio.totalPnl + pnl,
-        totalPnlPercent:
-          ((portfolio.initialBalance +
-            portfolio.totalPnl +
-            pnl -
-            portfolio.initialBalance) /
-            portfolio.initialBalance) *
-          100,
-        totalTrades: portfolio.totalTrades + 1,
-        winningTrades: isWinning
-          ? portfolio.winningTrades + 1
-          : portfolio.winningTrades,
-        losingTrades: !isWinning
-          ? portfolio.losingTrades + 1
-          : portfolio.losingTrades,
-        winRate:
-          ((isWinning ? portfolio.winningTrades + 1 : portfolio.winningTrades) /
-            (portfolio.totalTrades + 1)) *
-          100,
+        // Return margin and P&L to portfolio
+        const newBalance = await this.postLedger(
+          tx,
+          portfolio.id,
+          portfolio.currentBalance,
+          [
+            {
+              type: "MARGIN_RELEASE",
+              amount: this.lockedMargin(trade),
+              tradeId: trade.id,
+              description: `${trade.side} ${trade.quantity} ${trade.symbol} closed (${closeReason})`,
+            },
+            {
+              type: "REALIZED_PNL",
+              amount: grossPnl,
+              tradeId: trade.id,
+              description: `${trade.entryPrice} -> ${exitPrice}`,
+            },
+            {
+              type: "FEE",
+              amount: -fill.fee,
+              tradeId: trade.id,
+              description: `Exit fee (${fill.liquidity})`,
+            },
+          ],
+        );
+
+        // Calculate peak balance and drawdown
+        const newPeakBalance = Math.max(portfolio.peakBalance, newBalance);
+        const drawdown =
+          newPeakBalance > 0
+            ? ((newPeakBalance - newBalance) / newPeakBalance) * 100
+            : 0;
+
+        // Update portfolio stats
+        const isWinning = pnl > 0;
+        const winningTrades = portfolio.winningTrades + (isWinning ? 1 : 0);
+        await tx.paperPortfolio.update({
+          where: { id: portfolio.id },
+          data: {
+            currentBalance: newBalance,
+            peakBalance: newPeakBalance,
+            maxDrawdown: Math.max(portfolio.maxDrawdown, drawdown),
+            totalPnl: portfolio.totalPnl + pnl,
+            totalPnlPercent:
+              ((portfolio.totalPnl + pnl) / portfolio.initialBalance) * 100,
+            totalTrades: portfolio.totalTrades + 1,
+            winningTrades,
+            losingTrades: portfolio.losingTrades + (isWinning ? 0 : 1),
+            winRate: (winningTrades / (portfolio.totalTrades + 1)) * 100,
+          },
+        });
+
+        return true;
       },
-    });
+    );
 
-    return { message: "Trade closed successfully" };
+    if (!closed) {
+      return null;
+    }
+
+    return this.prisma.paperTrade.findUnique({ where: { id: trade.id } });
   }
 
   async getOpenTrades(userId: string) {
@@ -346,4 +539,70 @@ export class PaperTradingService {
 
     return { trades, total: trades.length };
   }
+
+  async getLedger(userId: string, limit: number = 100, type?: LedgerEntryType) {
+    const portfolio = await this.getPortfolio(userId);
+
+    const entries = await this.prisma.paperLedgerEntry.findMany({
+      where: {
+        portfolioId: portfolio.id,
+        ...(type && { type }),
+      },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    });
+
+    return { entries, balance: portfolio.currentBalance };
+  }
+
+  /**
+   * Margin held by an open trade. Trades opened before margins were
+   * recorded locked their whole entry value.
+   */
+  private lockedMargin(trade: Pick<PaperTrade, "margin" | "entryValue">) {
+    return trade.margin || trade.entryValue;
+  }
+
+  /**
+   * Run `work` in a transaction that holds the portfolio row lock, so
+   * fills and exits on the same portfolio (order matcher, trade monitor,
+   * user requests) apply one after another to its current balance
+   */
+  private withLockedPortfolio<T>(
+    portfolioId: string,
+    work: (
+      tx: Prisma.TransactionClient,
+      portfolio: PaperPortfolio,
+    ) => Promise<T>,
+  ): Promise<T> {
+    return this.prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM paper_portfolios WHERE id = ${portfolioId} FOR UPDATE`;
+      const portfolio = await tx.paperPortfolio.findUniqueOrThrow({
+        where: { id: portfolioId },
+      });
+      return work(tx, portfolio);
+    });
+  }
+
+  /**
+   * Write ledger entries for a series of balance changes starting from
+   * `balance`, each with the balance it leaves; returns the final balance.
+   * Runs inside withLockedPortfolio, so `balance` is the locked row's.
+   */
+  private async postLedger(
+    tx: Prisma.TransactionClient,
+    portfolioId: string,
+    balance: number,
+    postings: LedgerPosting[],
+  ): Promise<number> {
+    for (const posting of postings) {
+      if (posting.amount === 0) continue;
+      balance += posting.amount;
+      await tx.paperLedgerEntry.create({
+        data: { portfolioId, ...posting, balanceAfter: balance },
+      });
+    }
+
+    return balance;
+  }
 }
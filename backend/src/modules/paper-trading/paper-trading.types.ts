@@ -0,0 +1,78 @@
+// Paper Trading Types
+
+export type PaperOrderType = "LIMIT" | "STOP_MARKET" | "STOP_LIMIT";
+
+// PENDING: waiting for its price; TRIGGERED: stop-limit whose stop was hit,
+// now resting as a limit order
+export type PaperOrderStatus =
+  | "PENDING"
+  | "TRIGGERED"
+  | "FILLED"
+  | "CANCELLED"
+  | "REJECTED";
+
+export const WORKING_ORDER_STATUSES: PaperOrderStatus[] = [
+  "PENDING",
+  "TRIGGERED",
+];
+
+// TOUCH: a resting limit fills as soon as the price reaches it;
+// TRADE_THROUGH: only once the price trades beyond it (the order may have
+// been at the back of the queue at that level)
+export type FillRule = "TOUCH" | "TRADE_THROUGH";
+
+// MAKER: filled resting at its limit price; TAKER: filled at the market
+export type Liquidity = "MAKER" | "TAKER";
+
+export type OrderEvaluation =
+  | { action: "FILL"; price: number; liquidity: Liquidity }
+  | { action: "TRIGGER" };
+
+export interface OpenPositionParams {
+  symbol: string;
+  side: "BUY" | "SELL";
+  type: string;
+  quantity: number;
+  price: number; // Market or limit price, before slippage
+  liquidity: Liquidity;
+  limitPrice?: number | null; // Worst price a taker fill may get
+  stopLoss?: number | null;
+  takeProfit?: number | null;
+  trailingPercent?: number | null;
+}
+
+export type TradeCloseReason = "SL" | "TP" | "TRAILING";
+
+export interface TradeEvaluation {
+  trailingStop: number | null; // Ratcheted trailing stop, if the trade has one
+  exit: {
+    reason: TradeCloseReason;
+    price: number;
+    liquidity: Liquidity;
+  } | null;
+}
+
+export interface PaperFill {
+  price: number; // After slippage
+  notional: number; // price * quantity
+  fee: number;
+  feeRate: number;
+  slippageBps: number;
+  liquidity: Liquidity;
+}
+
+// Every change of a portfolio balance is recorded as one of these
+export type LedgerEntryType =
+  | "DEPOSIT" // Portfolio funded
+  | "MARGIN_LOCK" // Collateral of an opened trade
+  | "MARGIN_RELEASE" // Collateral returned when the trade closes
+  | "REALIZED_PNL" // Gross P&L of a closed trade
+  | "FEE" // Entry or exit fee
+  | "RESET"; // Balance set back to the initial balance
+
+export interface LedgerPosting {
+  type: LedgerEntryType;
+  amount: number; // Signed
+  tradeId?: string;
+  description?: string;
+}
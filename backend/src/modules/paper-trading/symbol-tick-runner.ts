@@ -0,0 +1,38 @@
+import { Logger } from "@nestjs/common";
+
+/**
+ * Runs a price handler for one tick of a symbol at a time. Ticks arriving
+ * while the symbol is busy collapse into the latest price, which runs next.
+ */
+export class SymbolTickRunner {
+  private readonly running = new Set<string>();
+  private readonly queued = new Map<string, number>();
+
+  constructor(
+    private readonly handler: (symbol: string, price: number) => Promise<void>,
+    private readonly logger: Logger,
+  ) {}
+
+  async push(symbol: string, price: number): Promise<void> {
+    if (this.running.has(symbol)) {
+      this.queued.set(symbol, price);
+      return;
+    }
+
+    this.running.add(symbol);
+    let next: number | undefined = price;
+    try {
+      while (next !== undefined) {
+        this.queued.delete(symbol);
+        try {
+          await this.handler(symbol, next);
+        } catch (error) {
+          this.logger.error(`Error handling ${symbol} @ ${next}`, error);
+        }
+        next = this.queued.get(symbol);
+      }
+    } finally {
+      this.running.delete(symbol);
+    }
+  }
+}
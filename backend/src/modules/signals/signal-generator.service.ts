@@ -1,11 +1,18 @@
-import { Injectable, Logger, Optional } from "@nestjs/common";
-import { InjectQueue } from "@nestjs/bull";
-import { Queue } from "bull";
+import { Injectable, Logger, OnModuleInit, Optional } from "@nestjs/common";
+import { StrategyType } from "@prisma/client";
 import { PrismaService } from "@/common/prisma/prisma.service";
+import { QueueService } from "@/common/queue/queue.service";
+import { JobQueue, QueueStats } from "@/common/queue/queue.types";
 import { StrategiesService } from "../strategies/strategies.service";
+import {
+  StrategyParams,
+  StrategyResult,
+  StrategySignal,
+} from "../strategies/strategies.types";
 import { WebsocketGateway } from "../websocket/websocket.gateway";
 import { SignalPayload } from "../websocket/websocket.types";
 import { NotificationService } from "../notifications/notification.service";
+import { SignalLifecycleService } from "./signal-lifecycle.service";
 
 export interface SignalGenerationJob {
   symbol: string;
@@ -18,11 +25,12 @@ export interface SignalGenerationJob {
  * Signal Generator Service
  *
  * Handles automatic signal generation for cryptocurrencies
- * Uses BullMQ for distributed processing
+ * Jobs run on the "signal-generation" queue (Bull or in-process)
  */
 @Injectable()
-export class SignalGeneratorService {
+export class SignalGeneratorService implements OnModuleInit {
   private readonly logger = new Logger(SignalGeneratorService.name);
+  private readonly signalQueue: JobQueue<SignalGenerationJob>;
 
   // Top cryptocurrencies to monitor
   private readonly TOP_CRYPTOS = [
@@ -50,18 +58,25 @@ export class SignalGeneratorService {
 
   private readonly TIMEFRAMES = ["5m", "15m", "1h", "4h"];
 
+  private readonly CONCURRENCY = 2;
+
   constructor(
     private readonly prisma: PrismaService,
     private readonly strategiesService: StrategiesService,
     private readonly websocketGateway: WebsocketGateway,
+    private readonly signalLifecycle: SignalLifecycleService,
+    queueService: QueueService,
     @Optional() private readonly notificationService?: NotificationService,
-    @Optional() @InjectQueue("signal-generation") private signalQueue?: Queue,
   ) {
-    if (!this.signalQueue) {
-      this.logger.warn(
-        "⚠️ Bull Queue not available. Signal generation will run synchronously.",
-      );
-    }
+    this.signalQueue = queueService.getQueue("signal-generation");
+  }
+
+  onModuleInit() {
+    this.signalQueue.process(
+      "generate-signal",
+      (job) => this.processSignalGeneration(job.data),
+      this.CONCURRENCY,
+    );
   }
 
   /**
@@ -98,21 +113,15 @@ export class SignalGeneratorService {
             cryptoId: crypto.id,
           };
 
-          if (this.signalQueue) {
-            // Use queue if available
-            await this.signalQueue.add("generate-signal", job, {
-              attempts: 3,
-              backoff: {
-                type: "exponential",
-                delay: 2000,
-              },
-              removeOnComplete: true,
-              removeOnFail: false,
-            });
-          } else {
-            // Process synchronously if no queue
-            await this.processSignalGeneration(job);
-          }
+          await this.signalQueue.add("generate-signal", job, {
+            attempts: 3,
+            backoff: {
+              type: "exponential",
+              delay: 2000,
+            },
+            removeOnComplete: true,
+            removeOnFail: false,
+          });
 
           jobCount++;
         }
@@ -128,11 +137,10 @@ export class SignalGeneratorService {
   }
 
   /**
-   * Process a single signal generation job
-   * This is called by the Bull processor
+   * Process a single signal generation job (queue handler)
    */
   async processSignalGeneration(job: SignalGenerationJob): Promise<any> {
-    const { symbol, binanceSymbol, timeframe, cryptoId } = job;
+    const { symbol, binanceSymbol, timeframe } = job;
 
     this.logger.log(`Processing signal generation for ${symbol} ${timeframe}`);
 
@@ -151,7 +159,7 @@ export class SignalGeneratorService {
       )) {
         if (result.signal) {
           // Find or create strategy
-          let strategy = await this.prisma.strategy.findFirst({
+          const strategy = await this.prisma.strategy.findFirst({
             where: { name: strategyName },
           });
 
@@ -166,94 +174,51 @@ export class SignalGeneratorService {
             continue;
           }
 
-          // Check if similar signal already exists (within last 15 minutes)
-          const fifteenMinutesAgo = new Date(Date.now() - 15 * 60 * 1000);
-          const existingSignal = await this.prisma.signal.findFirst({
-            where: {
-              cryptoId,
-              strategyId: strategy.id,
-              type: result.signal.type,
-              timeframe,
-              timestamp: {
-                gte: fifteenMinutesAgo,
-              },
-            },
-          });
-
-          if (existingSignal) {
-            this.logger.debug(
-              `Similar signal already exists for ${symbol} ${strategyName}, skipping`,
-            );
-            continue;
-          }
-
-          // Skip HOLD signals, only process BUY/SELL
-          if (result.signal.type !== "BUY" && result.signal.type !== "SELL") {
-            this.logger.debug(
-              `Skipping ${result.signal.type} signal for ${symbol} ${strategyName}`,
-            );
-            continue;
-          }
-
-          // Create new signal
-          const signal = await this.prisma.signal.create({
-            data: {
-              userId: "system",
-              cryptoId,
-              strategyId: strategy.id,
-              type: result.signal.type,
-              price: result.signal.price,
-              timeframe: result.signal.timeframe,
-              confidence: result.signal.confidence,
-              suggestedSL: result.signal.stopLoss,
-              suggestedTP: result.signal.takeProfit,
-              indicators: result.signal.metadata || {},
-            },
-            include: {
-              crypto: true,
-              strategy: true,
-            },
-          });
-
-          generatedSignals.push(signal);
-
-          // Broadcast signal via WebSocket
-          const signalPayload: SignalPayload = {
-            id: signal.id,
-            cryptoSymbol: symbol,
-            type: signal.type,
-            strategy: strategyName,
-            price: signal.price,
-            confidence: signal.confidence,
-            reason: result.signal.reasoning || "Signal generated",
-            timestamp: signal.timestamp.getTime(),
-          };
+          const signal = await this.publishSignal(
+            job,
+            strategy.id,
+            strategyName,
+            result.signal,
+          );
+          if (signal) generatedSignals.push(signal);
+        }
+      }
 
-          this.websocketGateway.broadcastSignal(signalPayload);
-
-          // Send Telegram notification for high-confidence signals
-          if (this.notificationService && signal.confidence >= 0.7) {
-            try {
-              await this.notificationService.sendSignalNotification({
-                type: signal.type as 'BUY' | 'SELL',
-                cryptoSymbol: symbol,
-                price: signal.price,
-                confidence: Math.round(signal.confidence * 100),
-                strategy: strategyName,
-                stopLoss: signal.suggestedSL || undefined,
-                takeProfit: signal.suggestedTP || undefined,
-                reasoning: result.signal.reasoning,
-              });
-              this.logger.log(`📱 Telegram notification sent for ${symbol} ${signal.type}`);
-            } catch (notifError) {
-              this.logger.warn(`Failed to send Telegram notification: ${notifError.message}`);
-            }
-          }
+      // Saved rule sets and scripts run with their own config on the
+      // timeframes they were saved for
+      const records = await this.prisma.strategy.findMany({
+        where: {
+          isActive: true,
+          type: { in: [StrategyType.SCRIPTED, StrategyType.CUSTOM] },
+          timeframes: { has: timeframe },
+        },
+      });
 
-          this.logger.log(
-            `✅ Generated ${signal.type} signal for ${symbol} using ${strategyName} (confidence: ${(signal.confidence * 100).toFixed(0)}%)`,
+      for (const record of records) {
+        let result: StrategyResult;
+        try {
+          result = await this.strategiesService.analyzeWithStrategy(
+            record.type,
+            binanceSymbol,
+            timeframe,
+            record.config as StrategyParams,
           );
+        } catch (error) {
+          this.logger.warn(
+            `Strategy ${record.name} (${record.id}) failed on ${symbol} ${timeframe}: ${error.message}`,
+          );
+          continue;
         }
+
+        if (!result.signal) continue;
+
+        const signal = await this.publishSignal(
+          job,
+          record.id,
+          record.name,
+          result.signal,
+        );
+        if (signal) generatedSignals.push(signal);
       }
 
       return {
@@ -274,6 +239,88 @@ export class SignalGeneratorService {
     }
   }
 
+  /**
+   * Reconcile a strategy's signal with the open ones and announce it when
+   * it is new. Returns the created signal, or null otherwise.
+   */
+  private async publishSignal(
+    job: SignalGenerationJob,
+    strategyId: string,
+    strategyName: string,
+    strategySignal: StrategySignal,
+  ) {
+    const { symbol, timeframe, cryptoId } = job;
+
+    // Skip HOLD signals, only process BUY/SELL
+    if (strategySignal.type !== "BUY" && strategySignal.type !== "SELL") {
+      this.logger.debug(
+        `Skipping ${strategySignal.type} signal for ${symbol} ${strategyName}`,
+      );
+      return null;
+    }
+
+    // Repeats of an open signal update it (SIGNAL_UPDATED) instead of
+    // creating a duplicate; new ones respect the cooldown
+    const { action, signal } = await this.signalLifecycle.reconcile({
+      cryptoId,
+      strategyId,
+      strategyName,
+      signal: strategySignal,
+    });
+
+    if (action !== "CREATED" || !signal) {
+      this.logger.debug(
+        `${strategyName} ${symbol} ${timeframe} ${strategySignal.type}: ${action}`,
+      );
+      return null;
+    }
+
+    // Broadcast signal via WebSocket
+    const signalPayload: SignalPayload = {
+      id: signal.id,
+      cryptoSymbol: symbol,
+      type: signal.type,
+      strategy: strategyName,
+      price: signal.price,
+      confidence: signal.confidence,
+      reason: strategySignal.reasoning || "Signal generated",
+      timestamp: signal.timestamp.getTime(),
+      timeframe: signal.timeframe,
+      status: signal.status,
+    };
+
+    this.websocketGateway.broadcastSignal(signalPayload);
+
+    // Send Telegram notification for high-confidence signals
+    if (this.notificationService && signal.confidence >= 0.7) {
+      try {
+        await this.notificationService.sendSignalNotification({
+          type: signal.type as "BUY" | "SELL",
+          cryptoSymbol: symbol,
+          price: signal.price,
+          confidence: Math.round(signal.confidence * 100),
+          strategy: strategyName,
+          stopLoss: signal.suggestedSL || undefined,
+          takeProfit: signal.suggestedTP || undefined,
+          reasoning: strategySignal.reasoning,
+        });
+        this.logger.log(
+          `📱 Telegram notification sent for ${symbol} ${signal.type}`,
+        );
+      } catch (notifError) {
+        this.logger.warn(
+          `Failed to send Telegram notification: ${notifError.message}`,
+        );
+      }
+    }
+
+    this.logger.log(
+      `✅ Generated ${signal.type} signal for ${symbol} using ${strategyName} (confidence: ${(signal.confidence * 100).toFixed(0)}%)`,
+    );
+
+    return signal;
+  }
+
   /**
    * Get strategy description
    */
@@ -289,44 +336,14 @@ export class SignalGeneratorService {
   /**
    * Get queue statistics
    */
-  async getQueueStats(): Promise<any> {
-    if (!this.signalQueue) {
-      return {
-        waiting: 0,
-        active: 0,
-        completed: 0,
-        failed: 0,
-        total: 0,
-        disabled: true,
-        message: "Queue is disabled (Redis not available)",
-      };
-    }
-
-    const [waiting, active, completed, failed] = await Promise.all([
-      this.signalQueue.getWaitingCount(),
-      this.signalQueue.getActiveCount(),
-      this.signalQueue.getCompletedCount(),
-      this.signalQueue.getFailedCount(),
-    ]);
-
-    return {
-      waiting,
-      active,
-      completed,
-      failed,
-      total: waiting + active + completed + failed,
-    };
+  async getQueueStats(): Promise<QueueStats> {
+    return this.signalQueue.getStats();
   }
 
   /**
    * Clean old jobs from queue
    */
   async cleanQueue(): Promise<void> {
-    if (!this.signalQueue) {
-      this.logger.warn("Queue not available for cleaning");
-      return;
-    }
-
     await this.signalQueue.clean(24 * 60 * 60 * 1000, "completed"); // 24 hours
     await this.signalQueue.clean(7 * 24 * 60 * 60 * 1000, "failed"); // 7 days
     this.logger.log("Queue cleaned");
@@ -0,0 +1,152 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { PrismaService } from "@/common/prisma/prisma.service";
+import { SignalStatus } from "@prisma/client";
+import { WebsocketGateway } from "../websocket/websocket.gateway";
+import { INTERVAL_MS } from "../market-data/market-data.types";
+import { StrategySignal } from "../strategies/strategies.types";
+import { SignalReconcileResult, SignalWithRelations } from "./signals.types";
+
+const DEFAULT_COOLDOWN_BARS = 6;
+const OPEN_STATUSES = [SignalStatus.NEW, SignalStatus.ACTIVE];
+
+/**
+ * SignalLifecycleService - One open signal per strategy/symbol/timeframe
+ *
+ * Every generation run passes each strategy signal through reconcile():
+ * - same direction as the open signal: the signal becomes ACTIVE and a
+ *   SIGNAL_UPDATED event is sent if its status or confidence changed
+ * - opposite direction: the open signal is INVALIDATED (SIGNAL_UPDATED)
+ * - no open signal: a NEW one is created unless the last signal of the
+ *   key is younger than SIGNAL_COOLDOWN_BARS bars of its timeframe
+ * Open signals are CLOSED when their outcome is recorded.
+ */
+@Injectable()
+export class SignalLifecycleService {
+  private readonly logger = new Logger(SignalLifecycleService.name);
+  private readonly cooldownBars: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly websocketGateway: WebsocketGateway,
+    configService: ConfigService,
+  ) {
+    const bars = Number(configService.get<string>("SIGNAL_COOLDOWN_BARS"));
+    this.cooldownBars =
+      Number.isFinite(bars) && bars >= 0 ? bars : DEFAULT_COOLDOWN_BARS;
+  }
+
+  async reconcile(input: {
+    cryptoId: string;
+    strategyId: string;
+    strategyName: string;
+    signal: StrategySignal;
+  }): Promise<SignalReconcileResult> {
+    const { cryptoId, strategyId, strategyName, signal } = input;
+    const key = { cryptoId, strategyId, timeframe: signal.timeframe };
+
+    const open = await this.prisma.signal.findFirst({
+      where: { ...key, status: { in: OPEN_STATUSES } },
+      orderBy: { timestamp: "desc" },
+    });
+
+    if (open && open.type === signal.type) {
+      // Entry price and levels stay those of the first emission, so the
+      // recorded outcome measures the signal that was actually sent
+      const confidenceChanged = open.confidence !== signal.confidence;
+      if (open.status === SignalStatus.ACTIVE && !confidenceChanged) {
+        return { action: "UNCHANGED", signal: null };
+      }
+
+      const updated = await this.prisma.signal.update({
+        where: { id: open.id },
+        data: {
+          status: SignalStatus.ACTIVE,
+          statusReason: `Re-confirmed by ${strategyName}`,
+          confidence: signal.confidence,
+        },
+        include: { crypto: true, strategy: true },
+      });
+      this.broadcastUpdate(updated, signal.reasoning);
+      return { action: "UPDATED", signal: updated };
+    }
+
+    if (open) {
+      await this.transition(
+        open.id,
+        SignalStatus.INVALIDATED,
+        `${strategyName} flipped to ${signal.type}`,
+      );
+    }
+
+    const cooldownMs = this.cooldownBars * (INTERVAL_MS[signal.timeframe] ?? 0);
+    const last = await this.prisma.signal.findFirst({
+      where: key,
+      orderBy: { timestamp: "desc" },
+    });
+    if (last && Date.now() - last.timestamp.getTime() < cooldownMs) {
+      this.logger.debug(
+        `${strategyName} ${signal.symbol} ${signal.timeframe} in cooldown, skipping ${signal.type}`,
+      );
+      return { action: "COOLDOWN", signal: null };
+    }
+
+    const created = await this.prisma.signal.create({
+      data: {
+        userId: "system",
+        cryptoId,
+        strategyId,
+        type: signal.type,
+        price: signal.price,
+        timeframe: signal.timeframe,
+        confidence: signal.confidence,
+        suggestedSL: signal.stopLoss,
+        suggestedTP: signal.takeProfit,
+        indicators: signal.metadata || {},
+        status: SignalStatus.NEW,
+      },
+      include: { crypto: true, strategy: true },
+    });
+    return { action: "CREATED", signal: created };
+  }
+
+  /**
+   * Move an open (NEW/ACTIVE) signal to INVALIDATED or CLOSED and notify
+   * subscribers. Signals that are no longer open are left as they are.
+   */
+  async transition(
+    signalId: string,
+    status: typeof SignalStatus.INVALIDATED | typeof SignalStatus.CLOSED,
+    reason: string,
+  ): Promise<boolean> {
+    const { count } = await this.prisma.signal.updateMany({
+      where: { id: signalId, status: { in: OPEN_STATUSES } },
+      data: { status, statusReason: reason },
+    });
+    if (count === 0) return false;
+
+    const signal = await this.prisma.signal.findUnique({
+      where: { id: signalId },
+      include: { crypto: true, strategy: true },
+    });
+    if (signal) this.broadcastUpdate(signal, reason);
+
+    this.logger.log(`Signal ${signalId} ${status}: ${reason}`);
+    return true;
+  }
+
+  private broadcastUpdate(signal: SignalWithRelations, reason: string) {
+    this.websocketGateway.broadcastSignalUpdate({
+      id: signal.id,
+      cryptoSymbol: signal.crypto.symbol,
+      type: signal.type,
+      strategy: signal.strategy.name,
+      price: signal.price,
+      confidence: signal.confidence,
+      reason,
+      timestamp: signal.timestamp.getTime(),
+      timeframe: signal.timeframe,
+      status: signal.status,
+    });
+  }
+}
@@ -0,0 +1,314 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { Cron, CronExpression } from "@nestjs/schedule";
+import { PrismaService } from "@/common/prisma/prisma.service";
+import {
+  Signal,
+  SignalOutcome,
+  SignalOutcomeType,
+  SignalStatus,
+  SignalType,
+} from "@prisma/client";
+import { CandleRepository } from "../market-data/candle.repository";
+import { SignalLifecycleService } from "./signal-lifecycle.service";
+import {
+  INTERVAL_MS,
+  MarketCandle,
+  alignOpenTime,
+  normalizeSymbol,
+} from "../market-data/market-data.types";
+import {
+  ResolvedOutcome,
+  SignalPerformanceGroup,
+  SignalPerformanceQuery,
+  SignalPerformanceReport,
+  SignalPerformanceStats,
+} from "./signals.types";
+
+const EXPIRY_BARS = 48; // A signal that hits neither level expires after this
+const BATCH_SIZE = 200; // Pending signals checked per run
+const MAX_PENDING_AGE_DAYS = 30; // Older signals without candles are given up
+const DEFAULT_REPORT_DAYS = 90;
+
+/**
+ * Follow a signal over the closed candles that opened after it, oldest
+ * first. The first candle touching the stop loss or take profit decides
+ * the outcome; when one candle touches both, the order inside it is
+ * unknown and the stop loss is assumed. Returns null while neither level
+ * was hit and fewer than expiryBars candles have closed.
+ */
+export function resolveOutcome(
+  signal: Pick<
+    Signal,
+    "type" | "price" | "suggestedSL" | "suggestedTP" | "timestamp"
+  >,
+  candles: MarketCandle[],
+  expiryBars: number = EXPIRY_BARS,
+): ResolvedOutcome | null {
+  const direction = signal.type === SignalType.SELL ? -1 : 1;
+  const entry = signal.price;
+
+  // Levels on the wrong side of the entry would resolve on the first bar
+  const stopLoss =
+    signal.suggestedSL !== null && (signal.suggestedSL - entry) * direction < 0
+      ? signal.suggestedSL
+      : null;
+  const takeProfit =
+    signal.suggestedTP !== null && (signal.suggestedTP - entry) * direction > 0
+      ? signal.suggestedTP
+      : null;
+
+  let mfe = 0;
+  let mae = 0;
+
+  for (let i = 0; i < Math.min(candles.length, expiryBars); i++) {
+    const candle = candles[i];
+    const best = direction > 0 ? candle.high : candle.low;
+    const worst = direction > 0 ? candle.low : candle.high;
+    mfe = Math.max(mfe, ((best - entry) * direction) / entry);
+    mae = Math.max(mae, ((entry - worst) * direction) / entry);
+
+    let outcome: SignalOutcomeType | null = null;
+    let exitPrice = candle.close;
+    if (stopLoss !== null && (worst - stopLoss) * direction <= 0) {
+      outcome = SignalOutcomeType.SL_HIT;
+      exitPrice = stopLoss;
+    } else if (takeProfit !== null && (best - takeProfit) * direction >= 0) {
+      outcome = SignalOutcomeType.TP_HIT;
+      exitPrice = takeProfit;
+    } else if (i === expiryBars - 1) {
+      outcome = SignalOutcomeType.EXPIRED;
+    }
+
+    if (outcome) {
+      return {
+        outcome,
+        exitPrice,
+        returnPct: (((exitPrice - entry) * direction) / entry) * 100,
+        mfePct: mfe * 100,
+        maePct: mae * 100,
+        barsToOutcome: i + 1,
+        minutesToOutcome: Math.round(
+          (candle.closeTime.getTime() - signal.timestamp.getTime()) / 60_000,
+        ),
+        resolvedAt: candle.closeTime,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * SignalOutcomeService - Signal outcome tracking and performance ledger
+ *
+ * Periodically resolves pending BUY/SELL signals against the stored candles
+ * of their symbol/timeframe (TP hit, SL hit or expired, with MFE/MAE and
+ * time to outcome) and reports the recorded outcomes grouped by strategy,
+ * symbol and timeframe.
+ */
+@Injectable()
+export class SignalOutcomeService {
+  private readonly logger = new Logger(SignalOutcomeService.name);
+  private isTracking = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly candleRepository: CandleRepository,
+    private readonly signalLifecycle: SignalLifecycleService,
+  ) {}
+
+  /**
+   * Resolve pending signals (scheduled task). Returns how many were resolved.
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async trackOutcomes(): Promise<number> {
+    if (this.isTracking) return 0;
+    this.isTracking = true;
+
+    try {
+      const pending = await this.prisma.signal.findMany({
+        where: {
+          type: { in: [SignalType.BUY, SignalType.SELL] },
+          outcome: { is: null },
+          timestamp: {
+            gte: new Date(
+              Date.now() - MAX_PENDING_AGE_DAYS * 24 * 60 * 60 * 1000,
+            ),
+          },
+        },
+        include: { crypto: true },
+        orderBy: { timestamp: "asc" },
+        take: BATCH_SIZE,
+      });
+
+      let resolved = 0;
+      for (const signal of pending) {
+        try {
+          if (await this.trackSignal(signal, signal.crypto.binanceSymbol)) {
+            resolved++;
+          }
+        } catch (error) {
+          this.logger.error(
+            `Error tracking outcome of signal ${signal.id}`,
+            error,
+          );
+        }
+      }
+
+      if (resolved > 0) {
+        this.logger.log(
+          `Resolved ${resolved}/${pending.length} pending signals`,
+        );
+      }
+      return resolved;
+    } catch (error) {
+      this.logger.error("Error in trackOutcomes cron job", error);
+      return 0;
+    } finally {
+      this.isTracking = false;
+    }
+  }
+
+  /**
+   * Performance of resolved signals grouped by strategy, symbol and timeframe
+   */
+  async getPerformance(
+    query: SignalPerformanceQuery = {},
+  ): Promise<SignalPerformanceReport> {
+    const since = new Date(
+      Date.now() - (query.days ?? DEFAULT_REPORT_DAYS) * 24 * 60 * 60 * 1000,
+    );
+
+    const signals = await this.prisma.signal.findMany({
+      where: {
+        type: { in: [SignalType.BUY, SignalType.SELL] },
+        timestamp: { gte: since },
+        timeframe: query.timeframe,
+        strategy: query.strategy ? { name: query.strategy } : undefined,
+        crypto: query.symbol
+          ? { binanceSymbol: normalizeSymbol(query.symbol) }
+          : undefined,
+      },
+      select: {
+        timeframe: true,
+        strategy: { select: { name: true } },
+        crypto: { select: { binanceSymbol: true } },
+        outcome: true,
+      },
+    });
+
+    const groups = new Map<
+      string,
+      {
+        strategy: string;
+        symbol: string;
+        timeframe: string;
+        outcomes: (SignalOutcome | null)[];
+      }
+    >();
+    const byStrategy = new Map<string, (SignalOutcome | null)[]>();
+
+    for (const signal of signals) {
+      const strategy = signal.strategy.name;
+      const symbol = signal.crypto.binanceSymbol;
+      const key = `${strategy}|${symbol}|${signal.timeframe}`;
+
+      let group = groups.get(key);
+      if (!group) {
+        group = { strategy, symbol, timeframe: signal.timeframe, outcomes: [] };
+        groups.set(key, group);
+      }
+      group.outcomes.push(signal.outcome);
+
+      if (!byStrategy.has(strategy)) byStrategy.set(strategy, []);
+      byStrategy.get(strategy)!.push(signal.outcome);
+    }
+
+    return {
+      since,
+      overall: this.summarize(signals.map((s) => s.outcome)),
+      byStrategy: Array.from(byStrategy.entries())
+        .map(([strategy, outcomes]) => ({
+          strategy,
+          ...this.summarize(outcomes),
+        }))
+        .sort((a, b) => b.resolved - a.resolved),
+      groups: Array.from(groups.values())
+        .map(
+          ({ outcomes, ...group }): SignalPerformanceGroup => ({
+            ...group,
+            ...this.summarize(outcomes),
+          }),
+        )
+        .sort((a, b) => b.resolved - a.resolved),
+    };
+  }
+
+  private async trackSignal(signal: Signal, symbol: string): Promise<boolean> {
+    const step = INTERVAL_MS[signal.timeframe];
+    if (!step) return false;
+
+    // Candles that opened after the signal, up to the expiry bar
+    const start = alignOpenTime(
+      signal.timestamp.getTime(),
+      signal.timeframe,
+      true,
+    );
+    const now = Date.now();
+    const candles = (
+      await this.candleRepository.getCandles(symbol, signal.timeframe, {
+        startTime: new Date(start),
+        endTime: new Date(start + (EXPIRY_BARS - 1) * step),
+      })
+    ).filter((candle) => candle.closeTime.getTime() <= now);
+
+    const outcome = resolveOutcome(signal, candles);
+    if (!outcome) return false;
+
+    await this.prisma.signalOutcome.create({
+      data: { signalId: signal.id, ...outcome },
+    });
+    await this.signalLifecycle.transition(
+      signal.id,
+      SignalStatus.CLOSED,
+      `${outcome.outcome} after ${outcome.barsToOutcome} bars (${outcome.returnPct.toFixed(2)}%)`,
+    );
+    return true;
+  }
+
+  private summarize(
+    outcomes: (SignalOutcome | null)[],
+  ): SignalPerformanceStats {
+    const resolved = outcomes.filter((o): o is SignalOutcome => o !== null);
+    const count = (type: SignalOutcomeType) =>
+      resolved.filter((o) => o.outcome === type).length;
+    const average = (value: (o: SignalOutcome) => number) =>
+      resolved.length > 0
+        ? resolved.reduce((sum, o) => sum + value(o), 0) / resolved.length
+        : 0;
+
+    const tpHits = count(SignalOutcomeType.TP_HIT);
+    const slHits = count(SignalOutcomeType.SL_HIT);
+    const totalReturnPct = resolved.reduce((sum, o) => sum + o.returnPct, 0);
+
+    return {
+      signals: outcomes.length,
+      pending: outcomes.length - resolved.length,
+      resolved: resolved.length,
+      tpHits,
+      slHits,
+      expired: count(SignalOutcomeType.EXPIRED),
+      hitRate: tpHits + slHits > 0 ? tpHits / (tpHits + slHits) : 0,
+      winRate:
+        resolved.length > 0
+          ? resolved.filter((o) => o.returnPct > 0).length / resolved.length
+          : 0,
+      avgReturnPct: average((o) => o.returnPct),
+      totalReturnPct,
+      avgMfePct: average((o) => o.mfePct),
+      avgMaePct: average((o) => o.maePct),
+      avgBarsToOutcome: average((o) => o.barsToOutcome),
+      avgMinutesToOutcome: average((o) => o.minutesToOutcome),
+    };
+  }
+}
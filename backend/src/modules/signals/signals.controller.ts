@@ -2,7 +2,8 @@ import { Controller, Get, Post, Delete, Param, Query } from "@nestjs/common";
 import { ApiTags, ApiOperation, ApiQuery, ApiParam } from "@nestjs/swagger";
 import { SignalsService } from "./signals.service";
 import { SignalGeneratorService } from "./signal-generator.service";
-import { SignalType } from "@prisma/client";
+import { SignalOutcomeService } from "./signal-outcome.service";
+import { SignalStatus, SignalType } from "@prisma/client";
 
 @ApiTags("signals")
 @Controller("signals")
@@ -10,6 +11,7 @@ export class SignalsController {
   constructor(
     private readonly signalsService: SignalsService,
     private readonly signalGenerator: SignalGeneratorService,
+    private readonly signalOutcomeService: SignalOutcomeService,
   ) {}
 
   @Get()
@@ -18,13 +20,21 @@ export class SignalsController {
   @ApiQuery({ name: "strategyId", required: false })
   @ApiQuery({ name: "type", required: false, enum: SignalType })
   @ApiQuery({ name: "limit", required: false, example: 50 })
+  @ApiQuery({ name: "status", required: false, enum: SignalStatus })
   findAll(
     @Query("cryptoId") cryptoId?: string,
     @Query("strategyId") strategyId?: string,
     @Query("type") type?: SignalType,
     @Query("limit") limit?: number,
+    @Query("status") status?: SignalStatus,
   ) {
-    return this.signalsService.findAll(cryptoId, strategyId, type, limit);
+    return this.signalsService.findAll(
+      cryptoId,
+      strategyId,
+      type,
+      limit,
+      status,
+    );
   }
 
   @Get("statistics")
@@ -48,6 +58,34 @@ export class SignalsController {
     );
   }
 
+  @Get("performance")
+  @ApiOperation({
+    summary:
+      "Recorded signal outcomes (TP hit, SL hit, expired) by strategy, symbol and timeframe",
+  })
+  @ApiQuery({ name: "strategy", required: false, example: "RSI_VOLUME" })
+  @ApiQuery({ name: "symbol", required: false, example: "BTCUSDT" })
+  @ApiQuery({ name: "timeframe", required: false, example: "1h" })
+  @ApiQuery({
+    name: "days",
+    required: false,
+    example: 90,
+    description: "Signals emitted in the last X days",
+  })
+  getPerformance(
+    @Query("strategy") strategy?: string,
+    @Query("symbol") symbol?: string,
+    @Query("timeframe") timeframe?: string,
+    @Query("days") days?: number,
+  ) {
+    return this.signalOutcomeService.getPerformance({
+      strategy,
+      symbol,
+      timeframe,
+      days: days ? parseInt(days.toString()) : undefined,
+    });
+  }
+
   @Get("recent")
   @ApiOperation({ summary: "Get recent signals across all cryptos" })
   @ApiQuery({ name: "limit", required: false, example: 5 })
@@ -1,30 +1,30 @@
 import { Module } from "@nestjs/common";
-import { BullModule } from "@nestjs/bull";
 import { SignalsService } from "./signals.service";
 import { SignalsController } from "./signals.controller";
 import { SignalGeneratorService } from "./signal-generator.service";
-import { SignalGenerationProcessor } from "./signal-generation.processor";
+import { SignalOutcomeService } from "./signal-outcome.service";
+import { SignalLifecycleService } from "./signal-lifecycle.service";
 import { SignalGenerationCron } from "./signal-generation.cron";
 import { StrategiesModule } from "../strategies/strategies.module";
+import { MarketDataModule } from "../market-data/market-data.module";
 import { WebsocketModule } from "../websocket/websocket.module";
 import { NotificationModule } from "../notifications/notification.module";
 
 @Module({
   imports: [
     StrategiesModule,
+    MarketDataModule,
     WebsocketModule,
     NotificationModule,
-    // BullModule.registerQueue({
-    //   name: "signal-generation",
-    // }),
   ],
   controllers: [SignalsController],
   providers: [
     SignalsService,
     SignalGeneratorService,
-    // SignalGenerationProcessor,  // Requiere Bull Queue
-    // SignalGenerationCron,  // Requiere Bull Queue
+    SignalOutcomeService,
+    SignalLifecycleService,
+    SignalGenerationCron,
   ],
-  exports: [SignalsService, SignalGeneratorService],
+  exports: [SignalsService, SignalGeneratorService, SignalOutcomeService],
 })
 export class SignalsModule {}
@@ -2,8 +2,9 @@ import { Injectable, Logger, NotFoundException } from "@nestjs/common";
 import { PrismaService } from "@/common/prisma/prisma.service";
 import { Cron, CronExpression } from "@nestjs/schedule";
 import { StrategiesService } from "../strategies/strategies.service";
+import { SignalLifecycleService } from "./signal-lifecycle.service";
 import { CreateSignalDto } from "./dto/create-signal.dto";
-import { Signal, SignalType } from "@prisma/client";
+import { Signal, SignalStatus, SignalType } from "@prisma/client";
 
 @Injectable()
 export class SignalsService {
@@ -12,6 +13,7 @@ export class SignalsService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly strategiesService: StrategiesService,
+    private readonly signalLifecycle: SignalLifecycleService,
   ) {}
 
   /**
@@ -86,18 +88,21 @@ export class SignalsService {
     strategyId?: string,
     type?: SignalType,
     limit: number = 50,
+    status?: SignalStatus,
   ): Promise<Signal[]> {
     const where: any = {};
 
     if (cryptoId) where.cryptoId = cryptoId;
     if (strategyId) where.strategyId = strategyId;
     if (type) where.type = type;
+    if (status) where.status = status;
 
     return this.prisma.signal.findMany({
       where,
       include: {
         crypto: true,
         strategy: true,
+        outcome: true,
       },
       orderBy: {
         timestamp: "desc",
@@ -115,6 +120,7 @@ export class SignalsService {
       include: {
         crypto: true,
         strategy: true,
+        outcome: true,
       },
     });
 
@@ -179,25 +185,13 @@ export class SignalsService {
             continue;
           }
 
-          // Create signal
-          const signal = await this.prisma.signal.create({
-            data: {
-              userId: "system",
-              cryptoId: crypto.id,
-              strategyId: strategy.id,
-              type: result.signal.type,
-              price: result.signal.price,
-              timeframe: result.signal.timeframe,
-              confidence: result.signal.confidence,
-              suggestedSL: result.signal.stopLoss,
-              suggestedTP: result.signal.takeProfit,
-              indicators: result.signal.metadata || {},
-            },
-            include: {
-              crypto: true,
-              strategy: true,
-            },
+          const { action, signal } = await this.signalLifecycle.reconcile({
+            cryptoId: crypto.id,
+            strategyId: strategy.id,
+            strategyName,
+            signal: result.signal,
           });
+          if (action !== "CREATED" || !signal) continue;
 
           generatedSignals.push(signal);
         }
@@ -277,6 +271,7 @@ export class SignalsService {
       include: {
         strategy: true,
         crypto: true,
+        outcome: true,
       },
       orderBy: {
         timestamp: "desc",
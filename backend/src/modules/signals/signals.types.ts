@@ -0,0 +1,64 @@
+// Signals Types
+
+import { Prisma, SignalOutcomeType } from "@prisma/client";
+
+export type SignalWithRelations = Prisma.SignalGetPayload<{
+  include: { crypto: true; strategy: true };
+}>;
+
+export interface SignalReconcileResult {
+  // CREATED: new signal to announce; UPDATED: open signal re-confirmed;
+  // UNCHANGED: nothing to report; COOLDOWN: suppressed duplicate
+  action: "CREATED" | "UPDATED" | "UNCHANGED" | "COOLDOWN";
+  signal: SignalWithRelations | null;
+}
+
+export interface ResolvedOutcome {
+  outcome: SignalOutcomeType;
+  exitPrice: number;
+  returnPct: number;
+  mfePct: number;
+  maePct: number;
+  barsToOutcome: number;
+  minutesToOutcome: number;
+  resolvedAt: Date;
+}
+
+export interface SignalPerformanceQuery {
+  strategy?: string;
+  symbol?: string;
+  timeframe?: string;
+  days?: number; // Signals emitted in the last N days
+}
+
+export interface SignalPerformanceStats {
+  signals: number; // Emitted, resolved or not
+  pending: number;
+  resolved: number;
+  tpHits: number;
+  slHits: number;
+  expired: number;
+  // TP hits over TP + SL hits (expired signals decided nothing)
+  hitRate: number;
+  // Resolved signals with a positive return, expired ones included
+  winRate: number;
+  avgReturnPct: number;
+  totalReturnPct: number;
+  avgMfePct: number;
+  avgMaePct: number;
+  avgBarsToOutcome: number;
+  avgMinutesToOutcome: number;
+}
+
+export interface SignalPerformanceGroup extends SignalPerformanceStats {
+  strategy: string;
+  symbol: string;
+  timeframe: string;
+}
+
+export interface SignalPerformanceReport {
+  since: Date;
+  overall: SignalPerformanceStats;
+  byStrategy: (SignalPerformanceStats & { strategy: string })[];
+  groups: SignalPerformanceGroup[];
+}
@@ -0,0 +1,186 @@
+import { BadRequestException } from "@nestjs/common";
+import {
+  ConsensusLevel,
+  ConsensusResult,
+  ConsensusVote,
+  StrategyHitRate,
+  StrategyResult,
+} from "./strategies.types";
+
+/**
+ * Strategies that vote in the consensus and their default weights
+ * (overridable with CONSENSUS_WEIGHTS or per request)
+ */
+export const DEFAULT_CONSENSUS_WEIGHTS: Record<string, number> = {
+  SMART_MONEY: 1,
+  ORDER_FLOW: 1,
+  RSI_VOLUME: 1,
+  EMA_RIBBON: 1,
+  MACD_RSI: 1,
+};
+
+// |score| needed for BUY/SELL and STRONG_BUY/STRONG_SELL. With equal
+// weights and five strategies: 2 agreeing votes = BUY, 4 = STRONG_BUY
+const SIGNAL_THRESHOLD = 0.35;
+const STRONG_THRESHOLD = 0.7;
+
+// Hit rates are shrunk toward 50% as if every strategy had this many extra
+// signals, so a 3-for-3 streak does not triple a weight
+const PRIOR_SIGNALS = 10;
+const MIN_PERFORMANCE_FACTOR = 0.25;
+const MAX_PERFORMANCE_FACTOR = 2;
+
+/**
+ * Parse "SMART_MONEY:2,MACD_RSI:0.5" into weight overrides
+ */
+export function parseConsensusWeights(
+  value?: string,
+): Record<string, number> | undefined {
+  if (!value) return undefined;
+
+  const weights: Record<string, number> = {};
+  for (const pair of value.split(",")) {
+    const [name, raw] = pair.split(":").map((part) => part.trim());
+    const weight = Number(raw);
+
+    if (!(name in DEFAULT_CONSENSUS_WEIGHTS)) {
+      throw new BadRequestException(
+        `Unknown consensus strategy ${name}. Use one of: ${Object.keys(DEFAULT_CONSENSUS_WEIGHTS).join(", ")}`,
+      );
+    }
+    if (
+      raw === undefined ||
+      raw === "" ||
+      !Number.isFinite(weight) ||
+      weight < 0
+    ) {
+      throw new BadRequestException(
+        `Weight of ${name} must be a non-negative number`,
+      );
+    }
+    weights[name] = weight;
+  }
+
+  return weights;
+}
+
+/**
+ * Weight multiplier for a strategy's track record: 1 at a 50% hit rate,
+ * more above it, less below it
+ */
+export function performanceFactor(hitRate?: StrategyHitRate): number {
+  if (!hitRate) return 1;
+
+  const adjusted =
+    (hitRate.hits + PRIOR_SIGNALS * 0.5) / (hitRate.signals + PRIOR_SIGNALS);
+  return Math.min(
+    Math.max(adjusted / 0.5, MIN_PERFORMANCE_FACTOR),
+    MAX_PERFORMANCE_FACTOR,
+  );
+}
+
+/**
+ * Combine per-strategy results into a weighted vote. Each BUY counts +weight
+ * and each SELL -weight; the score is their sum over the total weight.
+ */
+export function buildConsensus(
+  symbol: string,
+  timeframe: string,
+  strategies: Record<string, StrategyResult>,
+  weights: Record<string, number>,
+  hitRates?: Record<string, StrategyHitRate>,
+): ConsensusResult {
+  const draft = Object.entries(strategies).map(([strategy, result]) => {
+    const baseWeight = weights[strategy] ?? 1;
+    const factor = hitRates ? performanceFactor(hitRates[strategy]) : 1;
+    return {
+      strategy,
+      vote: result.signal?.type ?? ("NONE" as const),
+      confidence: result.signal?.confidence ?? 0,
+      baseWeight,
+      performanceFactor: factor,
+      weight: baseWeight * factor,
+      hitRate: hitRates?.[strategy],
+    };
+  });
+
+  const totalWeight = draft.reduce((sum, v) => sum + v.weight, 0);
+  const votes: ConsensusVote[] = draft.map((v) => {
+    const direction = v.vote === "BUY" ? 1 : v.vote === "SELL" ? -1 : 0;
+    const contribution =
+      totalWeight > 0 ? (direction * v.weight) / totalWeight : 0;
+    return {
+      ...v,
+      contribution,
+      explanation: describeVote(v, contribution),
+    };
+  });
+
+  const score = votes.reduce((sum, v) => sum + v.contribution, 0);
+  const consensus = toLevel(score);
+
+  const weightOf = (vote: string) =>
+    votes.filter((v) => v.vote === vote).reduce((sum, v) => sum + v.weight, 0);
+  const agreementRate =
+    totalWeight > 0
+      ? Math.max(weightOf("BUY"), weightOf("SELL")) / totalWeight
+      : 0;
+
+  // Confidence of the side that won, or of every active vote if none did
+  const side = score > 0 ? "BUY" : "SELL";
+  const counted = votes.filter((v) =>
+    consensus === "NEUTRAL" ? v.vote !== "NONE" : v.vote === side,
+  );
+  const countedWeight = counted.reduce((sum, v) => sum + v.weight, 0);
+  const confidence =
+    countedWeight > 0
+      ? counted.reduce((sum, v) => sum + v.confidence * v.weight, 0) /
+        countedWeight
+      : 0;
+
+  const voters = (vote: string) =>
+    votes
+      .filter((v) => v.vote === vote)
+      .map((v) => v.strategy)
+      .join(", ") || "none";
+
+  return {
+    symbol,
+    timeframe,
+    consensus,
+    score,
+    confidence,
+    strategies,
+    agreementRate,
+    adaptive: hitRates !== undefined,
+    votes,
+    explanation: `Weighted score ${formatSigned(score)} -> ${consensus} (|score| >= ${SIGNAL_THRESHOLD} signal, >= ${STRONG_THRESHOLD} strong). BUY: ${voters("BUY")}. SELL: ${voters("SELL")}.`,
+  };
+}
+
+function toLevel(score: number): ConsensusLevel {
+  if (score >= STRONG_THRESHOLD) return "STRONG_BUY";
+  if (score >= SIGNAL_THRESHOLD) return "BUY";
+  if (score <= -STRONG_THRESHOLD) return "STRONG_SELL";
+  if (score <= -SIGNAL_THRESHOLD) return "SELL";
+  return "NEUTRAL";
+}
+
+function describeVote(
+  vote: Omit<ConsensusVote, "contribution" | "explanation">,
+  contribution: number,
+): string {
+  const action =
+    vote.vote === "NONE"
+      ? "No signal"
+      : `${vote.vote} at ${vote.confidence.toFixed(0)}% confidence`;
+  const track = vote.hitRate
+    ? ` x ${vote.performanceFactor.toFixed(2)} (hit rate ${(vote.hitRate.hitRate * 100).toFixed(0)}% over ${vote.hitRate.signals} signals)`
+    : "";
+
+  return `${action}, weight ${vote.baseWeight.toFixed(2)}${track} -> ${formatSigned(contribution)}`;
+}
+
+function formatSigned(value: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(2)}`;
+}
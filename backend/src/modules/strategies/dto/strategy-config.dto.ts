@@ -0,0 +1,81 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsIn,
+  IsObject,
+  IsOptional,
+  IsString,
+} from "class-validator";
+import { StrategyType } from "@prisma/client";
+import { INTERVAL_MS } from "../../market-data/market-data.types";
+
+export class CreateStrategyConfigDto {
+  @ApiProperty({ example: "My RSI scalper" })
+  @IsString()
+  name: string;
+
+  @ApiPropertyOptional({ example: "Tighter RSI bands for 15m" })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ enum: StrategyType, example: StrategyType.RSI_VOLUME })
+  @IsEnum(StrategyType)
+  type: StrategyType;
+
+  @ApiPropertyOptional({
+    description:
+      "Parameter overrides, validated against the schema from GET /strategies",
+    example: { rsiOversold: 25, rsiOverbought: 75 },
+  })
+  @IsOptional()
+  @IsObject()
+  config?: Record<string, any>;
+
+  @ApiPropertyOptional({
+    enum: Object.keys(INTERVAL_MS),
+    isArray: true,
+    example: ["1h", "4h"],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(Object.keys(INTERVAL_MS), { each: true })
+  timeframes?: string[];
+}
+
+export class UpdateStrategyConfigDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ example: { rsiOversold: 25 } })
+  @IsOptional()
+  @IsObject()
+  config?: Record<string, any>;
+
+  @ApiPropertyOptional({
+    enum: Object.keys(INTERVAL_MS),
+    isArray: true,
+    example: ["1h", "4h"],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(Object.keys(INTERVAL_MS), { each: true })
+  timeframes?: string[];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
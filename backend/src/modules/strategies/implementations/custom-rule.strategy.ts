@@ -0,0 +1,450 @@
+import { Injectable, Logger } from "@nestjs/common";
+import {
+  StrategyResult,
+  IStrategy,
+  BacktestResult,
+  StrategyEvaluation,
+  StrategyParamDefinition,
+  StrategyParams,
+  CustomStrategyDefinition,
+  RuleNode,
+  RuleOperand,
+} from "../strategies.types";
+import { noSignal, toStrategyResult } from "../strategy-evaluation";
+import { IndicatorsService } from "../../indicators/indicators.service";
+import { getIndicatorDefinition } from "../../indicators/indicator-catalog";
+import { SeriesCandle } from "../../indicators/indicators.types";
+
+const MAX_RULES = 50;
+const MAX_DEPTH = 5;
+const MAX_OFFSET = 10;
+const RULE_KEYS = [
+  "buy",
+  "sell",
+  "exit",
+  "stopLossPercent",
+  "takeProfitPercent",
+];
+const OPERATORS = [">", ">=", "<", "<="];
+
+/**
+ * Custom Rule Strategy (StrategyType.CUSTOM)
+ *
+ * Evaluates the rule trees stored in Strategy.config: comparisons and
+ * crossovers between catalogue indicators (GET /indicators/catalog) and
+ * constants, combined with AND/OR groups. One tree each for BUY, SELL and
+ * EXIT; an entry only fires when exactly one of BUY/SELL holds.
+ *
+ * Example - buy when RSI(14) < 30 and EMA 9 crosses above EMA 21:
+ * {
+ *   "buy": { "type": "and", "rules": [
+ *     { "type": "compare", "left": { "indicator": "rsi" },
+ *       "operator": "<", "right": { "value": 30 } },
+ *     { "type": "crossAbove",
+ *       "left": { "indicator": "ema", "params": { "period": 9 } },
+ *       "right": { "indicator": "ema", "params": { "period": 21 } } }
+ *   ] },
+ *   "stopLossPercent": 0.02
+ * }
+ */
+@Injectable()
+export class CustomRuleStrategy implements IStrategy {
+  private readonly logger = new Logger(CustomRuleStrategy.name);
+
+  name = "Custom Rules";
+  description =
+    "User-defined entry and exit rules combining any catalogue indicator";
+
+  lookback = 300;
+  parameters: StrategyParamDefinition[] = [];
+
+  constructor(private readonly indicatorsService: IndicatorsService) {}
+
+  async analyze(
+    symbol: string,
+    timeframe: string,
+    params?: StrategyParams,
+  ): Promise<StrategyResult> {
+    this.logger.log(
+      `Analyzing ${symbol} with Custom Rules strategy on ${timeframe}`,
+    );
+
+    try {
+      const candles = await this.indicatorsService.getCandles(
+        symbol,
+        timeframe,
+        this.lookback,
+      );
+      return toStrategyResult(
+        this.name,
+        symbol,
+        timeframe,
+        this.evaluate(candles, params),
+      );
+    } catch (error) {
+      this.logger.error(`Error analyzing ${symbol}:`, error);
+      return {
+        shouldEnter: false,
+        shouldExit: false,
+        analysis: `Error during analysis: ${error instanceof Error ? error.message : "Unknown error"}`,
+      };
+    }
+  }
+
+  evaluate(
+    candles: SeriesCandle[],
+    params: StrategyParams = {},
+  ): StrategyEvaluation {
+    const errors = this.validateConfig(params);
+    if (errors.length > 0) {
+      return noSignal(`Invalid rules: ${errors[0]}`);
+    }
+    if (candles.length < 2) {
+      return noSignal("Not enough candles to evaluate rules");
+    }
+
+    const definition = params as CustomStrategyDefinition;
+    const cache = new Map<string, Record<string, number[]>>();
+    const holds = (node?: RuleNode) =>
+      node !== undefined && this.check(node, candles, cache);
+
+    const buy = holds(definition.buy);
+    const sell = holds(definition.sell);
+    const shouldExit = holds(definition.exit);
+
+    const signalType = buy && !sell ? "BUY" : sell && !buy ? "SELL" : null;
+    const currentPrice = candles[candles.length - 1].close;
+    const reasoning: string[] = [];
+
+    if (buy) reasoning.push(`BUY rules met: ${this.describe(definition.buy!)}`);
+    if (sell) {
+      reasoning.push(`SELL rules met: ${this.describe(definition.sell!)}`);
+    }
+    if (buy && sell) {
+      reasoning.push("BUY and SELL rules both met - no entry");
+    }
+    if (shouldExit) {
+      reasoning.push(`EXIT rules met: ${this.describe(definition.exit!)}`);
+    }
+
+    const { stopLossPercent, takeProfitPercent } = definition;
+    const direction = signalType === "SELL" ? -1 : 1;
+
+    return {
+      type: signalType,
+      shouldEnter: signalType !== null,
+      shouldExit,
+      price: currentPrice,
+      confidence: signalType ? 70 : 0,
+      stopLoss: stopLossPercent
+        ? currentPrice * (1 - direction * stopLossPercent)
+        : undefined,
+      takeProfit: takeProfitPercent
+        ? currentPrice * (1 + direction * takeProfitPercent)
+        : undefined,
+      analysis:
+        reasoning.length > 0 ? reasoning.join(". ") : "No rule conditions met",
+      metadata: { buy, sell, exit: shouldExit },
+    };
+  }
+
+  /**
+   * Structural check of a rule definition: known indicators, outputs and
+   * params in range, bounded size and depth
+   */
+  validateConfig(config: unknown): string[] {
+    if (!config || typeof config !== "object" || Array.isArray(config)) {
+      return ["config must be an object"];
+    }
+
+    const definition = config as Record<string, any>;
+    const errors: string[] = [];
+    const counter = { rules: 0 };
+
+    for (const key of Object.keys(definition)) {
+      if (!RULE_KEYS.includes(key)) errors.push(`Unknown key ${key}`);
+    }
+    if (!definition.buy && !definition.sell) {
+      errors.push("At least one of buy or sell rules is required");
+    }
+
+    for (const key of ["buy", "sell", "exit"]) {
+      if (definition[key] !== undefined) {
+        this.validateNode(definition[key], key, 1, errors, counter);
+      }
+    }
+    if (counter.rules > MAX_RULES) {
+      errors.push(`At most ${MAX_RULES} rules are allowed`);
+    }
+
+    for (const key of ["stopLossPercent", "takeProfitPercent"]) {
+      const value = definition[key];
+      if (
+        value !== undefined &&
+        (typeof value !== "number" || !(value > 0 && value <= 0.5))
+      ) {
+        errors.push(`${key} must be a number between 0 and 0.5`);
+      }
+    }
+
+    return errors;
+  }
+
+  private check(
+    node: RuleNode,
+    candles: SeriesCandle[],
+    cache: Map<string, Record<string, number[]>>,
+  ): boolean {
+    switch (node.type) {
+      case "and":
+        return node.rules.every((rule) => this.check(rule, candles, cache));
+      case "or":
+        return node.rules.some((rule) => this.check(rule, candles, cache));
+      case "compare": {
+        const left = this.operandValue(node.left, candles, cache, 0);
+        const right = this.operandValue(node.right, candles, cache, 0);
+        if (isNaN(left) || isNaN(right)) return false;
+
+        switch (node.operator) {
+          case ">":
+            return left > right;
+          case ">=":
+            return left >= right;
+          case "<":
+            return left < right;
+          case "<=":
+            return left <= right;
+        }
+        return false;
+      }
+      case "crossAbove":
+      case "crossBelow": {
+        const left = this.operandValue(node.left, candles, cache, 0);
+        const right = this.operandValue(node.right, candles, cache, 0);
+        const prevLeft = this.operandValue(node.left, candles, cache, 1);
+        const prevRight = this.operandValue(node.right, candles, cache, 1);
+        if ([left, right, prevLeft, prevRight].some((v) => isNaN(v))) {
+          return false;
+        }
+
+        return node.type === "crossAbove"
+          ? prevLeft <= prevRight && left > right
+          : prevLeft >= prevRight && left < right;
+      }
+    }
+  }
+
+  /**
+   * Operand value `barsBack` bars before the current one (NaN if unknown)
+   */
+  private operandValue(
+    operand: RuleOperand,
+    candles: SeriesCandle[],
+    cache: Map<string, Record<string, number[]>>,
+    barsBack: number,
+  ): number {
+    if ("value" in operand) return operand.value;
+
+    const key = `${operand.indicator}|${JSON.stringify(operand.params || {})}`;
+    let outputs = cache.get(key);
+    if (!outputs) {
+      outputs = this.indicatorsService.calculateIndicatorFromCandles(
+        candles,
+        operand.indicator,
+        operand.params,
+      );
+      cache.set(key, outputs);
+    }
+
+    const series = operand.output
+      ? outputs[operand.output]
+      : Object.values(outputs)[0];
+    const index = candles.length - 1 - (operand.offset ?? 0) - barsBack;
+    return series?.[index] ?? NaN;
+  }
+
+  private describe(node: RuleNode): string {
+    switch (node.type) {
+      case "and":
+      case "or":
+        return `(${node.rules
+          .map((rule) => this.describe(rule))
+          .join(node.type === "and" ? " AND " : " OR ")})`;
+      case "compare":
+        return `${this.describeOperand(node.left)} ${node.operator} ${this.describeOperand(node.right)}`;
+      case "crossAbove":
+        return `${this.describeOperand(node.left)} crosses above ${this.describeOperand(node.right)}`;
+      case "crossBelow":
+        return `${this.describeOperand(node.left)} crosses below ${this.describeOperand(node.right)}`;
+    }
+  }
+
+  /**
+   * e.g. "rsi(14)", "macd(12,26,9).histogram", "close[1]"
+   */
+  private describeOperand(operand: RuleOperand): string {
+    if ("value" in operand) return String(operand.value);
+
+    const definition = getIndicatorDefinition(operand.indicator);
+    const params = (definition?.params || []).map(
+      (param) => operand.params?.[param.name] ?? param.default,
+    );
+
+    return [
+      operand.indicator,
+      params.length > 0 ? `(${params.join(",")})` : "",
+      operand.output ? `.${operand.output}` : "",
+      operand.offset ? `[${operand.offset}]` : "",
+    ].join("");
+  }
+
+  private validateNode(
+    node: any,
+    path: string,
+    depth: number,
+    errors: string[],
+    counter: { rules: number },
+  ): void {
+    counter.rules++;
+
+    if (!node || typeof node !== "object") {
+      errors.push(`${path} must be a rule object`);
+      return;
+    }
+    if (depth > MAX_DEPTH) {
+      errors.push(`${path} is nested deeper than ${MAX_DEPTH} levels`);
+      return;
+    }
+
+    switch (node.type) {
+      case "and":
+      case "or":
+        if (!Array.isArray(node.rules) || node.rules.length === 0) {
+          errors.push(`${path}.rules must be a non-empty array`);
+          return;
+        }
+        node.rules.forEach((rule: any, i: number) =>
+          this.validateNode(
+            rule,
+            `${path}.rules[${i}]`,
+            depth + 1,
+            errors,
+            counter,
+          ),
+        );
+        return;
+      case "compare":
+        if (!OPERATORS.includes(node.operator)) {
+          errors.push(
+            `${path}.operator must be one of ${OPERATORS.join(", ")}`,
+          );
+        }
+        break;
+      case "crossAbove":
+      case "crossBelow":
+        break;
+      default:
+        errors.push(
+          `${path}.type must be one of and, or, compare, crossAbove, crossBelow`,
+        );
+        return;
+    }
+
+    this.validateOperand(node.left, `${path}.left`, errors);
+    this.validateOperand(node.right, `${path}.right`, errors);
+  }
+
+  private validateOperand(operand: any, path: string, errors: string[]): void {
+    if (!operand || typeof operand !== "object") {
+      errors.push(`${path} must be an operand object`);
+      return;
+    }
+
+    if ("value" in operand) {
+      if (typeof operand.value !== "number" || !isFinite(operand.value)) {
+        errors.push(`${path}.value must be a number`);
+      }
+      return;
+    }
+
+    const definition = getIndicatorDefinition(operand.indicator);
+    if (!definition) {
+      errors.push(
+        `${path}.indicator ${operand.indicator} is not in the catalog`,
+      );
+      return;
+    }
+
+    if (
+      operand.output !== undefined &&
+      !definition.outputs.includes(operand.output)
+    ) {
+      errors.push(
+        `${path}.output must be one of ${definition.outputs.join(", ")}`,
+      );
+    }
+
+    if (
+      operand.offset !== undefined &&
+      !(
+        Number.isInteger(operand.offset) &&
+        operand.offset >= 0 &&
+        operand.offset <= MAX_OFFSET
+      )
+    ) {
+      errors.push(`${path}.offset must be an integer from 0 to ${MAX_OFFSET}`);
+    }
+
+    if (operand.params === undefined) return;
+    if (typeof operand.params !== "object" || Array.isArray(operand.params)) {
+      errors.push(`${path}.params must be an object`);
+      return;
+    }
+
+    for (const [name, value] of Object.entries(operand.params)) {
+      const param = definition.params.find((p) => p.name === name);
+      if (!param) {
+        errors.push(`${path}.params.${name} is not a ${definition.name} param`);
+      } else if (
+        typeof value !== "number" ||
+        (param.integer && !Number.isInteger(value)) ||
+        value < param.min ||
+        value > param.max
+      ) {
+        errors.push(
+          `${path}.params.${name} must be ${param.integer ? "an integer" : "a number"} from ${param.min} to ${param.max}`,
+        );
+      }
+    }
+  }
+
+  async backtest(
+    symbol: string,
+    timeframe: string,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<BacktestResult> {
+    // Rule sets are backtested through BacktestingService with a saved config
+    this.logger.log(`Backtesting ${symbol} from ${startDate} to ${endDate}`);
+
+    return {
+      strategy: this.name,
+      symbol,
+      timeframe,
+      startDate,
+      endDate,
+      totalTrades: 0,
+      winningTrades: 0,
+      losingTrades: 0,
+      winRate: 0,
+      totalProfit: 0,
+      totalLoss: 0,
+      netProfit: 0,
+      profitFactor: 0,
+      averageWin: 0,
+      averageLoss: 0,
+      maxDrawdown: 0,
+      sharpeRatio: 0,
+    };
+  }
+}
@@ -3,9 +3,14 @@ import {
   StrategyResult,
   IStrategy,
   BacktestResult,
-  StrategySignal,
+  StrategyEvaluation,
+  StrategyParamDefinition,
+  StrategyParams,
 } from "../strategies.types";
+import { noSignal, toStrategyResult } from "../strategy-evaluation";
+import { resolveParams } from "../strategy-params";
 import { IndicatorsService } from "../../indicators/indicators.service";
+import { SeriesCandle } from "../../indicators/indicators.types";
 
 /**
  * EMA Ribbon Strategy
@@ -27,6 +32,8 @@ import { IndicatorsService } from "../../indicators/indicators.service";
  * - Price crosses below key EMAs
  * - Stop Loss: Below EMA 50 (BUY) or above (SELL)
  * - Take Profit: 3:1 Risk-Reward
+ *
+ * Ribbon periods, stop and R:R are configurable (see `parameters`).
  */
 @Injectable()
 export class EmaRibbonStrategy implements IStrategy {
@@ -36,214 +43,284 @@ export class EmaRibbonStrategy implements IStrategy {
   description =
     "Strategy using EMA ribbon alignment for trend following. Win rate: 65-70%";
 
+  lookback = 260;
+  parameters: StrategyParamDefinition[] = [
+    {
+      name: "fastPeriod",
+      type: "integer",
+      description: "Fastest ribbon EMA",
+      default: 5,
+      min: 2,
+      max: 20,
+    },
+    {
+      name: "shortPeriod",
+      type: "integer",
+      description: "Second ribbon EMA",
+      default: 10,
+      min: 3,
+      max: 40,
+    },
+    {
+      name: "midPeriod",
+      type: "integer",
+      description: "Middle ribbon EMA, confirms moderate entries",
+      default: 20,
+      min: 5,
+      max: 60,
+    },
+    {
+      name: "slowPeriod",
+      type: "integer",
+      description: "Slow ribbon EMA, used as stop loss reference",
+      default: 50,
+      min: 20,
+      max: 150,
+    },
+    {
+      name: "trendPeriod",
+      type: "integer",
+      description: "Slowest ribbon EMA (long-term trend)",
+      default: 200,
+      min: 50,
+      max: 250,
+    },
+    {
+      name: "minSpreadPercent",
+      type: "number",
+      description: "Fast/trend EMA spread (%) that counts as a strong trend",
+      default: 5,
+      min: 0.5,
+      max: 50,
+      step: 0.5,
+    },
+    {
+      name: "riskReward",
+      type: "number",
+      description: "Take profit distance as a multiple of the stop distance",
+      default: 3,
+      min: 1,
+      max: 10,
+      step: 0.5,
+    },
+    {
+      name: "minStopPercent",
+      type: "number",
+      description: "Minimum stop loss distance from entry",
+      default: 0.03,
+      min: 0.005,
+      max: 0.2,
+      step: 0.005,
+    },
+  ];
+
   constructor(private readonly indicatorsService: IndicatorsService) {}
 
-  async analyze(symbol: string, timeframe: string): Promise<StrategyResult> {
+  async analyze(
+    symbol: string,
+    timeframe: string,
+    params?: StrategyParams,
+  ): Promise<StrategyResult> {
     this.logger.log(
       `Analyzing ${symbol} with EMA Ribbon strategy on ${timeframe}`,
     );
 
     try {
-      // Get EMA Ribbon
-      const emaRibbon = await this.indicatorsService.calculateEMARibbon(
+      const candles = await this.indicatorsService.getCandles(
         symbol,
         timeframe,
+        this.lookback,
       );
-      if (!emaRibbon) {
-        return {
-          shouldEnter: false,
-          shouldExit: false,
-          analysis:
-            "Unable to calculate EMA Ribbon - insufficient data (needs 200+ candles)",
-        };
-      }
-
-      // Get current price
-      const bb = await this.indicatorsService.calculateBollingerBands(
+      return toStrategyResult(
+        this.name,
         symbol,
         timeframe,
+        this.evaluate(candles, params),
       );
-      const currentPrice = bb?.currentPrice || 0;
+    } catch (error) {
+      this.logger.error(`Error analyzing ${symbol}:`, error);
+      return {
+        shouldEnter: false,
+        shouldExit: false,
+        analysis: `Error during analysis: ${error instanceof Error ? error.message : "Unknown error"}`,
+      };
+    }
+  }
 
-      // Get MACD for momentum confirmation
-      const macd = await this.indicatorsService.calculateMACD(
-        symbol,
-        timeframe,
+  evaluate(
+    candles: SeriesCandle[],
+    params: StrategyParams = {},
+  ): StrategyEvaluation {
+    const p = resolveParams(this.parameters, params);
+    const periods: number[] = [
+      p.fastPeriod,
+      p.shortPeriod,
+      p.midPeriod,
+      p.slowPeriod,
+      p.trendPeriod,
+    ];
+
+    const ribbon = periods.map(
+      (period) =>
+        this.indicatorsService.calculateEMAFromCandles(candles, period)
+          ?.value ?? NaN,
+    );
+    if (ribbon.some((value) => isNaN(value))) {
+      return noSignal(
+        `Unable to calculate EMA Ribbon - insufficient data (needs ${p.trendPeriod}+ candles)`,
       );
+    }
 
-      let confidence = 50;
-      let shouldEnter = false;
-      let shouldExit = false;
-      let signalType: "BUY" | "SELL" | null = null;
-      let reasoning: string[] = [];
+    const [emaFast, emaShort, emaMid, emaSlow, emaTrend] = ribbon;
+    const currentPrice = candles[candles.length - 1].close;
 
-      const { ema5, ema10, ema20, ema50, ema200, alignment } = emaRibbon;
+    // MACD for momentum confirmation
+    const macd = this.indicatorsService.calculateMACDFromCandles(candles);
 
-      // Check price position relative to EMAs
-      const priceAboveAllEmas =
-        currentPrice > ema5 &&
-        currentPrice > ema10 &&
-        currentPrice > ema20 &&
-        currentPrice > ema50 &&
-        currentPrice > ema200;
-      const priceBelowAllEmas =
-        currentPrice < ema5 &&
-        currentPrice < ema10 &&
-        currentPrice < ema20 &&
-        currentPrice < ema50 &&
-        currentPrice < ema200;
+    let confidence = 50;
+    let shouldEnter = false;
+    let shouldExit = false;
+    let signalType: "BUY" | "SELL" | null = null;
+    let reasoning: string[] = [];
 
-      // BUY Signal: Bullish EMA alignment
-      if (alignment === "BULLISH") {
-        reasoning.push(
-          "EMAs are in bullish alignment (5 > 10 > 20 > 50 > 200)",
-        );
-        confidence += 20;
+    // Bullish if shorter EMAs are above longer EMAs
+    let alignment: "BULLISH" | "BEARISH" | "MIXED" = "MIXED";
+    if (ribbon.every((value, i) => i === 0 || ribbon[i - 1] > value)) {
+      alignment = "BULLISH";
+    } else if (ribbon.every((value, i) => i === 0 || ribbon[i - 1] < value)) {
+      alignment = "BEARISH";
+    }
 
-        if (priceAboveAllEmas) {
-          reasoning.push("Price is above all EMAs - strong uptrend");
-          confidence += 15;
-          shouldEnter = true;
-          signalType = "BUY";
-        } else if (currentPrice > ema20) {
-          reasoning.push("Price above EMA 20 - moderate bullish");
-          confidence += 10;
-          shouldEnter = true;
-          signalType = "BUY";
-        }
+    // Check price position relative to EMAs
+    const priceAboveAllEmas = ribbon.every((value) => currentPrice > value);
+    const priceBelowAllEmas = ribbon.every((value) => currentPrice < value);
 
-        // MACD confirmation
-        if (macd && macd.trend === "BULLISH") {
-          reasoning.push("MACD confirms bullish momentum");
-          confidence += 10;
-        }
+    // BUY Signal: Bullish EMA alignment
+    if (alignment === "BULLISH") {
+      reasoning.push(`EMAs are in bullish alignment (${periods.join(" > ")})`);
+      confidence += 20;
 
-        // Check ribbon spread (wider = stronger trend)
-        const ribbonSpread = ((ema5 - ema200) / ema200) * 100;
-        if (ribbonSpread > 5) {
-          reasoning.push(
-            `Wide ribbon spread (${ribbonSpread.toFixed(2)}%) - strong trend`,
-          );
-          confidence += 5;
-        }
+      if (priceAboveAllEmas) {
+        reasoning.push("Price is above all EMAs - strong uptrend");
+        confidence += 15;
+        shouldEnter = true;
+        signalType = "BUY";
+      } else if (currentPrice > emaMid) {
+        reasoning.push(`Price above EMA ${p.midPeriod} - moderate bullish`);
+        confidence += 10;
+        shouldEnter = true;
+        signalType = "BUY";
       }
 
-      // SELL Signal: Bearish EMA alignment
-      if (alignment === "BEARISH") {
+      // MACD confirmation
+      if (macd && macd.trend === "BULLISH") {
+        reasoning.push("MACD confirms bullish momentum");
+        confidence += 10;
+      }
+
+      // Check ribbon spread (wider = stronger trend)
+      const ribbonSpread = ((emaFast - emaTrend) / emaTrend) * 100;
+      if (ribbonSpread > p.minSpreadPercent) {
         reasoning.push(
-          "EMAs are in bearish alignment (5 < 10 < 20 < 50 < 200)",
+          `Wide ribbon spread (${ribbonSpread.toFixed(2)}%) - strong trend`,
         );
-        confidence += 20;
+        confidence += 5;
+      }
+    }
 
-        if (priceBelowAllEmas) {
-          reasoning.push("Price is below all EMAs - strong downtrend");
-          confidence += 15;
-          shouldEnter = true;
-          signalType = "SELL";
-        } else if (currentPrice < ema20) {
-          reasoning.push("Price below EMA 20 - moderate bearish");
-          confidence += 10;
-          shouldEnter = true;
-          signalType = "SELL";
-        }
+    // SELL Signal: Bearish EMA alignment
+    if (alignment === "BEARISH") {
+      reasoning.push(`EMAs are in bearish alignment (${periods.join(" < ")})`);
+      confidence += 20;
 
-        // MACD confirmation
-        if (macd && macd.trend === "BEARISH") {
-          reasoning.push("MACD confirms bearish momentum");
-          confidence += 10;
-        }
+      if (priceBelowAllEmas) {
+        reasoning.push("Price is below all EMAs - strong downtrend");
+        confidence += 15;
+        shouldEnter = true;
+        signalType = "SELL";
+      } else if (currentPrice < emaMid) {
+        reasoning.push(`Price below EMA ${p.midPeriod} - moderate bearish`);
+        confidence += 10;
+        shouldEnter = true;
+        signalType = "SELL";
+      }
 
-        // Check ribbon spread
-        const ribbonSpread = ((ema200 - ema5) / ema200) * 100;
-        if (ribbonSpread > 5) {
-          reasoning.push(
-            `Wide ribbon spread (${ribbonSpread.toFixed(2)}%) - strong trend`,
-          );
-          confidence += 5;
-        }
+      // MACD confirmation
+      if (macd && macd.trend === "BEARISH") {
+        reasoning.push("MACD confirms bearish momentum");
+        confidence += 10;
       }
 
-      // EXIT conditions: Mixed alignment or price crossing key EMAs
-      if (alignment === "MIXED") {
-        shouldExit = true;
+      // Check ribbon spread
+      const ribbonSpread = ((emaTrend - emaFast) / emaTrend) * 100;
+      if (ribbonSpread > p.minSpreadPercent) {
         reasoning.push(
-          "EMAs in mixed alignment - trend weakening, consider exit",
+          `Wide ribbon spread (${ribbonSpread.toFixed(2)}%) - strong trend`,
         );
-
-        // Check for potential reversal
-        const bullishCross = ema5 > ema10 && currentPrice > ema20;
-        const bearishCross = ema5 < ema10 && currentPrice < ema20;
-
-        if (bullishCross) {
-          reasoning.push(
-            "Early bullish crossover detected - potential trend change",
-          );
-        } else if (bearishCross) {
-          reasoning.push(
-            "Early bearish crossover detected - potential trend change",
-          );
-        }
+        confidence += 5;
       }
+    }
 
-      // Cap confidence
-      confidence = Math.min(confidence, 95);
+    // EXIT conditions: Mixed alignment or price crossing key EMAs
+    if (alignment === "MIXED") {
+      shouldExit = true;
+      reasoning.push(
+        "EMAs in mixed alignment - trend weakening, consider exit",
+      );
 
-      // Build signal
-      let signal: StrategySignal | undefined;
-      if (shouldEnter && signalType && currentPrice > 0) {
-        // Use EMA 50 as stop loss reference
-        const stopLossDistance = Math.abs(currentPrice - ema50);
-        const stopLossPercent = stopLossDistance / currentPrice;
-        const takeProfitPercent = stopLossPercent * 3; // 3:1 R:R
+      // Check for potential reversal
+      const bullishCross = emaFast > emaShort && currentPrice > emaMid;
+      const bearishCross = emaFast < emaShort && currentPrice < emaMid;
 
-        signal = {
-          symbol,
-          strategy: this.name,
-          timeframe,
-          timestamp: new Date(),
-          type: signalType,
-          price: currentPrice,
-          confidence,
-          stopLoss:
-            signalType === "BUY"
-              ? Math.min(ema50, currentPrice * 0.97) // Below EMA50 or 3%
-              : Math.max(ema50, currentPrice * 1.03),
-          takeProfit:
-            signalType === "BUY"
-              ? currentPrice * (1 + takeProfitPercent)
-              : currentPrice * (1 - takeProfitPercent),
-          reasoning: reasoning.join(". "),
-          metadata: {
-            ema5,
-            ema10,
-            ema20,
-            ema50,
-            ema200,
-            alignment,
-            priceAboveAllEmas,
-            priceBelowAllEmas,
-            macdTrend: macd?.trend || "UNKNOWN",
-          },
-        };
+      if (bullishCross) {
+        reasoning.push(
+          "Early bullish crossover detected - potential trend change",
+        );
+      } else if (bearishCross) {
+        reasoning.push(
+          "Early bearish crossover detected - potential trend change",
+        );
       }
-
-      return {
-        signal,
-        shouldEnter,
-        shouldExit,
-        analysis:
-          reasoning.length > 0
-            ? reasoning.join(". ")
-            : `EMA Ribbon alignment: ${alignment}. Price: $${currentPrice.toFixed(2)} - No clear signal`,
-      };
-    } catch (error) {
-      this.logger.error(`Error analyzing ${symbol}:`, error);
-      return {
-        shouldEnter: false,
-        shouldExit: false,
-        analysis: `Error during analysis: ${error instanceof Error ? error.message : "Unknown error"}`,
-      };
     }
+
+    // Cap confidence
+    confidence = Math.min(confidence, 95);
+
+    // Use the slow EMA as stop loss reference
+    const stopLossPercent = Math.abs(currentPrice - emaSlow) / currentPrice;
+    const takeProfitPercent = stopLossPercent * p.riskReward;
+
+    return {
+      type: signalType,
+      shouldEnter,
+      shouldExit,
+      price: currentPrice,
+      confidence,
+      stopLoss:
+        signalType === "BUY"
+          ? Math.min(emaSlow, currentPrice * (1 - p.minStopPercent))
+          : Math.max(emaSlow, currentPrice * (1 + p.minStopPercent)),
+      takeProfit:
+        signalType === "BUY"
+          ? currentPrice * (1 + takeProfitPercent)
+          : currentPrice * (1 - takeProfitPercent),
+      analysis:
+        reasoning.length > 0
+          ? reasoning.join(". ")
+          : `EMA Ribbon alignment: ${alignment}. Price: $${currentPrice.toFixed(2)} - No clear signal`,
+      metadata: {
+        periods,
+        emaFast,
+        emaShort,
+        emaMid,
+        emaSlow,
+        emaTrend,
+        alignment,
+        priceAboveAllEmas,
+        priceBelowAllEmas,
+        macdTrend: macd?.trend || "UNKNOWN",
+      },
+    };
   }
 
   async backtest(
@@ -3,9 +3,14 @@ import {
   StrategyResult,
   IStrategy,
   BacktestResult,
-  StrategySignal,
+  StrategyEvaluation,
+  StrategyParamDefinition,
+  StrategyParams,
 } from "../strategies.types";
+import { noSignal, toStrategyResult } from "../strategy-evaluation";
+import { resolveParams } from "../strategy-params";
 import { IndicatorsService } from "../../indicators/indicators.service";
+import { SeriesCandle } from "../../indicators/indicators.types";
 
 /**
  * MACD + RSI Confluence Strategy
@@ -38,250 +43,290 @@ export class MacdRsiStrategy implements IStrategy {
   description =
     "Strategy combining MACD crossovers with RSI confirmation. Win rate: 63-68%";
 
+  lookback = 100;
+  parameters: StrategyParamDefinition[] = [
+    {
+      name: "macdFast",
+      type: "integer",
+      description: "MACD fast EMA period",
+      default: 12,
+      min: 2,
+      max: 50,
+    },
+    {
+      name: "macdSlow",
+      type: "integer",
+      description: "MACD slow EMA period",
+      default: 26,
+      min: 5,
+      max: 60,
+    },
+    {
+      name: "macdSignal",
+      type: "integer",
+      description: "MACD signal line period",
+      default: 9,
+      min: 2,
+      max: 20,
+    },
+    {
+      name: "rsiPeriod",
+      type: "integer",
+      description: "RSI period",
+      default: 14,
+      min: 2,
+      max: 50,
+    },
+    {
+      name: "stopLossPercent",
+      type: "number",
+      description: "Stop loss distance from entry",
+      default: 0.025,
+      min: 0.001,
+      max: 0.2,
+      step: 0.001,
+    },
+    {
+      name: "takeProfitPercent",
+      type: "number",
+      description: "Take profit distance from entry",
+      default: 0.05,
+      min: 0.001,
+      max: 0.5,
+      step: 0.001,
+    },
+  ];
+
   constructor(private readonly indicatorsService: IndicatorsService) {}
 
-  async analyze(symbol: string, timeframe: string): Promise<StrategyResult> {
+  async analyze(
+    symbol: string,
+    timeframe: string,
+    params?: StrategyParams,
+  ): Promise<StrategyResult> {
     this.logger.log(
       `Analyzing ${symbol} with MACD+RSI strategy on ${timeframe}`,
     );
 
     try {
-      // Get MACD
-      const macd = await this.indicatorsService.calculateMACD(
+      const candles = await this.indicatorsService.getCandles(
         symbol,
         timeframe,
+        this.lookback,
       );
-      if (!macd) {
-        return {
-          shouldEnter: false,
-          shouldExit: false,
-          analysis: "Unable to calculate MACD - insufficient data",
-        };
-      }
-
-      // Get RSI
-      const rsi = await this.indicatorsService.calculateRSI(
+      return toStrategyResult(
+        this.name,
         symbol,
         timeframe,
-        14,
+        this.evaluate(candles, params),
       );
-      if (!rsi) {
-        return {
-          shouldEnter: false,
-          shouldExit: false,
-          analysis: "Unable to calculate RSI - insufficient data",
-        };
-      }
+    } catch (error) {
+      this.logger.error(`Error analyzing ${symbol}:`, error);
+      return {
+        shouldEnter: false,
+        shouldExit: false,
+        analysis: `Error during analysis: ${error instanceof Error ? error.message : "Unknown error"}`,
+      };
+    }
+  }
 
-      // Get current price
-      const bb = await this.indicatorsService.calculateBollingerBands(
-        symbol,
-        timeframe,
-      );
-      const currentPrice = bb?.currentPrice || 0;
+  evaluate(
+    candles: SeriesCandle[],
+    params: StrategyParams = {},
+  ): StrategyEvaluation {
+    const p = resolveParams(this.parameters, params);
 
-      // Get volume for additional confirmation
-      const volume = await this.indicatorsService.analyzeVolume(
-        symbol,
-        timeframe,
-      );
+    const macd = this.indicatorsService.calculateMACDFromCandles(
+      candles,
+      p.macdFast,
+      p.macdSlow,
+      p.macdSignal,
+    );
+    if (!macd) {
+      return noSignal("Unable to calculate MACD - insufficient data");
+    }
 
-      let confidence = 50;
-      let shouldEnter = false;
-      let shouldExit = false;
-      let signalType: "BUY" | "SELL" | null = null;
-      let reasoning: string[] = [];
+    const rsi = this.indicatorsService.calculateRSIFromCandles(
+      candles,
+      p.rsiPeriod,
+    );
+    if (!rsi) {
+      return noSignal("Unable to calculate RSI - insufficient data");
+    }
 
-      const { histogram, trend: macdTrend } = macd;
-      const rsiValue = rsi.value;
+    const currentPrice = candles[candles.length - 1].close;
 
-      // BUY Signal: Bullish MACD + RSI not overbought
-      if (macdTrend === "BULLISH" && histogram > 0) {
-        reasoning.push(
-          `MACD is bullish with positive histogram (${histogram.toFixed(4)})`,
-        );
-        confidence += 15;
+    // Volume for additional confirmation
+    const volume = this.indicatorsService.analyzeVolumeFromCandles(candles);
 
-        // RSI confirmation - want it in the sweet spot (30-50) for best entries
-        if (rsiValue >= 30 && rsiValue <= 50) {
-          reasoning.push(
-            `RSI at ${rsiValue.toFixed(2)} - ideal buy zone (not overbought)`,
-          );
-          confidence += 20;
-          shouldEnter = true;
-          signalType = "BUY";
-        } else if (rsiValue > 50 && rsiValue < 65) {
-          reasoning.push(
-            `RSI at ${rsiValue.toFixed(2)} - moderate bullish momentum`,
-          );
-          confidence += 10;
-          shouldEnter = true;
-          signalType = "BUY";
-        } else if (rsiValue < 30) {
-          reasoning.push(
-            `RSI oversold at ${rsiValue.toFixed(2)} - potential reversal`,
-          );
-          confidence += 15;
-          shouldEnter = true;
-          signalType = "BUY";
-        } else {
-          reasoning.push(
-            `RSI overbought at ${rsiValue.toFixed(2)} - risky entry`,
-          );
-        }
+    let confidence = 50;
+    let shouldEnter = false;
+    let shouldExit = false;
+    let signalType: "BUY" | "SELL" | null = null;
+    let reasoning: string[] = [];
 
-        // Strong histogram momentum
-        if (histogram > 0.001 * currentPrice) {
-          reasoning.push("Strong MACD histogram momentum");
-          confidence += 5;
-        }
-      }
+    const { histogram, trend: macdTrend } = macd;
+    const rsiValue = rsi.value;
 
-      // SELL Signal: Bearish MACD + RSI not oversold
-      if (macdTrend === "BEARISH" && histogram < 0) {
+    // BUY Signal: Bullish MACD + RSI not overbought
+    if (macdTrend === "BULLISH" && histogram > 0) {
+      reasoning.push(
+        `MACD is bullish with positive histogram (${histogram.toFixed(4)})`,
+      );
+      confidence += 15;
+
+      // RSI confirmation - want it in the sweet spot (30-50) for best entries
+      if (rsiValue >= 30 && rsiValue <= 50) {
         reasoning.push(
-          `MACD is bearish with negative histogram (${histogram.toFixed(4)})`,
+          `RSI at ${rsiValue.toFixed(2)} - ideal buy zone (not overbought)`,
         );
-        confidence += 15;
-
-        // RSI confirmation - want it in the sweet spot (50-70) for best entries
-        if (rsiValue >= 50 && rsiValue <= 70) {
-          reasoning.push(
-            `RSI at ${rsiValue.toFixed(2)} - ideal sell zone (not oversold)`,
-          );
-          confidence += 20;
-          shouldEnter = true;
-          signalType = "SELL";
-        } else if (rsiValue < 50 && rsiValue > 35) {
-          reasoning.push(
-            `RSI at ${rsiValue.toFixed(2)} - moderate bearish momentum`,
-          );
-          confidence += 10;
-          shouldEnter = true;
-          signalType = "SELL";
-        } else if (rsiValue > 70) {
-          reasoning.push(
-            `RSI overbought at ${rsiValue.toFixed(2)} - potential reversal`,
-          );
-          confidence += 15;
-          shouldEnter = true;
-          signalType = "SELL";
-        } else {
-          reasoning.push(
-            `RSI oversold at ${rsiValue.toFixed(2)} - risky entry`,
-          );
-        }
-
-        // Strong histogram momentum
-        if (histogram < -0.001 * currentPrice) {
-          reasoning.push("Strong bearish MACD histogram momentum");
-          confidence += 5;
-        }
-      }
-
-      // Volume confirmation
-      if (volume && volume.isSignificant) {
+        confidence += 20;
+        shouldEnter = true;
+        signalType = "BUY";
+      } else if (rsiValue > 50 && rsiValue < 65) {
         reasoning.push(
-          `Volume confirmation: ${volume.volumeRatio.toFixed(2)}x average`,
+          `RSI at ${rsiValue.toFixed(2)} - moderate bullish momentum`,
         );
         confidence += 10;
+        shouldEnter = true;
+        signalType = "BUY";
+      } else if (rsiValue < 30) {
+        reasoning.push(
+          `RSI oversold at ${rsiValue.toFixed(2)} - potential reversal`,
+        );
+        confidence += 15;
+        shouldEnter = true;
+        signalType = "BUY";
+      } else {
+        reasoning.push(
+          `RSI overbought at ${rsiValue.toFixed(2)} - risky entry`,
+        );
       }
 
-      // EXIT conditions
-      // Histogram weakening (potential reversal)
-      if (
-        signalType === "BUY" &&
-        histogram < 0.0001 * currentPrice &&
-        histogram > 0
-      ) {
-        shouldExit = true;
-        reasoning.push("MACD histogram weakening - consider taking profits");
-      }
-      if (
-        signalType === "SELL" &&
-        histogram > -0.0001 * currentPrice &&
-        histogram < 0
-      ) {
-        shouldExit = true;
-        reasoning.push("MACD histogram weakening - consider taking profits");
+      // Strong histogram momentum
+      if (histogram > 0.001 * currentPrice) {
+        reasoning.push("Strong MACD histogram momentum");
+        confidence += 5;
       }
+    }
 
-      // RSI extreme levels suggest exit
-      if (rsiValue > 75) {
-        shouldExit = true;
+    // SELL Signal: Bearish MACD + RSI not oversold
+    if (macdTrend === "BEARISH" && histogram < 0) {
+      reasoning.push(
+        `MACD is bearish with negative histogram (${histogram.toFixed(4)})`,
+      );
+      confidence += 15;
+
+      // RSI confirmation - want it in the sweet spot (50-70) for best entries
+      if (rsiValue >= 50 && rsiValue <= 70) {
         reasoning.push(
-          "RSI in extreme overbought - high probability of reversal",
+          `RSI at ${rsiValue.toFixed(2)} - ideal sell zone (not oversold)`,
         );
-      }
-      if (rsiValue < 25) {
-        shouldExit = true;
+        confidence += 20;
+        shouldEnter = true;
+        signalType = "SELL";
+      } else if (rsiValue < 50 && rsiValue > 35) {
         reasoning.push(
-          "RSI in extreme oversold - high probability of reversal",
+          `RSI at ${rsiValue.toFixed(2)} - moderate bearish momentum`,
         );
-      }
-
-      // Neutral MACD
-      if (macdTrend === "NEUTRAL") {
+        confidence += 10;
+        shouldEnter = true;
+        signalType = "SELL";
+      } else if (rsiValue > 70) {
         reasoning.push(
-          "MACD neutral - no clear direction, wait for confirmation",
+          `RSI overbought at ${rsiValue.toFixed(2)} - potential reversal`,
         );
+        confidence += 15;
+        shouldEnter = true;
+        signalType = "SELL";
+      } else {
+        reasoning.push(`RSI oversold at ${rsiValue.toFixed(2)} - risky entry`);
       }
 
-      // Cap confidence
-      confidence = Math.min(confidence, 95);
+      // Strong histogram momentum
+      if (histogram < -0.001 * currentPrice) {
+        reasoning.push("Strong bearish MACD histogram momentum");
+        confidence += 5;
+      }
+    }
 
-      // Build signal
-      let signal: StrategySignal | undefined;
-      if (shouldEnter && signalType && currentPrice > 0) {
-        const stopLossPercent = 0.025; // 2.5%
-        const takeProfitPercent = 0.05; // 5% (2:1 R:R)
+    // Volume confirmation
+    if (volume && volume.isSignificant) {
+      reasoning.push(
+        `Volume confirmation: ${volume.volumeRatio.toFixed(2)}x average`,
+      );
+      confidence += 10;
+    }
 
-        signal = {
-          symbol,
-          strategy: this.name,
-          timeframe,
-          timestamp: new Date(),
-          type: signalType,
-          price: currentPrice,
-          confidence,
-          stopLoss:
-            signalType === "BUY"
-              ? currentPrice * (1 - stopLossPercent)
-              : currentPrice * (1 + stopLossPercent),
-          takeProfit:
-            signalType === "BUY"
-              ? currentPrice * (1 + takeProfitPercent)
-              : currentPrice * (1 - takeProfitPercent),
-          reasoning: reasoning.join(". "),
-          metadata: {
-            macd: macd.macd,
-            macdSignal: macd.signal,
-            histogram: macd.histogram,
-            macdTrend: macd.trend,
-            rsi: rsiValue,
-            rsiSignal: rsi.signal,
-            volumeRatio: volume?.volumeRatio || 0,
-          },
-        };
-      }
+    // EXIT conditions
+    // Histogram weakening (potential reversal)
+    if (
+      signalType === "BUY" &&
+      histogram < 0.0001 * currentPrice &&
+      histogram > 0
+    ) {
+      shouldExit = true;
+      reasoning.push("MACD histogram weakening - consider taking profits");
+    }
+    if (
+      signalType === "SELL" &&
+      histogram > -0.0001 * currentPrice &&
+      histogram < 0
+    ) {
+      shouldExit = true;
+      reasoning.push("MACD histogram weakening - consider taking profits");
+    }
 
-      return {
-        signal,
-        shouldEnter,
-        shouldExit,
-        analysis:
-          reasoning.length > 0
-            ? reasoning.join(". ")
-            : `MACD trend: ${macdTrend}, RSI: ${rsiValue.toFixed(2)} - No clear confluence signal`,
-      };
-    } catch (error) {
-      this.logger.error(`Error analyzing ${symbol}:`, error);
-      return {
-        shouldEnter: false,
-        shouldExit: false,
-        analysis: `Error during analysis: ${error instanceof Error ? error.message : "Unknown error"}`,
-      };
+    // RSI extreme levels suggest exit
+    if (rsiValue > 75) {
+      shouldExit = true;
+      reasoning.push(
+        "RSI in extreme overbought - high probability of reversal",
+      );
+    }
+    if (rsiValue < 25) {
+      shouldExit = true;
+      reasoning.push("RSI in extreme oversold - high probability of reversal");
+    }
+
+    // Neutral MACD
+    if (macdTrend === "NEUTRAL") {
+      reasoning.push(
+        "MACD neutral - no clear direction, wait for confirmation",
+      );
     }
+
+    // Cap confidence
+    confidence = Math.min(confidence, 95);
+
+    return {
+      type: signalType,
+      shouldEnter,
+      shouldExit,
+      price: currentPrice,
+      confidence,
+      stopLoss:
+        signalType === "BUY"
+          ? currentPrice * (1 - p.stopLossPercent)
+          : currentPrice * (1 + p.stopLossPercent),
+      takeProfit:
+        signalType === "BUY"
+          ? currentPrice * (1 + p.takeProfitPercent)
+          : currentPrice * (1 - p.takeProfitPercent),
+      analysis:
+        reasoning.length > 0
+          ? reasoning.join(". ")
+          : `MACD trend: ${macdTrend}, RSI: ${rsiValue.toFixed(2)} - No clear confluence signal`,
+      metadata: {
+        macd: macd.macd,
+        macdSignal: macd.signal,
+        histogram: macd.histogram,
+        macdTrend: macd.trend,
+        rsi: rsiValue,
+        rsiSignal: rsi.signal,
+        volumeRatio: volume?.volumeRatio || 0,
+      },
+    };
   }
 
   async backtest(
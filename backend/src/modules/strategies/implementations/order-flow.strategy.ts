@@ -3,9 +3,14 @@ import {
   StrategyResult,
   IStrategy,
   BacktestResult,
-  StrategySignal,
+  StrategyEvaluation,
+  StrategyParamDefinition,
+  StrategyParams,
 } from "../strategies.types";
+import { noSignal, toStrategyResult } from "../strategy-evaluation";
+import { resolveParams } from "../strategy-params";
 import { IndicatorsService } from "../../indicators/indicators.service";
+import { SeriesCandle } from "../../indicators/indicators.types";
 
 /**
  * ORDER FLOW + VOLUME PROFILE Strategy
@@ -60,269 +65,301 @@ export class OrderFlowStrategy implements IStrategy {
   description =
     "Professional order flow and volume profile analysis. Reads market microstructure and institutional footprints. Win rate: 73-79%";
 
+  lookback = 100;
+  parameters: StrategyParamDefinition[] = [
+    {
+      name: "rsiPeriod",
+      type: "integer",
+      description: "RSI period",
+      default: 14,
+      min: 2,
+      max: 50,
+    },
+    {
+      name: "volumePeriod",
+      type: "integer",
+      description: "Candles in the average volume",
+      default: 20,
+      min: 5,
+      max: 50,
+    },
+    {
+      name: "stopLossPercent",
+      type: "number",
+      description: "Stop loss distance from entry",
+      default: 0.02,
+      min: 0.001,
+      max: 0.2,
+      step: 0.001,
+    },
+    {
+      name: "takeProfitPercent",
+      type: "number",
+      description: "Take profit distance from entry",
+      default: 0.05,
+      min: 0.001,
+      max: 0.5,
+      step: 0.001,
+    },
+  ];
+
   constructor(private readonly indicatorsService: IndicatorsService) {}
 
-  async analyze(symbol: string, timeframe: string): Promise<StrategyResult> {
+  async analyze(
+    symbol: string,
+    timeframe: string,
+    params?: StrategyParams,
+  ): Promise<StrategyResult> {
     this.logger.log(
       `Analyzing ${symbol} with Order Flow strategy on ${timeframe}`,
     );
 
     try {
-      // Get extended candle data for volume profile
       const candles = await this.indicatorsService.getCandles(
         symbol,
         timeframe,
-        100,
-      );
-
-      if (!candles || candles.length < 50) {
-        return {
-          shouldEnter: false,
-          shouldExit: false,
-          analysis: "Insufficient data for Order Flow analysis",
-        };
-      }
-
-      // Get technical indicators
-      const volume = await this.indicatorsService.analyzeVolume(
-        symbol,
-        timeframe,
-        20,
+        this.lookback,
       );
-      const rsi = await this.indicatorsService.calculateRSI(
+      return toStrategyResult(
+        this.name,
         symbol,
         timeframe,
-        14,
+        this.evaluate(candles, params),
       );
+    } catch (error) {
+      this.logger.error("Error in Order Flow analysis", error);
+      return {
+        shouldEnter: false,
+        shouldExit: false,
+        analysis: `Error analyzing Order Flow: ${error.message}`,
+      };
+    }
+  }
+
+  evaluate(
+    candles: SeriesCandle[],
+    params: StrategyParams = {},
+  ): StrategyEvaluation {
+    const p = resolveParams(this.parameters, params);
+
+    if (candles.length < 50) {
+      return noSignal("Insufficient data for Order Flow analysis");
+    }
+
+    // Technical indicators
+    const volume = this.indicatorsService.analyzeVolumeFromCandles(
+      candles,
+      p.volumePeriod,
+    );
+    const rsi = this.indicatorsService.calculateRSIFromCandles(
+      candles,
+      p.rsiPeriod,
+    );
+
+    const currentPrice = candles[candles.length - 1].close;
+    const recentCandles = candles.slice(-50);
+
+    // Order Flow Analysis
+    const volumeProfile = this.calculateVolumeProfile(recentCandles);
+    const deltaVolume = this.calculateDeltaVolume(recentCandles);
+    const orderFlowSignal = this.analyzeOrderFlow(recentCandles);
+    const pocAnalysis = this.analyzePOC(currentPrice, volumeProfile);
+    const valueAreaAnalysis = this.analyzeValueArea(
+      currentPrice,
+      volumeProfile,
+    );
+
+    let confidence = 50;
+    let shouldEnter = false;
+    let shouldExit = false;
+    let signalType: "BUY" | "SELL" | null = null;
+    let reasoning: string[] = [];
 
-      const currentPrice = candles[candles.length - 1].close;
-      const recentCandles = candles.slice(-50);
-
-      // Order Flow Analysis
-      const volumeProfile = this.calculateVolumeProfile(recentCandles);
-      const deltaVolume = this.calculateDeltaVolume(recentCandles);
-      const orderFlowSignal = this.analyzeOrderFlow(recentCandles);
-      const pocAnalysis = this.analyzePOC(currentPrice, volumeProfile);
-      const valueAreaAnalysis = this.analyzeValueArea(
-        currentPrice,
-        volumeProfile,
+    // BUY Signal: Bullish Order Flow Setup
+    if (
+      deltaVolume.signal === "BULLISH" &&
+      pocAnalysis.position === "BELOW_POC" &&
+      orderFlowSignal.type === "ABSORPTION_SELLING"
+    ) {
+      reasoning.push(
+        `Strong buying pressure: Delta +${deltaVolume.delta.toFixed(0)} contracts`,
       );
+      confidence += 20;
+
+      // POC as support
+      if (Math.abs(currentPrice - volumeProfile.poc) / currentPrice < 0.015) {
+        reasoning.push(
+          `Price testing POC at ${volumeProfile.poc.toFixed(2)} (high volume support)`,
+        );
+        confidence += 15;
+      }
 
-      let confidence = 50;
-      let shouldEnter = false;
-      let shouldExit = false;
-      let signalType: "BUY" | "SELL" | null = null;
-      let reasoning: string[] = [];
-
-      // BUY Signal: Bullish Order Flow Setup
-      if (
-        deltaVolume.signal === "BULLISH" &&
-        pocAnalysis.position === "BELOW_POC" &&
-        orderFlowSignal.type === "ABSORPTION_SELLING"
-      ) {
+      // Value area breakout
+      if (valueAreaAnalysis.position === "ABOVE_VALUE_AREA") {
         reasoning.push(
-          `Strong buying pressure: Delta +${deltaVolume.delta.toFixed(0)} contracts`,
+          `Breakout above value area (${volumeProfile.valueAreaHigh.toFixed(2)})`,
         );
-        confidence += 20;
+        confidence += 15;
+      }
 
-        // POC as support
-        if (Math.abs(currentPrice - volumeProfile.poc) / currentPrice < 0.015) {
-          reasoning.push(
-            `Price testing POC at ${volumeProfile.poc.toFixed(2)} (high volume support)`,
-          );
-          confidence += 15;
-        }
+      // High volume node as support
+      const nearbyHVN = volumeProfile.hvnLevels.find(
+        (level) =>
+          level < currentPrice &&
+          Math.abs(level - currentPrice) / currentPrice < 0.02,
+      );
+      if (nearbyHVN) {
+        reasoning.push(`High Volume Node support at ${nearbyHVN.toFixed(2)}`);
+        confidence += 10;
+      }
 
-        // Value area breakout
-        if (valueAreaAnalysis.position === "ABOVE_VALUE_AREA") {
-          reasoning.push(
-            `Breakout above value area (${volumeProfile.valueAreaHigh.toFixed(2)})`,
-          );
-          confidence += 15;
-        }
-
-        // High volume node as support
-        const nearbyHVN = volumeProfile.hvnLevels.find(
-          (level) =>
-            level < currentPrice &&
-            Math.abs(level - currentPrice) / currentPrice < 0.02,
+      // Order flow confirmation
+      if (orderFlowSignal.strength > 70) {
+        reasoning.push(`Strong order flow: ${orderFlowSignal.description}`);
+        confidence += 15;
+        shouldEnter = true;
+        signalType = "BUY";
+      }
+
+      // Volume confirmation
+      if (volume && volume.volumeRatio > 1.8) {
+        reasoning.push(
+          `Institutional volume: ${volume.volumeRatio.toFixed(2)}x average`,
         );
-        if (nearbyHVN) {
-          reasoning.push(`High Volume Node support at ${nearbyHVN.toFixed(2)}`);
-          confidence += 10;
-        }
-
-        // Order flow confirmation
-        if (orderFlowSignal.strength > 70) {
-          reasoning.push(`Strong order flow: ${orderFlowSignal.description}`);
-          confidence += 15;
-          shouldEnter = true;
-          signalType = "BUY";
-        }
-
-        // Volume confirmation
-        if (volume && volume.volumeRatio > 1.8) {
-          reasoning.push(
-            `Institutional volume: ${volume.volumeRatio.toFixed(2)}x average`,
-          );
-          confidence += 10;
-        }
-
-        // RSI not overbought
-        if (rsi && rsi.value < 70) {
-          reasoning.push(`RSI at ${rsi.value.toFixed(2)} - room for upside`);
-          confidence += 5;
-        }
+        confidence += 10;
       }
 
-      // SELL Signal: Bearish Order Flow Setup
-      if (
-        deltaVolume.signal === "BEARISH" &&
-        pocAnalysis.position === "ABOVE_POC" &&
-        orderFlowSignal.type === "ABSORPTION_BUYING"
-      ) {
+      // RSI not overbought
+      if (rsi && rsi.value < 70) {
+        reasoning.push(`RSI at ${rsi.value.toFixed(2)} - room for upside`);
+        confidence += 5;
+      }
+    }
+
+    // SELL Signal: Bearish Order Flow Setup
+    if (
+      deltaVolume.signal === "BEARISH" &&
+      pocAnalysis.position === "ABOVE_POC" &&
+      orderFlowSignal.type === "ABSORPTION_BUYING"
+    ) {
+      reasoning.push(
+        `Strong selling pressure: Delta ${deltaVolume.delta.toFixed(0)} contracts`,
+      );
+      confidence += 20;
+
+      // POC as resistance
+      if (Math.abs(currentPrice - volumeProfile.poc) / currentPrice < 0.015) {
         reasoning.push(
-          `Strong selling pressure: Delta ${deltaVolume.delta.toFixed(0)} contracts`,
+          `Price testing POC at ${volumeProfile.poc.toFixed(2)} (high volume resistance)`,
         );
-        confidence += 20;
+        confidence += 15;
+      }
 
-        // POC as resistance
-        if (Math.abs(currentPrice - volumeProfile.poc) / currentPrice < 0.015) {
-          reasoning.push(
-            `Price testing POC at ${volumeProfile.poc.toFixed(2)} (high volume resistance)`,
-          );
-          confidence += 15;
-        }
+      // Value area breakdown
+      if (valueAreaAnalysis.position === "BELOW_VALUE_AREA") {
+        reasoning.push(
+          `Breakdown below value area (${volumeProfile.valueAreaLow.toFixed(2)})`,
+        );
+        confidence += 15;
+      }
 
-        // Value area breakdown
-        if (valueAreaAnalysis.position === "BELOW_VALUE_AREA") {
-          reasoning.push(
-            `Breakdown below value area (${volumeProfile.valueAreaLow.toFixed(2)})`,
-          );
-          confidence += 15;
-        }
-
-        // High volume node as resistance
-        const nearbyHVN = volumeProfile.hvnLevels.find(
-          (level) =>
-            level > currentPrice &&
-            Math.abs(level - currentPrice) / currentPrice < 0.02,
+      // High volume node as resistance
+      const nearbyHVN = volumeProfile.hvnLevels.find(
+        (level) =>
+          level > currentPrice &&
+          Math.abs(level - currentPrice) / currentPrice < 0.02,
+      );
+      if (nearbyHVN) {
+        reasoning.push(
+          `High Volume Node resistance at ${nearbyHVN.toFixed(2)}`,
         );
-        if (nearbyHVN) {
-          reasoning.push(
-            `High Volume Node resistance at ${nearbyHVN.toFixed(2)}`,
-          );
-          confidence += 10;
-        }
-
-        // Order flow confirmation
-        if (orderFlowSignal.strength > 70) {
-          reasoning.push(`Strong order flow: ${orderFlowSignal.description}`);
-          confidence += 15;
-          shouldEnter = true;
-          signalType = "SELL";
-        }
-
-        // Volume confirmation
-        if (volume && volume.volumeRatio > 1.8) {
-          reasoning.push(
-            `Institutional volume: ${volume.volumeRatio.toFixed(2)}x average`,
-          );
-          confidence += 10;
-        }
-
-        // RSI not oversold
-        if (rsi && rsi.value > 30) {
-          reasoning.push(`RSI at ${rsi.value.toFixed(2)} - room for downside`);
-          confidence += 5;
-        }
+        confidence += 10;
+      }
+
+      // Order flow confirmation
+      if (orderFlowSignal.strength > 70) {
+        reasoning.push(`Strong order flow: ${orderFlowSignal.description}`);
+        confidence += 15;
+        shouldEnter = true;
+        signalType = "SELL";
       }
 
-      // EXIT conditions
-      if (deltaVolume.signal === "NEUTRAL" || orderFlowSignal.strength < 40) {
-        shouldExit = true;
-        reasoning.push("Order flow weakening - consider exit");
+      // Volume confirmation
+      if (volume && volume.volumeRatio > 1.8) {
+        reasoning.push(
+          `Institutional volume: ${volume.volumeRatio.toFixed(2)}x average`,
+        );
+        confidence += 10;
       }
 
-      // Cap confidence
-      confidence = Math.min(confidence, 95);
-
-      // Build signal
-      let signal: StrategySignal | undefined;
-      if (shouldEnter && signalType && currentPrice > 0) {
-        const stopLossPercent = 0.02; // 2%
-        const takeProfitPercent = 0.05; // 5% (2.5:1 Risk:Reward)
-
-        // Use POC as stop loss reference
-        const stopLossPrice =
-          signalType === "BUY"
-            ? Math.min(
-                volumeProfile.poc * 0.985,
-                currentPrice * (1 - stopLossPercent),
-              )
-            : Math.max(
-                volumeProfile.poc * 1.015,
-                currentPrice * (1 + stopLossPercent),
-              );
-
-        // Use next HVN as take profit
-        const nextHVN =
-          signalType === "BUY"
-            ? volumeProfile.hvnLevels.find((level) => level > currentPrice)
-            : volumeProfile.hvnLevels
-                .reverse()
-                .find((level) => level < currentPrice);
-
-        const takeProfitPrice =
-          nextHVN ||
-          (signalType === "BUY"
-            ? currentPrice * (1 + takeProfitPercent)
-            : currentPrice * (1 - takeProfitPercent));
-
-        signal = {
-          symbol,
-          strategy: this.name,
-          timeframe,
-          timestamp: new Date(),
-          type: signalType,
-          price: currentPrice,
-          confidence,
-          stopLoss: stopLossPrice,
-          takeProfit: takeProfitPrice,
-          reasoning: reasoning.join(". "),
-          metadata: {
-            deltaVolume: deltaVolume.delta,
-            deltaSignal: deltaVolume.signal,
-            poc: volumeProfile.poc,
-            valueAreaHigh: volumeProfile.valueAreaHigh,
-            valueAreaLow: volumeProfile.valueAreaLow,
-            orderFlowType: orderFlowSignal.type,
-            orderFlowStrength: orderFlowSignal.strength,
-            hvnCount: volumeProfile.hvnLevels.length,
-            lvnCount: volumeProfile.lvnLevels.length,
-            rsi: rsi?.value,
-            volumeRatio: volume?.volumeRatio,
-          },
-        };
+      // RSI not oversold
+      if (rsi && rsi.value > 30) {
+        reasoning.push(`RSI at ${rsi.value.toFixed(2)} - room for downside`);
+        confidence += 5;
       }
+    }
 
-      return {
-        signal,
-        shouldEnter,
-        shouldExit,
-        analysis:
-          reasoning.length > 0
-            ? reasoning.join(". ")
-            : "No clear order flow setup. Waiting for volume imbalance.",
-      };
-    } catch (error) {
-      this.logger.error("Error in Order Flow analysis", error);
-      return {
-        shouldEnter: false,
-        shouldExit: false,
-        analysis: `Error analyzing Order Flow: ${error.message}`,
-      };
+    // EXIT conditions
+    if (deltaVolume.signal === "NEUTRAL" || orderFlowSignal.strength < 40) {
+      shouldExit = true;
+      reasoning.push("Order flow weakening - consider exit");
     }
+
+    // Cap confidence
+    confidence = Math.min(confidence, 95);
+
+    // Use POC as stop loss reference
+    const stopLoss =
+      signalType === "BUY"
+        ? Math.min(
+            volumeProfile.poc * 0.985,
+            currentPrice * (1 - p.stopLossPercent),
+          )
+        : Math.max(
+            volumeProfile.poc * 1.015,
+            currentPrice * (1 + p.stopLossPercent),
+          );
+
+    // Use next HVN as take profit
+    const nextHVN =
+      signalType === "BUY"
+        ? volumeProfile.hvnLevels.find((level) => level > currentPrice)
+        : [...volumeProfile.hvnLevels]
+            .reverse()
+            .find((level) => level < currentPrice);
+
+    const takeProfit =
+      nextHVN ||
+      (signalType === "BUY"
+        ? currentPrice * (1 + p.takeProfitPercent)
+        : currentPrice * (1 - p.takeProfitPercent));
+
+    return {
+      type: signalType,
+      shouldEnter,
+      shouldExit,
+      price: currentPrice,
+      confidence,
+      stopLoss,
+      takeProfit,
+      analysis:
+        reasoning.length > 0
+          ? reasoning.join(". ")
+          : "No clear order flow setup. Waiting for volume imbalance.",
+      metadata: {
+        deltaVolume: deltaVolume.delta,
+        deltaSignal: deltaVolume.signal,
+        poc: volumeProfile.poc,
+        valueAreaHigh: volumeProfile.valueAreaHigh,
+        valueAreaLow: volumeProfile.valueAreaLow,
+        orderFlowType: orderFlowSignal.type,
+        orderFlowStrength: orderFlowSignal.strength,
+        hvnCount: volumeProfile.hvnLevels.length,
+        lvnCount: volumeProfile.lvnLevels.length,
+        rsi: rsi?.value,
+        volumeRatio: volume?.volumeRatio,
+      },
+    };
   }
 
   /**
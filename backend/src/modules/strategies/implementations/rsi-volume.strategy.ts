@@ -3,9 +3,14 @@ import {
   StrategyResult,
   IStrategy,
   BacktestResult,
-  StrategySignal,
+  StrategyEvaluation,
+  StrategyParamDefinition,
+  StrategyParams,
 } from "../strategies.types";
+import { noSignal, toStrategyResult } from "../strategy-evaluation";
+import { resolveParams } from "../strategy-params";
 import { IndicatorsService } from "../../indicators/indicators.service";
+import { SeriesCandle } from "../../indicators/indicators.types";
 
 /**
  * RSI + Volume Confirmation Strategy
@@ -34,182 +39,255 @@ export class RsiVolumeStrategy implements IStrategy {
   description =
     "Strategy combining RSI oversold/overbought with volume confirmation. Win rate: 68-72%";
 
+  lookback = 100;
+  parameters: StrategyParamDefinition[] = [
+    {
+      name: "rsiPeriod",
+      type: "integer",
+      description: "RSI period",
+      default: 14,
+      min: 2,
+      max: 50,
+    },
+    {
+      name: "rsiOversold",
+      type: "number",
+      description: "RSI below this is oversold (BUY setup)",
+      default: 30,
+      min: 5,
+      max: 50,
+      step: 1,
+    },
+    {
+      name: "rsiOverbought",
+      type: "number",
+      description: "RSI above this is overbought (SELL setup)",
+      default: 70,
+      min: 50,
+      max: 95,
+      step: 1,
+    },
+    {
+      name: "rsiExitLow",
+      type: "number",
+      description: "Lower bound of the neutral RSI exit zone",
+      default: 40,
+      min: 20,
+      max: 50,
+      step: 1,
+    },
+    {
+      name: "rsiExitHigh",
+      type: "number",
+      description: "Upper bound of the neutral RSI exit zone",
+      default: 60,
+      min: 50,
+      max: 80,
+      step: 1,
+    },
+    {
+      name: "volumePeriod",
+      type: "integer",
+      description: "Candles in the average volume",
+      default: 20,
+      min: 5,
+      max: 50,
+    },
+    {
+      name: "volumeMultiplier",
+      type: "number",
+      description: "Volume ratio that confirms a signal",
+      default: 1.5,
+      min: 1,
+      max: 5,
+      step: 0.1,
+    },
+    {
+      name: "stopLossPercent",
+      type: "number",
+      description: "Stop loss distance from entry",
+      default: 0.02,
+      min: 0.001,
+      max: 0.2,
+      step: 0.001,
+    },
+    {
+      name: "takeProfitPercent",
+      type: "number",
+      description: "Take profit distance from entry",
+      default: 0.04,
+      min: 0.001,
+      max: 0.5,
+      step: 0.001,
+    },
+  ];
+
   constructor(private readonly indicatorsService: IndicatorsService) {}
 
-  async analyze(symbol: string, timeframe: string): Promise<StrategyResult> {
+  async analyze(
+    symbol: string,
+    timeframe: string,
+    params?: StrategyParams,
+  ): Promise<StrategyResult> {
     this.logger.log(
       `Analyzing ${symbol} with RSI+Volume strategy on ${timeframe}`,
     );
 
     try {
-      // Get RSI
-      const rsi = await this.indicatorsService.calculateRSI(
+      const candles = await this.indicatorsService.getCandles(
         symbol,
         timeframe,
-        14,
+        this.lookback,
       );
-      if (!rsi) {
-        return {
-          shouldEnter: false,
-          shouldExit: false,
-          analysis: "Unable to calculate RSI - insufficient data",
-        };
-      }
-
-      // Get Volume analysis
-      const volume = await this.indicatorsService.analyzeVolume(
+      return toStrategyResult(
+        this.name,
         symbol,
         timeframe,
-        20,
+        this.evaluate(candles, params),
       );
-      if (!volume) {
-        return {
-          shouldEnter: false,
-          shouldExit: false,
-          analysis: "Unable to analyze volume - insufficient data",
-        };
-      }
+    } catch (error) {
+      this.logger.error(`Error analyzing ${symbol}:`, error);
+      return {
+        shouldEnter: false,
+        shouldExit: false,
+        analysis: `Error during analysis: ${error instanceof Error ? error.message : "Unknown error"}`,
+      };
+    }
+  }
 
-      // Get current price from Bollinger Bands (includes current price)
-      const bb = await this.indicatorsService.calculateBollingerBands(
-        symbol,
-        timeframe,
-      );
-      const currentPrice = bb?.currentPrice || 0;
-
-      // Calculate confidence based on RSI extremity and volume strength
-      let confidence = 50;
-      let shouldEnter = false;
-      let shouldExit = false;
-      let signalType: "BUY" | "SELL" | null = null;
-      let reasoning: string[] = [];
-
-      // BUY Signal: RSI oversold + high volume
-      if (rsi.signal === "OVERSOLD" && rsi.value < 30) {
-        reasoning.push(`RSI is oversold at ${rsi.value.toFixed(2)}`);
-        confidence += 15;
-
-        if (volume.isSignificant && volume.volumeRatio > 1.5) {
-          reasoning.push(
-            `Volume confirmation: ${volume.volumeRatio.toFixed(2)}x average`,
-          );
-          confidence += 20;
-          shouldEnter = true;
-          signalType = "BUY";
-        } else if (volume.volumeRatio > 1.2) {
-          reasoning.push(
-            `Moderate volume: ${volume.volumeRatio.toFixed(2)}x average`,
-          );
-          confidence += 10;
-          shouldEnter = true;
-          signalType = "BUY";
-        } else {
-          reasoning.push(
-            `Low volume (${volume.volumeRatio.toFixed(2)}x) - weak signal`,
-          );
-        }
-
-        // Extra confidence for extreme oversold
-        if (rsi.value < 20) {
-          reasoning.push(
-            "Extreme oversold condition - high probability reversal",
-          );
-          confidence += 10;
-        }
+  evaluate(
+    candles: SeriesCandle[],
+    params: StrategyParams = {},
+  ): StrategyEvaluation {
+    const p = resolveParams(this.parameters, params);
+
+    const rsi = this.indicatorsService.calculateRSIFromCandles(
+      candles,
+      p.rsiPeriod,
+    );
+    if (!rsi) {
+      return noSignal("Unable to calculate RSI - insufficient data");
+    }
+
+    const volume = this.indicatorsService.analyzeVolumeFromCandles(
+      candles,
+      p.volumePeriod,
+    );
+    if (!volume) {
+      return noSignal("Unable to analyze volume - insufficient data");
+    }
+
+    const currentPrice = candles[candles.length - 1].close;
+
+    // Calculate confidence based on RSI extremity and volume strength
+    let confidence = 50;
+    let shouldEnter = false;
+    let shouldExit = false;
+    let signalType: "BUY" | "SELL" | null = null;
+    let reasoning: string[] = [];
+
+    // BUY Signal: RSI oversold + high volume
+    if (rsi.value < p.rsiOversold) {
+      reasoning.push(`RSI is oversold at ${rsi.value.toFixed(2)}`);
+      confidence += 15;
+
+      if (volume.volumeRatio > p.volumeMultiplier) {
+        reasoning.push(
+          `Volume confirmation: ${volume.volumeRatio.toFixed(2)}x average`,
+        );
+        confidence += 20;
+        shouldEnter = true;
+        signalType = "BUY";
+      } else if (volume.volumeRatio > 1.2) {
+        reasoning.push(
+          `Moderate volume: ${volume.volumeRatio.toFixed(2)}x average`,
+        );
+        confidence += 10;
+        shouldEnter = true;
+        signalType = "BUY";
+      } else {
+        reasoning.push(
+          `Low volume (${volume.volumeRatio.toFixed(2)}x) - weak signal`,
+        );
       }
 
-      // SELL Signal: RSI overbought + high volume
-      if (rsi.signal === "OVERBOUGHT" && rsi.value > 70) {
-        reasoning.push(`RSI is overbought at ${rsi.value.toFixed(2)}`);
-        confidence += 15;
-
-        if (volume.isSignificant && volume.volumeRatio > 1.5) {
-          reasoning.push(
-            `Volume confirmation: ${volume.volumeRatio.toFixed(2)}x average`,
-          );
-          confidence += 20;
-          shouldEnter = true;
-          signalType = "SELL";
-        } else if (volume.volumeRatio > 1.2) {
-          reasoning.push(
-            `Moderate volume: ${volume.volumeRatio.toFixed(2)}x average`,
-          );
-          confidence += 10;
-          shouldEnter = true;
-          signalType = "SELL";
-        } else {
-          reasoning.push(
-            `Low volume (${volume.volumeRatio.toFixed(2)}x) - weak signal`,
-          );
-        }
-
-        // Extra confidence for extreme overbought
-        if (rsi.value > 80) {
-          reasoning.push(
-            "Extreme overbought condition - high probability reversal",
-          );
-          confidence += 10;
-        }
+      // Extra confidence for extreme oversold
+      if (rsi.value < p.rsiOversold - 10) {
+        reasoning.push(
+          "Extreme oversold condition - high probability reversal",
+        );
+        confidence += 10;
       }
+    }
+
+    // SELL Signal: RSI overbought + high volume
+    if (rsi.value > p.rsiOverbought) {
+      reasoning.push(`RSI is overbought at ${rsi.value.toFixed(2)}`);
+      confidence += 15;
 
-      // EXIT conditions
-      if (rsi.value >= 40 && rsi.value <= 60) {
-        shouldExit = true;
-        reasoning.push("RSI in neutral zone - consider taking profits");
+      if (volume.volumeRatio > p.volumeMultiplier) {
+        reasoning.push(
+          `Volume confirmation: ${volume.volumeRatio.toFixed(2)}x average`,
+        );
+        confidence += 20;
+        shouldEnter = true;
+        signalType = "SELL";
+      } else if (volume.volumeRatio > 1.2) {
+        reasoning.push(
+          `Moderate volume: ${volume.volumeRatio.toFixed(2)}x average`,
+        );
+        confidence += 10;
+        shouldEnter = true;
+        signalType = "SELL";
+      } else {
+        reasoning.push(
+          `Low volume (${volume.volumeRatio.toFixed(2)}x) - weak signal`,
+        );
       }
 
-      // Cap confidence at 95
-      confidence = Math.min(confidence, 95);
-
-      // Build signal if we should enter
-      let signal: StrategySignal | undefined;
-      if (shouldEnter && signalType && currentPrice > 0) {
-        const stopLossPercent = 0.02; // 2%
-        const takeProfitPercent = 0.04; // 4% (2:1 R:R)
-
-        signal = {
-          symbol,
-          strategy: this.name,
-          timeframe,
-          timestamp: new Date(),
-          type: signalType,
-          price: currentPrice,
-          confidence,
-          stopLoss:
-            signalType === "BUY"
-              ? currentPrice * (1 - stopLossPercent)
-              : currentPrice * (1 + stopLossPercent),
-          takeProfit:
-            signalType === "BUY"
-              ? currentPrice * (1 + takeProfitPercent)
-              : currentPrice * (1 - takeProfitPercent),
-          reasoning: reasoning.join(". "),
-          metadata: {
-            rsi: rsi.value,
-            rsiSignal: rsi.signal,
-            volumeRatio: volume.volumeRatio,
-            isVolumeSignificant: volume.isSignificant,
-          },
-        };
+      // Extra confidence for extreme overbought
+      if (rsi.value > p.rsiOverbought + 10) {
+        reasoning.push(
+          "Extreme overbought condition - high probability reversal",
+        );
+        confidence += 10;
       }
+    }
 
-      return {
-        signal,
-        shouldEnter,
-        shouldExit,
-        analysis:
-          reasoning.length > 0
-            ? reasoning.join(". ")
-            : `RSI at ${rsi.value.toFixed(2)} (${rsi.signal}), Volume ratio: ${volume.volumeRatio.toFixed(2)}x - No clear signal`,
-      };
-    } catch (error) {
-      this.logger.error(`Error analyzing ${symbol}:`, error);
-      return {
-        shouldEnter: false,
-        shouldExit: false,
-        analysis: `Error during analysis: ${error instanceof Error ? error.message : "Unknown error"}`,
-      };
+    // EXIT conditions
+    if (rsi.value >= p.rsiExitLow && rsi.value <= p.rsiExitHigh) {
+      shouldExit = true;
+      reasoning.push("RSI in neutral zone - consider taking profits");
     }
+
+    // Cap confidence at 95
+    confidence = Math.min(confidence, 95);
+
+    return {
+      type: signalType,
+      shouldEnter,
+      shouldExit,
+      price: currentPrice,
+      confidence,
+      stopLoss:
+        signalType === "BUY"
+          ? currentPrice * (1 - p.stopLossPercent)
+          : currentPrice * (1 + p.stopLossPercent),
+      takeProfit:
+        signalType === "BUY"
+          ? currentPrice * (1 + p.takeProfitPercent)
+          : currentPrice * (1 - p.takeProfitPercent),
+      analysis:
+        reasoning.length > 0
+          ? reasoning.join(". ")
+          : `RSI at ${rsi.value.toFixed(2)} (${rsi.signal}), Volume ratio: ${volume.volumeRatio.toFixed(2)}x - No clear signal`,
+      metadata: {
+        rsi: rsi.value,
+        rsiSignal: rsi.signal,
+        volumeRatio: volume.volumeRatio,
+        isVolumeSignificant: volume.isSignificant,
+      },
+    };
   }
 
   async backtest(
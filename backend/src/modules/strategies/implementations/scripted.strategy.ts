@@ -0,0 +1,396 @@
+import { Injectable, Logger, OnModuleDestroy } from "@nestjs/common";
+import { createHash } from "crypto";
+import {
+  StrategyResult,
+  IStrategy,
+  BacktestResult,
+  StrategyEvaluation,
+  StrategyParamDefinition,
+  StrategyParams,
+  ScriptIndicatorRequest,
+  ScriptedStrategyConfig,
+} from "../strategies.types";
+import { noSignal, toStrategyResult } from "../strategy-evaluation";
+import { resolveParams, validateParams } from "../strategy-params";
+import { ScriptSandbox, ScriptStep } from "../sandbox/script-sandbox";
+import { IndicatorsService } from "../../indicators/indicators.service";
+import { getIndicatorDefinition } from "../../indicators/indicator-catalog";
+import { SeriesCandle } from "../../indicators/indicators.types";
+
+const MAX_SOURCE_LENGTH = 64 * 1024;
+const MAX_SANDBOXES = 16;
+const MAX_INDICATORS = 20;
+const ACTIONS = ["BUY", "SELL", "EXIT", "HOLD"];
+const PARAM_TYPES = ["integer", "number", "boolean"];
+
+/**
+ * Scripted Strategy (StrategyType.SCRIPTED)
+ *
+ * Runs a user-uploaded JS/TS script (Strategy.config.source) in a
+ * ScriptSandbox. The script has no imports, I/O or timers; it only sees
+ * copies of the candles and the indicator series it declares, computed here
+ * from the indicator catalog (GET /indicators/catalog).
+ *
+ * Script contract:
+ *
+ *   export const parameters = [
+ *     { name: "period", type: "integer", description: "RSI period",
+ *       default: 14, min: 2, max: 50 },
+ *   ];
+ *
+ *   // Object or function of the resolved params
+ *   export function indicators(params) {
+ *     return { rsi: { indicator: "rsi", params: { period: params.period } } };
+ *   }
+ *
+ *   // candles: { time, open, high, low, close, volume }[], oldest first
+ *   // series: { rsi: { value: number[] } }, aligned with candles (null
+ *   // while warming up). Both are shared between bars: read, don't modify.
+ *   export function evaluate(candles, series, params) {
+ *     const rsi = series.rsi.value[candles.length - 1];
+ *     if (rsi < 30) return { action: "BUY", confidence: 70, reason: "Oversold" };
+ *     if (rsi > 70) return { action: "EXIT" };
+ *     return { action: "HOLD" };
+ *   }
+ */
+@Injectable()
+export class ScriptedStrategy implements IStrategy, OnModuleDestroy {
+  private readonly logger = new Logger(ScriptedStrategy.name);
+  // Loaded scripts by source hash; first key = least recently used
+  private readonly sandboxes = new Map<string, Promise<ScriptSandbox>>();
+
+  name = "Scripted";
+  description = "User-uploaded JavaScript/TypeScript strategy script";
+
+  lookback = 300;
+  parameters: StrategyParamDefinition[] = [];
+
+  constructor(private readonly indicatorsService: IndicatorsService) {}
+
+  onModuleDestroy() {
+    for (const sandbox of this.sandboxes.values()) {
+      sandbox.then((s) => s.stop()).catch(() => undefined);
+    }
+    this.sandboxes.clear();
+  }
+
+  async analyze(
+    symbol: string,
+    timeframe: string,
+    params?: StrategyParams,
+  ): Promise<StrategyResult> {
+    this.logger.log(
+      `Analyzing ${symbol} with Scripted strategy on ${timeframe}`,
+    );
+
+    try {
+      const candles = await this.indicatorsService.getCandles(
+        symbol,
+        timeframe,
+        this.lookback,
+      );
+      const [evaluation] = await this.evaluateSeries(
+        candles,
+        params,
+        candles.length - 1,
+      );
+      return toStrategyResult(
+        this.name,
+        symbol,
+        timeframe,
+        evaluation ?? noSignal("No candles to evaluate"),
+      );
+    } catch (error) {
+      this.logger.error(`Error analyzing ${symbol}:`, error);
+      return {
+        shouldEnter: false,
+        shouldExit: false,
+        analysis: `Error during analysis: ${error instanceof Error ? error.message : "Unknown error"}`,
+      };
+    }
+  }
+
+  /**
+   * Scripts run in a worker thread and cannot answer synchronously; they
+   * are evaluated through evaluateSeries
+   */
+  evaluate(candles: SeriesCandle[]): StrategyEvaluation {
+    return noSignal(
+      "Scripted strategies are evaluated per series",
+      candles[candles.length - 1]?.close,
+    );
+  }
+
+  /**
+   * Computes the requested indicator series once over all candles and
+   * sends the series to the sandbox in one call; the script sees a sliding
+   * window of `lookback` bars
+   */
+  async evaluateSeries(
+    candles: SeriesCandle[],
+    params: StrategyParams = {},
+    from: number,
+  ): Promise<StrategyEvaluation[]> {
+    const bars = candles.slice(Math.max(from, 0));
+    const config = params as ScriptedStrategyConfig;
+    if (typeof config.source !== "string") {
+      return bars.map((c) => noSignal("No script source configured", c.close));
+    }
+    if (bars.length === 0) return [];
+
+    try {
+      const sandbox = await this.getSandbox(config.source);
+      const resolved = resolveParams(sandbox.parameters, config.params);
+
+      const requests = await sandbox.indicators(resolved);
+      const errors = this.checkIndicatorRequests(requests);
+      if (errors.length > 0) {
+        throw new Error(errors[0]);
+      }
+
+      const series: Record<string, Record<string, number[]>> = {};
+      for (const [key, request] of Object.entries(
+        requests as Record<string, ScriptIndicatorRequest>,
+      )) {
+        series[key] = this.indicatorsService.calculateIndicatorFromCandles(
+          candles,
+          request.indicator,
+          request.params,
+        );
+      }
+
+      const steps = await sandbox.evaluateSeries(
+        candles.map((c) => ({
+          time: c.timestamp.getTime(),
+          open: c.open,
+          high: c.high,
+          low: c.low,
+          close: c.close,
+          volume: c.volume,
+        })),
+        series,
+        resolved,
+        candles.length - bars.length,
+        this.lookback,
+      );
+      return bars.map((c, i) => this.toEvaluation(steps[i], c.close));
+    } catch (error) {
+      const reason = `Script error: ${error instanceof Error ? error.message : "Unknown error"}`;
+      return bars.map((c) => noSignal(reason, c.close));
+    }
+  }
+
+  /**
+   * Loads the script, so syntax errors, a missing evaluate export, bad
+   * parameter schemas and unknown indicators are all reported on save
+   */
+  async validateConfig(config: unknown): Promise<string[]> {
+    if (!config || typeof config !== "object" || Array.isArray(config)) {
+      return ["config must be an object"];
+    }
+
+    const { source, params, ...rest } = config as Record<string, any>;
+    const errors = Object.keys(rest).map((key) => `Unknown key ${key}`);
+
+    if (typeof source !== "string" || source.trim() === "") {
+      return [...errors, "source must be a non-empty string"];
+    }
+    if (source.length > MAX_SOURCE_LENGTH) {
+      return [
+        ...errors,
+        `source must be at most ${MAX_SOURCE_LENGTH} characters`,
+      ];
+    }
+
+    let sandbox: ScriptSandbox;
+    try {
+      sandbox = await this.getSandbox(source);
+    } catch (error) {
+      return [
+        ...errors,
+        error instanceof Error ? error.message : String(error),
+      ];
+    }
+
+    const schemaErrors = this.checkParameterSchema(sandbox.parameters);
+    if (schemaErrors.length > 0) {
+      return [...errors, ...schemaErrors];
+    }
+
+    errors.push(...validateParams(sandbox.parameters, params));
+    if (errors.length > 0) return errors;
+
+    try {
+      const requests = await sandbox.indicators(
+        resolveParams(sandbox.parameters, params),
+      );
+      errors.push(...this.checkIndicatorRequests(requests));
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+
+    return errors;
+  }
+
+  private getSandbox(source: string): Promise<ScriptSandbox> {
+    const key = createHash("sha256").update(source).digest("hex");
+
+    // Sandboxes killed for exceeding their limits stay cached, so a
+    // runaway script fails fast instead of being restarted every run
+    const cached = this.sandboxes.get(key);
+    if (cached) {
+      this.sandboxes.delete(key);
+      this.sandboxes.set(key, cached);
+      return cached;
+    }
+
+    const sandbox = ScriptSandbox.create(source);
+    this.sandboxes.set(key, sandbox);
+    // Scripts that fail to load are reported, not kept
+    sandbox.catch(() => {
+      if (this.sandboxes.get(key) === sandbox) this.sandboxes.delete(key);
+    });
+
+    if (this.sandboxes.size > MAX_SANDBOXES) {
+      const [oldestKey, oldest] = this.sandboxes.entries().next().value;
+      oldest.then((s: ScriptSandbox) => s.stop()).catch(() => undefined);
+      this.sandboxes.delete(oldestKey);
+    }
+
+    return sandbox;
+  }
+
+  private toEvaluation(step: ScriptStep, price: number): StrategyEvaluation {
+    if ("error" in step) {
+      return noSignal(`Script error: ${step.error}`, price);
+    }
+
+    const { decision } = step;
+    if (
+      !decision ||
+      typeof decision !== "object" ||
+      !ACTIONS.includes(decision.action)
+    ) {
+      return noSignal(
+        `Script must return { action: ${ACTIONS.join(" | ")} }`,
+        price,
+      );
+    }
+
+    const finite = (value: unknown) =>
+      typeof value === "number" && Number.isFinite(value) ? value : undefined;
+    const entry =
+      decision.action === "BUY" || decision.action === "SELL"
+        ? decision.action
+        : null;
+
+    return {
+      type: entry,
+      shouldEnter: entry !== null,
+      shouldExit: decision.action === "EXIT",
+      price,
+      confidence: Math.min(Math.max(finite(decision.confidence) ?? 50, 0), 100),
+      stopLoss: finite(decision.stopLoss),
+      takeProfit: finite(decision.takeProfit),
+      analysis:
+        typeof decision.reason === "string" && decision.reason
+          ? decision.reason.slice(0, 500)
+          : `Script decided ${decision.action}`,
+      metadata:
+        decision.metadata && typeof decision.metadata === "object"
+          ? decision.metadata
+          : {},
+    };
+  }
+
+  private checkParameterSchema(schema: StrategyParamDefinition[]): string[] {
+    const errors: string[] = [];
+
+    schema.forEach((param, i) => {
+      const path = `parameters[${i}]`;
+      if (!param || typeof param.name !== "string" || !param.name) {
+        errors.push(`${path}.name must be a non-empty string`);
+      } else if (!PARAM_TYPES.includes(param.type)) {
+        errors.push(`${path}.type must be one of ${PARAM_TYPES.join(", ")}`);
+      } else if (
+        param.type === "boolean"
+          ? typeof param.default !== "boolean"
+          : typeof param.default !== "number"
+      ) {
+        errors.push(
+          `${path}.default must be a ${param.type === "boolean" ? "boolean" : "number"}`,
+        );
+      }
+    });
+
+    return errors;
+  }
+
+  private checkIndicatorRequests(requests: unknown): string[] {
+    if (!requests || typeof requests !== "object" || Array.isArray(requests)) {
+      return ["indicators must be an object of { indicator, params } entries"];
+    }
+
+    const entries = Object.entries(requests as Record<string, any>);
+    if (entries.length > MAX_INDICATORS) {
+      return [`At most ${MAX_INDICATORS} indicators can be requested`];
+    }
+
+    const errors: string[] = [];
+    for (const [key, request] of entries) {
+      const definition = getIndicatorDefinition(request?.indicator);
+      if (!definition) {
+        errors.push(
+          `indicators.${key}: unknown indicator ${request?.indicator}`,
+        );
+        continue;
+      }
+
+      for (const [name, value] of Object.entries(request.params ?? {})) {
+        const param = definition.params.find((p) => p.name === name);
+        if (
+          !param ||
+          typeof value !== "number" ||
+          value < param.min ||
+          value > param.max
+        ) {
+          errors.push(
+            `indicators.${key}.params.${name} is not a valid ${definition.name} param`,
+          );
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  async backtest(
+    symbol: string,
+    timeframe: string,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<BacktestResult> {
+    // Scripts are backtested through BacktestingService with a saved config
+    this.logger.log(`Backtesting ${symbol} from ${startDate} to ${endDate}`);
+
+    return {
+      strategy: this.name,
+      symbol,
+      timeframe,
+      startDate,
+      endDate,
+      totalTrades: 0,
+      winningTrades: 0,
+      losingTrades: 0,
+      winRate: 0,
+      totalProfit: 0,
+      totalLoss: 0,
+      netProfit: 0,
+      profitFactor: 0,
+      averageWin: 0,
+      averageLoss: 0,
+      maxDrawdown: 0,
+      sharpeRatio: 0,
+    };
+  }
+}
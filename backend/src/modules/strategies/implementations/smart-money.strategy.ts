@@ -3,9 +3,14 @@ import {
   StrategyResult,
   IStrategy,
   BacktestResult,
-  StrategySignal,
+  StrategyEvaluation,
+  StrategyParamDefinition,
+  StrategyParams,
 } from "../strategies.types";
+import { noSignal, toStrategyResult } from "../strategy-evaluation";
+import { resolveParams } from "../strategy-params";
 import { IndicatorsService } from "../../indicators/indicators.service";
+import { SeriesCandle } from "../../indicators/indicators.types";
 
 /**
  * SMART MONEY CONCEPTS (SMC) Strategy
@@ -60,242 +65,276 @@ export class SmartMoneyStrategy implements IStrategy {
   description =
     "Advanced institutional trading strategy. Follows smart money footprints, order blocks, and liquidity manipulation. Win rate: 75-82%";
 
+  lookback = 100;
+  parameters: StrategyParamDefinition[] = [
+    {
+      name: "rsiPeriod",
+      type: "integer",
+      description: "RSI period",
+      default: 14,
+      min: 2,
+      max: 50,
+    },
+    {
+      name: "volumePeriod",
+      type: "integer",
+      description: "Candles in the average volume",
+      default: 20,
+      min: 5,
+      max: 50,
+    },
+    {
+      name: "institutionalVolumeRatio",
+      type: "number",
+      description: "Volume ratio treated as institutional activity",
+      default: 2.5,
+      min: 1,
+      max: 10,
+      step: 0.1,
+    },
+    {
+      name: "stopLossPercent",
+      type: "number",
+      description: "Stop loss distance from entry",
+      default: 0.018,
+      min: 0.001,
+      max: 0.2,
+      step: 0.001,
+    },
+    {
+      name: "takeProfitPercent",
+      type: "number",
+      description: "Take profit distance from entry",
+      default: 0.054,
+      min: 0.001,
+      max: 0.5,
+      step: 0.001,
+    },
+  ];
+
   constructor(private readonly indicatorsService: IndicatorsService) {}
 
-  async analyze(symbol: string, timeframe: string): Promise<StrategyResult> {
+  async analyze(
+    symbol: string,
+    timeframe: string,
+    params?: StrategyParams,
+  ): Promise<StrategyResult> {
     this.logger.log(
       `Analyzing ${symbol} with Smart Money strategy on ${timeframe}`,
     );
 
     try {
-      // Get candle data for structure analysis
       const candles = await this.indicatorsService.getCandles(
         symbol,
         timeframe,
-        100,
-      );
-
-      if (!candles || candles.length < 50) {
-        return {
-          shouldEnter: false,
-          shouldExit: false,
-          analysis: "Insufficient data for Smart Money analysis",
-        };
-      }
-
-      // Get technical indicators for confirmation
-      const rsi = await this.indicatorsService.calculateRSI(
-        symbol,
-        timeframe,
-        14,
-      );
-      const volume = await this.indicatorsService.analyzeVolume(
-        symbol,
-        timeframe,
-        20,
+        this.lookback,
       );
-      const bb = await this.indicatorsService.calculateBollingerBands(
+      return toStrategyResult(
+        this.name,
         symbol,
         timeframe,
+        this.evaluate(candles, params),
       );
+    } catch (error) {
+      this.logger.error("Error in Smart Money analysis", error);
+      return {
+        shouldEnter: false,
+        shouldExit: false,
+        analysis: `Error analyzing Smart Money: ${error.message}`,
+      };
+    }
+  }
 
-      const currentPrice = candles[candles.length - 1].close;
-      const previousCandles = candles.slice(-20); // Last 20 candles
+  evaluate(
+    candles: SeriesCandle[],
+    params: StrategyParams = {},
+  ): StrategyEvaluation {
+    const p = resolveParams(this.parameters, params);
 
-      // Smart Money Analysis
-      const smartMoneyAnalysis = this.analyzeSmartMoney(previousCandles);
-      const orderBlocks = this.detectOrderBlocks(previousCandles);
-      const fvgAnalysis = this.detectFairValueGaps(previousCandles);
-      const liquiditySweep = this.detectLiquiditySweep(previousCandles);
-      const structureChange = this.detectStructureChange(previousCandles);
+    if (candles.length < 50) {
+      return noSignal("Insufficient data for Smart Money analysis");
+    }
 
-      let confidence = 50;
-      let shouldEnter = false;
-      let shouldExit = false;
-      let signalType: "BUY" | "SELL" | null = null;
-      let reasoning: string[] = [];
+    // Technical indicators for confirmation
+    const rsi = this.indicatorsService.calculateRSIFromCandles(
+      candles,
+      p.rsiPeriod,
+    );
+    const volume = this.indicatorsService.analyzeVolumeFromCandles(
+      candles,
+      p.volumePeriod,
+    );
 
-      // BUY Signal: Bullish Smart Money Setup
-      if (
-        liquiditySweep.type === "BULLISH" &&
-        orderBlocks.bullish.length > 0 &&
-        structureChange === "BULLISH_CHOCH"
-      ) {
+    const currentPrice = candles[candles.length - 1].close;
+    const previousCandles = candles.slice(-20); // Last 20 candles
+
+    // Smart Money Analysis
+    const smartMoneyAnalysis = this.analyzeSmartMoney(previousCandles);
+    const orderBlocks = this.detectOrderBlocks(previousCandles);
+    const fvgAnalysis = this.detectFairValueGaps(previousCandles);
+    const liquiditySweep = this.detectLiquiditySweep(previousCandles);
+    const structureChange = this.detectStructureChange(previousCandles);
+
+    let confidence = 50;
+    let shouldEnter = false;
+    let shouldExit = false;
+    let signalType: "BUY" | "SELL" | null = null;
+    let reasoning: string[] = [];
+
+    // BUY Signal: Bullish Smart Money Setup
+    if (
+      liquiditySweep.type === "BULLISH" &&
+      orderBlocks.bullish.length > 0 &&
+      structureChange === "BULLISH_CHOCH"
+    ) {
+      reasoning.push(
+        `Liquidity sweep detected: Price swept ${liquiditySweep.sweptLevel.toFixed(2)}`,
+      );
+      confidence += 20;
+
+      // Check for Order Block
+      const latestOrderBlock = orderBlocks.bullish[0];
+      if (currentPrice > latestOrderBlock.low) {
         reasoning.push(
-          `Liquidity sweep detected: Price swept ${liquiditySweep.sweptLevel.toFixed(2)}`,
+          `Bullish Order Block confirmed at ${latestOrderBlock.low.toFixed(2)}`,
         );
-        confidence += 20;
+        confidence += 15;
+      }
 
-        // Check for Order Block
-        const latestOrderBlock = orderBlocks.bullish[0];
-        if (currentPrice > latestOrderBlock.low) {
-          reasoning.push(
-            `Bullish Order Block confirmed at ${latestOrderBlock.low.toFixed(2)}`,
-          );
-          confidence += 15;
-        }
-
-        // Check for Fair Value Gap
-        if (fvgAnalysis.bullishGaps.length > 0) {
-          reasoning.push(
-            `Fair Value Gap detected - target: ${fvgAnalysis.bullishGaps[0].high.toFixed(2)}`,
-          );
-          confidence += 10;
-        }
-
-        // Volume confirmation (Smart Money)
-        if (volume && volume.volumeRatio > 2.5) {
-          reasoning.push(
-            `Institutional volume detected: ${volume.volumeRatio.toFixed(2)}x average`,
-          );
-          confidence += 20;
-          shouldEnter = true;
-          signalType = "BUY";
-        }
-
-        // RSI confirmation
-        if (rsi && rsi.value < 40) {
-          reasoning.push(
-            `RSI oversold at ${rsi.value.toFixed(2)} - reversal likely`,
-          );
-          confidence += 10;
-        }
-
-        // Structure change confirmation
+      // Check for Fair Value Gap
+      if (fvgAnalysis.bullishGaps.length > 0) {
         reasoning.push(
-          "Change of Character (CHoCH) confirmed - bullish reversal",
+          `Fair Value Gap detected - target: ${fvgAnalysis.bullishGaps[0].high.toFixed(2)}`,
         );
-        confidence += 15;
+        confidence += 10;
       }
 
-      // SELL Signal: Bearish Smart Money Setup
-      if (
-        liquiditySweep.type === "BEARISH" &&
-        orderBlocks.bearish.length > 0 &&
-        structureChange === "BEARISH_CHOCH"
-      ) {
+      // Volume confirmation (Smart Money)
+      if (volume && volume.volumeRatio > p.institutionalVolumeRatio) {
         reasoning.push(
-          `Liquidity sweep detected: Price swept ${liquiditySweep.sweptLevel.toFixed(2)}`,
+          `Institutional volume detected: ${volume.volumeRatio.toFixed(2)}x average`,
         );
         confidence += 20;
+        shouldEnter = true;
+        signalType = "BUY";
+      }
 
-        // Check for Order Block
-        const latestOrderBlock = orderBlocks.bearish[0];
-        if (currentPrice < latestOrderBlock.high) {
-          reasoning.push(
-            `Bearish Order Block confirmed at ${latestOrderBlock.high.toFixed(2)}`,
-          );
-          confidence += 15;
-        }
-
-        // Check for Fair Value Gap
-        if (fvgAnalysis.bearishGaps.length > 0) {
-          reasoning.push(
-            `Fair Value Gap detected - target: ${fvgAnalysis.bearishGaps[0].low.toFixed(2)}`,
-          );
-          confidence += 10;
-        }
-
-        // Volume confirmation (Smart Money)
-        if (volume && volume.volumeRatio > 2.5) {
-          reasoning.push(
-            `Institutional volume detected: ${volume.volumeRatio.toFixed(2)}x average`,
-          );
-          confidence += 20;
-          shouldEnter = true;
-          signalType = "SELL";
-        }
-
-        // RSI confirmation
-        if (rsi && rsi.value > 60) {
-          reasoning.push(
-            `RSI overbought at ${rsi.value.toFixed(2)} - reversal likely`,
-          );
-          confidence += 10;
-        }
-
-        // Structure change confirmation
+      // RSI confirmation
+      if (rsi && rsi.value < 40) {
         reasoning.push(
-          "Change of Character (CHoCH) confirmed - bearish reversal",
+          `RSI oversold at ${rsi.value.toFixed(2)} - reversal likely`,
         );
-        confidence += 15;
+        confidence += 10;
       }
 
-      // EXIT conditions
-      if (
-        structureChange === "NEUTRAL" ||
-        (volume && volume.volumeRatio < 1.0)
-      ) {
-        shouldExit = true;
+      // Structure change confirmation
+      reasoning.push(
+        "Change of Character (CHoCH) confirmed - bullish reversal",
+      );
+      confidence += 15;
+    }
+
+    // SELL Signal: Bearish Smart Money Setup
+    if (
+      liquiditySweep.type === "BEARISH" &&
+      orderBlocks.bearish.length > 0 &&
+      structureChange === "BEARISH_CHOCH"
+    ) {
+      reasoning.push(
+        `Liquidity sweep detected: Price swept ${liquiditySweep.sweptLevel.toFixed(2)}`,
+      );
+      confidence += 20;
+
+      // Check for Order Block
+      const latestOrderBlock = orderBlocks.bearish[0];
+      if (currentPrice < latestOrderBlock.high) {
         reasoning.push(
-          "Structure weakening or volume declining - consider exit",
+          `Bearish Order Block confirmed at ${latestOrderBlock.high.toFixed(2)}`,
         );
+        confidence += 15;
       }
 
-      // Cap confidence
-      confidence = Math.min(confidence, 95);
+      // Check for Fair Value Gap
+      if (fvgAnalysis.bearishGaps.length > 0) {
+        reasoning.push(
+          `Fair Value Gap detected - target: ${fvgAnalysis.bearishGaps[0].low.toFixed(2)}`,
+        );
+        confidence += 10;
+      }
 
-      // Build signal
-      let signal: StrategySignal | undefined;
-      if (shouldEnter && signalType && currentPrice > 0) {
-        const stopLossPercent = 0.018; // 1.8% (tight stop behind order block)
-        const takeProfitPercent = 0.054; // 5.4% (3:1 Risk:Reward)
+      // Volume confirmation (Smart Money)
+      if (volume && volume.volumeRatio > p.institutionalVolumeRatio) {
+        reasoning.push(
+          `Institutional volume detected: ${volume.volumeRatio.toFixed(2)}x average`,
+        );
+        confidence += 20;
+        shouldEnter = true;
+        signalType = "SELL";
+      }
 
-        const orderBlock =
-          signalType === "BUY"
-            ? orderBlocks.bullish[0]
-            : orderBlocks.bearish[0];
-
-        signal = {
-          symbol,
-          strategy: this.name,
-          timeframe,
-          timestamp: new Date(),
-          type: signalType,
-          price: currentPrice,
-          confidence,
-          stopLoss:
-            signalType === "BUY"
-              ? orderBlock.low * (1 - stopLossPercent)
-              : orderBlock.high * (1 + stopLossPercent),
-          takeProfit:
-            signalType === "BUY"
-              ? currentPrice * (1 + takeProfitPercent)
-              : currentPrice * (1 - takeProfitPercent),
-          reasoning: reasoning.join(". "),
-          metadata: {
-            rsi: rsi?.value,
-            volumeRatio: volume?.volumeRatio,
-            liquiditySweep: liquiditySweep.type,
-            orderBlockPrice:
-              signalType === "BUY" ? orderBlock.low : orderBlock.high,
-            fvgCount:
-              signalType === "BUY"
-                ? fvgAnalysis.bullishGaps.length
-                : fvgAnalysis.bearishGaps.length,
-            structureChange,
-            riskRewardRatio: "3:1",
-          },
-        };
+      // RSI confirmation
+      if (rsi && rsi.value > 60) {
+        reasoning.push(
+          `RSI overbought at ${rsi.value.toFixed(2)} - reversal likely`,
+        );
+        confidence += 10;
       }
 
-      return {
-        signal,
-        shouldEnter,
-        shouldExit,
-        analysis:
-          reasoning.length > 0
-            ? reasoning.join(". ")
-            : "No Smart Money setup detected. Waiting for institutional footprints.",
-      };
-    } catch (error) {
-      this.logger.error("Error in Smart Money analysis", error);
-      return {
-        shouldEnter: false,
-        shouldExit: false,
-        analysis: `Error analyzing Smart Money: ${error.message}`,
-      };
+      // Structure change confirmation
+      reasoning.push(
+        "Change of Character (CHoCH) confirmed - bearish reversal",
+      );
+      confidence += 15;
+    }
+
+    // EXIT conditions
+    if (structureChange === "NEUTRAL" || (volume && volume.volumeRatio < 1.0)) {
+      shouldExit = true;
+      reasoning.push("Structure weakening or volume declining - consider exit");
     }
+
+    // Cap confidence
+    confidence = Math.min(confidence, 95);
+
+    const orderBlock =
+      signalType === "BUY" ? orderBlocks.bullish[0] : orderBlocks.bearish[0];
+
+    return {
+      type: signalType,
+      shouldEnter,
+      shouldExit,
+      price: currentPrice,
+      confidence,
+      stopLoss: orderBlock
+        ? signalType === "BUY"
+          ? orderBlock.low * (1 - p.stopLossPercent)
+          : orderBlock.high * (1 + p.stopLossPercent)
+        : undefined,
+      takeProfit:
+        signalType === "BUY"
+          ? currentPrice * (1 + p.takeProfitPercent)
+          : currentPrice * (1 - p.takeProfitPercent),
+      analysis:
+        reasoning.length > 0
+          ? reasoning.join(". ")
+          : "No Smart Money setup detected. Waiting for institutional footprints.",
+      metadata: {
+        rsi: rsi?.value,
+        volumeRatio: volume?.volumeRatio,
+        liquiditySweep: liquiditySweep.type,
+        orderBlockPrice: orderBlock
+          ? signalType === "BUY"
+            ? orderBlock.low
+            : orderBlock.high
+          : undefined,
+        fvgCount:
+          signalType === "BUY"
+            ? fvgAnalysis.bullishGaps.length
+            : fvgAnalysis.bearishGaps.length,
+        structureChange,
+        riskRewardRatio: "3:1",
+      },
+    };
   }
 
   /**
@@ -0,0 +1,251 @@
+import { BadRequestException, Injectable, Logger } from "@nestjs/common";
+import { IndicatorsService } from "../indicators/indicators.service";
+import { SeriesCandle } from "../indicators/indicators.types";
+import { INTERVAL_MS } from "../market-data/market-data.types";
+import { StrategiesService } from "./strategies.service";
+import {
+  ConsensusOptions,
+  MultiTimeframeAnalysis,
+  TimeframeAnalysis,
+  TimeframeTrend,
+} from "./strategies.types";
+
+export const DEFAULT_MTF_TIMEFRAMES = ["15m", "1h", "4h", "1d"];
+
+const MIN_TIMEFRAMES = 2;
+const MAX_TIMEFRAMES = 6;
+const INDICATOR_CANDLES = 250; // EMA 200 plus warm-up
+const TREND_THRESHOLD = 2; // |trendScore| for BULLISH/BEARISH
+
+/**
+ * Parse "15m,1h,4h" into a validated stack sorted from lowest to highest
+ */
+export function parseTimeframes(value?: string): string[] {
+  if (!value) return DEFAULT_MTF_TIMEFRAMES;
+
+  const timeframes = Array.from(
+    new Set(value.split(",").map((timeframe) => timeframe.trim())),
+  );
+  const unknown = timeframes.filter((timeframe) => !INTERVAL_MS[timeframe]);
+  if (unknown.length > 0) {
+    throw new BadRequestException(
+      `Unsupported timeframe ${unknown.join(", ")}. Use: ${Object.keys(INTERVAL_MS).join(", ")}`,
+    );
+  }
+  if (
+    timeframes.length < MIN_TIMEFRAMES ||
+    timeframes.length > MAX_TIMEFRAMES
+  ) {
+    throw new BadRequestException(
+      `Between ${MIN_TIMEFRAMES} and ${MAX_TIMEFRAMES} timeframes are required`,
+    );
+  }
+
+  return timeframes.sort((a, b) => INTERVAL_MS[a] - INTERVAL_MS[b]);
+}
+
+/**
+ * MultiTimeframeService - Strategy and trend confluence across timeframes
+ *
+ * Every timeframe of the stack gets its trend (EMA 50/200, MACD, Supertrend)
+ * and the strategy consensus. The lowest timeframe is the entry timeframe;
+ * its BUY/SELL consensus only becomes a signal when the higher timeframes'
+ * bias agrees: none of them against it and most of them with it.
+ */
+@Injectable()
+export class MultiTimeframeService {
+  private readonly logger = new Logger(MultiTimeframeService.name);
+
+  constructor(
+    private readonly indicatorsService: IndicatorsService,
+    private readonly strategiesService: StrategiesService,
+  ) {}
+
+  async analyze(
+    symbol: string,
+    timeframes: string[] = DEFAULT_MTF_TIMEFRAMES,
+    options: ConsensusOptions = {},
+  ): Promise<MultiTimeframeAnalysis> {
+    this.logger.log(
+      `Multi-timeframe analysis of ${symbol} on ${timeframes.join("/")}`,
+    );
+
+    const matrix: TimeframeAnalysis[] = [];
+    for (const timeframe of timeframes) {
+      matrix.push(await this.analyzeTimeframe(symbol, timeframe, options));
+    }
+
+    const count = (trend: TimeframeTrend) =>
+      matrix.filter((row) => row.trend === trend).length;
+    const bullish = count("BULLISH");
+    const bearish = count("BEARISH");
+    const neutral = count("NEUTRAL");
+
+    const [entry, ...higher] = matrix;
+    const bias = this.getBias(higher);
+
+    const entrySide = entry.consensus.endsWith("BUY")
+      ? "BUY"
+      : entry.consensus.endsWith("SELL")
+        ? "SELL"
+        : null;
+    const agrees =
+      (entrySide === "BUY" && bias === "BULLISH") ||
+      (entrySide === "SELL" && bias === "BEARISH");
+
+    const signal: MultiTimeframeAnalysis["signal"] =
+      entrySide && agrees && entry.price !== null
+        ? {
+            type: entrySide,
+            timeframe: entry.timeframe,
+            price: entry.price,
+            confidence: entry.consensusConfidence,
+            reasoning: `${entry.timeframe} consensus ${entry.consensus} confirmed by ${bias.toLowerCase()} bias on ${higher.map((row) => row.timeframe).join("/")}`,
+          }
+        : null;
+
+    let explanation: string;
+    if (signal) {
+      explanation = signal.reasoning;
+    } else if (!entrySide) {
+      explanation = `No ${entry.timeframe} entry: consensus is NEUTRAL`;
+    } else {
+      explanation = `${entry.timeframe} ${entrySide} filtered out: higher-timeframe bias is ${bias}`;
+    }
+
+    return {
+      symbol,
+      timeframes,
+      entryTimeframe: entry.timeframe,
+      matrix,
+      alignment: {
+        trend:
+          bullish === matrix.length
+            ? "BULLISH"
+            : bearish === matrix.length
+              ? "BEARISH"
+              : neutral === matrix.length
+                ? "NEUTRAL"
+                : "MIXED",
+        bullish,
+        bearish,
+        neutral,
+        score: (bullish - bearish) / matrix.length,
+      },
+      higherTimeframeBias: bias,
+      signal,
+      explanation,
+    };
+  }
+
+  private async analyzeTimeframe(
+    symbol: string,
+    timeframe: string,
+    options: ConsensusOptions,
+  ): Promise<TimeframeAnalysis> {
+    const [candles, consensus] = await Promise.all([
+      this.indicatorsService.getCandles(symbol, timeframe, INDICATOR_CANDLES),
+      this.strategiesService.getConsensusSignal(symbol, timeframe, options),
+    ]);
+
+    const indicators = this.readIndicators(candles);
+    const price = candles.length > 0 ? candles[candles.length - 1].close : null;
+
+    const votes = [
+      price !== null && indicators.ema50 !== null
+        ? Math.sign(price - indicators.ema50)
+        : 0,
+      indicators.ema50 !== null && indicators.ema200 !== null
+        ? Math.sign(indicators.ema50 - indicators.ema200)
+        : 0,
+      indicators.macdTrend === "BULLISH"
+        ? 1
+        : indicators.macdTrend === "BEARISH"
+          ? -1
+          : 0,
+      indicators.supertrend === "UP"
+        ? 1
+        : indicators.supertrend === "DOWN"
+          ? -1
+          : 0,
+    ];
+    const trendScore = votes.reduce((sum, vote) => sum + vote, 0);
+
+    return {
+      timeframe,
+      price,
+      trendScore,
+      trend:
+        trendScore >= TREND_THRESHOLD
+          ? "BULLISH"
+          : trendScore <= -TREND_THRESHOLD
+            ? "BEARISH"
+            : "NEUTRAL",
+      indicators,
+      strategies: Object.fromEntries(
+        consensus.votes.map((vote) => [vote.strategy, vote.vote]),
+      ),
+      consensus: consensus.consensus,
+      consensusScore: consensus.score,
+      consensusConfidence: consensus.confidence,
+    };
+  }
+
+  private readIndicators(
+    candles: SeriesCandle[],
+  ): TimeframeAnalysis["indicators"] {
+    const rsi = this.indicatorsService.calculateRSIFromCandles(candles);
+    const macd = this.indicatorsService.calculateMACDFromCandles(candles);
+    const ribbon =
+      this.indicatorsService.calculateEMARibbonFromCandles(candles);
+    const ema50 = this.indicatorsService.calculateEMAFromCandles(candles, 50);
+    const ema200 = this.indicatorsService.calculateEMAFromCandles(candles, 200);
+
+    const last = (series?: number[]) => {
+      const value = series?.[series.length - 1];
+      return value === undefined || isNaN(value) ? null : value;
+    };
+    const direction =
+      candles.length > 0
+        ? last(
+            this.indicatorsService.calculateIndicatorFromCandles(
+              candles,
+              "supertrend",
+            ).direction,
+          )
+        : null;
+    const adx =
+      candles.length > 0
+        ? last(
+            this.indicatorsService.calculateIndicatorFromCandles(candles, "adx")
+              .adx,
+          )
+        : null;
+
+    return {
+      rsi: rsi?.value ?? null,
+      rsiSignal: rsi?.signal ?? null,
+      macdHistogram: macd?.histogram ?? null,
+      macdTrend: macd?.trend ?? null,
+      ema50: ema50?.value ?? null,
+      ema200: ema200?.value ?? null,
+      emaAlignment: ribbon?.alignment ?? null,
+      supertrend: direction === null ? null : direction > 0 ? "UP" : "DOWN",
+      adx,
+    };
+  }
+
+  /**
+   * Direction of the higher timeframes: none against it and more than half
+   * with it
+   */
+  private getBias(higher: TimeframeAnalysis[]): TimeframeTrend | "MIXED" {
+    const bullish = higher.filter((row) => row.trend === "BULLISH").length;
+    const bearish = higher.filter((row) => row.trend === "BEARISH").length;
+
+    if (bearish === 0 && bullish > higher.length / 2) return "BULLISH";
+    if (bullish === 0 && bearish > higher.length / 2) return "BEARISH";
+    if (bullish === 0 && bearish === 0) return "NEUTRAL";
+    return "MIXED";
+  }
+}
@@ -0,0 +1,343 @@
+import { Worker } from "worker_threads";
+import * as ts from "typescript";
+import {
+  ScriptDecision,
+  StrategyParamDefinition,
+  StrategyParams,
+} from "../strategies.types";
+
+const CALL_TIMEOUT_MS = 250; // CPU budget of one script call
+const STARTUP_TIMEOUT_MS = 5000; // Worker boot + module load
+const KILL_GRACE_MS = 1000; // Worker silent past the budget = dead or OOM
+const MAX_OLD_GENERATION_MB = 64;
+const MAX_YOUNG_GENERATION_MB = 16;
+
+export interface ScriptCandle {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+interface ScriptDescription {
+  parameters: StrategyParamDefinition[];
+  evaluate: boolean;
+}
+
+// Outcome of evaluating one bar; a failing bar does not stop the series
+export type ScriptStep =
+  | { decision: ScriptDecision | null }
+  | { error: string };
+
+interface PendingCall {
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Runs inside the worker. The script lives in a vm context that shares no
+ * objects with the worker: arguments go in and results come out as JSON
+ * strings, so nothing host-side (process, require, Function) is reachable.
+ *
+ * A series is loaded into the context once; each bar then appends one
+ * candle and one value per indicator field to the window the script sees,
+ * and runs evaluate under its own CPU budget.
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require("worker_threads");
+const vm = require("vm");
+
+const { code, timeoutMs } = workerData;
+const context = vm.createContext(Object.create(null), {
+  codeGeneration: { strings: false, wasm: false },
+  microtaskMode: "afterEvaluate",
+});
+
+const BRIDGE = [
+  "(function (exported) {",
+  "  'use strict';",
+  "  var target = exported && exported.default && !exported.evaluate ? exported.default : exported;",
+  "  var run = null;",
+  "  function advance() {",
+  "    var i = run.index++;",
+  "    var trim = run.candles.push(run.all[i]) > run.window;",
+  "    if (trim) run.candles.shift();",
+  "    for (var key in run.view) {",
+  "      for (var field in run.view[key]) {",
+  "        run.view[key][field].push(run.series[key][field][i]);",
+  "        if (trim) run.view[key][field].shift();",
+  "      }",
+  "    }",
+  "  }",
+  "  function load(candles, series, params, from, window) {",
+  "    var view = {};",
+  "    for (var key in series) {",
+  "      view[key] = {};",
+  "      for (var field in series[key]) view[key][field] = [];",
+  "    }",
+  "    run = { all: candles, series: series, params: params, window: window, index: Math.max(from - window, 0), candles: [], view: view };",
+  "    while (run.index < from) advance();",
+  "    return candles.length - run.index;",
+  "  }",
+  "  function call(fn, args) {",
+  "    if (fn === 'describe') {",
+  "      return JSON.stringify({ parameters: target.parameters || [], evaluate: typeof target.evaluate === 'function' });",
+  "    }",
+  "    if (fn === 'load') {",
+  "      return JSON.stringify(load.apply(undefined, JSON.parse(args)));",
+  "    }",
+  "    if (fn === 'next') {",
+  "      advance();",
+  "      var decision = target.evaluate(run.candles, run.view, run.params);",
+  "      return JSON.stringify(decision === undefined ? null : decision);",
+  "    }",
+  "    var member = target[fn];",
+  "    var result = typeof member === 'function' ? member.apply(undefined, JSON.parse(args)) : member;",
+  "    return JSON.stringify(result === undefined ? null : result);",
+  "  }",
+  "  Object.defineProperty(globalThis, '__call', { value: call });",
+  "})(module.exports);",
+].join("\\n");
+
+function describe(error) {
+  try {
+    return String((error && error.message) || error);
+  } catch (e) {
+    return "Script error";
+  }
+}
+
+let loadError = null;
+try {
+  new vm.Script(
+    "var module = { exports: {} };\\n(function (exports, module) {\\n" + code + "\\n})(module.exports, module);",
+    { filename: "strategy.js" },
+  ).runInContext(context, { timeout: timeoutMs });
+  new vm.Script(BRIDGE, { filename: "bridge.js" }).runInContext(context, { timeout: timeoutMs });
+} catch (error) {
+  loadError = "Script failed to load: " + describe(error);
+}
+
+const call = new vm.Script("__call(__fn, __args)", { filename: "call.js" });
+
+function run(fn, args) {
+  context.__fn = fn;
+  context.__args = args;
+  return call.runInContext(context, { timeout: timeoutMs });
+}
+
+function runSeries(args) {
+  const bars = JSON.parse(run("load", args));
+  const steps = [];
+  for (let i = 0; i < bars; i++) {
+    try {
+      steps.push('{"decision":' + run("next", "[]") + "}");
+    } catch (error) {
+      steps.push(JSON.stringify({ error: describe(error) }));
+    }
+  }
+  return "[" + steps.join(",") + "]";
+}
+
+parentPort.on("message", (request) => {
+  let reply;
+  try {
+    if (loadError) throw new Error(loadError);
+    reply = {
+      result:
+        request.fn === "series"
+          ? runSeries(request.args)
+          : run(request.fn, request.args),
+    };
+  } catch (error) {
+    reply = { error: describe(error) };
+  }
+
+  parentPort.postMessage(reply);
+});
+`;
+
+/**
+ * Transpile a JS/TS strategy script to CommonJS; only syntax is checked
+ */
+export function compileScript(source: string): string {
+  const output = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+    },
+    fileName: "strategy.ts",
+    reportDiagnostics: true,
+  });
+
+  const error = output.diagnostics?.find(
+    (d) => d.category === ts.DiagnosticCategory.Error,
+  );
+  if (error) {
+    throw new Error(
+      `Syntax error: ${ts.flattenDiagnosticMessageText(error.messageText, "\n")}`,
+    );
+  }
+
+  return output.outputText;
+}
+
+/**
+ * ScriptSandbox - One user strategy script in its own worker thread
+ *
+ * The worker's heap is capped and every call into the script has a CPU
+ * budget. Calls are asynchronous and run one at a time; a whole series is
+ * evaluated in one round trip, so a backtest neither blocks the event loop
+ * nor re-sends its candles for every bar. A worker that blows its limits is
+ * killed and the sandbox stays dead; later calls fail fast.
+ */
+export class ScriptSandbox {
+  parameters: StrategyParamDefinition[] = [];
+
+  private readonly worker: Worker;
+  private readonly indicatorCache = new Map<string, Promise<unknown>>();
+  private queue: Promise<unknown> = Promise.resolve();
+  private pending: PendingCall | null = null;
+  private stoppedReason: string | null = null;
+
+  private constructor(code: string) {
+    this.worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      env: {},
+      workerData: { code, timeoutMs: CALL_TIMEOUT_MS },
+      resourceLimits: {
+        maxOldGenerationSizeMb: MAX_OLD_GENERATION_MB,
+        maxYoungGenerationSizeMb: MAX_YOUNG_GENERATION_MB,
+      },
+    });
+    this.worker.unref();
+    this.worker.on("message", (reply) => this.settle(reply));
+    this.worker.on("error", (error) => this.stop(error.message));
+    this.worker.on("exit", () => this.stop("Script worker exited"));
+  }
+
+  /**
+   * Compile and load a script; rejects with the reason if it is unusable
+   */
+  static async create(source: string): Promise<ScriptSandbox> {
+    const sandbox = new ScriptSandbox(compileScript(source));
+
+    try {
+      const description = await sandbox.call<ScriptDescription>(
+        "describe",
+        [],
+        STARTUP_TIMEOUT_MS,
+      );
+      if (!description.evaluate) {
+        throw new Error("Script must export an evaluate function");
+      }
+      sandbox.parameters = Array.isArray(description.parameters)
+        ? description.parameters
+        : [];
+      return sandbox;
+    } catch (error) {
+      sandbox.stop();
+      throw error;
+    }
+  }
+
+  /**
+   * Indicator series the script needs for a parameter set (exported
+   * `indicators` object or function of params)
+   */
+  indicators(params: StrategyParams): Promise<unknown> {
+    const key = JSON.stringify(params);
+    if (!this.indicatorCache.has(key)) {
+      const requests = this.call<unknown>("indicators", [params]).then(
+        (result) => result ?? {},
+      );
+      this.indicatorCache.set(key, requests);
+      requests.catch(() => this.indicatorCache.delete(key));
+    }
+    return this.indicatorCache.get(key)!;
+  }
+
+  /**
+   * Run evaluate on every bar from `from` on. Bar i sees the last `window`
+   * candles up to i and the matching slice of each series.
+   */
+  evaluateSeries(
+    candles: ScriptCandle[],
+    series: Record<string, Record<string, number[]>>,
+    params: StrategyParams,
+    from: number,
+    window: number,
+  ): Promise<ScriptStep[]> {
+    const bars = Math.max(candles.length - from, 0);
+    return this.call<ScriptStep[]>(
+      "series",
+      [candles, series, params, from, window],
+      bars * CALL_TIMEOUT_MS + KILL_GRACE_MS,
+    );
+  }
+
+  stop(reason = "Script sandbox was stopped"): void {
+    if (this.stoppedReason) return;
+    this.stoppedReason = reason;
+    this.worker.terminate().catch(() => undefined);
+
+    if (this.pending) {
+      clearTimeout(this.pending.timer);
+      this.pending.reject(new Error(reason));
+      this.pending = null;
+    }
+  }
+
+  /**
+   * Queue a call; the worker answers one at a time, so each call's budget
+   * starts when it is sent
+   */
+  private call<T>(
+    fn: string,
+    args: unknown[],
+    timeoutMs = CALL_TIMEOUT_MS + KILL_GRACE_MS,
+  ): Promise<T> {
+    const result = this.queue.then(() => this.send<T>(fn, args, timeoutMs));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private send<T>(fn: string, args: unknown[], timeoutMs: number): Promise<T> {
+    if (this.stoppedReason) {
+      return Promise.reject(new Error(this.stoppedReason));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(
+        () =>
+          this.stop(
+            `Script stopped: no answer within ${timeoutMs}ms (CPU or ${MAX_OLD_GENERATION_MB}MB memory limit exceeded)`,
+          ),
+        timeoutMs,
+      );
+      this.pending = { resolve, reject, timer };
+      this.worker.postMessage({ fn, args: JSON.stringify(args) });
+    });
+  }
+
+  private settle(reply: { result?: string; error?: string }): void {
+    const pending = this.pending;
+    if (!pending) return;
+    this.pending = null;
+    clearTimeout(pending.timer);
+
+    if (reply.error !== undefined) {
+      pending.reject(new Error(reply.error));
+      return;
+    }
+
+    try {
+      pending.resolve(JSON.parse(reply.result!));
+    } catch (error) {
+      pending.reject(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+}
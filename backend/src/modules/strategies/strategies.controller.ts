@@ -1,14 +1,50 @@
-import { Controller, Get, Param, Query } from "@nestjs/common";
-import { ApiTags, ApiOperation, ApiQuery, ApiParam } from "@nestjs/swagger";
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiQuery,
+  ApiParam,
+  ApiBearerAuth,
+} from "@nestjs/swagger";
+import { Prisma, StrategyType } from "@prisma/client";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { CurrentUser } from "../auth/decorators/current-user.decorator";
 import { StrategiesService } from "./strategies.service";
+import { StrategyConfigsService } from "./strategy-configs.service";
+import {
+  MultiTimeframeService,
+  parseTimeframes,
+} from "./multi-timeframe.service";
+import { parseConsensusWeights } from "./consensus";
+import {
+  CreateStrategyConfigDto,
+  UpdateStrategyConfigDto,
+} from "./dto/strategy-config.dto";
+import { CustomStrategyDefinition } from "./strategies.types";
 
 @ApiTags("strategies")
 @Controller("strategies")
 export class StrategiesController {
-  constructor(private readonly strategiesService: StrategiesService) {}
+  constructor(
+    private readonly strategiesService: StrategiesService,
+    private readonly strategyConfigsService: StrategyConfigsService,
+    private readonly multiTimeframeService: MultiTimeframeService
+  ) {}
 
   @Get()
-  @ApiOperation({ summary: "Get all available trading strategies" })
+  @ApiOperation({
+    summary: "Get all available trading strategies with parameter schemas",
+  })
   getAvailableStrategies() {
     return this.strategiesService.getAvailableStrategies();
   }
@@ -42,13 +78,168 @@ export class StrategiesController {
   }
 
   @Get("consensus/:symbol")
-  @ApiOperation({ summary: "Get consensus signal from all strategies" })
+  @ApiOperation({
+    summary: "Get weighted consensus signal from all strategies",
+  })
   @ApiParam({ name: "symbol", example: "BTCUSDT" })
   @ApiQuery({ name: "timeframe", required: false, example: "1h" })
+  @ApiQuery({
+    name: "weights",
+    required: false,
+    description: "Per-strategy weight overrides",
+    example: "SMART_MONEY:2,MACD_RSI:0.5",
+  })
+  @ApiQuery({
+    name: "adaptive",
+    required: false,
+    description: "Scale weights by each strategy's historical hit rate",
+    example: "true",
+  })
   async getConsensusSignal(
+    @Param("symbol") symbol: string,
+    @Query("timeframe") timeframe: string = "1h",
+    @Query("weights") weights?: string,
+    @Query("adaptive") adaptive?: string
+  ) {
+    return this.strategiesService.getConsensusSignal(symbol, timeframe, {
+      weights: parseConsensusWeights(weights),
+      adaptive: adaptive === undefined ? undefined : adaptive === "true",
+    });
+  }
+
+  @Get("performance/:symbol")
+  @ApiOperation({
+    summary: "Recorded signal hit rate of each consensus strategy on a symbol",
+  })
+  @ApiParam({ name: "symbol", example: "BTCUSDT" })
+  @ApiQuery({ name: "timeframe", required: false, example: "1h" })
+  async getStrategyPerformance(
     @Param("symbol") symbol: string,
     @Query("timeframe") timeframe: string = "1h"
   ) {
-    return this.strategiesService.getConsensusSignal(symbol, timeframe);
+    return this.strategiesService.getStrategyPerformance(symbol, timeframe);
+  }
+
+  @Get("mtf/:symbol")
+  @ApiOperation({
+    summary:
+      "Multi-timeframe confluence: trend and consensus per timeframe, with a signal only when higher timeframes agree",
+  })
+  @ApiParam({ name: "symbol", example: "BTCUSDT" })
+  @ApiQuery({
+    name: "timeframes",
+    required: false,
+    description: "Timeframe stack; the lowest one is the entry timeframe",
+    example: "15m,1h,4h,1d",
+  })
+  @ApiQuery({
+    name: "weights",
+    required: false,
+    description: "Per-strategy weight overrides",
+    example: "SMART_MONEY:2,MACD_RSI:0.5",
+  })
+  @ApiQuery({
+    name: "adaptive",
+    required: false,
+    description: "Scale weights by each strategy's historical hit rate",
+    example: "true",
+  })
+  async getMultiTimeframe(
+    @Param("symbol") symbol: string,
+    @Query("timeframes") timeframes?: string,
+    @Query("weights") weights?: string,
+    @Query("adaptive") adaptive?: string
+  ) {
+    return this.multiTimeframeService.analyze(
+      symbol,
+      parseTimeframes(timeframes),
+      {
+        weights: parseConsensusWeights(weights),
+        adaptive: adaptive === undefined ? undefined : adaptive === "true",
+      }
+    );
+  }
+
+  @Post("configs")
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Save a strategy with custom parameters" })
+  createConfig(
+    @CurrentUser("id") userId: string,
+    @Body() dto: CreateStrategyConfigDto
+  ) {
+    return this.strategyConfigsService.create(userId, dto);
+  }
+
+  @Get("configs")
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Get the saved strategies of the current user" })
+  findConfigs(@CurrentUser("id") userId: string) {
+    return this.strategyConfigsService.findAll(userId);
+  }
+
+  @Get("configs/:id")
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Get a saved strategy" })
+  findConfig(@Param("id") id: string, @CurrentUser("id") userId: string) {
+    return this.strategyConfigsService.findOne(id, userId);
+  }
+
+  @Patch("configs/:id")
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Update a saved strategy" })
+  updateConfig(
+    @Param("id") id: string,
+    @CurrentUser("id") userId: string,
+    @Body() dto: UpdateStrategyConfigDto
+  ) {
+    return this.strategyConfigsService.update(id, userId, dto);
+  }
+
+  @Delete("configs/:id")
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Delete a saved strategy" })
+  removeConfig(@Param("id") id: string, @CurrentUser("id") userId: string) {
+    return this.strategyConfigsService.remove(id, userId);
+  }
+
+  @Get("configs/:id/analyze/:symbol")
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Analyze a symbol with a saved strategy and its parameters",
+  })
+  @ApiParam({ name: "symbol", example: "BTCUSDT" })
+  @ApiQuery({ name: "timeframe", required: false, example: "1h" })
+  async analyzeWithConfig(
+    @Param("id") id: string,
+    @Param("symbol") symbol: string,
+    @CurrentUser("id") userId: string,
+    @Query("timeframe") timeframe?: string
+  ) {
+    return this.strategyConfigsService.analyze(id, userId, symbol, timeframe);
+  }
+
+  @Post("custom/preview/:symbol")
+  @ApiOperation({
+    summary: "Evaluate an unsaved CUSTOM rule set on a symbol",
+  })
+  @ApiParam({ name: "symbol", example: "BTCUSDT" })
+  @ApiQuery({ name: "timeframe", required: false, example: "1h" })
+  async previewCustom(
+    @Param("symbol") symbol: string,
+    @Body() definition: CustomStrategyDefinition,
+    @Query("timeframe") timeframe?: string
+  ) {
+    return this.strategyConfigsService.preview(
+      StrategyType.CUSTOM,
+      definition as Prisma.JsonObject,
+      symbol,
+      timeframe
+    );
   }
 }
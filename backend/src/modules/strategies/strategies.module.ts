@@ -1,11 +1,16 @@
 import { Module } from "@nestjs/common";
 import { StrategiesService } from "./strategies.service";
 import { StrategiesController } from "./strategies.controller";
+import { StrategyConfigsService } from "./strategy-configs.service";
+import { StrategyPerformanceService } from "./strategy-performance.service";
+import { MultiTimeframeService } from "./multi-timeframe.service";
 import { RsiVolumeStrategy } from "./implementations/rsi-volume.strategy";
 import { EmaRibbonStrategy } from "./implementations/ema-ribbon.strategy";
 import { MacdRsiStrategy } from "./implementations/macd-rsi.strategy";
 import { SmartMoneyStrategy } from "./implementations/smart-money.strategy";
 import { OrderFlowStrategy } from "./implementations/order-flow.strategy";
+import { CustomRuleStrategy } from "./implementations/custom-rule.strategy";
+import { ScriptedStrategy } from "./implementations/scripted.strategy";
 import { IndicatorsModule } from "../indicators/indicators.module";
 
 @Module({
@@ -13,12 +18,17 @@ import { IndicatorsModule } from "../indicators/indicators.module";
   controllers: [StrategiesController],
   providers: [
     StrategiesService,
+    StrategyConfigsService,
+    StrategyPerformanceService,
+    MultiTimeframeService,
     RsiVolumeStrategy,
     EmaRibbonStrategy,
     MacdRsiStrategy,
     SmartMoneyStrategy,
     OrderFlowStrategy,
+    CustomRuleStrategy,
+    ScriptedStrategy,
   ],
-  exports: [StrategiesService],
+  exports: [StrategiesService, StrategyConfigsService],
 })
 export class StrategiesModule {}
@@ -1,14 +1,32 @@
 import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
 import { RsiVolumeStrategy } from "./implementations/rsi-volume.strategy";
 import { EmaRibbonStrategy } from "./implementations/ema-ribbon.strategy";
 import { MacdRsiStrategy } from "./implementations/macd-rsi.strategy";
 import { SmartMoneyStrategy } from "./implementations/smart-money.strategy";
 import { OrderFlowStrategy } from "./implementations/order-flow.strategy";
-import { StrategyResult } from "./strategies.types";
+import { CustomRuleStrategy } from "./implementations/custom-rule.strategy";
+import { ScriptedStrategy } from "./implementations/scripted.strategy";
+import { StrategyPerformanceService } from "./strategy-performance.service";
+import {
+  DEFAULT_CONSENSUS_WEIGHTS,
+  buildConsensus,
+  parseConsensusWeights,
+} from "./consensus";
+import {
+  ConsensusOptions,
+  ConsensusResult,
+  IStrategy,
+  StrategyHitRate,
+  StrategyParams,
+  StrategyResult,
+} from "./strategies.types";
 
 @Injectable()
 export class StrategiesService {
   private readonly logger = new Logger(StrategiesService.name);
+  private readonly defaultWeights: Record<string, number>;
+  private readonly adaptiveByDefault: boolean;
 
   constructor(
     private readonly rsiVolumeStrategy: RsiVolumeStrategy,
@@ -16,44 +34,67 @@ export class StrategiesService {
     private readonly macdRsiStrategy: MacdRsiStrategy,
     private readonly smartMoneyStrategy: SmartMoneyStrategy,
     private readonly orderFlowStrategy: OrderFlowStrategy,
-  ) {}
+    private readonly customRuleStrategy: CustomRuleStrategy,
+    private readonly scriptedStrategy: ScriptedStrategy,
+    private readonly performanceService: StrategyPerformanceService,
+    configService: ConfigService,
+  ) {
+    this.defaultWeights = {
+      ...DEFAULT_CONSENSUS_WEIGHTS,
+      ...this.parseDefaultWeights(
+        configService.get<string>("CONSENSUS_WEIGHTS"),
+      ),
+    };
+    this.adaptiveByDefault =
+      configService.get<string>("CONSENSUS_ADAPTIVE") === "true";
+  }
 
   /**
-   * Get all available strategies
+   * Get all available strategies with their parameter schemas
    */
   getAvailableStrategies() {
     return [
       {
+        type: "SMART_MONEY",
         name: this.smartMoneyStrategy.name,
         description: this.smartMoneyStrategy.description,
+        parameters: this.smartMoneyStrategy.parameters,
         winRate: "75-82%",
         category: "Advanced",
         recommended: true,
       },
       {
+        type: "ORDER_FLOW",
         name: this.orderFlowStrategy.name,
         description: this.orderFlowStrategy.description,
+        parameters: this.orderFlowStrategy.parameters,
         winRate: "73-79%",
         category: "Advanced",
         recommended: true,
       },
       {
+        type: "RSI_VOLUME",
         name: this.rsiVolumeStrategy.name,
         description: this.rsiVolumeStrategy.description,
+        parameters: this.rsiVolumeStrategy.parameters,
         winRate: "68-72%",
         category: "Classic",
         recommended: false,
       },
       {
+        type: "EMA_RIBBON",
         name: this.emaRibbonStrategy.name,
         description: this.emaRibbonStrategy.description,
+        parameters: this.emaRibbonStrategy.parameters,
         winRate: "65-70%",
         category: "Classic",
         recommended: false,
       },
       {
+        type: "MACD_RSI",
         name: this.macdRsiStrategy.name,
         description: this.macdRsiStrategy.description,
+        parameters: this.macdRsiStrategy.parameters,
         winRate: "63-68%",
         category: "Classic",
         recommended: false,
@@ -62,39 +103,61 @@ export class StrategiesService {
   }
 
   /**
-   * Analyze symbol with a specific strategy
+   * Live implementation for a strategy name or stored StrategyType
    */
-  async analyzeWithStrategy(
-    strategyName: string,
-    symbol: string,
-    timeframe: string,
-  ): Promise<StrategyResult> {
-    this.logger.log(`Analyzing ${symbol} with strategy: ${strategyName}`);
-
+  getStrategy(strategyName: string): IStrategy | null {
     switch (strategyName.toUpperCase()) {
       case "SMART_MONEY":
       case "SMART MONEY CONCEPTS":
-        return this.smartMoneyStrategy.analyze(symbol, timeframe);
+        return this.smartMoneyStrategy;
 
       case "ORDER_FLOW":
       case "ORDER FLOW + VOLUME PROFILE":
-        return this.orderFlowStrategy.analyze(symbol, timeframe);
+        return this.orderFlowStrategy;
 
       case "RSI_VOLUME":
       case "RSI + VOLUME":
-        return this.rsiVolumeStrategy.analyze(symbol, timeframe);
+        return this.rsiVolumeStrategy;
 
       case "EMA_RIBBON":
-        return this.emaRibbonStrategy.analyze(symbol, timeframe);
+        return this.emaRibbonStrategy;
 
       case "MACD_RSI":
-        return this.macdRsiStrategy.analyze(symbol, timeframe);
+      case "MACD_RSI_CONFLUENCE":
+        return this.macdRsiStrategy;
+
+      // Rules/scripts come from the config; not part of the all-strategies run
+      case "CUSTOM":
+      case "CUSTOM RULES":
+        return this.customRuleStrategy;
+
+      case "SCRIPTED":
+        return this.scriptedStrategy;
 
       default:
-        throw new Error(`Unknown strategy: ${strategyName}`);
+        return null;
     }
   }
 
+  /**
+   * Analyze symbol with a specific strategy
+   */
+  async analyzeWithStrategy(
+    strategyName: string,
+    symbol: string,
+    timeframe: string,
+    params?: StrategyParams,
+  ): Promise<StrategyResult> {
+    this.logger.log(`Analyzing ${symbol} with strategy: ${strategyName}`);
+
+    const strategy = this.getStrategy(strategyName);
+    if (!strategy) {
+      throw new Error(`Unknown strategy: ${strategyName}`);
+    }
+
+    return strategy.analyze(symbol, timeframe, params);
+  }
+
   /**
    * Analyze symbol with all strategies
    */
@@ -104,83 +167,81 @@ export class StrategiesService {
   ): Promise<Record<string, StrategyResult>> {
     this.logger.log(`Analyzing ${symbol} with ALL strategies`);
 
-    const [smartMoney, orderFlow, rsiVolume, emaRibbon, macdRsi] =
-      await Promise.all([
-        this.smartMoneyStrategy.analyze(symbol, timeframe),
-        this.orderFlowStrategy.analyze(symbol, timeframe),
-        this.rsiVolumeStrategy.analyze(symbol, timeframe),
-        this.emaRibbonStrategy.analyze(symbol, timeframe),
-        this.macdRsiStrategy.analyze(symbol, timeframe),
-      ]);
+    const entries = Object.entries(this.consensusStrategies());
+    const results = await Promise.all(
+      entries.map(([, strategy]) => strategy.analyze(symbol, timeframe)),
+    );
 
-    return {
-      SMART_MONEY: smartMoney,
-      ORDER_FLOW: orderFlow,
-      RSI_VOLUME: rsiVolume,
-      EMA_RIBBON: emaRibbon,
-      MACD_RSI: macdRsi,
-    };
+    return Object.fromEntries(entries.map(([key], i) => [key, results[i]]));
   }
 
   /**
-   * Get consensus signal from multiple strategies
+   * Weighted consensus of all strategies. Weights default to
+   * CONSENSUS_WEIGHTS; adaptive mode also scales each weight by the
+   * strategy's historical hit rate on this symbol/timeframe.
    */
   async getConsensusSignal(
     symbol: string,
     timeframe: string,
-  ): Promise<{
-    symbol: string;
-    timeframe: string;
-    consensus: "STRONG_BUY" | "BUY" | "NEUTRAL" | "SELL" | "STRONG_SELL";
-    confidence: number;
-    strategies: Record<string, StrategyResult>;
-    agreementRate: number;
-  }> {
-    const strategies = await this.analyzeWithAllStrategies(symbol, timeframe);
-
-    let buySignals = 0;
-    let sellSignals = 0;
-    let totalConfidence = 0;
-    let activeStrategies = 0;
-
-    Object.values(strategies).forEach((result) => {
-      if (result.signal) {
-        activeStrategies++;
-        if (result.signal.type === "BUY") buySignals++;
-        if (result.signal.type === "SELL") sellSignals++;
-        totalConfidence += result.signal.confidence;
-      }
-    });
-
-    const agreementRate =
-      activeStrategies > 0
-        ? Math.max(buySignals, sellSignals) / Object.keys(strategies).length
-        : 0;
-
-    const avgConfidence =
-      activeStrategies > 0 ? totalConfidence / activeStrategies : 0;
-
-    let consensus: "STRONG_BUY" | "BUY" | "NEUTRAL" | "SELL" | "STRONG_SELL";
-
-    if (buySignals === 3) {
-      consensus = "STRONG_BUY"; // All 3 strategies agree
-    } else if (buySignals === 2) {
-      consensus = "BUY"; // 2 out of 3 agree
-    } else if (sellSignals === 3) {
-      consensus = "STRONG_SELL"; // All 3 strategies agree
-    } else if (sellSignals === 2) {
-      consensus = "SELL"; // 2 out of 3 agree
-    } else {
-      consensus = "NEUTRAL"; // No consensus
-    }
-
-    return {
+    options: ConsensusOptions = {},
+  ): Promise<ConsensusResult> {
+    const adaptive = options.adaptive ?? this.adaptiveByDefault;
+    const [strategies, hitRates] = await Promise.all([
+      this.analyzeWithAllStrategies(symbol, timeframe),
+      adaptive
+        ? this.getStrategyPerformance(symbol, timeframe)
+        : Promise.resolve(undefined),
+    ]);
+
+    return buildConsensus(
       symbol,
       timeframe,
-      consensus,
-      confidence: avgConfidence,
       strategies,
-      agreementRate,
+      { ...this.defaultWeights, ...options.weights },
+      hitRates,
+    );
+  }
+
+  /**
+   * Recorded hit rate of every consensus strategy on a symbol/timeframe
+   */
+  async getStrategyPerformance(
+    symbol: string,
+    timeframe: string,
+  ): Promise<Record<string, StrategyHitRate>> {
+    return this.performanceService.getHitRates(
+      Object.keys(this.consensusStrategies()),
+      symbol,
+      timeframe,
+    );
+  }
+
+  /**
+   * A malformed CONSENSUS_WEIGHTS must not keep the API from starting
+   */
+  private parseDefaultWeights(
+    value?: string,
+  ): Record<string, number> | undefined {
+    try {
+      return parseConsensusWeights(value);
+    } catch (error) {
+      this.logger.warn(
+        `Ignoring CONSENSUS_WEIGHTS "${value}": ${error.message}. Using default weights`,
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Strategies that vote in the consensus, keyed like DEFAULT_CONSENSUS_WEIGHTS
+   */
+  private consensusStrategies(): Record<string, IStrategy> {
+    return {
+      SMART_MONEY: this.smartMoneyStrategy,
+      ORDER_FLOW: this.orderFlowStrategy,
+      RSI_VOLUME: this.rsiVolumeStrategy,
+      EMA_RIBBON: this.emaRibbonStrategy,
+      MACD_RSI: this.macdRsiStrategy,
     };
   }
 }
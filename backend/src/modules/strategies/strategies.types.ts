@@ -1,5 +1,7 @@
 // Strategy Types and Interfaces
 
+import { SeriesCandle } from "../indicators/indicators.types";
+
 export interface StrategyConfig {
   name: string;
   description: string;
@@ -28,6 +30,218 @@ export interface StrategyResult {
   analysis: string;
 }
 
+export type StrategyParams = Record<string, any>;
+
+/**
+ * One tunable parameter of a strategy. Published via GET /strategies so
+ * clients can build the config form, and used to validate Strategy.config.
+ */
+export interface StrategyParamDefinition {
+  name: string;
+  type: "integer" | "number" | "boolean";
+  description: string;
+  default: number | boolean;
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+/**
+ * Pure reading of a strategy on the last candle of a series. Carries no
+ * symbol or timeframe so it can be produced from any candle source.
+ */
+export interface StrategyEvaluation {
+  type: "BUY" | "SELL" | null;
+  shouldEnter: boolean;
+  shouldExit: boolean;
+  price: number;
+  confidence: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  analysis: string;
+  metadata: Record<string, any>;
+}
+
+// Custom rule DSL (StrategyType.CUSTOM, stored in Strategy.config)
+
+/**
+ * A constant, or an output of a catalogue indicator (GET /indicators/catalog)
+ * `offset` bars back. `output` defaults to the indicator's first output.
+ */
+export type RuleOperand =
+  | { value: number }
+  | {
+      indicator: string;
+      output?: string;
+      params?: Record<string, number>;
+      offset?: number;
+    };
+
+export interface CompareRule {
+  type: "compare";
+  left: RuleOperand;
+  operator: ">" | ">=" | "<" | "<=";
+  right: RuleOperand;
+}
+
+/** `left` crosses `right` between the previous bar and the current one */
+export interface CrossRule {
+  type: "crossAbove" | "crossBelow";
+  left: RuleOperand;
+  right: RuleOperand;
+}
+
+export interface RuleGroup {
+  type: "and" | "or";
+  rules: RuleNode[];
+}
+
+export type RuleNode = CompareRule | CrossRule | RuleGroup;
+
+export interface CustomStrategyDefinition {
+  buy?: RuleNode;
+  sell?: RuleNode;
+  exit?: RuleNode;
+  stopLossPercent?: number;
+  takeProfitPercent?: number;
+}
+
+/**
+ * Strategy.config of a SCRIPTED strategy: the uploaded JS/TS source and
+ * overrides for the parameters the script declares
+ */
+export interface ScriptedStrategyConfig {
+  source: string;
+  params?: StrategyParams;
+}
+
+/**
+ * Indicator series a script asks for, computed on the host from the catalog
+ */
+export interface ScriptIndicatorRequest {
+  indicator: string;
+  params?: Record<string, number>;
+}
+
+/**
+ * What a script's evaluate() returns for the latest candle
+ */
+export interface ScriptDecision {
+  action: "BUY" | "SELL" | "EXIT" | "HOLD";
+  confidence?: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  reason?: string;
+  metadata?: Record<string, any>;
+}
+
+export type ConsensusLevel =
+  | "STRONG_BUY"
+  | "BUY"
+  | "NEUTRAL"
+  | "SELL"
+  | "STRONG_SELL";
+
+export interface ConsensusOptions {
+  // Per-strategy weight overrides, e.g. { SMART_MONEY: 2, MACD_RSI: 0.5 }
+  weights?: Record<string, number>;
+  // Scale weights by each strategy's historical hit rate on the symbol
+  adaptive?: boolean;
+}
+
+/**
+ * How often a strategy's recorded signals on a symbol/timeframe were right:
+ * take profit reached before stop loss, over the last `days`
+ */
+export interface StrategyHitRate {
+  signals: number; // Signals that hit TP or SL (expired ones decide nothing)
+  hits: number;
+  hitRate: number;
+  days: number;
+  computedAt: Date;
+}
+
+/**
+ * One strategy's vote and how much it moved the consensus score
+ */
+export interface ConsensusVote {
+  strategy: string;
+  vote: "BUY" | "SELL" | "NONE";
+  confidence: number;
+  baseWeight: number;
+  performanceFactor: number;
+  weight: number;
+  contribution: number;
+  hitRate?: StrategyHitRate;
+  explanation: string;
+}
+
+export interface ConsensusResult {
+  symbol: string;
+  timeframe: string;
+  consensus: ConsensusLevel;
+  // Weighted vote in [-1, 1]: -1 = every strategy SELL, 1 = every one BUY
+  score: number;
+  confidence: number;
+  strategies: Record<string, StrategyResult>;
+  agreementRate: number;
+  adaptive: boolean;
+  votes: ConsensusVote[];
+  explanation: string;
+}
+
+export type TimeframeTrend = "BULLISH" | "BEARISH" | "NEUTRAL";
+
+/**
+ * One column of the multi-timeframe matrix
+ */
+export interface TimeframeAnalysis {
+  timeframe: string;
+  price: number | null;
+  // Sum of +1/-1 votes: close vs EMA 50, EMA 50 vs EMA 200, MACD, Supertrend
+  trendScore: number;
+  trend: TimeframeTrend;
+  indicators: {
+    rsi: number | null;
+    rsiSignal: "OVERSOLD" | "OVERBOUGHT" | "NEUTRAL" | null;
+    macdHistogram: number | null;
+    macdTrend: "BULLISH" | "BEARISH" | "NEUTRAL" | null;
+    ema50: number | null;
+    ema200: number | null;
+    emaAlignment: "BULLISH" | "BEARISH" | "MIXED" | null;
+    supertrend: "UP" | "DOWN" | null;
+    adx: number | null;
+  };
+  strategies: Record<string, "BUY" | "SELL" | "NONE">;
+  consensus: ConsensusLevel;
+  consensusScore: number;
+  consensusConfidence: number;
+}
+
+export interface MultiTimeframeAnalysis {
+  symbol: string;
+  timeframes: string[];
+  entryTimeframe: string;
+  matrix: TimeframeAnalysis[];
+  alignment: {
+    trend: TimeframeTrend | "MIXED";
+    bullish: number;
+    bearish: number;
+    neutral: number;
+    // (bullish - bearish) / timeframes, in [-1, 1]
+    score: number;
+  };
+  higherTimeframeBias: TimeframeTrend | "MIXED";
+  signal: {
+    type: "BUY" | "SELL";
+    timeframe: string;
+    price: number;
+    confidence: number;
+    reasoning: string;
+  } | null;
+  explanation: string;
+}
+
 export interface BacktestResult {
   strategy: string;
   symbol: string;
@@ -51,8 +265,41 @@ export interface BacktestResult {
 export interface IStrategy {
   name: string;
   description: string;
+  /** Candles `evaluate` needs before it can produce a signal, for any valid params */
+  lookback: number;
+  parameters: StrategyParamDefinition[];
+
+  analyze(
+    symbol: string,
+    timeframe: string,
+    params?: StrategyParams
+  ): Promise<StrategyResult>;
+
+  /**
+   * Evaluate the last candle of an ascending series. No I/O, so the same
+   * logic runs on live data, backtest bars and fixtures.
+   */
+  evaluate(
+    candles: SeriesCandle[],
+    params?: StrategyParams
+  ): StrategyEvaluation;
+
+  /**
+   * Evaluations of every bar from `from` on, bar i seeing the candles up to
+   * i. Strategies that run out of process (scripts) implement this instead
+   * of a per-bar evaluate, and callers with a whole series prefer it.
+   */
+  evaluateSeries?(
+    candles: SeriesCandle[],
+    params: StrategyParams | undefined,
+    from: number
+  ): Promise<StrategyEvaluation[]>;
 
-  analyze(symbol: string, timeframe: string): Promise<StrategyResult>;
+  /**
+   * Problems with a Strategy.config for this strategy (empty = valid).
+   * Defaults to checking it against `parameters`.
+   */
+  validateConfig?(config: unknown): string[] | Promise<string[]>;
 
   backtest(
     symbol: string,
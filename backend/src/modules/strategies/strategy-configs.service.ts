@@ -0,0 +1,166 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import { Prisma, Strategy, StrategyType } from "@prisma/client";
+import { PrismaService } from "@/common/prisma/prisma.service";
+import { StrategiesService } from "./strategies.service";
+import { validateParams } from "./strategy-params";
+import { StrategyParams, StrategyResult } from "./strategies.types";
+import {
+  CreateStrategyConfigDto,
+  UpdateStrategyConfigDto,
+} from "./dto/strategy-config.dto";
+
+/**
+ * StrategyConfigsService - Per-user Strategy records
+ *
+ * A record picks a strategy type and overrides its parameters in `config`.
+ * Configs are validated against the implementation's parameter schema on
+ * every save, so analysis and backtests can trust them.
+ */
+@Injectable()
+export class StrategyConfigsService {
+  private readonly logger = new Logger(StrategyConfigsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly strategiesService: StrategiesService,
+  ) {}
+
+  async create(
+    userId: string,
+    dto: CreateStrategyConfigDto,
+  ): Promise<Strategy> {
+    const config = dto.config ?? {};
+    await this.validateConfig(dto.type, config);
+
+    const strategy = await this.prisma.strategy.create({
+      data: {
+        userId,
+        name: dto.name,
+        description: dto.description,
+        type: dto.type,
+        config,
+        timeframes: dto.timeframes ?? ["1h"],
+      },
+    });
+
+    this.logger.log(`Created ${dto.type} strategy ${strategy.id}`);
+    return strategy;
+  }
+
+  async findAll(userId: string): Promise<Strategy[]> {
+    return this.prisma.strategy.findMany({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  async findOne(id: string, userId: string): Promise<Strategy> {
+    const strategy = await this.prisma.strategy.findFirst({
+      where: { id, userId },
+    });
+
+    if (!strategy) {
+      throw new NotFoundException(`Strategy with ID ${id} not found`);
+    }
+
+    return strategy;
+  }
+
+  async update(
+    id: string,
+    userId: string,
+    dto: UpdateStrategyConfigDto,
+  ): Promise<Strategy> {
+    const existing = await this.findOne(id, userId);
+    if (dto.config) {
+      await this.validateConfig(existing.type, dto.config);
+    }
+
+    return this.prisma.strategy.update({
+      where: { id },
+      data: dto,
+    });
+  }
+
+  async remove(id: string, userId: string): Promise<void> {
+    await this.findOne(id, userId);
+    await this.prisma.strategy.delete({ where: { id } });
+    this.logger.log(`Deleted strategy: ${id}`);
+  }
+
+  /**
+   * Run the live strategy of a record with the record's parameters
+   */
+  async analyze(
+    id: string,
+    userId: string,
+    symbol: string,
+    timeframe?: string,
+  ): Promise<StrategyResult> {
+    const strategy = await this.findOne(id, userId);
+
+    if (!this.strategiesService.getStrategy(strategy.type)) {
+      throw new BadRequestException(
+        `Strategy type ${strategy.type} has no live implementation`,
+      );
+    }
+
+    return this.strategiesService.analyzeWithStrategy(
+      strategy.type,
+      symbol,
+      timeframe || strategy.timeframes[0] || "1h",
+      strategy.config as StrategyParams,
+    );
+  }
+
+  /**
+   * Run an unsaved config (e.g. a rule set from the strategy builder)
+   */
+  async preview(
+    type: StrategyType,
+    config: Prisma.JsonValue,
+    symbol: string,
+    timeframe: string = "1h",
+  ): Promise<StrategyResult> {
+    if (!this.strategiesService.getStrategy(type)) {
+      throw new BadRequestException(
+        `Strategy type ${type} has no live implementation`,
+      );
+    }
+    await this.validateConfig(type, config);
+
+    return this.strategiesService.analyzeWithStrategy(
+      type,
+      symbol,
+      timeframe,
+      config as StrategyParams,
+    );
+  }
+
+  /**
+   * Types without a live implementation (e.g. BOLLINGER_SQUEEZE) have no
+   * schema and keep their config as-is
+   */
+  private async validateConfig(
+    type: StrategyType,
+    config: Prisma.JsonValue,
+  ): Promise<void> {
+    const live = this.strategiesService.getStrategy(type);
+    if (!live) return;
+
+    const errors = live.validateConfig
+      ? await live.validateConfig(config)
+      : validateParams(live.parameters, config);
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        message: `Invalid ${type} config`,
+        errors,
+      });
+    }
+  }
+}
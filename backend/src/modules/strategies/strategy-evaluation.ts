@@ -0,0 +1,59 @@
+import {
+  StrategyEvaluation,
+  StrategyResult,
+  StrategySignal,
+} from "./strategies.types";
+
+/**
+ * Evaluation that produces no trade (missing data, no setup)
+ */
+export function noSignal(
+  analysis: string,
+  price: number = 0,
+  metadata: Record<string, any> = {},
+): StrategyEvaluation {
+  return {
+    type: null,
+    shouldEnter: false,
+    shouldExit: false,
+    price,
+    confidence: 0,
+    analysis,
+    metadata,
+  };
+}
+
+/**
+ * Attach symbol/timeframe to an evaluation to get the live StrategyResult
+ */
+export function toStrategyResult(
+  strategy: string,
+  symbol: string,
+  timeframe: string,
+  evaluation: StrategyEvaluation,
+): StrategyResult {
+  let signal: StrategySignal | undefined;
+
+  if (evaluation.shouldEnter && evaluation.type && evaluation.price > 0) {
+    signal = {
+      symbol,
+      strategy,
+      timeframe,
+      timestamp: new Date(),
+      type: evaluation.type,
+      price: evaluation.price,
+      confidence: evaluation.confidence,
+      stopLoss: evaluation.stopLoss,
+      takeProfit: evaluation.takeProfit,
+      reasoning: evaluation.analysis,
+      metadata: evaluation.metadata,
+    };
+  }
+
+  return {
+    signal,
+    shouldEnter: evaluation.shouldEnter,
+    shouldExit: evaluation.shouldExit,
+    analysis: evaluation.analysis,
+  };
+}
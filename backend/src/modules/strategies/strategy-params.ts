@@ -0,0 +1,79 @@
+import { StrategyParamDefinition, StrategyParams } from "./strategies.types";
+
+/**
+ * Why `value` is not acceptable for `definition`, or null if it is
+ */
+function checkParam(
+  definition: StrategyParamDefinition,
+  value: unknown,
+): string | null {
+  const { name, type, min, max } = definition;
+
+  if (type === "boolean") {
+    return typeof value === "boolean" ? null : `${name} must be a boolean`;
+  }
+
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return `${name} must be a number`;
+  }
+  if (type === "integer" && !Number.isInteger(value)) {
+    return `${name} must be an integer`;
+  }
+  if (min !== undefined && value < min) {
+    return `${name} must be at least ${min}`;
+  }
+  if (max !== undefined && value > max) {
+    return `${name} must be at most ${max}`;
+  }
+
+  return null;
+}
+
+/**
+ * Problems with a stored config against a parameter schema (empty = valid).
+ * Every key must be a known parameter; missing ones use their default.
+ */
+export function validateParams(
+  schema: StrategyParamDefinition[],
+  config: unknown,
+): string[] {
+  if (config === undefined || config === null) return [];
+  if (typeof config !== "object" || Array.isArray(config)) {
+    return ["config must be an object"];
+  }
+
+  const errors: string[] = [];
+  for (const [name, value] of Object.entries(config)) {
+    const definition = schema.find((d) => d.name === name);
+    if (!definition) {
+      errors.push(`Unknown parameter ${name}`);
+      continue;
+    }
+
+    const error = checkParam(definition, value);
+    if (error) errors.push(error);
+  }
+
+  return errors;
+}
+
+/**
+ * Schema defaults overlaid with the overrides that are valid. Invalid or
+ * unknown overrides (e.g. configs saved before a schema change) are ignored.
+ */
+export function resolveParams(
+  schema: StrategyParamDefinition[],
+  overrides: StrategyParams = {},
+): StrategyParams {
+  const params: StrategyParams = {};
+
+  for (const definition of schema) {
+    const value = overrides[definition.name];
+    params[definition.name] =
+      value !== undefined && checkParam(definition, value) === null
+        ? value
+        : definition.default;
+  }
+
+  return params;
+}
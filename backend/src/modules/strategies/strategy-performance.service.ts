@@ -0,0 +1,92 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { SignalOutcomeType } from "@prisma/client";
+import { PrismaService } from "@/common/prisma/prisma.service";
+import { normalizeSymbol } from "../market-data/market-data.types";
+import { StrategyHitRate } from "./strategies.types";
+
+const LOOKBACK_DAYS = 90; // Older outcomes no longer count
+const CACHE_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * StrategyPerformanceService - Live hit rate of a strategy
+ *
+ * Reads the outcomes SignalOutcomeService records for the signals each
+ * strategy emitted on a symbol/timeframe: a TP hit counts as a hit and an
+ * SL hit as a miss. Results are cached per symbol/timeframe.
+ */
+@Injectable()
+export class StrategyPerformanceService {
+  private readonly logger = new Logger(StrategyPerformanceService.name);
+  private readonly cache = new Map<string, Record<string, StrategyHitRate>>();
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Hit rate per strategy name; strategies without outcomes get zero
+   * signals, which leaves their consensus weight unchanged
+   */
+  async getHitRates(
+    strategyKeys: string[],
+    symbol: string,
+    timeframe: string,
+  ): Promise<Record<string, StrategyHitRate>> {
+    const normalized = normalizeSymbol(symbol);
+    const key = `${normalized}|${timeframe}|${strategyKeys.join(",")}`;
+
+    const cached = this.cache.get(key);
+    if (
+      cached &&
+      Object.values(cached).every(
+        (hitRate) => Date.now() - hitRate.computedAt.getTime() < CACHE_TTL_MS,
+      )
+    ) {
+      return cached;
+    }
+
+    const since = new Date(Date.now() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const outcomes = await this.prisma.signalOutcome.findMany({
+      where: {
+        outcome: { in: [SignalOutcomeType.TP_HIT, SignalOutcomeType.SL_HIT] },
+        resolvedAt: { gte: since },
+        signal: {
+          timeframe,
+          crypto: { binanceSymbol: normalized },
+          strategy: { name: { in: strategyKeys } },
+        },
+      },
+      select: {
+        outcome: true,
+        signal: { select: { strategy: { select: { name: true } } } },
+      },
+    });
+
+    const computedAt = new Date();
+    const hitRates: Record<string, StrategyHitRate> = {};
+    for (const strategyKey of strategyKeys) {
+      hitRates[strategyKey] = {
+        signals: 0,
+        hits: 0,
+        hitRate: 0,
+        days: LOOKBACK_DAYS,
+        computedAt,
+      };
+    }
+
+    for (const { outcome, signal } of outcomes) {
+      const hitRate = hitRates[signal.strategy.name];
+      hitRate.signals++;
+      if (outcome === SignalOutcomeType.TP_HIT) hitRate.hits++;
+    }
+    for (const hitRate of Object.values(hitRates)) {
+      hitRate.hitRate =
+        hitRate.signals > 0 ? hitRate.hits / hitRate.signals : 0;
+    }
+
+    this.logger.debug(
+      `${outcomes.length} recorded outcomes for ${normalized} ${timeframe}`,
+    );
+
+    this.cache.set(key, hitRates);
+    return hitRates;
+  }
+}
@@ -7,6 +7,12 @@ import {
 } from "../websocket/websocket.types";
 import { ParsedCandle } from "../market-data/binance/binance.types";
 
+export type PriceListener = (
+  symbol: string,
+  price: number,
+  timestamp: number,
+) => void;
+
 /**
  * Realtime Price Service
  *
@@ -35,6 +41,9 @@ export class RealtimePriceService implements OnModuleInit {
   private priceCache: Map<string, { price: number; timestamp: number }> =
     new Map();
 
+  // In-process consumers of the price stream (e.g. paper order matching)
+  private readonly listeners = new Set<PriceListener>();
+
   constructor(
     private readonly binanceWebsocket: BinanceWebsocketService,
     private readonly websocketGateway: WebsocketGateway,
@@ -97,6 +106,14 @@ export class RealtimePriceService implements OnModuleInit {
     // Broadcast to WebSocket clients
     this.websocketGateway.broadcastPriceUpdate(priceUpdate);
 
+    for (const listener of this.listeners) {
+      try {
+        listener(symbol, close, timestamp.getTime());
+      } catch (error) {
+        this.logger.error(`Price listener failed for ${symbol}`, error);
+      }
+    }
+
     // Also broadcast candle data
     if (isClosed) {
       const candleUpdate: CandleUpdatePayload = {
@@ -125,6 +142,15 @@ export class RealtimePriceService implements OnModuleInit {
     }
   }
 
+  /**
+   * Receive every price update of the monitored symbols (full Binance
+   * symbol, e.g. BTCUSDT). Returns a function that removes the listener.
+   */
+  onPrice(listener: PriceListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
   /**
    * Get currently monitored symbols
    */
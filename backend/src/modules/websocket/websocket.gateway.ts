@@ -22,6 +22,9 @@ import {
   CandleUpdatePayload,
   SignalPayload,
   AlertPayload,
+  BacktestProgressPayload,
+  OptimizationProgressPayload,
+  PaperTradeClosedPayload,
 } from "./websocket.types";
 
 /**
@@ -280,6 +283,29 @@ export class WebsocketGateway
     );
   }
 
+  /**
+   * Broadcast a change of an existing signal (status or confidence)
+   */
+  broadcastSignalUpdate(payload: SignalPayload) {
+    const channel = SubscriptionChannel.SIGNALS;
+    const subscriptionKey = `${channel}:${payload.cryptoSymbol}`;
+    const message = {
+      event: WebSocketEvent.SIGNAL_UPDATED,
+      channel,
+      data: payload,
+      timestamp: Date.now(),
+    } as WebSocketMessage<SignalPayload>;
+
+    this.server
+      .to(subscriptionKey)
+      .emit(WebSocketEvent.SIGNAL_UPDATED, message);
+    this.server.to(channel).emit(WebSocketEvent.SIGNAL_UPDATED, message);
+
+    this.logger.debug(
+      `Broadcasted signal update: ${payload.id} ${payload.status ?? ""}`,
+    );
+  }
+
   /**
    * Send alert notification to specific user
    */
@@ -301,6 +327,67 @@ export class WebsocketGateway
     this.logger.log(`Sent alert to user ${userId}: ${payload.message}`);
   }
 
+  /**
+   * Send backtest progress (BACKTEST_PROGRESS) or a status change
+   * (BACKTEST_STATUS) to the user who started the backtest
+   */
+  sendBacktestUpdate(
+    userId: string,
+    event: WebSocketEvent.BACKTEST_PROGRESS | WebSocketEvent.BACKTEST_STATUS,
+    payload: BacktestProgressPayload,
+  ) {
+    Array.from(this.clients.entries())
+      .filter(([_, metadata]) => metadata.userId === userId)
+      .forEach(([socketId, _]) => {
+        this.server.to(socketId).emit(event, {
+          event,
+          channel: SubscriptionChannel.BACKTESTS,
+          data: payload,
+          timestamp: Date.now(),
+        } as WebSocketMessage<BacktestProgressPayload>);
+      });
+  }
+
+  /**
+   * Send optimization progress (OPTIMIZATION_PROGRESS) or a status change
+   * (OPTIMIZATION_STATUS) to the user who started the optimization
+   */
+  sendOptimizationUpdate(
+    userId: string,
+    event:
+      | WebSocketEvent.OPTIMIZATION_PROGRESS
+      | WebSocketEvent.OPTIMIZATION_STATUS,
+    payload: OptimizationProgressPayload,
+  ) {
+    Array.from(this.clients.entries())
+      .filter(([_, metadata]) => metadata.userId === userId)
+      .forEach(([socketId, _]) => {
+        this.server.to(socketId).emit(event, {
+          event,
+          channel: SubscriptionChannel.BACKTESTS,
+          data: payload,
+          timestamp: Date.now(),
+        } as WebSocketMessage<OptimizationProgressPayload>);
+      });
+  }
+
+  /**
+   * Tell the owner of a paper trade that it was closed automatically
+   * (stop loss, take profit or trailing stop)
+   */
+  sendPaperTradeClosed(userId: string, payload: PaperTradeClosedPayload) {
+    Array.from(this.clients.entries())
+      .filter(([_, metadata]) => metadata.userId === userId)
+      .forEach(([socketId, _]) => {
+        this.server.to(socketId).emit(WebSocketEvent.PAPER_TRADE_CLOSED, {
+          event: WebSocketEvent.PAPER_TRADE_CLOSED,
+          channel: SubscriptionChannel.PAPER_TRADING,
+          data: payload,
+          timestamp: Date.now(),
+        } as WebSocketMessage<PaperTradeClosedPayload>);
+      });
+  }
+
   /**
    * Broadcast alert to all users subscribed to alerts channel
    */
@@ -10,6 +10,6 @@ import { MarketDataModule } from "../market-data/market-data.module";
     /* AuthModule */
   ], // TODO: Re-enable when auth is configured
   providers: [WebsocketGateway, RealtimePriceService],
-  exports: [WebsocketGateway],
+  exports: [WebsocketGateway, RealtimePriceService],
 })
 export class WebsocketModule {}
@@ -27,6 +27,15 @@ export enum WebSocketEvent {
   ALERT_CREATED = "alert:created",
   ALERT_DELETED = "alert:deleted",
 
+  // Backtests
+  BACKTEST_PROGRESS = "backtest:progress",
+  BACKTEST_STATUS = "backtest:status",
+  OPTIMIZATION_PROGRESS = "optimization:progress",
+  OPTIMIZATION_STATUS = "optimization:status",
+
+  // Paper trading
+  PAPER_TRADE_CLOSED = "paper-trade:closed",
+
   // Subscription events
   SUBSCRIBE = "subscribe",
   UNSUBSCRIBE = "unsubscribe",
@@ -40,6 +49,8 @@ export enum SubscriptionChannel {
   SIGNALS = "signals",
   ALERTS = "alerts",
   TICKER = "ticker",
+  BACKTESTS = "backtests",
+  PAPER_TRADING = "paper-trading",
 }
 
 export interface WebSocketMessage<T = any> {
@@ -77,6 +88,8 @@ export interface SignalPayload {
   confidence: number;
   reason: string;
   timestamp: number;
+  timeframe?: string;
+  status?: "NEW" | "ACTIVE" | "INVALIDATED" | "CLOSED";
 }
 
 export interface AlertPayload {
@@ -87,6 +100,39 @@ export interface AlertPayload {
   timestamp: number;
 }
 
+export interface BacktestProgressPayload {
+  backtestId: string;
+  status: "PENDING" | "RUNNING" | "COMPLETED" | "FAILED" | "CANCELLED";
+  progress: number; // 0-100
+  currentDate?: number;
+  tradesExecuted?: number;
+  message?: string;
+  error?: string;
+  timestamp: number;
+}
+
+export interface OptimizationProgressPayload {
+  optimizationId: string;
+  status: "PENDING" | "RUNNING" | "COMPLETED" | "FAILED" | "CANCELLED";
+  progress: number; // 0-100
+  evaluated?: number; // Parameter sets run so far
+  error?: string;
+  timestamp: number;
+}
+
+export interface PaperTradeClosedPayload {
+  tradeId: string;
+  symbol: string;
+  side: "BUY" | "SELL";
+  quantity: number;
+  entryPrice: number;
+  exitPrice: number;
+  pnl: number;
+  pnlPercent: number;
+  closeReason: "SL" | "TP" | "TRAILING";
+  timestamp: number;
+}
+
 export interface SubscribePayload {
   channel: SubscriptionChannel;
   symbols?: string[]; // Optional: specific symbols to subscribe to
@@ -94,6 +94,8 @@ function startBackend() {
       ...process.env,
       NODE_ENV: isDev ? 'development' : 'production',
       PORT: '3000',
+      // Cola de trabajos en proceso, fuera de la carpeta de instalación
+      QUEUE_DATA_DIR: path.join(app.getPath('userData'), 'queues'),
     },
   });
 
@@ -3,6 +3,8 @@
 import { useState, useEffect } from 'react';
 import { useAuthStore } from '@/stores/auth-store';
 import DashboardLayout from '@/components/layout/dashboard-layout';
+import { OpenOrdersPanel, PaperOrder } from '@/components/paper-trading/open-orders-panel';
+import { LedgerPanel, LedgerEntry } from '@/components/paper-trading/ledger-panel';
 import { toast } from 'sonner';
 import { 
   Wallet, 
@@ -26,10 +28,15 @@ interface Trade {
   currentPrice?: number;
   pnl?: number;
   pnlPercent?: number;
+  entryFee?: number;
+  exitFee?: number;
+  margin?: number;
   unrealizedPnl?: number;
   unrealizedPnlPercent?: number;
   stopLoss?: number;
   takeProfit?: number;
+  trailingStop?: number;
+  trailingPercent?: number;
   status: string;
   closeReason?: string;
   openedAt: string;
@@ -53,30 +60,51 @@ interface PortfolioStats extends Portfolio {
   totalEquity: number;
   openPositions: number;
   unrealizedPnl: number;
+  lockedMargin: number;
+  reservedBalance: number;
+  availableBalance: number;
   dailyPnl: number;
   weeklyPnl: number;
   monthlyPnl: number;
 }
 
+type OrderType = 'MARKET' | 'LIMIT' | 'STOP_MARKET' | 'STOP_LIMIT' | 'OCO';
+
+const ORDER_TYPES: { value: OrderType; label: string }[] = [
+  { value: 'MARKET', label: 'Mercado' },
+  { value: 'LIMIT', label: 'Límite' },
+  { value: 'STOP_MARKET', label: 'Stop Market' },
+  { value: 'STOP_LIMIT', label: 'Stop Límite' },
+  { value: 'OCO', label: 'OCO (Límite + Stop)' },
+];
+
 export default function PaperTradingPage() {
   const { accessToken } = useAuthStore();
   const [portfolio, setPortfolio] = useState<Portfolio | null>(null);
   const [stats, setStats] = useState<PortfolioStats | null>(null);
   const [openTrades, setOpenTrades] = useState<Trade[]>([]);
   const [tradeHistory, setTradeHistory] = useState<Trade[]>([]);
+  const [openOrders, setOpenOrders] = useState<PaperOrder[]>([]);
+  const [ledger, setLedger] = useState<LedgerEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [showNewTradeModal, setShowNewTradeModal] = useState(false);
-  const [activeTab, setActiveTab] = useState<'open' | 'history'>('open');
+  const [activeTab, setActiveTab] = useState<'open' | 'orders' | 'history' | 'ledger'>('open');
 
   // New trade form
-  const [newTrade, setNewTrade] = useState({
+  const emptyTrade = {
     symbol: 'BTCUSDT',
     side: 'BUY' as 'BUY' | 'SELL',
-    type: 'MARKET',
+    type: 'MARKET' as OrderType,
     quantity: 0.01,
+    limitPrice: '',
+    stopPrice: '',
+    stopLimitPrice: '',
+    fillRule: 'TRADE_THROUGH' as 'TOUCH' | 'TRADE_THROUGH',
     stopLoss: '',
     takeProfit: '',
-  });
+    trailingPercent: '',
+  };
+  const [newTrade, setNewTrade] = useState(emptyTrade);
 
   const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
@@ -84,9 +112,16 @@ export default function PaperTradingPage() {
     fetchPortfolioData();
   }, []);
 
-  const fetchPortfolioData = async () => {
+  // Working orders fill on the server; refresh quietly while there are any
+  useEffect(() => {
+    if (openOrders.length === 0) return;
+    const interval = setInterval(() => fetchPortfolioData(false), 15000);
+    return () => clearInterval(interval);
+  }, [openOrders.length]);
+
+  const fetchPortfolioData = async (showLoader = true) => {
     try {
-      setIsLoading(true);
+      if (showLoader) setIsLoading(true);
       
       const headers = {
         'Content-Type': 'application/json',
@@ -94,11 +129,13 @@ export default function PaperTradingPage() {
       };
 
       // Fetch portfolio, stats, and trades in parallel
-      const [portfolioRes, statsRes, tradesRes, historyRes] = await Promise.all([
+      const [portfolioRes, statsRes, tradesRes, historyRes, ordersRes, ledgerRes] = await Promise.all([
         fetch(`${API_URL}/paper-trading/portfolio`, { headers }),
         fetch(`${API_URL}/paper-trading/portfolio/stats`, { headers }),
         fetch(`${API_URL}/paper-trading/trades/open`, { headers }),
         fetch(`${API_URL}/paper-trading/trades/history?limit=20`, { headers }),
+        fetch(`${API_URL}/paper-trading/orders?status=open`, { headers }),
+        fetch(`${API_URL}/paper-trading/ledger?limit=50`, { headers }),
       ]);
 
       if (portfolioRes.ok) {
@@ -120,6 +157,16 @@ export default function PaperTradingPage() {
         const historyData = await historyRes.json();
         setTradeHistory(historyData.trades || []);
       }
+
+      if (ordersRes.ok) {
+        const ordersData = await ordersRes.json();
+        setOpenOrders(ordersData);
+      }
+
+      if (ledgerRes.ok) {
+        const ledgerData = await ledgerRes.json();
+        setLedger(ledgerData.entries || []);
+      }
     } catch (error) {
       console.error('Error fetching portfolio data:', error);
     } finally {
@@ -151,35 +198,55 @@ export default function PaperTradingPage() {
   };
 
   const openTrade = async () => {
+    const isMarket = newTrade.type === 'MARKET';
+    const optionalNumber = (value: string) => (value ? parseFloat(value) : undefined);
+
     try {
-      const res = await fetch(`${API_URL}/paper-trading/trade/open`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${accessToken}`,
+      const res = await fetch(
+        `${API_URL}/paper-trading/${isMarket ? 'trade/open' : 'orders'}`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${accessToken}`,
+          },
+          body: JSON.stringify({
+            symbol: newTrade.symbol,
+            side: newTrade.side,
+            type: newTrade.type,
+            quantity: newTrade.quantity,
+            stopLoss: optionalNumber(newTrade.stopLoss),
+            takeProfit: optionalNumber(newTrade.takeProfit),
+            trailingPercent: optionalNumber(newTrade.trailingPercent),
+            ...(!isMarket && {
+              limitPrice: optionalNumber(newTrade.limitPrice),
+              stopPrice: optionalNumber(newTrade.stopPrice),
+              stopLimitPrice: optionalNumber(newTrade.stopLimitPrice),
+              fillRule: newTrade.fillRule,
+            }),
+          }),
         },
-        body: JSON.stringify({
-          ...newTrade,
-          stopLoss: newTrade.stopLoss ? parseFloat(newTrade.stopLoss) : undefined,
-          takeProfit: newTrade.takeProfit ? parseFloat(newTrade.takeProfit) : undefined,
-        }),
-      });
+      );
 
       if (res.ok) {
         setShowNewTradeModal(false);
-        setNewTrade({
-          symbol: 'BTCUSDT',
-          side: 'BUY',
-          type: 'MARKET',
-          quantity: 0.01,
-          stopLoss: '',
-          takeProfit: '',
-        });
+        setNewTrade(emptyTrade);
         fetchPortfolioData();
-        toast.success('Operación abierta exitosamente');
+
+        if (isMarket) {
+          toast.success('Operación abierta exitosamente');
+        } else {
+          const orders: PaperOrder[] = await res.json();
+          toast.success(
+            orders.some((order) => order.status === 'FILLED')
+              ? 'Orden ejecutada al precio de mercado'
+              : 'Orden colocada',
+          );
+        }
       } else {
         const error = await res.json();
-        toast.error(error.message || 'Error al abrir la operación');
+        const message = Array.isArray(error.message) ? error.message[0] : error.message;
+        toast.error(message || 'Error al abrir la operación');
       }
     } catch (error) {
       console.error('Error opening trade:', error);
@@ -296,11 +363,21 @@ export default function PaperTradingPage() {
           <StatCard
             label="Balance"
             value={`$${stats.currentBalance.toLocaleString()}`}
+            subValue={
+              stats.reservedBalance > 0
+                ? `$${stats.reservedBalance.toLocaleString()} en órdenes`
+                : undefined
+            }
             className="bg-gray-800/50"
           />
           <StatCard
             label="Equity Total"
             value={`$${stats.totalEquity.toLocaleString()}`}
+            subValue={
+              stats.lockedMargin > 0
+                ? `$${stats.lockedMargin.toLocaleString()} en margen`
+                : undefined
+            }
             className="bg-gray-800/50"
           />
           <StatCard
@@ -364,6 +441,16 @@ export default function PaperTradingPage() {
           >
             Posiciones Abiertas ({openTrades.length})
           </button>
+          <button
+            onClick={() => setActiveTab('orders')}
+            className={`py-2 px-4 font-medium transition-colors ${
+              activeTab === 'orders'
+                ? 'text-blue-400 border-b-2 border-blue-400'
+                : 'text-gray-400 hover:text-white'
+            }`}
+          >
+            Órdenes ({openOrders.length})
+          </button>
           <button
             onClick={() => setActiveTab('history')}
             className={`py-2 px-4 font-medium transition-colors ${
@@ -374,6 +461,16 @@ export default function PaperTradingPage() {
           >
             Historial
           </button>
+          <button
+            onClick={() => setActiveTab('ledger')}
+            className={`py-2 px-4 font-medium transition-colors ${
+              activeTab === 'ledger'
+                ? 'text-blue-400 border-b-2 border-blue-400'
+                : 'text-gray-400 hover:text-white'
+            }`}
+          >
+            Movimientos
+          </button>
         </nav>
       </div>
 
@@ -424,6 +521,11 @@ export default function PaperTradingPage() {
                       {trade.stopLoss && <span className="text-red-400">SL: ${trade.stopLoss}</span>}
                       {trade.stopLoss && trade.takeProfit && ' / '}
                       {trade.takeProfit && <span className="text-green-400">TP: ${trade.takeProfit}</span>}
+                      {trade.trailingStop && (
+                        <span className="block text-yellow-400">
+                          Trailing {trade.trailingPercent}%: ${trade.trailingStop.toFixed(2)}
+                        </span>
+                      )}
                     </td>
                     <td className="px-4 py-3 text-center">
                       <button
@@ -441,6 +543,17 @@ export default function PaperTradingPage() {
         </div>
       )}
 
+      {activeTab === 'orders' && (
+        <div className="bg-gray-800/30 rounded-lg border border-gray-700 overflow-hidden">
+          <OpenOrdersPanel
+            orders={openOrders}
+            apiUrl={API_URL}
+            accessToken={accessToken}
+            onChange={() => fetchPortfolioData(false)}
+          />
+        </div>
+      )}
+
       {activeTab === 'history' && (
         <div className="bg-gray-800/30 rounded-lg border border-gray-700 overflow-hidden">
           {tradeHistory.length === 0 ? (
@@ -480,6 +593,11 @@ export default function PaperTradingPage() {
                           ({trade.pnlPercent?.toFixed(2) || '0.00'}%)
                         </span>
                       </span>
+                      {(trade.entryFee || trade.exitFee) ? (
+                        <span className="block text-xs text-gray-500">
+                          Comisiones: ${((trade.entryFee || 0) + (trade.exitFee || 0)).toFixed(2)}
+                        </span>
+                      ) : null}
                     </td>
                     <td className="px-4 py-3 text-gray-400 text-sm">
                       {trade.closeReason || 'MANUAL'}
@@ -495,6 +613,12 @@ export default function PaperTradingPage() {
         </div>
       )}
 
+      {activeTab === 'ledger' && (
+        <div className="bg-gray-800/30 rounded-lg border border-gray-700 overflow-hidden">
+          <LedgerPanel entries={ledger} />
+        </div>
+      )}
+
       {/* New Trade Modal */}
       {showNewTradeModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -560,6 +684,76 @@ export default function PaperTradingPage() {
                 </div>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-1">Tipo de Orden</label>
+                <select
+                  value={newTrade.type}
+                  onChange={(e) => setNewTrade({ ...newTrade, type: e.target.value as OrderType })}
+                  className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white"
+                >
+                  {ORDER_TYPES.map(({ value, label }) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+
+              {newTrade.type !== 'MARKET' && (
+                <div className="grid grid-cols-2 gap-4">
+                  {newTrade.type !== 'STOP_MARKET' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-400 mb-1">Precio Límite</label>
+                      <input
+                        type="number"
+                        step="0.01"
+                        value={newTrade.limitPrice}
+                        onChange={(e) => setNewTrade({ ...newTrade, limitPrice: e.target.value })}
+                        className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white"
+                      />
+                    </div>
+                  )}
+                  {newTrade.type !== 'LIMIT' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-400 mb-1">Precio Stop</label>
+                      <input
+                        type="number"
+                        step="0.01"
+                        value={newTrade.stopPrice}
+                        onChange={(e) => setNewTrade({ ...newTrade, stopPrice: e.target.value })}
+                        className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white"
+                      />
+                    </div>
+                  )}
+                  {newTrade.type === 'OCO' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-400 mb-1">Límite del Stop (opcional)</label>
+                      <input
+                        type="number"
+                        step="0.01"
+                        placeholder="Stop a mercado"
+                        value={newTrade.stopLimitPrice}
+                        onChange={(e) => setNewTrade({ ...newTrade, stopLimitPrice: e.target.value })}
+                        className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white"
+                      />
+                    </div>
+                  )}
+                  {newTrade.type !== 'STOP_MARKET' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-400 mb-1">Ejecución del Límite</label>
+                      <select
+                        value={newTrade.fillRule}
+                        onChange={(e) =>
+                          setNewTrade({ ...newTrade, fillRule: e.target.value as 'TOUCH' | 'TRADE_THROUGH' })
+                        }
+                        className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white"
+                      >
+                        <option value="TRADE_THROUGH">Al atravesar el precio</option>
+                        <option value="TOUCH">Al tocar el precio</option>
+                      </select>
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-400 mb-1">Stop Loss (opcional)</label>
@@ -585,6 +779,18 @@ export default function PaperTradingPage() {
                   />
                 </div>
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-1">Trailing Stop % (opcional)</label>
+                <input
+                  type="number"
+                  step="0.1"
+                  placeholder="Distancia desde el mejor precio"
+                  value={newTrade.trailingPercent}
+                  onChange={(e) => setNewTrade({ ...newTrade, trailingPercent: e.target.value })}
+                  className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white"
+                />
+              </div>
             </div>
 
             <div className="flex gap-3 mt-6">
@@ -602,7 +808,9 @@ export default function PaperTradingPage() {
                     : 'bg-red-600 hover:bg-red-700'
                 }`}
               >
-                {newTrade.side === 'BUY' ? 'Comprar' : 'Vender'}
+                {newTrade.type === 'MARKET'
+                  ? newTrade.side === 'BUY' ? 'Comprar' : 'Vender'
+                  : 'Colocar Orden'}
               </button>
             </div>
           </div>
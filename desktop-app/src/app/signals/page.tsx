@@ -5,6 +5,7 @@ import DashboardLayout from '@/components/layout/dashboard-layout';
 import { SignalCard } from '@/components/signals/signal-card';
 import { SignalFilters } from '@/components/signals/signal-filters';
 import { SignalDetailsModal } from '@/components/signals/signal-details-modal';
+import { MtfMatrix } from '@/components/signals/mtf-matrix';
 import { signalsApi } from '@/lib/api-client';
 import { 
   SignalCardSkeleton, 
@@ -293,6 +294,9 @@ export default function SignalsPage() {
           </div>
         )}
 
+        {/* Multi-timeframe confluence */}
+        <MtfMatrix />
+
         {/* Signals Grid */}
         {isLoading ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
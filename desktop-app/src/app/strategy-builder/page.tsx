@@ -0,0 +1,428 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import DashboardLayout from '@/components/layout/dashboard-layout';
+import { useAuthStore } from '@/stores/auth-store';
+import { indicatorsApi, strategiesApi } from '@/lib/api-client';
+import { toast } from 'sonner';
+import { Workflow, Plus, Trash2, Play, Save, Info } from 'lucide-react';
+
+// Types (mirror the backend rule DSL, see strategies.types.ts)
+interface IndicatorParam {
+  name: string;
+  default: number;
+  min: number;
+  max: number;
+  integer: boolean;
+}
+
+interface IndicatorDefinition {
+  name: string;
+  description: string;
+  outputs: string[];
+  params: IndicatorParam[];
+}
+
+type Operand =
+  | { value: number }
+  | { indicator: string; output?: string; params?: Record<string, number>; offset?: number };
+
+type Operator = '>' | '>=' | '<' | '<=' | 'crossAbove' | 'crossBelow';
+
+interface Condition {
+  left: Operand;
+  operator: Operator;
+  right: Operand;
+}
+
+interface RuleSet {
+  join: 'and' | 'or';
+  conditions: Condition[];
+}
+
+type Side = 'buy' | 'sell' | 'exit';
+
+interface PreviewResult {
+  shouldEnter: boolean;
+  shouldExit: boolean;
+  analysis: string;
+  signal?: { type: string; price: number; stopLoss?: number; takeProfit?: number };
+}
+
+const OPERATORS: Array<{ value: Operator; label: string }> = [
+  { value: '>', label: '>' },
+  { value: '>=', label: '≥' },
+  { value: '<', label: '<' },
+  { value: '<=', label: '≤' },
+  { value: 'crossAbove', label: 'cruza arriba' },
+  { value: 'crossBelow', label: 'cruza abajo' },
+];
+
+const SIDES: Array<{ key: Side; label: string; color: string }> = [
+  { key: 'buy', label: 'Entrada BUY', color: 'text-green-400' },
+  { key: 'sell', label: 'Entrada SELL', color: 'text-red-400' },
+  { key: 'exit', label: 'Salida', color: 'text-yellow-400' },
+];
+
+const TIMEFRAMES = ['15m', '1h', '4h', '1d'];
+
+const newCondition = (): Condition => ({
+  left: { indicator: 'rsi' },
+  operator: '<',
+  right: { value: 30 },
+});
+
+const toRuleNode = (ruleSet: RuleSet) => ({
+  type: ruleSet.join,
+  rules: ruleSet.conditions.map((c) =>
+    c.operator === 'crossAbove' || c.operator === 'crossBelow'
+      ? { type: c.operator, left: c.left, right: c.right }
+      : { type: 'compare', left: c.left, operator: c.operator, right: c.right }
+  ),
+});
+
+export default function StrategyBuilderPage() {
+  const { user } = useAuthStore();
+  const [catalog, setCatalog] = useState<IndicatorDefinition[]>([]);
+  const [rules, setRules] = useState<Record<Side, RuleSet>>({
+    buy: { join: 'and', conditions: [newCondition()] },
+    sell: { join: 'and', conditions: [] },
+    exit: { join: 'or', conditions: [] },
+  });
+  const [stopLossPercent, setStopLossPercent] = useState('2');
+  const [takeProfitPercent, setTakeProfitPercent] = useState('4');
+  const [name, setName] = useState('');
+  const [symbol, setSymbol] = useState('BTCUSDT');
+  const [timeframe, setTimeframe] = useState('1h');
+  const [preview, setPreview] = useState<PreviewResult | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    indicatorsApi
+      .getCatalog()
+      .then(setCatalog)
+      .catch(() => toast.error('No se pudo cargar el catálogo de indicadores'));
+  }, []);
+
+  const buildDefinition = () => {
+    const definition: Record<string, unknown> = {};
+    for (const { key } of SIDES) {
+      if (rules[key].conditions.length > 0) {
+        definition[key] = toRuleNode(rules[key]);
+      }
+    }
+    if (parseFloat(stopLossPercent) > 0) {
+      definition.stopLossPercent = parseFloat(stopLossPercent) / 100;
+    }
+    if (parseFloat(takeProfitPercent) > 0) {
+      definition.takeProfitPercent = parseFloat(takeProfitPercent) / 100;
+    }
+    return definition;
+  };
+
+  const errorMessage = (error: any) => {
+    const data = error?.response?.data;
+    return data?.errors?.[0] || data?.message || 'Error desconocido';
+  };
+
+  const runPreview = async () => {
+    setIsBusy(true);
+    try {
+      setPreview(await strategiesApi.previewCustom(symbol, timeframe, buildDefinition()));
+    } catch (error) {
+      toast.error(`Reglas inválidas: ${errorMessage(error)}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const saveStrategy = async () => {
+    if (!user?.id) {
+      toast.error('Inicia sesión para guardar estrategias');
+      return;
+    }
+    if (!name.trim()) {
+      toast.error('Ponle un nombre a la estrategia');
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      await strategiesApi.createConfig({
+        name: name.trim(),
+        type: 'CUSTOM',
+        config: buildDefinition(),
+        timeframes: [timeframe],
+      });
+      toast.success('Estrategia guardada');
+    } catch (error) {
+      toast.error(`No se pudo guardar: ${errorMessage(error)}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const updateRuleSet = (side: Side, update: Partial<RuleSet>) =>
+    setRules((prev) => ({ ...prev, [side]: { ...prev[side], ...update } }));
+
+  const updateCondition = (side: Side, index: number, update: Partial<Condition>) =>
+    updateRuleSet(side, {
+      conditions: rules[side].conditions.map((c, i) => (i === index ? { ...c, ...update } : c)),
+    });
+
+  const renderOperand = (operand: Operand, onChange: (operand: Operand) => void, allowValue: boolean) => {
+    const isValue = 'value' in operand;
+    const definition = !isValue ? catalog.find((d) => d.name === operand.indicator) : undefined;
+
+    return (
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={isValue ? '__value' : operand.indicator}
+          onChange={(e) =>
+            onChange(e.target.value === '__value' ? { value: 0 } : { indicator: e.target.value })
+          }
+          className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-white"
+        >
+          {allowValue && <option value="__value">Valor</option>}
+          {catalog.map((d) => (
+            <option key={d.name} value={d.name} title={d.description}>
+              {d.name}
+            </option>
+          ))}
+        </select>
+
+        {isValue && (
+          <input
+            type="number"
+            value={operand.value}
+            onChange={(e) => onChange({ value: parseFloat(e.target.value) || 0 })}
+            className="w-24 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-white"
+          />
+        )}
+
+        {!isValue && definition && definition.outputs.length > 1 && (
+          <select
+            value={operand.output || definition.outputs[0]}
+            onChange={(e) => onChange({ ...operand, output: e.target.value })}
+            className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-white"
+          >
+            {definition.outputs.map((output) => (
+              <option key={output} value={output}>
+                {output}
+              </option>
+            ))}
+          </select>
+        )}
+
+        {!isValue &&
+          definition?.params.map((param) => (
+            <label key={param.name} className="flex items-center gap-1 text-xs text-gray-400">
+              {param.name}
+              <input
+                type="number"
+                min={param.min}
+                max={param.max}
+                step={param.integer ? 1 : 0.1}
+                value={operand.params?.[param.name] ?? param.default}
+                onChange={(e) =>
+                  onChange({
+                    ...operand,
+                    params: { ...operand.params, [param.name]: parseFloat(e.target.value) },
+                  })
+                }
+                className="w-16 bg-gray-900 border border-gray-700 rounded px-1 py-1 text-sm text-white"
+              />
+            </label>
+          ))}
+      </div>
+    );
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-100 flex items-center gap-3">
+            <Workflow className="w-8 h-8 text-blue-400" />
+            Constructor de Estrategias
+          </h1>
+          <p className="text-gray-400 mt-2">
+            Combina indicadores con comparaciones y cruces para crear tus propias reglas
+          </p>
+        </div>
+
+        <div className="bg-blue-900/20 border border-blue-800 rounded-lg p-4 flex gap-3">
+          <Info className="w-5 h-5 text-blue-400 flex-shrink-0 mt-0.5" />
+          <p className="text-gray-300 text-sm">
+            La entrada se abre solo si se cumplen las reglas BUY o las SELL, no ambas. Las reglas
+            de salida cierran la posición abierta. Las estrategias guardadas se pueden usar en
+            Backtesting.
+          </p>
+        </div>
+
+        {SIDES.map(({ key, label, color }) => (
+          <div key={key} className="bg-gray-800/30 rounded-lg border border-gray-700 p-4 space-y-3">
+            <div className="flex justify-between items-center">
+              <div className="flex items-center gap-3">
+                <h2 className={`text-lg font-semibold ${color}`}>{label}</h2>
+                <select
+                  value={rules[key].join}
+                  onChange={(e) => updateRuleSet(key, { join: e.target.value as 'and' | 'or' })}
+                  className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-white"
+                >
+                  <option value="and">Todas (AND)</option>
+                  <option value="or">Cualquiera (OR)</option>
+                </select>
+              </div>
+              <button
+                onClick={() =>
+                  updateRuleSet(key, { conditions: [...rules[key].conditions, newCondition()] })
+                }
+                className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded transition-colors flex items-center gap-1"
+              >
+                <Plus className="w-4 h-4" /> Condición
+              </button>
+            </div>
+
+            {rules[key].conditions.length === 0 && (
+              <p className="text-gray-500 text-sm">Sin condiciones</p>
+            )}
+
+            {rules[key].conditions.map((condition, index) => {
+              const isCross = condition.operator === 'crossAbove' || condition.operator === 'crossBelow';
+              return (
+                <div
+                  key={index}
+                  className="flex flex-wrap items-center gap-3 bg-gray-900/40 rounded p-3 border border-gray-700/50"
+                >
+                  {renderOperand(condition.left, (left) => updateCondition(key, index, { left }), false)}
+                  <select
+                    value={condition.operator}
+                    onChange={(e) => updateCondition(key, index, { operator: e.target.value as Operator })}
+                    className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-white"
+                  >
+                    {OPERATORS.map((op) => (
+                      <option key={op.value} value={op.value}>
+                        {op.label}
+                      </option>
+                    ))}
+                  </select>
+                  {renderOperand(condition.right, (right) => updateCondition(key, index, { right }), true)}
+                  {isCross && 'value' in condition.right && (
+                    <span className="text-xs text-gray-500">(nivel fijo)</span>
+                  )}
+                  <button
+                    onClick={() =>
+                      updateRuleSet(key, {
+                        conditions: rules[key].conditions.filter((_, i) => i !== index),
+                      })
+                    }
+                    className="ml-auto text-gray-400 hover:text-red-400"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+
+        <div className="bg-gray-800/30 rounded-lg border border-gray-700 p-4 grid grid-cols-2 md:grid-cols-5 gap-4">
+          <label className="text-sm text-gray-400 space-y-1">
+            <span>Nombre</span>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Mi estrategia"
+              className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-white"
+            />
+          </label>
+          <label className="text-sm text-gray-400 space-y-1">
+            <span>Símbolo</span>
+            <input
+              value={symbol}
+              onChange={(e) => setSymbol(e.target.value.toUpperCase())}
+              className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-white"
+            />
+          </label>
+          <label className="text-sm text-gray-400 space-y-1">
+            <span>Timeframe</span>
+            <select
+              value={timeframe}
+              onChange={(e) => setTimeframe(e.target.value)}
+              className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-white"
+            >
+              {TIMEFRAMES.map((tf) => (
+                <option key={tf} value={tf}>
+                  {tf}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-400 space-y-1">
+            <span>Stop Loss %</span>
+            <input
+              type="number"
+              value={stopLossPercent}
+              onChange={(e) => setStopLossPercent(e.target.value)}
+              className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-white"
+            />
+          </label>
+          <label className="text-sm text-gray-400 space-y-1">
+            <span>Take Profit %</span>
+            <input
+              type="number"
+              value={takeProfitPercent}
+              onChange={(e) => setTakeProfitPercent(e.target.value)}
+              className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-white"
+            />
+          </label>
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            onClick={runPreview}
+            disabled={isBusy}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white rounded transition-colors flex items-center gap-2"
+          >
+            <Play className="w-4 h-4" /> Probar en {symbol}
+          </button>
+          <button
+            onClick={saveStrategy}
+            disabled={isBusy}
+            className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white rounded transition-colors flex items-center gap-2"
+          >
+            <Save className="w-4 h-4" /> Guardar
+          </button>
+        </div>
+
+        {preview && (
+          <div className="bg-gray-800/30 rounded-lg border border-gray-700 p-4 space-y-2">
+            <h3 className="text-white font-medium">
+              Resultado en {symbol} ({timeframe}):{' '}
+              <span
+                className={
+                  preview.signal?.type === 'BUY'
+                    ? 'text-green-400'
+                    : preview.signal?.type === 'SELL'
+                      ? 'text-red-400'
+                      : 'text-gray-400'
+                }
+              >
+                {preview.signal?.type || (preview.shouldExit ? 'EXIT' : 'Sin señal')}
+              </span>
+            </h3>
+            <p className="text-gray-300 text-sm">{preview.analysis}</p>
+            {preview.signal && (
+              <p className="text-gray-400 text-sm">
+                Precio ${preview.signal.price.toFixed(2)}
+                {preview.signal.stopLoss && ` · SL $${preview.signal.stopLoss.toFixed(2)}`}
+                {preview.signal.takeProfit && ` · TP $${preview.signal.takeProfit.toFixed(2)}`}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -1,9 +1,11 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import MetricsGrid from './metrics-grid';
 import EquityChart from './equity-chart';
 import TradesTable from './trades-table';
+import { backtestingApi } from '@/lib/api-client';
 import { formatCurrency, formatPercent } from '@/lib/utils';
 
 interface BacktestResultsProps {
@@ -11,9 +13,22 @@ interface BacktestResultsProps {
 }
 
 export default function BacktestResults({ results }: BacktestResultsProps) {
+  const [robustness, setRobustness] = useState<any>(null);
+
+  useEffect(() => {
+    setRobustness(null);
+    if (!results?.id || results.status !== 'COMPLETED' || (results.metrics?.totalTrades || 0) < 2) return;
+
+    backtestingApi
+      .getRobustness(results.id)
+      .then((response: any) => setRobustness(response.data || response))
+      .catch((error) => console.error('Error loading robustness analysis:', error));
+  }, [results?.id, results?.status]);
+
   if (!results) return null;
 
   const { metrics, equityCurve, trades, config } = results;
+  const bootstrap = robustness?.bootstrap;
 
   return (
     <div className="space-y-6">
@@ -97,7 +112,44 @@ export default function BacktestResults({ results }: BacktestResultsProps) {
       </div>
 
       {/* Equity Chart */}
-      <EquityChart data={equityCurve || []} />
+      <EquityChart data={equityCurve || []} bands={bootstrap?.bands} />
+
+      {/* Monte Carlo Robustness */}
+      {bootstrap && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Robustness ({robustness.simulations} simulations)</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <p className="text-sm text-gray-400">Final Capital (5th - 95th)</p>
+                <p className="text-lg font-semibold text-gray-100">
+                  {formatCurrency(bootstrap.finalCapital.p5)} - {formatCurrency(bootstrap.finalCapital.p95)}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-400">Median Final Capital</p>
+                <p className="text-lg font-semibold text-gray-100">
+                  {formatCurrency(bootstrap.finalCapital.median)}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-400">Max Drawdown (95th)</p>
+                <p className="text-lg font-semibold text-red-400">
+                  {formatPercent(robustness.reshuffle.maxDrawdownPercent.p95)}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-400">Risk of Ruin</p>
+                <p className={`text-lg font-semibold ${bootstrap.riskOfRuin > 5 ? 'text-red-400' : 'text-green-400'}`}>
+                  {formatPercent(bootstrap.riskOfRuin)}
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
 
       {/* Metrics Grid */}
       <MetricsGrid metrics={metrics} />
@@ -1,14 +1,33 @@
 'use client';
 
 import { useEffect, useRef } from 'react';
-import { createChart, ColorType, IChartApi, ISeriesApi, LineData } from 'lightweight-charts';
+import { createChart, ColorType, IChartApi, ISeriesApi, LineData, LineStyle } from 'lightweight-charts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 
+export interface EquityBand {
+  timestamp: string;
+  p5: number;
+  p25: number;
+  median: number;
+  p75: number;
+  p95: number;
+}
+
 interface EquityChartProps {
   data: any[];
+  bands?: EquityBand[];
 }
 
-export default function EquityChart({ data }: EquityChartProps) {
+// Percentile lines drawn over the equity curve, outermost first
+const BAND_LINES: { key: keyof Omit<EquityBand, 'timestamp'>; color: string; style: LineStyle }[] = [
+  { key: 'p5', color: 'rgba(248, 113, 113, 0.7)', style: LineStyle.Dashed },
+  { key: 'p95', color: 'rgba(74, 222, 128, 0.7)', style: LineStyle.Dashed },
+  { key: 'p25', color: 'rgba(156, 163, 175, 0.6)', style: LineStyle.Dotted },
+  { key: 'p75', color: 'rgba(156, 163, 175, 0.6)', style: LineStyle.Dotted },
+  { key: 'median', color: 'rgba(250, 204, 21, 0.8)', style: LineStyle.Dotted },
+];
+
+export default function EquityChart({ data, bands }: EquityChartProps) {
   const chartContainerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<IChartApi | null>(null);
   const seriesRef = useRef<ISeriesApi<'Area'> | null>(null);
@@ -54,6 +73,27 @@ export default function EquityChart({ data }: EquityChartProps) {
     })) as LineData[];
 
     areaSeries.setData(chartData);
+
+    if (bands && bands.length > 0) {
+      // Several trades can close on the same candle; keep the last point per time
+      const bandPoints = new Map<number, EquityBand>();
+      bands.forEach((point) => bandPoints.set(new Date(point.timestamp).getTime() / 1000, point));
+      const times = Array.from(bandPoints.keys()).sort((a, b) => a - b);
+
+      BAND_LINES.forEach(({ key, color, style }) => {
+        const lineSeries = chart.addLineSeries({
+          color,
+          lineWidth: 1,
+          lineStyle: style,
+          priceLineVisible: false,
+          lastValueVisible: false,
+        });
+        lineSeries.setData(
+          times.map((time) => ({ time, value: bandPoints.get(time)![key] })) as LineData[]
+        );
+      });
+    }
+
     chart.timeScale().fitContent();
 
     const handleResize = () => {
@@ -73,7 +113,7 @@ export default function EquityChart({ data }: EquityChartProps) {
         chartRef.current = null;
       }
     };
-  }, [data]);
+  }, [data, bands]);
 
   if (!data || data.length === 0) {
     return (
@@ -97,6 +137,11 @@ export default function EquityChart({ data }: EquityChartProps) {
       </CardHeader>
       <CardContent>
         <div ref={chartContainerRef} className="w-full" />
+        {bands && bands.length > 0 && (
+          <p className="text-xs text-gray-500 mt-2">
+            Dashed: 5th / 95th percentile · Dotted: 25th / 75th percentile and median of the simulated paths
+          </p>
+        )}
       </CardContent>
     </Card>
   );
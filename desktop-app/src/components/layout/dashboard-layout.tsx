@@ -20,6 +20,7 @@ import {
   Shield,
   Bot,
   Wallet,
+  Workflow,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { NotificationCenter } from '@/components/RealTime';
@@ -37,6 +38,7 @@ const navigation = [
   { name: 'Paper Trading', href: '/paper-trading', icon: Wallet },
   { name: 'DCA Bot', href: '/dca-bot', icon: Bot },
   { name: 'Backtesting', href: '/backtesting', icon: LineChart },
+  { name: 'Constructor', href: '/strategy-builder', icon: Workflow },
   { name: 'Noticias', href: '/news', icon: Newspaper },
   { name: 'Configuración', href: '/settings', icon: Settings },
 ];
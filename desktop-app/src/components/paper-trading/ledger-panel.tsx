@@ -0,0 +1,65 @@
+'use client';
+
+export interface LedgerEntry {
+  id: string;
+  type: 'DEPOSIT' | 'MARGIN_LOCK' | 'MARGIN_RELEASE' | 'REALIZED_PNL' | 'FEE' | 'RESET';
+  amount: number;
+  balanceAfter: number;
+  tradeId?: string | null;
+  description?: string | null;
+  createdAt: string;
+}
+
+const TYPE_LABELS: Record<LedgerEntry['type'], string> = {
+  DEPOSIT: 'Depósito',
+  MARGIN_LOCK: 'Margen bloqueado',
+  MARGIN_RELEASE: 'Margen liberado',
+  REALIZED_PNL: 'P&L realizado',
+  FEE: 'Comisión',
+  RESET: 'Reinicio',
+};
+
+interface LedgerPanelProps {
+  entries: LedgerEntry[];
+}
+
+export function LedgerPanel({ entries }: LedgerPanelProps) {
+  if (entries.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-400">
+        No hay movimientos
+      </div>
+    );
+  }
+
+  return (
+    <table className="w-full">
+      <thead className="bg-gray-800/50">
+        <tr>
+          <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Fecha</th>
+          <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Tipo</th>
+          <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Descripción</th>
+          <th className="px-4 py-3 text-right text-sm font-medium text-gray-400">Importe</th>
+          <th className="px-4 py-3 text-right text-sm font-medium text-gray-400">Balance</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-700">
+        {entries.map((entry) => (
+          <tr key={entry.id} className="hover:bg-gray-800/30">
+            <td className="px-4 py-3 text-gray-400 text-sm">
+              {new Date(entry.createdAt).toLocaleString()}
+            </td>
+            <td className="px-4 py-3 text-gray-300 text-sm">{TYPE_LABELS[entry.type]}</td>
+            <td className="px-4 py-3 text-gray-400 text-sm">{entry.description || '-'}</td>
+            <td className={`px-4 py-3 text-right ${entry.amount >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+              {entry.amount >= 0 ? '+' : '-'}${Math.abs(entry.amount).toFixed(2)}
+            </td>
+            <td className="px-4 py-3 text-right text-gray-300">
+              ${entry.balanceAfter.toLocaleString()}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
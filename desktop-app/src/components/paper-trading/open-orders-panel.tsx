@@ -0,0 +1,235 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Check, Pencil, X } from 'lucide-react';
+
+export interface PaperOrder {
+  id: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  type: 'LIMIT' | 'STOP_MARKET' | 'STOP_LIMIT';
+  quantity: number;
+  limitPrice?: number | null;
+  stopPrice?: number | null;
+  fillRule: 'TOUCH' | 'TRADE_THROUGH';
+  ocoGroupId?: string | null;
+  status: 'PENDING' | 'TRIGGERED' | 'FILLED' | 'CANCELLED' | 'REJECTED';
+  statusReason?: string | null;
+  createdAt: string;
+}
+
+const TYPE_LABELS: Record<PaperOrder['type'], string> = {
+  LIMIT: 'Límite',
+  STOP_MARKET: 'Stop Market',
+  STOP_LIMIT: 'Stop Límite',
+};
+
+interface OpenOrdersPanelProps {
+  orders: PaperOrder[];
+  apiUrl: string;
+  accessToken: string | null;
+  onChange: () => void;
+}
+
+export function OpenOrdersPanel({ orders, apiUrl, accessToken, onChange }: OpenOrdersPanelProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState({ quantity: '', limitPrice: '', stopPrice: '' });
+
+  const request = (path: string, method: string, body?: object) =>
+    fetch(`${apiUrl}/paper-trading/orders/${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${accessToken}`,
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+  const startEditing = (order: PaperOrder) => {
+    setEditingId(order.id);
+    setDraft({
+      quantity: String(order.quantity),
+      limitPrice: order.limitPrice != null ? String(order.limitPrice) : '',
+      stopPrice: order.stopPrice != null ? String(order.stopPrice) : '',
+    });
+  };
+
+  const amendOrder = async (order: PaperOrder) => {
+    const body: Record<string, number> = {};
+    if (draft.quantity && parseFloat(draft.quantity) !== order.quantity) {
+      body.quantity = parseFloat(draft.quantity);
+    }
+    if (draft.limitPrice && parseFloat(draft.limitPrice) !== order.limitPrice) {
+      body.limitPrice = parseFloat(draft.limitPrice);
+    }
+    if (draft.stopPrice && parseFloat(draft.stopPrice) !== order.stopPrice) {
+      body.stopPrice = parseFloat(draft.stopPrice);
+    }
+
+    if (Object.keys(body).length === 0) {
+      setEditingId(null);
+      return;
+    }
+
+    try {
+      const res = await request(order.id, 'PATCH', body);
+      if (res.ok) {
+        const updated: PaperOrder = await res.json();
+        setEditingId(null);
+        onChange();
+        toast.success(updated.status === 'FILLED' ? 'Orden modificada y ejecutada' : 'Orden modificada');
+      } else {
+        const error = await res.json();
+        toast.error(error.message || 'Error al modificar la orden');
+      }
+    } catch (error) {
+      console.error('Error amending order:', error);
+      toast.error('Error de conexión');
+    }
+  };
+
+  const cancelOrder = async (order: PaperOrder) => {
+    try {
+      const res = await request(order.id, 'DELETE');
+      if (res.ok) {
+        onChange();
+        toast.success(order.ocoGroupId ? 'Orden OCO cancelada' : 'Orden cancelada');
+      } else {
+        toast.error('Error al cancelar la orden');
+      }
+    } catch (error) {
+      console.error('Error cancelling order:', error);
+      toast.error('Error de conexión');
+    }
+  };
+
+  if (orders.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-400">
+        No tienes órdenes pendientes
+      </div>
+    );
+  }
+
+  const priceInput = (field: 'limitPrice' | 'stopPrice') => (
+    <input
+      type="number"
+      step="0.01"
+      value={draft[field]}
+      onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+      className="w-28 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-right text-sm"
+    />
+  );
+
+  return (
+    <table className="w-full">
+      <thead className="bg-gray-800/50">
+        <tr>
+          <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Símbolo</th>
+          <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Lado</th>
+          <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Tipo</th>
+          <th className="px-4 py-3 text-right text-sm font-medium text-gray-400">Cantidad</th>
+          <th className="px-4 py-3 text-right text-sm font-medium text-gray-400">Límite</th>
+          <th className="px-4 py-3 text-right text-sm font-medium text-gray-400">Stop</th>
+          <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Estado</th>
+          <th className="px-4 py-3 text-center text-sm font-medium text-gray-400">Acciones</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-700">
+        {orders.map((order) => {
+          const isEditing = editingId === order.id;
+          const canEditStop = order.type !== 'LIMIT' && order.status === 'PENDING';
+
+          return (
+            <tr key={order.id} className="hover:bg-gray-800/30">
+              <td className="px-4 py-3 text-white font-medium">{order.symbol}</td>
+              <td className="px-4 py-3">
+                <span className={`px-2 py-1 rounded text-xs font-medium ${
+                  order.side === 'BUY' ? 'bg-green-900/50 text-green-400' : 'bg-red-900/50 text-red-400'
+                }`}>
+                  {order.side}
+                </span>
+              </td>
+              <td className="px-4 py-3 text-gray-300 text-sm">
+                {TYPE_LABELS[order.type]}
+                {order.ocoGroupId && (
+                  <span className="ml-2 px-1.5 py-0.5 rounded bg-purple-900/50 text-purple-300 text-xs">OCO</span>
+                )}
+                {order.fillRule === 'TOUCH' && order.type !== 'STOP_MARKET' && (
+                  <span className="ml-2 text-xs text-gray-500">toque</span>
+                )}
+              </td>
+              <td className="px-4 py-3 text-right text-gray-300">
+                {isEditing ? (
+                  <input
+                    type="number"
+                    step="0.001"
+                    value={draft.quantity}
+                    onChange={(e) => setDraft({ ...draft, quantity: e.target.value })}
+                    className="w-24 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-right text-sm"
+                  />
+                ) : (
+                  order.quantity
+                )}
+              </td>
+              <td className="px-4 py-3 text-right text-gray-300">
+                {isEditing && order.type !== 'STOP_MARKET'
+                  ? priceInput('limitPrice')
+                  : order.limitPrice != null ? `$${order.limitPrice.toLocaleString()}` : '-'}
+              </td>
+              <td className="px-4 py-3 text-right text-gray-300">
+                {isEditing && canEditStop
+                  ? priceInput('stopPrice')
+                  : order.stopPrice != null ? `$${order.stopPrice.toLocaleString()}` : '-'}
+              </td>
+              <td className="px-4 py-3 text-sm">
+                <span className={order.status === 'TRIGGERED' ? 'text-yellow-400' : 'text-gray-400'}>
+                  {order.status === 'TRIGGERED' ? 'Activada' : 'Pendiente'}
+                </span>
+              </td>
+              <td className="px-4 py-3">
+                <div className="flex justify-center gap-2">
+                  {isEditing ? (
+                    <>
+                      <button
+                        onClick={() => amendOrder(order)}
+                        className="p-1.5 bg-green-600 hover:bg-green-700 text-white rounded transition-colors"
+                        title="Guardar"
+                      >
+                        <Check className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => setEditingId(null)}
+                        className="p-1.5 bg-gray-700 hover:bg-gray-600 text-white rounded transition-colors"
+                        title="Descartar"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => startEditing(order)}
+                        className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded transition-colors flex items-center gap-1"
+                      >
+                        <Pencil className="w-3 h-3" />
+                        Editar
+                      </button>
+                      <button
+                        onClick={() => cancelOrder(order)}
+                        className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white text-sm rounded transition-colors"
+                      >
+                        Cancelar
+                      </button>
+                    </>
+                  )}
+                </div>
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
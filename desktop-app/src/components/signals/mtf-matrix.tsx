@@ -0,0 +1,325 @@
+'use client';
+
+import { useState } from 'react';
+import { strategiesApi } from '@/lib/api-client';
+import { Badge } from '@/components';
+import { toast } from 'sonner';
+import { Layers, RefreshCw, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+
+type Trend = 'BULLISH' | 'BEARISH' | 'NEUTRAL';
+
+interface TimeframeAnalysis {
+  timeframe: string;
+  price: number | null;
+  trendScore: number;
+  trend: Trend;
+  indicators: {
+    rsi: number | null;
+    rsiSignal: string | null;
+    macdHistogram: number | null;
+    macdTrend: string | null;
+    ema50: number | null;
+    ema200: number | null;
+    emaAlignment: string | null;
+    supertrend: 'UP' | 'DOWN' | null;
+    adx: number | null;
+  };
+  strategies: Record<string, 'BUY' | 'SELL' | 'NONE'>;
+  consensus: string;
+  consensusScore: number;
+  consensusConfidence: number;
+}
+
+interface MultiTimeframeAnalysis {
+  symbol: string;
+  timeframes: string[];
+  entryTimeframe: string;
+  matrix: TimeframeAnalysis[];
+  alignment: {
+    trend: Trend | 'MIXED';
+    bullish: number;
+    bearish: number;
+    neutral: number;
+    score: number;
+  };
+  higherTimeframeBias: Trend | 'MIXED';
+  signal: {
+    type: 'BUY' | 'SELL';
+    timeframe: string;
+    price: number;
+    confidence: number;
+    reasoning: string;
+  } | null;
+  explanation: string;
+}
+
+const AVAILABLE_TIMEFRAMES = ['5m', '15m', '30m', '1h', '4h', '1d', '1w'];
+const DEFAULT_TIMEFRAMES = ['15m', '1h', '4h', '1d'];
+
+const TREND_LABELS: Record<string, string> = {
+  BULLISH: 'Alcista',
+  BEARISH: 'Bajista',
+  NEUTRAL: 'Neutral',
+  MIXED: 'Mixta',
+};
+
+const toneOf = (value: string | null | undefined) => {
+  if (!value) return 'text-gray-500';
+  if (['BULLISH', 'UP', 'BUY', 'STRONG_BUY', 'OVERSOLD'].includes(value)) return 'text-green-400';
+  if (['BEARISH', 'DOWN', 'SELL', 'STRONG_SELL', 'OVERBOUGHT'].includes(value)) return 'text-red-400';
+  return 'text-gray-300';
+};
+
+const badgeVariant = (value: string) =>
+  value === 'BULLISH' ? 'success' : value === 'BEARISH' ? 'danger' : 'secondary';
+
+function TrendIcon({ trend }: { trend: string }) {
+  if (trend === 'BULLISH') return <TrendingUp className="w-4 h-4 text-green-400" />;
+  if (trend === 'BEARISH') return <TrendingDown className="w-4 h-4 text-red-400" />;
+  return <Minus className="w-4 h-4 text-gray-400" />;
+}
+
+/**
+ * Multi-timeframe confluence: one column per timeframe with its trend,
+ * key indicators and strategy votes. A signal is only shown when the
+ * higher timeframes agree with the entry timeframe.
+ */
+export function MtfMatrix() {
+  const [symbol, setSymbol] = useState('BTCUSDT');
+  const [timeframes, setTimeframes] = useState<string[]>(DEFAULT_TIMEFRAMES);
+  const [analysis, setAnalysis] = useState<MultiTimeframeAnalysis | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const toggleTimeframe = (timeframe: string) => {
+    setTimeframes((prev) =>
+      prev.includes(timeframe)
+        ? prev.filter((t) => t !== timeframe)
+        : AVAILABLE_TIMEFRAMES.filter((t) => t === timeframe || prev.includes(t))
+    );
+  };
+
+  const loadAnalysis = async () => {
+    if (timeframes.length < 2) {
+      toast.error('Selecciona al menos 2 temporalidades');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const data = await strategiesApi.getMultiTimeframe(
+        symbol.trim().toUpperCase(),
+        timeframes.join(',')
+      ) as any;
+      setAnalysis(data);
+    } catch (error: any) {
+      console.error('Failed to load multi-timeframe analysis:', error);
+      toast.error(error?.response?.data?.message || 'Error al cargar el análisis multi-temporalidad');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const strategyNames = analysis
+    ? Array.from(new Set(analysis.matrix.flatMap((row) => Object.keys(row.strategies))))
+    : [];
+
+  const formatNumber = (value: number | null, digits = 2) =>
+    value === null ? '—' : value.toLocaleString(undefined, { maximumFractionDigits: digits });
+
+  const indicatorRows: { label: string; render: (row: TimeframeAnalysis) => React.ReactNode }[] = [
+    {
+      label: 'Tendencia',
+      render: (row) => (
+        <span className={`inline-flex items-center gap-1 font-medium ${toneOf(row.trend)}`}>
+          <TrendIcon trend={row.trend} />
+          {TREND_LABELS[row.trend]} ({row.trendScore > 0 ? '+' : ''}{row.trendScore})
+        </span>
+      ),
+    },
+    {
+      label: 'RSI',
+      render: (row) => (
+        <span className={toneOf(row.indicators.rsiSignal)}>
+          {formatNumber(row.indicators.rsi, 1)}
+        </span>
+      ),
+    },
+    {
+      label: 'MACD',
+      render: (row) => (
+        <span className={toneOf(row.indicators.macdTrend)}>
+          {formatNumber(row.indicators.macdHistogram, 4)}
+        </span>
+      ),
+    },
+    {
+      label: 'EMA 50/200',
+      render: (row) => (
+        <span className={toneOf(row.indicators.emaAlignment)}>
+          {row.indicators.emaAlignment ? TREND_LABELS[row.indicators.emaAlignment] : '—'}
+        </span>
+      ),
+    },
+    {
+      label: 'Supertrend',
+      render: (row) => (
+        <span className={toneOf(row.indicators.supertrend)}>
+          {row.indicators.supertrend === 'UP' ? 'Alcista' : row.indicators.supertrend === 'DOWN' ? 'Bajista' : '—'}
+        </span>
+      ),
+    },
+    {
+      label: 'ADX',
+      render: (row) => (
+        <span className={row.indicators.adx !== null && row.indicators.adx >= 25 ? 'text-white' : 'text-gray-400'}>
+          {formatNumber(row.indicators.adx, 1)}
+        </span>
+      ),
+    },
+  ];
+
+  return (
+    <div className="p-4 rounded-xl bg-gray-800 border border-gray-700/50 space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-indigo-500/20 rounded-lg">
+            <Layers className="w-4 h-4 text-indigo-400" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-white">Confluencia Multi-Temporalidad</h2>
+            <p className="text-sm text-gray-400">
+              La señal de la temporalidad menor solo se confirma si las mayores coinciden
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            value={symbol}
+            onChange={(e) => setSymbol(e.target.value)}
+            placeholder="BTCUSDT"
+            className="w-32 px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white text-sm
+                       focus:outline-none focus:border-blue-500"
+          />
+          {AVAILABLE_TIMEFRAMES.map((timeframe) => (
+            <button
+              key={timeframe}
+              onClick={() => toggleTimeframe(timeframe)}
+              className={`px-2.5 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+                timeframes.includes(timeframe)
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-900 text-gray-400 hover:text-white'
+              }`}
+            >
+              {timeframe}
+            </button>
+          ))}
+          <button
+            onClick={loadAnalysis}
+            disabled={isLoading}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700
+                       rounded-lg text-white text-sm font-medium transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            Analizar
+          </button>
+        </div>
+      </div>
+
+      {analysis && (
+        <>
+          {/* Signal / explanation */}
+          <div
+            className={`p-3 rounded-lg border text-sm ${
+              analysis.signal
+                ? analysis.signal.type === 'BUY'
+                  ? 'bg-green-500/10 border-green-500/30 text-green-300'
+                  : 'bg-red-500/10 border-red-500/30 text-red-300'
+                : 'bg-gray-900 border-gray-700 text-gray-400'
+            }`}
+          >
+            {analysis.signal ? (
+              <span className="font-semibold">
+                {analysis.signal.type === 'BUY' ? 'COMPRA' : 'VENTA'} en {analysis.signal.timeframe} @{' '}
+                {formatNumber(analysis.signal.price)} · {Math.round(analysis.signal.confidence)}% confianza
+              </span>
+            ) : (
+              <span className="font-semibold">Sin señal confirmada</span>
+            )}
+            <p className="mt-1 text-xs opacity-80">{analysis.explanation}</p>
+          </div>
+
+          {/* Alignment summary */}
+          <div className="flex flex-wrap items-center gap-3 text-sm text-gray-400">
+            <span>
+              Alineación:{' '}
+              <Badge variant={badgeVariant(analysis.alignment.trend)}>
+                {TREND_LABELS[analysis.alignment.trend]}
+              </Badge>
+            </span>
+            <span>
+              Sesgo superior:{' '}
+              <Badge variant={badgeVariant(analysis.higherTimeframeBias)}>
+                {TREND_LABELS[analysis.higherTimeframeBias]}
+              </Badge>
+            </span>
+            <span className="text-green-400">{analysis.alignment.bullish} alcistas</span>
+            <span className="text-red-400">{analysis.alignment.bearish} bajistas</span>
+            <span>{analysis.alignment.neutral} neutrales</span>
+          </div>
+
+          {/* Matrix */}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-400 border-b border-gray-700">
+                  <th className="text-left py-2 pr-4 font-medium">Indicador</th>
+                  {analysis.matrix.map((row) => (
+                    <th key={row.timeframe} className="text-center py-2 px-3 font-medium">
+                      {row.timeframe}
+                      {row.timeframe === analysis.entryTimeframe && (
+                        <span className="ml-1 text-xs text-blue-400">(entrada)</span>
+                      )}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {indicatorRows.map(({ label, render }) => (
+                  <tr key={label} className="border-b border-gray-700/50">
+                    <td className="py-2 pr-4 text-gray-400">{label}</td>
+                    {analysis.matrix.map((row) => (
+                      <td key={row.timeframe} className="text-center py-2 px-3">
+                        {render(row)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+                {strategyNames.map((name) => (
+                  <tr key={name} className="border-b border-gray-700/50">
+                    <td className="py-2 pr-4 text-gray-400">{name}</td>
+                    {analysis.matrix.map((row) => (
+                      <td key={row.timeframe} className={`text-center py-2 px-3 ${toneOf(row.strategies[name])}`}>
+                        {row.strategies[name] && row.strategies[name] !== 'NONE' ? row.strategies[name] : '—'}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+                <tr>
+                  <td className="py-2 pr-4 text-white font-medium">Consenso</td>
+                  {analysis.matrix.map((row) => (
+                    <td key={row.timeframe} className={`text-center py-2 px-3 font-semibold ${toneOf(row.consensus)}`}>
+                      {row.consensus.replace('_', ' ')}
+                      <div className="text-xs text-gray-500 font-normal">
+                        {row.consensusScore >= 0 ? '+' : ''}{row.consensusScore.toFixed(2)}
+                      </div>
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
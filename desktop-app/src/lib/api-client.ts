@@ -145,19 +145,76 @@ export const indicatorsApi = {
 
   getMACD: (symbol: string, timeframe: string) =>
     apiClient.get(`/indicators/macd/${symbol}`, { params: { timeframe } }),
+
+  // Indicators usable in CUSTOM strategy rules, with outputs and params
+  getCatalog: () => apiClient.get("/indicators/catalog"),
 };
 
 // Strategies API
 export const strategiesApi = {
   getAll: () => apiClient.get("/strategies"),
 
-  getConsensus: (symbol: string, timeframe: string) =>
-    apiClient.get(`/strategies/consensus/${symbol}`, { params: { timeframe } }),
+  // weights: "SMART_MONEY:2,MACD_RSI:0.5"; adaptive: weight by hit rate
+  getConsensus: (
+    symbol: string,
+    timeframe: string,
+    options?: { weights?: string; adaptive?: boolean },
+  ) =>
+    apiClient.get(`/strategies/consensus/${symbol}`, {
+      params: { timeframe, ...options },
+    }),
+
+  getPerformance: (symbol: string, timeframe: string) =>
+    apiClient.get(`/strategies/performance/${symbol}`, {
+      params: { timeframe },
+    }),
+
+  // Lowest timeframe is the entry; e.g. "15m,1h,4h,1d"
+  getMultiTimeframe: (
+    symbol: string,
+    timeframes?: string,
+    options?: { weights?: string; adaptive?: boolean },
+  ) =>
+    apiClient.get(`/strategies/mtf/${symbol}`, {
+      params: { timeframes, ...options },
+    }),
 
   analyzeWithStrategy: (symbol: string, strategy: string, timeframe: string) =>
     apiClient.get(`/strategies/analyze/${symbol}`, {
       params: { strategy, timeframe },
     }),
+  // Saved strategies with parameter overrides (schema comes from getAll)
+  getConfigs: () => apiClient.get("/strategies/configs"),
+
+  createConfig: (data: {
+    name: string;
+    type: string;
+    description?: string;
+    config?: Record<string, unknown>;
+    timeframes?: string[];
+  }) => apiClient.post("/strategies/configs", data),
+
+  updateConfig: (
+    id: string,
+    data: {
+      name?: string;
+      description?: string;
+      config?: Record<string, unknown>;
+      timeframes?: string[];
+      isActive?: boolean;
+    },
+  ) => apiClient.patch(`/strategies/configs/${id}`, data),
+
+  deleteConfig: (id: string) => apiClient.delete(`/strategies/configs/${id}`),
+
+  previewCustom: (
+    symbol: string,
+    timeframe: string,
+    definition: Record<string, unknown>,
+  ) =>
+    apiClient.post(`/strategies/custom/preview/${symbol}`, definition, {
+      params: { timeframe },
+    }),
 };
 
 // Signals API
@@ -175,6 +232,14 @@ export const signalsApi = {
 
   getStatistics: (cryptoSymbol?: string, days?: number) =>
     apiClient.get("/signals/statistics", { params: { cryptoSymbol, days } }),
+
+  // Recorded TP/SL/expiry outcomes grouped by strategy, symbol and timeframe
+  getPerformance: (params?: {
+    strategy?: string;
+    symbol?: string;
+    timeframe?: string;
+    days?: number;
+  }) => apiClient.get("/signals/performance", { params }),
 };
 
 // Alerts API
@@ -204,8 +269,15 @@ export const backtestingApi = {
 
   getById: (id: string) => apiClient.get(`/backtesting/${id}`),
 
+  getRobustness: (
+    id: string,
+    params?: { simulations?: number; ruinLossPercent?: number },
+  ) => apiClient.get(`/backtesting/${id}/robustness`, { params }),
+
   getAll: () => apiClient.get("/backtesting"),
 
+  cancel: (id: string) => apiClient.post(`/backtesting/${id}/cancel`),
+
   delete: (id: string) => apiClient.delete(`/backtesting/${id}`),
 };
 
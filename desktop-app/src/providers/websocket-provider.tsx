@@ -14,7 +14,7 @@ export function WebSocketProvider({ children }: { children: React.ReactNode }) {
   const [isConnected, setIsConnected] = useState(false);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const { accessToken, user } = useAuthStore();
-  const { updatePrice, addSignal, addAlert } = useMarketDataStore();
+  const { updatePrice, addSignal, updateSignal, addAlert } = useMarketDataStore();
   const reconnectAttemptRef = useRef(0);
 
   useEffect(() => {
@@ -137,6 +137,35 @@ export function WebSocketProvider({ children }: { children: React.ReactNode }) {
       }
     });
 
+    // Existing signal re-confirmed, invalidated or closed: no new notification
+    socket.on('signal:updated', (message) => {
+      const signal = message.data;
+      updateSignal(signal);
+
+      if (signal.status === 'INVALIDATED') {
+        toast.info(`Signal invalidated: ${signal.cryptoSymbol}`, {
+          description: signal.reason,
+          duration: 4000,
+        });
+      }
+    });
+
+    // Paper trade closed by its stop loss, take profit or trailing stop
+    socket.on('paper-trade:closed', (message) => {
+      const trade = message.data;
+      const reasons: Record<string, string> = {
+        SL: 'Stop loss',
+        TP: 'Take profit',
+        TRAILING: 'Trailing stop',
+      };
+      const notify = trade.pnl >= 0 ? toast.success : toast.error;
+
+      notify(`${reasons[trade.closeReason] ?? trade.closeReason}: ${trade.symbol}`, {
+        description: `${trade.side} ${trade.quantity} @ $${trade.exitPrice.toLocaleString()} (${trade.pnl >= 0 ? '+' : ''}$${trade.pnl.toFixed(2)}, ${trade.pnlPercent.toFixed(2)}%)`,
+        duration: 6000,
+      });
+    });
+
     socket.on('alert:triggered', (message) => {
       const alert = message.data;
       addAlert(alert);
@@ -17,6 +17,8 @@ interface Signal {
   confidence: number;
   reason: string;
   timestamp: number;
+  timeframe?: string;
+  status?: "NEW" | "ACTIVE" | "INVALIDATED" | "CLOSED";
 }
 
 interface Alert {
@@ -34,6 +36,7 @@ interface MarketDataState {
 
   updatePrice: (data: PriceData) => void;
   addSignal: (signal: Signal) => void;
+  updateSignal: (signal: Signal) => void;
   addAlert: (alert: Alert) => void;
   clearAlerts: () => void;
 }
@@ -55,6 +58,14 @@ export const useMarketDataStore = create<MarketDataState>((set) => ({
       signals: [signal, ...state.signals].slice(0, 50), // Keep last 50
     })),
 
+  // Replace a known signal in place; unknown ones are added
+  updateSignal: (signal) =>
+    set((state) => ({
+      signals: state.signals.some((s) => s.id === signal.id)
+        ? state.signals.map((s) => (s.id === signal.id ? signal : s))
+        : [signal, ...state.signals].slice(0, 50),
+    })),
+
   addAlert: (alert) =>
     set((state) => ({
       alerts: [alert, ...state.alerts].slice(0, 20), // Keep last 20